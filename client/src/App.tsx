@@ -15,9 +15,16 @@ import CreateCompany from "@/pages/create-company";
 import FoundersPage from "@/pages/founders";
 import ContractsPage from "@/pages/contracts";
 import InvestorsPage from "@/pages/investors";
+import CapTablePage from "@/pages/cap-table";
 import TasksPage from "@/pages/tasks";
 import ChatPage from "@/pages/chat";
 import IncorporationPage from "@/pages/incorporation";
+import DocumentPage from "@/pages/document";
+import SignPage from "@/pages/sign";
+import PacketPage from "@/pages/packet";
+import HostSigningPage from "@/pages/host-signing";
+import VerifyIdPage from "@/pages/verify-id";
+import FounderPortalPage from "@/pages/portal";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -45,9 +52,11 @@ function Router() {
           <Route path="/founders" component={FoundersPage} />
           <Route path="/contracts" component={ContractsPage} />
           <Route path="/investors" component={InvestorsPage} />
+          <Route path="/cap-table" component={CapTablePage} />
           <Route path="/tasks" component={TasksPage} />
           <Route path="/chat" component={ChatPage} />
           <Route path="/incorporation" component={IncorporationPage} />
+          <Route path="/documents/:id" component={DocumentPage} />
         </>
       )}
       <Route component={NotFound} />
@@ -101,7 +110,18 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="light" storageKey="incorporate-theme">
         <TooltipProvider>
-          <AuthenticatedLayout />
+          <Switch>
+            {/* Public pages render outside the app shell, signed in or not */}
+            <Route path="/sign/packet/:token" component={PacketPage} />
+            <Route path="/sign/:token" component={SignPage} />
+            <Route path="/verify-id/:token" component={VerifyIdPage} />
+            <Route path="/portal/:token" component={FounderPortalPage} />
+            {/* Full-screen so founders sharing the host device never see the rest of the app */}
+            <Route path="/host-signing/:id" component={HostSigningPage} />
+            <Route>
+              <AuthenticatedLayout />
+            </Route>
+          </Switch>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
@@ -8,6 +8,7 @@ import {
   MessageSquare,
   LayoutDashboard,
   Scale,
+  PieChart,
 } from "lucide-react";
 import {
   Sidebar,
@@ -47,6 +48,11 @@ const navigationItems = [
     url: "/investors",
     icon: TrendingUp,
   },
+  {
+    title: "Cap Table",
+    url: "/cap-table",
+    icon: PieChart,
+  },
   {
     title: "Incorporation",
     url: "/incorporation",
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getMissingVariables } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Document, TemplateVariable } from "@shared/schema";
+
+interface DraftDocumentButtonProps {
+  type: string;
+  title: string;
+  className?: string;
+}
+
+// Drafts a document from its template, asking for any details the company data doesn't cover
+export function DraftDocumentButton({ type, title, className = "" }: DraftDocumentButtonProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [missing, setMissing] = useState<TemplateVariable[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const draftMutation = useMutation({
+    mutationFn: async (draftValues: Record<string, string>) => {
+      return await apiRequest("POST", "/api/documents/draft-from-template", { type, values: draftValues });
+    },
+    onSuccess: (document: Document) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      setMissing([]);
+      setValues({});
+      toast({
+        title: "Draft ready",
+        description: `${document.title} was drafted from the template.`,
+      });
+    },
+    onError: (error: Error) => {
+      const missingVariables = getMissingVariables(error);
+      if (missingVariables) {
+        setMissing(missingVariables.missingVariables);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    draftMutation.mutate(values);
+  };
+
+  return (
+    <>
+      <Button
+        className={className}
+        onClick={() => draftMutation.mutate(values)}
+        disabled={draftMutation.isPending}
+        data-testid={`button-draft-${type}`}
+      >
+        {draftMutation.isPending ? "Drafting..." : `Draft ${title}`}
+      </Button>
+
+      <Dialog open={missing.length > 0} onOpenChange={(open) => !open && setMissing([])}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>A few more details</DialogTitle>
+            <DialogDescription>
+              We need these to fill in the {title} template
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {missing.map((variable) => (
+              <div key={variable.key} className="space-y-2">
+                <Label htmlFor={`variable-${variable.key}`}>{variable.label}</Label>
+                <Input
+                  id={`variable-${variable.key}`}
+                  type={variable.type === 'currency' || variable.type === 'number' || variable.type === 'percentage' ? "number" : "text"}
+                  value={values[variable.key] || ""}
+                  onChange={(e) => setValues({ ...values, [variable.key]: e.target.value })}
+                  required
+                  data-testid={`input-variable-${variable.key}`}
+                />
+              </div>
+            ))}
+            <Button type="submit" className="w-full" disabled={draftMutation.isPending} data-testid={`button-submit-draft-${type}`}>
+              {draftMutation.isPending ? "Drafting..." : "Draft Document"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
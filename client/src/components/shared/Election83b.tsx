@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { FileText, Mailbox, Paperclip } from "lucide-react";
+import type { Election83bSummary } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Scanned receipts are inlined as data URLs, so keep them comfortably under the request limit
+const MAX_PROOF_BYTES = 5 * 1024 * 1024;
+
+const mailedFormSchema = z.object({
+  mailedOn: z.string().min(1, "Pick the date it was mailed"),
+  trackingNumber: z.string().optional(),
+  proof: z.object({ fileName: z.string(), dataUrl: z.string() }, { required_error: "Attach the certified mail receipt" }),
+});
+
+type MailedFormData = z.infer<typeof mailedFormSchema>;
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function daysLeft(deadline: string): number {
+  const today = new Date().toISOString().slice(0, 10);
+  return Math.round((Date.parse(`${deadline}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function MarkMailedDialog({ election }: { election: Election83bSummary }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<MailedFormData>({
+    resolver: zodResolver(mailedFormSchema),
+    defaultValues: {
+      mailedOn: new Date().toISOString().slice(0, 10),
+      trackingNumber: "",
+    },
+  });
+
+  const mailedMutation = useMutation({
+    mutationFn: async (data: MailedFormData) => {
+      return await apiRequest("POST", `/api/83b-elections/${election.id}/mailed`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/83b-elections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "83(b) marked as mailed",
+        description: "The proof of mailing is saved with the election.",
+      });
+      setOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const attach = async (file: File | undefined) => {
+    if (!file) {
+      form.setValue("proof", undefined as any);
+      return;
+    }
+    if (file.size > MAX_PROOF_BYTES) {
+      form.setError("proof", { message: "The file must be 5 MB or smaller" });
+      return;
+    }
+    form.setValue("proof", { fileName: file.name, dataUrl: await readAsDataUrl(file) }, { shouldValidate: true });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-83b-mailed-${election.id}`}>
+          <Mailbox className="h-4 w-4 mr-2" />
+          Mark Mailed
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark 83(b) as Mailed</DialogTitle>
+          <DialogDescription>
+            Attach the certified mail receipt as proof the election reached the IRS in time
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => mailedMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="mailedOn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mailed On</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-83b-mailed-on" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="trackingNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tracking Number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} value={field.value || ""} data-testid="input-83b-tracking" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="proof"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Proof of Mailing</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="file"
+                      accept="application/pdf,image/png,image/jpeg"
+                      onChange={event => void attach(event.target.files?.[0])}
+                      data-testid="input-83b-proof"
+                    />
+                  </FormControl>
+                  <FormDescription>PDF, PNG or JPEG of the stamped certified mail receipt</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={mailedMutation.isPending} data-testid="button-submit-83b-mailed">
+              {mailedMutation.isPending ? "Saving..." : "Mark Mailed"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Where a founder's 83(b) election stands, counting down to the deadline until it is mailed
+export function Election83bStatus({ election }: { election: Election83bSummary }) {
+  const [, setLocation] = useLocation();
+  const remaining = daysLeft(election.deadline);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`election-83b-${election.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">83(b) Election</span>
+        {election.status === 'mailed' ? (
+          <Badge variant="secondary">Mailed {formatDate(election.mailedOn!)}</Badge>
+        ) : election.status === 'missed' ? (
+          <Badge variant="destructive">Window missed</Badge>
+        ) : remaining < 0 ? (
+          <Badge variant="destructive">Deadline passed</Badge>
+        ) : (
+          <Badge variant={remaining <= 7 ? "destructive" : "outline"}>
+            {remaining === 0 ? "Due today" : `${remaining} day${remaining === 1 ? '' : 's'} left`}
+          </Badge>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {election.shares.toLocaleString()} shares issued {formatDate(election.transferDate)}; due {formatDate(election.deadline)}
+        {election.trackingNumber && ` · Tracking ${election.trackingNumber}`}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {election.documentId && (
+          <Button variant="ghost" size="sm" onClick={() => setLocation(`/documents/${election.documentId}`)} data-testid={`button-83b-document-${election.id}`}>
+            <FileText className="h-4 w-4 mr-2" />
+            Election
+          </Button>
+        )}
+        {election.status === 'mailed' ? (
+          <Button variant="ghost" size="sm" asChild>
+            <a href={`/api/83b-elections/${election.id}/proof`} data-testid={`link-83b-proof-${election.id}`}>
+              <Paperclip className="h-4 w-4 mr-2" />
+              Proof
+            </a>
+          </Button>
+        ) : (
+          <MarkMailedDialog election={election} />
+        )}
+      </div>
+    </div>
+  );
+}
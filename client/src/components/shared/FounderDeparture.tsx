@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, LogOut } from "lucide-react";
+import type { DepartureReason, Document, FounderDeparture, FounderWithVesting, VestingStatus } from "@shared/schema";
+
+const reasonLabels: Record<DepartureReason, string> = {
+  resignation: "Resignation",
+  termination_without_cause: "Terminated without cause",
+  termination_for_cause: "Terminated for cause",
+};
+
+// Unassigned tasks go to whoever leads the company after the departure
+const DEFAULT_ASSIGNEE = "default";
+
+const departureFormSchema = z.object({
+  departureDate: z.string().min(1, "Pick the departure date"),
+  reason: z.enum(['resignation', 'termination_without_cause', 'termination_for_cause']),
+  reassignToFounderId: z.string(),
+  pricePerShare: z.string().regex(/^(\d+(\.\d{1,6})?)?$/, "Enter a price like 0.0001").optional(),
+});
+
+type DepartureFormData = z.infer<typeof departureFormSchema>;
+
+function founderLabel(founder: FounderWithVesting): string {
+  return founder.firstName && founder.lastName ? `${founder.firstName} ${founder.lastName}` : founder.email;
+}
+
+export function FounderDepartureDialog({ founder, founders }: { founder: FounderWithVesting; founders: FounderWithVesting[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const staying = founders.filter(f => f.id !== founder.id && f.status !== 'departed');
+
+  const form = useForm<DepartureFormData>({
+    resolver: zodResolver(departureFormSchema),
+    defaultValues: {
+      departureDate: new Date().toISOString().slice(0, 10),
+      reason: 'resignation',
+      reassignToFounderId: DEFAULT_ASSIGNEE,
+      pricePerShare: "",
+    },
+  });
+
+  // What the departure date does to the founder's vesting, before anything is drafted
+  const departureDate = form.watch("departureDate");
+  const { data: preview } = useQuery<VestingStatus>({
+    queryKey: ["/api/founders", founder.id, `vesting?asOf=${departureDate}&terminationDate=${departureDate}`],
+    enabled: open && !!founder.vestingGrant && /^\d{4}-\d{2}-\d{2}$/.test(departureDate),
+  });
+
+  const departMutation = useMutation({
+    mutationFn: async (data: DepartureFormData) => {
+      return await apiRequest("POST", `/api/founders/${founder.id}/departure`, {
+        departureDate: data.departureDate,
+        reason: data.reason,
+        reassignToFounderId: data.reassignToFounderId === DEFAULT_ASSIGNEE ? undefined : data.reassignToFounderId,
+        pricePerShare: data.pricePerShare || undefined,
+      });
+    },
+    onSuccess: (result: { departure: FounderDeparture; documents: Document[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/founder-departures"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: "Departure started",
+        description: "Review and send the repurchase notice and separation agreement for signature.",
+      });
+      setOpen(false);
+      setLocation(`/documents/${result.documents[0].id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't start the departure",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid={`button-depart-${founder.id}`}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Offboard
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offboard {founderLabel(founder)}</DialogTitle>
+          <DialogDescription>
+            Vesting stops on the departure date. The company buys back the unvested shares once the repurchase notice and separation agreement are signed and active.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => departMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="departureDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Departure Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-departure-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-departure-reason">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(reasonLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {preview && (
+              <div className="rounded-md border p-3 text-sm" data-testid="departure-vesting-preview">
+                <p>
+                  <span className="font-medium">{preview.vestedShares.toLocaleString()}</span> vested,{" "}
+                  <span className="font-medium">{preview.unvestedShares.toLocaleString()}</span> unvested to be repurchased
+                </p>
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="reassignToFounderId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reassign Tasks To</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-departure-reassign">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_ASSIGNEE}>The CEO / President</SelectItem>
+                      {staying.map(f => (
+                        <SelectItem key={f.id} value={f.id}>{founderLabel(f)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="pricePerShare"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repurchase Price per Share</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Original purchase price" {...field} value={field.value || ""} data-testid="input-departure-price" />
+                  </FormControl>
+                  <FormDescription>Leave blank to repurchase at the price the founder paid</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={departMutation.isPending || staying.length === 0} data-testid="button-submit-departure">
+              {departMutation.isPending ? "Drafting..." : "Draft Departure Documents"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// An in-progress departure waits on its two documents; a completed one shows what was bought back
+export function DepartureStatus({ departure }: { departure: FounderDeparture }) {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`departure-${departure.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">Departure</span>
+        <Badge variant={departure.status === 'completed' ? "secondary" : "outline"}>
+          {departure.status === 'completed' ? "Completed" : "Awaiting signatures"}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Left {new Date(`${departure.departureDate}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+        {" · "}{departure.vestedShares.toLocaleString()} vested
+        {" · "}{departure.repurchaseShares.toLocaleString()} {departure.status === 'completed' ? "repurchased" : "to repurchase"}
+      </p>
+      {departure.status !== 'completed' && (
+        <div className="flex flex-wrap gap-2">
+          {departure.noticeDocumentId && (
+            <Button variant="ghost" size="sm" onClick={() => setLocation(`/documents/${departure.noticeDocumentId}`)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Notice
+            </Button>
+          )}
+          {departure.agreementDocumentId && (
+            <Button variant="ghost" size="sm" onClick={() => setLocation(`/documents/${departure.agreementDocumentId}`)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Agreement
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
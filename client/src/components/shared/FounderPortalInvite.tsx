@@ -0,0 +1,44 @@
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Send } from "lucide-react";
+import type { FounderWithVesting } from "@shared/schema";
+
+// Emails the founder a new link to their portal; the previous link stops working
+export function FounderPortalInviteButton({ founder }: { founder: FounderWithVesting }) {
+  const { toast } = useToast();
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/founders/${founder.id}/portal-link`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation sent",
+        description: `${founder.email} has been emailed a new link to their founder portal.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the invitation",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => inviteMutation.mutate()}
+      disabled={inviteMutation.isPending}
+      data-testid={`button-resend-invite-${founder.id}`}
+    >
+      <Send className="h-4 w-4 mr-2" />
+      Resend Invite
+    </Button>
+  );
+}
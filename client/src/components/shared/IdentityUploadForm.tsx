@@ -0,0 +1,115 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck } from "lucide-react";
+import type { IdentityDocumentKind, IdentityUploadInput } from "@shared/schema";
+
+export const documentKindLabels: Record<IdentityDocumentKind, string> = {
+  passport: "Passport",
+  national_id: "National ID card",
+  drivers_license: "Driver's license",
+};
+
+// Uploads are inlined as data URLs; the server enforces the same limit on the decoded file
+const MAX_ID_BYTES = 5 * 1024 * 1024;
+
+const uploadFormSchema = z.object({
+  documentKind: z.enum(['passport', 'national_id', 'drivers_license']),
+  file: z.object({ fileName: z.string(), dataUrl: z.string() }, { required_error: "Choose a photo or scan of your ID" }),
+});
+
+type UploadFormData = z.infer<typeof uploadFormSchema>;
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Document kind and file picker for a founder's government ID
+export function IdentityUploadForm({ onSubmit, isPending }: { onSubmit: (input: IdentityUploadInput) => void; isPending: boolean }) {
+  const form = useForm<UploadFormData>({
+    resolver: zodResolver(uploadFormSchema),
+    defaultValues: { documentKind: 'passport' },
+  });
+
+  const attach = async (file: File | undefined) => {
+    if (!file) {
+      form.setValue("file", undefined as any);
+      return;
+    }
+    if (file.size > MAX_ID_BYTES) {
+      form.setError("file", { message: "The file must be 5 MB or smaller" });
+      return;
+    }
+    form.setValue("file", { fileName: file.name, dataUrl: await readAsDataUrl(file) }, { shouldValidate: true });
+  };
+
+  const submit = (data: UploadFormData) => {
+    onSubmit({ documentKind: data.documentKind, fileName: data.file.fileName, dataUrl: data.file.dataUrl });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(submit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="documentKind"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Document</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-id-kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(documentKindLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="file"
+            render={() => (
+              <FormItem>
+                <FormLabel>File</FormLabel>
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept="application/pdf,image/png,image/jpeg"
+                    onChange={event => void attach(event.target.files?.[0])}
+                    data-testid="input-id-file"
+                  />
+                </FormControl>
+                <FormDescription>PDF, PNG or JPEG, up to 5 MB</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={isPending} data-testid="button-upload-id">
+            {isPending ? "Uploading..." : "Upload ID"}
+          </Button>
+        </form>
+      </Form>
+      <p className="flex items-start gap-2 text-xs text-muted-foreground">
+        <ShieldCheck className="h-4 w-4 shrink-0" />
+        Your ID is encrypted at rest, only seen by the company's owner, and deleted after it has been reviewed.
+      </p>
+    </div>
+  );
+}
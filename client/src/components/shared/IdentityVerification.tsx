@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle2, ExternalLink, IdCard, XCircle } from "lucide-react";
+import { documentKindLabels } from "@/components/shared/IdentityUploadForm";
+import type { FounderWithVesting, IdentityReviewInput, IdentityVerificationSummary } from "@shared/schema";
+
+function founderLabel(founder: FounderWithVesting | undefined): string {
+  if (!founder) return "Unknown founder";
+  return founder.firstName && founder.lastName ? `${founder.firstName} ${founder.lastName}` : founder.email;
+}
+
+function useInvalidateIdentity() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/identity-verifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/founders"] });
+  };
+}
+
+// Emails the founder a magic link to upload their ID; sending again replaces the old link
+export function IdentityRequestButton({ founder, latest }: { founder: FounderWithVesting; latest?: IdentityVerificationSummary }) {
+  const { toast } = useToast();
+  const invalidate = useInvalidateIdentity();
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/founders/${founder.id}/identity-request`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "ID requested",
+        description: `${founderLabel(founder)} has been emailed a link to upload their ID.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't request the ID",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (founder.idUploaded || latest?.status === 'submitted') {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => requestMutation.mutate()}
+      disabled={requestMutation.isPending}
+      data-testid={`button-request-id-${founder.id}`}
+    >
+      <IdCard className="h-4 w-4 mr-2" />
+      {latest?.status === 'requested' ? "Resend ID Link" : "Request ID"}
+    </Button>
+  );
+}
+
+function RejectDialog({ verification, onReview, isPending }: {
+  verification: IdentityVerificationSummary;
+  onReview: (input: IdentityReviewInput) => void;
+  isPending: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-reject-id-${verification.id}`}>
+          <XCircle className="h-4 w-4 mr-2" />
+          Reject
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject ID</DialogTitle>
+          <DialogDescription>
+            The founder sees this reason on their upload page and in the next request
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`reject-note-${verification.id}`}>Reason</Label>
+          <Textarea
+            id={`reject-note-${verification.id}`}
+            placeholder="The photo is blurry and the expiry date can't be read"
+            value={note}
+            onChange={event => setNote(event.target.value)}
+            data-testid="input-reject-id-note"
+          />
+        </div>
+        <Button
+          variant="destructive"
+          className="w-full"
+          disabled={isPending || !note.trim()}
+          onClick={() => onReview({ decision: 'reject', note: note.trim() })}
+          data-testid="button-submit-reject-id"
+        >
+          Reject ID
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReviewItem({ verification, founder }: { verification: IdentityVerificationSummary; founder?: FounderWithVesting }) {
+  const { toast } = useToast();
+  const invalidate = useInvalidateIdentity();
+  const result = verification.providerResult;
+
+  const reviewMutation = useMutation({
+    mutationFn: async (input: IdentityReviewInput) => {
+      return await apiRequest("POST", `/api/identity-verifications/${verification.id}/review`, input);
+    },
+    onSuccess: (_data, input) => {
+      invalidate();
+      toast({
+        title: input.decision === 'approve' ? "ID approved" : "ID rejected",
+        description: input.decision === 'approve'
+          ? `${founderLabel(founder)} is now verified.`
+          : "Request a new upload from the founder's card when they're ready.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save the review",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`identity-review-${verification.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{founderLabel(founder)}</span>
+        {result && (
+          <Badge variant={result.outcome === 'clear' ? "secondary" : "outline"}>
+            {result.outcome === 'clear' ? "Checks passed" : "Needs a closer look"}
+          </Badge>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {verification.documentKind && documentKindLabels[verification.documentKind]}
+        {verification.submittedAt && ` · Uploaded ${new Date(verification.submittedAt).toLocaleDateString()}`}
+      </p>
+      {result && result.checks.some(check => !check.passed) && (
+        <ul className="text-xs text-muted-foreground list-disc pl-4">
+          {result.checks.filter(check => !check.passed).map(check => (
+            <li key={check.name}>{check.detail || check.name}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="ghost" size="sm" asChild>
+          <a href={`/api/identity-verifications/${verification.id}/file`} target="_blank" rel="noreferrer" data-testid={`link-view-id-${verification.id}`}>
+            <ExternalLink className="h-4 w-4 mr-2" />
+            View ID
+          </a>
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => reviewMutation.mutate({ decision: 'approve' })}
+          disabled={reviewMutation.isPending}
+          data-testid={`button-approve-id-${verification.id}`}
+        >
+          <CheckCircle2 className="h-4 w-4 mr-2" />
+          Approve
+        </Button>
+        <RejectDialog verification={verification} onReview={input => reviewMutation.mutate(input)} isPending={reviewMutation.isPending} />
+      </div>
+    </div>
+  );
+}
+
+// Uploaded IDs waiting for the owner's decision; hidden when there are none
+export function IdentityReviewQueue({ verifications, founders }: { verifications: IdentityVerificationSummary[]; founders: FounderWithVesting[] }) {
+  const pending = verifications.filter(v => v.status === 'submitted');
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="identity-review-queue">
+      <CardHeader>
+        <CardTitle className="text-card-title flex items-center gap-2">
+          <IdCard className="h-5 w-5 text-primary" />
+          IDs to Review
+        </CardTitle>
+        <CardDescription>
+          Check each document against the founder's legal name. Files are deleted a few days after your decision.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-3 md:grid-cols-2">
+        {pending.map(verification => (
+          <ReviewItem
+            key={verification.id}
+            verification={verification}
+            founder={founders.find(f => f.id === verification.founderId)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
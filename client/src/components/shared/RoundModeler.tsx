@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Calculator, Save } from "lucide-react";
+import type { ModeledHolding, RoundModelInput, RoundModelResult, RoundScenario, SafeConversionBasis } from "@shared/schema";
+
+const formSchema = z.object({
+  preMoneyValuation: z.coerce.number().positive("Pre-money valuation must be greater than 0"),
+  newMoney: z.coerce.number().positive("New money must be greater than 0"),
+  optionPoolPercent: z.coerce.number().min(0).max(50, "Option pool cannot exceed 50%"),
+});
+
+const basisLabels: Record<SafeConversionBasis, string> = {
+  valuation_cap: "Cap",
+  discount: "Discount",
+  round_price: "Round price",
+};
+
+const formatDollars = (amount: number) => `$${Math.round(amount).toLocaleString()}`;
+const formatPrice = (price: number) => `$${price.toFixed(4)}`;
+
+// Post-round ownership rolled up into the groups people compare scenarios by
+function ownershipByGroup(capTable: ModeledHolding[]) {
+  const total = (types: string[], include: boolean) => capTable
+    .filter(h => types.includes(h.holderType) === include)
+    .reduce((sum, h) => sum + h.ownershipAfter, 0);
+
+  return [
+    { label: "Existing holders", percent: total(['option_pool', 'safe', 'new_money'], false) },
+    { label: "Option pool", percent: total(['option_pool'], true) },
+    { label: "SAFE investors", percent: total(['safe'], true) },
+    { label: "New investors", percent: total(['new_money'], true) },
+  ];
+}
+
+// "Model a round": convert the SAFEs and price a round against today's cap table, then save and compare scenarios
+export function RoundModeler() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [result, setResult] = useState<RoundModelResult | null>(null);
+  const [scenarioName, setScenarioName] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const { data: scenarios = [] } = useQuery<RoundScenario[]>({
+    queryKey: ["/api/financing/scenarios"],
+  });
+
+  const form = useForm<RoundModelInput>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      preMoneyValuation: "" as any, // Will be coerced to number
+      newMoney: "" as any,
+      optionPoolPercent: 10,
+    },
+  });
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const modelMutation = useMutation({
+    mutationFn: async (inputs: RoundModelInput) => {
+      return await apiRequest("POST", "/api/financing/model", inputs);
+    },
+    onSuccess: (modeled: RoundModelResult) => {
+      setResult(modeled);
+    },
+    onError: handleError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RoundModelInput & { name: string }) => {
+      return await apiRequest("POST", "/api/financing/scenarios", data);
+    },
+    onSuccess: (scenario: RoundScenario) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/financing/scenarios"] });
+      setScenarioName("");
+      setCompareIds(ids => [...ids, scenario.id]);
+      toast({
+        title: "Scenario saved",
+        description: `"${scenario.name}" is ready to compare.`,
+      });
+    },
+    onError: handleError,
+  });
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds(ids => checked ? [...ids, id] : ids.filter(existing => existing !== id));
+  };
+
+  const compared = scenarios.filter(s => compareIds.includes(s.id));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-card-title">Model a Round</CardTitle>
+          <CardDescription>
+            Convert every SAFE and price a round against the current cap table
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((inputs) => modelMutation.mutate(inputs))} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="preMoneyValuation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pre-money Valuation ($)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="20000000" {...field} value={field.value ?? ""} data-testid="input-pre-money" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="newMoney"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Money ($)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="5000000" {...field} value={field.value ?? ""} data-testid="input-new-money" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="optionPoolPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Option Pool (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="10" {...field} value={field.value ?? ""} data-testid="input-option-pool" />
+                      </FormControl>
+                      <FormDescription>Post-money, topped up before the round</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <Button type="submit" disabled={modelMutation.isPending} data-testid="button-model-round">
+                <Calculator className="h-4 w-4 mr-2" />
+                {modelMutation.isPending ? "Modeling..." : "Model Round"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid gap-6 md:grid-cols-4">
+            {[
+              { label: "Price per Share", value: formatPrice(result.pricePerShare), testId: "model-price" },
+              { label: "Post-money", value: formatDollars(result.postMoneyValuation), testId: "model-post-money" },
+              { label: "Fully Diluted Shares", value: result.fullyDilutedShares.toLocaleString(), testId: "model-fully-diluted" },
+              { label: "Pool Top-up", value: `${result.poolTopUpShares.toLocaleString()} shares`, testId: "model-pool-top-up" },
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">{stat.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold" data-testid={stat.testId}>{stat.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {result.warnings.length > 0 && (
+            <Card data-testid="model-warnings">
+              <CardContent className="space-y-2 p-6">
+                {result.warnings.map(warning => (
+                  <p key={warning} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-600" />
+                    {warning}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title">SAFE Conversions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.safes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No outstanding SAFEs convert in this round.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Investor</TableHead>
+                      <TableHead className="text-right">Invested</TableHead>
+                      <TableHead className="text-right">Conversion Price</TableHead>
+                      <TableHead>Priced By</TableHead>
+                      <TableHead className="text-right">Shares</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.safes.map(safe => (
+                      <TableRow key={safe.investorId} data-testid={`model-safe-${safe.investorId}`}>
+                        <TableCell className="font-medium">{safe.investorName}</TableCell>
+                        <TableCell className="text-right">{formatDollars(safe.amount)}</TableCell>
+                        <TableCell className="text-right">{formatPrice(safe.conversionPrice)}</TableCell>
+                        <TableCell>{basisLabels[safe.basis]}</TableCell>
+                        <TableCell className="text-right">{safe.shares.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title">Cap Table After the Round</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holder</TableHead>
+                    <TableHead className="text-right">Shares Before</TableHead>
+                    <TableHead className="text-right">Ownership Before</TableHead>
+                    <TableHead className="text-right">Shares After</TableHead>
+                    <TableHead className="text-right">Fully Diluted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.capTable.map((holding, index) => (
+                    <TableRow key={`${holding.holderName}-${index}`}>
+                      <TableCell className="font-medium">{holding.holderName}</TableCell>
+                      <TableCell className="text-right">{holding.sharesBefore.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{holding.ownershipBefore.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{holding.sharesAfter.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{holding.ownershipAfter.toFixed(2)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="flex flex-wrap items-center gap-3 p-6">
+              <Input
+                className="max-w-sm"
+                placeholder="Scenario name, e.g. Series A at $20M"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                data-testid="input-scenario-name"
+              />
+              <Button
+                variant="outline"
+                onClick={() => saveMutation.mutate({ ...result.inputs, name: scenarioName })}
+                disabled={!scenarioName.trim() || saveMutation.isPending}
+                data-testid="button-save-scenario"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save Scenario"}
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {scenarios.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-card-title">Saved Scenarios</CardTitle>
+            <CardDescription>
+              Pick scenarios to compare. Each is a snapshot of the cap table on the day it was saved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              {scenarios.map(scenario => (
+                <label key={scenario.id} className="flex items-center gap-3 text-sm" data-testid={`scenario-${scenario.id}`}>
+                  <Checkbox
+                    checked={compareIds.includes(scenario.id)}
+                    onCheckedChange={(checked) => toggleCompare(scenario.id, checked === true)}
+                  />
+                  <span className="font-medium">{scenario.name}</span>
+                  <span className="text-muted-foreground">
+                    {formatDollars(scenario.inputs.preMoneyValuation)} pre · {formatDollars(scenario.inputs.newMoney)} raised
+                    {scenario.createdAt && ` · ${new Date(scenario.createdAt).toLocaleDateString()}`}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {compared.length > 0 && (
+              <Table data-testid="scenario-comparison">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {compared.map(scenario => (
+                      <TableHead key={scenario.id} className="text-right">{scenario.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[
+                    { label: "Pre-money", value: (r: RoundModelResult) => formatDollars(r.inputs.preMoneyValuation) },
+                    { label: "New money", value: (r: RoundModelResult) => formatDollars(r.inputs.newMoney) },
+                    { label: "Post-money", value: (r: RoundModelResult) => formatDollars(r.postMoneyValuation) },
+                    { label: "Price per share", value: (r: RoundModelResult) => formatPrice(r.pricePerShare) },
+                    { label: "SAFE shares", value: (r: RoundModelResult) => r.safeShares.toLocaleString() },
+                    { label: "Fully diluted shares", value: (r: RoundModelResult) => r.fullyDilutedShares.toLocaleString() },
+                  ].map(row => (
+                    <TableRow key={row.label}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      {compared.map(scenario => (
+                        <TableCell key={scenario.id} className="text-right">{row.value(scenario.result)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  {ownershipByGroup(compared[0].result.capTable).map((group, index) => (
+                    <TableRow key={group.label}>
+                      <TableCell className="font-medium">{group.label}</TableCell>
+                      {compared.map(scenario => (
+                        <TableCell key={scenario.id} className="text-right">
+                          {ownershipByGroup(scenario.result.capTable)[index].percent.toFixed(2)}%
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SignaturePad } from "@/components/shared/SignaturePad";
+import type { SignatureSubmission } from "@shared/schema";
+
+interface SignatureFormProps {
+  onSign: (submission: SignatureSubmission) => void;
+  onDecline: (reason: string) => void;
+  isSigning: boolean;
+  isDeclining: boolean;
+  signLabel?: string;
+}
+
+// Typed or drawn signature with e-signature consent, plus a decline dialog
+export function SignatureForm({ onSign, onDecline, isSigning, isDeclining, signLabel = "Sign Document" }: SignatureFormProps) {
+  const [method, setMethod] = useState<SignatureSubmission['method']>('typed');
+  const [typedName, setTypedName] = useState("");
+  const [drawnSignature, setDrawnSignature] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
+  const [declineOpen, setDeclineOpen] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const signatureValue = method === 'typed' ? typedName.trim() : drawnSignature;
+  const canSign = !!signatureValue && consent && !isSigning;
+
+  const handleSign = () => {
+    if (!signatureValue || !consent) return;
+    onSign({ method, signature: signatureValue, consent: true });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={method} onValueChange={(value) => setMethod(value as SignatureSubmission['method'])}>
+        <TabsList>
+          <TabsTrigger value="typed" data-testid="tab-typed">Type</TabsTrigger>
+          <TabsTrigger value="drawn" data-testid="tab-drawn">Draw</TabsTrigger>
+        </TabsList>
+        <TabsContent value="typed" className="space-y-3">
+          <Label htmlFor="typed-name">Full legal name</Label>
+          <Input
+            id="typed-name"
+            value={typedName}
+            onChange={(e) => setTypedName(e.target.value)}
+            placeholder="Jane Doe"
+            data-testid="input-typed-signature"
+          />
+          {typedName.trim() && (
+            <p className="border-b border-border pb-1 font-serif text-3xl italic">{typedName}</p>
+          )}
+        </TabsContent>
+        <TabsContent value="drawn">
+          <SignaturePad onChange={setDrawnSignature} />
+        </TabsContent>
+      </Tabs>
+
+      <label className="flex items-start gap-3 text-sm">
+        <Checkbox
+          checked={consent}
+          onCheckedChange={(checked) => setConsent(checked === true)}
+          className="mt-0.5"
+          data-testid="checkbox-consent"
+        />
+        <span>
+          I agree to sign this document electronically, and that my electronic signature is as legally binding as a handwritten one.
+        </span>
+      </label>
+
+      <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button variant="outline" onClick={() => setDeclineOpen(true)} data-testid="button-decline">
+          Decline
+        </Button>
+        <Button onClick={handleSign} disabled={!canSign} data-testid="button-sign">
+          {isSigning ? "Signing..." : signLabel}
+        </Button>
+      </div>
+
+      <Dialog open={declineOpen} onOpenChange={setDeclineOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Decline to sign</DialogTitle>
+            <DialogDescription>Let the sender know what needs to change</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={declineReason}
+            onChange={(e) => setDeclineReason(e.target.value)}
+            placeholder="e.g. The vesting schedule does not match what we agreed"
+            className="min-h-[120px]"
+            data-testid="textarea-decline-reason"
+          />
+          <Button
+            variant="destructive"
+            className="w-full"
+            onClick={() => onDecline(declineReason)}
+            disabled={!declineReason.trim() || isDeclining}
+            data-testid="button-confirm-decline"
+          >
+            {isDeclining ? "Declining..." : "Decline to Sign"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
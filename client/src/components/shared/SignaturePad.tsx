@@ -0,0 +1,86 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  className?: string;
+}
+
+const WIDTH = 500;
+const HEIGHT = 160;
+
+// Freehand signature capture; reports a PNG data URL after each stroke
+export function SignaturePad({ onChange, className = "" }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(event);
+    context.lineWidth = 2.5;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!drawing.current || !context) return;
+
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+    hasInk.current = true;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    if (hasInk.current && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL("image/png"));
+    }
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, WIDTH, HEIGHT);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-full touch-none rounded-md border border-border bg-white cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        data-testid="signature-pad"
+      />
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={clear} data-testid="button-clear-signature">
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
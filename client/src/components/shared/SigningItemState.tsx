@@ -0,0 +1,18 @@
+import { CheckCircle2, Circle, Clock, XCircle } from "lucide-react";
+import type { PacketItemState } from "@shared/schema";
+
+export const signingStateLabels: Record<PacketItemState, string> = {
+  ready: "Ready to sign",
+  waiting: "Waiting for earlier signers",
+  signed: "Signed",
+  declined: "Declined",
+  closed: "No longer collecting signatures",
+};
+
+// Where one signature stands in a multi-step signing flow
+export function SigningStateIcon({ state }: { state: PacketItemState }) {
+  if (state === 'signed') return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />;
+  if (state === 'declined') return <XCircle className="h-4 w-4 shrink-0 text-destructive" />;
+  if (state === 'waiting') return <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  return <Circle className="h-4 w-4 shrink-0 text-primary" />;
+}
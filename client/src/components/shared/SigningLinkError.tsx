@@ -0,0 +1,52 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { getErrorMessage, getSigningTokenError } from "@/lib/documentUtils";
+import { Scale, XCircle } from "lucide-react";
+import type { SigningTokenErrorCode } from "@shared/schema";
+
+const TOKEN_ERROR_TITLES: Record<SigningTokenErrorCode, string> = {
+  not_found: "This signing link is not valid",
+  expired: "This signing link has expired",
+  revoked: "This signing link was revoked",
+  used: "This signature request is complete",
+};
+
+// Minimal header for the public signing pages, which render outside the app layout
+export function SigningHeader() {
+  return (
+    <header className="border-b border-border">
+      <div className="mx-auto flex max-w-5xl items-center gap-2 px-6 py-4">
+        <Scale className="h-5 w-5 text-primary" />
+        <span className="font-semibold">corporation.run</span>
+      </div>
+    </header>
+  );
+}
+
+interface SigningLinkErrorProps {
+  error: Error | null;
+  fallback: string;
+}
+
+// Full-page explanation for a magic link that can't be used
+export function SigningLinkError({ error, fallback }: SigningLinkErrorProps) {
+  const tokenError = error ? getSigningTokenError(error) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SigningHeader />
+      <div className="mx-auto max-w-xl p-8">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+            <XCircle className="h-12 w-12 text-muted-foreground mb-4" />
+            <h2 className="text-section font-semibold mb-2" data-testid="text-sign-error-title">
+              {TOKEN_ERROR_TITLES[tokenError?.code || 'not_found']}
+            </h2>
+            <p className="text-muted-foreground" data-testid="text-sign-error">
+              {error ? getErrorMessage(error) : fallback}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, Clock, AlertCircle, Send } from "lucide-react";
+import { CheckCircle2, Clock, AlertCircle, Send, XCircle, LogOut } from "lucide-react";
 
-type StatusType = 'drafting' | 'validating' | 'signing' | 'active' | 'pending' | 'sent' | 'signed' | 'invited' | 'pending_signature' | 'in_progress' | 'completed';
+type StatusType = 'drafting' | 'validating' | 'signing' | 'active' | 'pending' | 'sent' | 'signed' | 'declined' | 'invited' | 'pending_signature' | 'in_progress' | 'completed' | 'departed';
 
 interface StatusBadgeProps {
   status: StatusType;
@@ -44,6 +44,11 @@ const statusConfig: Record<StatusType, { label: string; variant: "default" | "se
     variant: "default",
     icon: <CheckCircle2 className="h-3 w-3 text-green-600" />
   },
+  declined: {
+    label: "Declined",
+    variant: "destructive",
+    icon: <XCircle className="h-3 w-3" />
+  },
   invited: {
     label: "Invited",
     variant: "secondary",
@@ -64,6 +69,11 @@ const statusConfig: Record<StatusType, { label: string; variant: "default" | "se
     variant: "default",
     icon: <CheckCircle2 className="h-3 w-3 text-green-600" />
   },
+  departed: {
+    label: "Departed",
+    variant: "secondary",
+    icon: <LogOut className="h-3 w-3" />
+  },
 };
 
 export function StatusBadge({ status, className = "" }: StatusBadgeProps) {
@@ -0,0 +1,94 @@
+import { Badge } from "@/components/ui/badge";
+import { XCircle, AlertTriangle, Lightbulb, CheckCircle2 } from "lucide-react";
+import type { ValidationCategory, ValidationReport, ValidationSeverity } from "@shared/schema";
+
+interface ValidationChecklistProps {
+  report: ValidationReport;
+  className?: string;
+}
+
+const severityConfig: Record<ValidationSeverity, { label: string; variant: "default" | "secondary" | "destructive" | "outline"; icon: React.ReactNode }> = {
+  blocker: {
+    label: "Blocker",
+    variant: "destructive",
+    icon: <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+  },
+  warning: {
+    label: "Warning",
+    variant: "outline",
+    icon: <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+  },
+  suggestion: {
+    label: "Suggestion",
+    variant: "secondary",
+    icon: <Lightbulb className="h-4 w-4 text-muted-foreground" />
+  },
+};
+
+const categoryLabels: Record<ValidationCategory, string> = {
+  missing_clause: "Missing clause",
+  inconsistency: "Inconsistency",
+  jurisdiction_compliance: "Jurisdiction compliance",
+  best_practice: "Best practice",
+};
+
+const severityOrder: ValidationSeverity[] = ['blocker', 'warning', 'suggestion'];
+
+export function ValidationChecklist({ report, className = "" }: ValidationChecklistProps) {
+  const findings = [...report.findings].sort(
+    (a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity)
+  );
+
+  return (
+    <div className={`space-y-3 ${className}`} data-testid="validation-checklist">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Validation findings</span>
+        <span className="text-muted-foreground">
+          Checked {new Date(report.validatedAt).toLocaleString()}
+        </span>
+      </div>
+
+      {findings.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <span>No issues found</span>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {findings.map((finding, index) => {
+            const config = severityConfig[finding.severity];
+
+            return (
+              <li key={index} className="flex items-start gap-3 text-sm" data-testid={`validation-finding-${index}`}>
+                <span className="mt-0.5">{config.icon}</span>
+                <div className="flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={config.variant}>{config.label}</Badge>
+                    <span className="text-xs text-muted-foreground">{categoryLabels[finding.category]}</span>
+                    {finding.source && (
+                      <span className="text-xs text-muted-foreground">
+                        · {finding.source === 'rules' ? "Rule check" : "AI review"}
+                      </span>
+                    )}
+                  </div>
+                  <p>{finding.message}</p>
+                  {finding.quote && (
+                    <blockquote className="border-l-2 border-border pl-3 font-mono text-xs text-muted-foreground">
+                      {finding.quote}
+                    </blockquote>
+                  )}
+                  {finding.suggestedFix && (
+                    <p className="text-xs">
+                      <span className="font-medium">Suggested fix: </span>
+                      {finding.suggestedFix}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
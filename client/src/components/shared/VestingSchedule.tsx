@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useFormContext, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock } from "lucide-react";
+import type { FounderWithVesting, VestingAcceleration, VestingCadence, VestingGrant, VestingStatus } from "@shared/schema";
+
+const cadenceLabels: Record<VestingCadence, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+};
+
+const accelerationLabels: Record<VestingAcceleration, string> = {
+  none: "No acceleration",
+  single_trigger: "Single trigger",
+  double_trigger: "Double trigger",
+};
+
+export const vestingFormSchema = z.object({
+  totalShares: z.coerce.number().int().positive("Total shares must be greater than 0"),
+  startDate: z.string().min(1, "Pick a start date"),
+  cliffMonths: z.coerce.number().int().min(0).max(60),
+  durationMonths: z.coerce.number().int().min(1, "Vesting must last at least a month").max(120),
+  cadence: z.enum(['monthly', 'quarterly']),
+  acceleration: z.enum(['none', 'single_trigger', 'double_trigger']),
+  accelerationPercent: z.coerce.number().int().min(1).max(100),
+}).refine(data => data.cliffMonths <= data.durationMonths, {
+  message: "The cliff cannot be longer than the vesting period",
+  path: ["cliffMonths"],
+});
+
+export type VestingFormData = z.infer<typeof vestingFormSchema>;
+
+// The standard four years with a one year cliff, starting today
+export function vestingDefaults(grant?: VestingGrant | null): VestingFormData {
+  return {
+    totalShares: grant?.totalShares ?? ("" as any),
+    startDate: grant?.startDate ?? new Date().toISOString().slice(0, 10),
+    cliffMonths: grant?.cliffMonths ?? 12,
+    durationMonths: grant?.durationMonths ?? 48,
+    cadence: grant?.cadence ?? 'monthly',
+    acceleration: grant?.acceleration ?? 'none',
+    accelerationPercent: grant?.accelerationPercent ?? 100,
+  };
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Grant fields for any form that holds a VestingFormData, either at the root or under `prefix`
+export function VestingGrantFields({ prefix = "" }: { prefix?: string }) {
+  const { control, watch } = useFormContext();
+  const acceleration = watch(`${prefix}acceleration`);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name={`${prefix}totalShares`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Total Shares</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="4000000" {...field} value={field.value ?? ""} data-testid="input-vesting-total-shares" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${prefix}startDate`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Vesting Start</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} data-testid="input-vesting-start-date" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name={`${prefix}cliffMonths`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cliff (months)</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} data-testid="input-vesting-cliff" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${prefix}durationMonths`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Duration (months)</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} data-testid="input-vesting-duration" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${prefix}cadence`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cadence</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-vesting-cadence">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(cadenceLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name={`${prefix}acceleration`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Acceleration</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-vesting-acceleration">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(accelerationLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {acceleration !== 'none' && (
+          <FormField
+            control={control}
+            name={`${prefix}accelerationPercent`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Accelerates (% of unvested)</FormLabel>
+                <FormControl>
+                  <Input type="number" {...field} data-testid="input-vesting-acceleration-percent" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function VestingGrantDialog({ founder }: { founder: FounderWithVesting }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<VestingFormData>({
+    resolver: zodResolver(vestingFormSchema),
+    defaultValues: vestingDefaults(founder.vestingGrant),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(vestingDefaults(founder.vestingGrant));
+  }, [open, founder.vestingGrant, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: VestingFormData) => {
+      return await apiRequest("POST", `/api/founders/${founder.id}/vesting`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/founders"] });
+      toast({
+        title: "Vesting saved",
+        description: "The vesting schedule has been updated.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save vesting",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-vesting-${founder.id}`}>
+          <CalendarClock className="h-4 w-4 mr-2" />
+          {founder.vestingGrant ? "Edit Vesting" : "Set Vesting"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Vesting Schedule</DialogTitle>
+          <DialogDescription>
+            How this founder's shares vest over time
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-4">
+            <VestingGrantFields />
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending} data-testid="button-submit-vesting">
+              {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Vested-to-date progress with the milestones that matter: cliff, next tranche and full vesting
+export function VestingTimeline({ founderId }: { founderId: string }) {
+  const { data: status, isLoading } = useQuery<VestingStatus>({
+    queryKey: ["/api/founders", founderId, "vesting"],
+  });
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  const { grant } = status;
+  const percentVested = grant.totalShares > 0 ? Math.round(status.vestedShares / grant.totalShares * 100) : 0;
+  const milestones = [
+    ...(grant.cliffMonths > 0 ? [{ label: "Cliff", date: status.cliffDate }] : []),
+    ...(status.nextTranche ? [{ label: `Next: ${status.nextTranche.shares.toLocaleString()} shares`, date: status.nextTranche.date }] : []),
+    { label: "Fully vested", date: status.fullyVestedDate },
+  ];
+
+  return (
+    <div className="space-y-2" data-testid={`vesting-timeline-${founderId}`}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          {status.vestedShares.toLocaleString()} of {grant.totalShares.toLocaleString()} vested
+        </span>
+        <span className="text-muted-foreground">{percentVested}%</span>
+      </div>
+      <Progress value={percentVested} />
+      <div className="space-y-1">
+        {milestones.map(milestone => (
+          <div key={milestone.label} className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{milestone.label}</span>
+            <span>{formatDate(milestone.date)}</span>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="outline">{cadenceLabels[grant.cadence]}</Badge>
+        <Badge variant="outline">
+          {grant.acceleration === 'none'
+            ? accelerationLabels.none
+            : `${accelerationLabels[grant.acceleration]} (${grant.accelerationPercent}%)`}
+        </Badge>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { DocumentLifecycleErrorResponse, MissingVariablesResponse, SigningTokenErrorResponse } from "@shared/schema";
+
+// Pull the typed lifecycle error out of a failed apiRequest ("409: {...}")
+export function getLifecycleError(error: Error): DocumentLifecycleErrorResponse | null {
+  const match = /^409: ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[1]);
+    return body && typeof body.code === "string" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Pull the missing template variables out of a failed draft request ("422: {...}")
+export function getMissingVariables(error: Error): MissingVariablesResponse | null {
+  const match = /^422: ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[1]);
+    return body && Array.isArray(body.missingVariables) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Pull the reason a magic link can't be used out of a failed request ("410: {...}")
+export function getSigningTokenError(error: Error): SigningTokenErrorResponse | null {
+  const match = /^(404|409|410): ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[2]);
+    return body && ['not_found', 'expired', 'revoked', 'used'].includes(body.code) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Human-readable message from a failed apiRequest ("400: {\"message\": ...}")
+export function getErrorMessage(error: Error): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error.message);
+  if (!match) return error.message;
+
+  try {
+    const body = JSON.parse(match[1]);
+    return typeof body?.message === "string" ? body.message : match[1];
+  } catch {
+    return match[1];
+  }
+}
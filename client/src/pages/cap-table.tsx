@@ -0,0 +1,677 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Layers, PieChart, Plus, ScrollText } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type {
+  CapTable,
+  EquityEvent,
+  EquityEventInput,
+  EquityEventType,
+  EquityHolder,
+  Founder,
+  Investor,
+  ShareClass,
+  ShareClassKind,
+} from "@shared/schema";
+
+const kindLabels: Record<ShareClassKind, string> = {
+  common: "Common",
+  preferred: "Preferred",
+  options: "Options",
+};
+
+const eventLabels: Record<EquityEventType, string> = {
+  issuance: "Issuance",
+  transfer: "Transfer",
+  cancellation: "Cancellation",
+  repurchase: "Repurchase",
+};
+
+const shareClassFormSchema = z.object({
+  name: z.string().trim().min(1, "Name the share class"),
+  kind: z.enum(['common', 'preferred', 'options']),
+  authorizedShares: z.coerce.number().int().positive("Authorized shares must be greater than 0"),
+});
+
+// Holders are picked as "founder:<id>", "investor:<id>" or "other" plus a typed name
+const eventFormSchema = z.object({
+  shareClassId: z.string().min(1, "Pick a share class"),
+  type: z.enum(['issuance', 'transfer', 'cancellation', 'repurchase']),
+  holder: z.string().min(1, "Pick a holder"),
+  holderName: z.string().optional(),
+  toHolder: z.string().optional(),
+  toHolderName: z.string().optional(),
+  shares: z.coerce.number().int().positive("Shares must be greater than 0"),
+  pricePerShare: z.string().optional(),
+  certificateNumber: z.string().optional(),
+  effectiveDate: z.string().min(1, "Pick a date"),
+  note: z.string().optional(),
+}).refine(data => data.type !== 'transfer' || !!data.toHolder, {
+  message: "Pick who receives the shares",
+  path: ["toHolder"],
+});
+
+type ShareClassFormData = z.infer<typeof shareClassFormSchema>;
+type EventFormData = z.infer<typeof eventFormSchema>;
+
+function toHolder(choice: string, name?: string): EquityHolder {
+  const [holderType, holderId] = choice.split(':');
+  return holderType === 'other'
+    ? { holderType: 'other', holderName: name?.trim() }
+    : { holderType: holderType as 'founder' | 'investor', holderId };
+}
+
+function founderName(founder: Founder): string {
+  return `${founder.firstName || ''} ${founder.lastName || ''}`.trim() || founder.email;
+}
+
+export default function CapTablePage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [classDialogOpen, setClassDialogOpen] = useState(false);
+  const [eventDialogOpen, setEventDialogOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        setLocation("/api/login");
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast, setLocation]);
+
+  const { data: capTable, isLoading } = useQuery<CapTable>({
+    queryKey: ["/api/cap-table"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: events = [] } = useQuery<EquityEvent[]>({
+    queryKey: ["/api/equity-events"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: founders = [] } = useQuery<Founder[]>({
+    queryKey: ["/api/founders"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: investors = [] } = useQuery<Investor[]>({
+    queryKey: ["/api/investors"],
+    enabled: isAuthenticated,
+  });
+
+  const classForm = useForm<ShareClassFormData>({
+    resolver: zodResolver(shareClassFormSchema),
+    defaultValues: {
+      name: "",
+      kind: 'common',
+      authorizedShares: "" as any, // Will be coerced to number
+    },
+  });
+
+  const eventForm = useForm<EventFormData>({
+    resolver: zodResolver(eventFormSchema),
+    defaultValues: {
+      shareClassId: "",
+      type: 'issuance',
+      holder: "",
+      holderName: "",
+      toHolder: "",
+      toHolderName: "",
+      shares: "" as any,
+      pricePerShare: "",
+      certificateNumber: "",
+      effectiveDate: new Date().toISOString().slice(0, 10),
+      note: "",
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cap-table"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/equity-events"] });
+  };
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const classMutation = useMutation({
+    mutationFn: async (data: ShareClassFormData) => {
+      return await apiRequest("POST", "/api/share-classes", data);
+    },
+    onSuccess: (shareClass: ShareClass) => {
+      refresh();
+      toast({
+        title: "Share class added",
+        description: `${shareClass.name} is ready for issuances.`,
+      });
+      setClassDialogOpen(false);
+      classForm.reset();
+    },
+    onError: handleError,
+  });
+
+  const eventMutation = useMutation({
+    mutationFn: async (data: EquityEventInput) => {
+      return await apiRequest("POST", "/api/equity-events", data);
+    },
+    onSuccess: (event: EquityEvent) => {
+      refresh();
+      toast({
+        title: "Ledger updated",
+        description: `${eventLabels[event.type]} of ${event.shares.toLocaleString()} shares recorded.`,
+      });
+      setEventDialogOpen(false);
+      eventForm.reset();
+    },
+    onError: handleError,
+  });
+
+  const onSubmitEvent = (data: EventFormData) => {
+    eventMutation.mutate({
+      shareClassId: data.shareClassId,
+      type: data.type,
+      holder: toHolder(data.holder, data.holderName),
+      toHolder: data.type === 'transfer' && data.toHolder ? toHolder(data.toHolder, data.toHolderName) : undefined,
+      shares: data.shares,
+      pricePerShare: data.pricePerShare?.trim() || undefined,
+      certificateNumber: data.certificateNumber?.trim() || undefined,
+      effectiveDate: data.effectiveDate,
+      note: data.note?.trim() || undefined,
+    });
+  };
+
+  if (authLoading || isLoading) {
+    return <div className="flex-1 p-8">Loading...</div>;
+  }
+
+  const shareClasses = capTable?.shareClasses || [];
+  const holdings = capTable?.holdings || [];
+  const eventType = eventForm.watch("type");
+  const holderChoice = eventForm.watch("holder");
+  const toHolderChoice = eventForm.watch("toHolder");
+
+  const holderOptions = (
+    <>
+      {founders.map(founder => (
+        <SelectItem key={founder.id} value={`founder:${founder.id}`}>{founderName(founder)} (founder)</SelectItem>
+      ))}
+      {investors.map(investor => (
+        <SelectItem key={investor.id} value={`investor:${investor.id}`}>{investor.name} (investor)</SelectItem>
+      ))}
+      <SelectItem value="other">Someone else</SelectItem>
+    </>
+  );
+
+  const describeHolder = (type: string | null, name: string | null) =>
+    type === 'other' ? name : `${name} (${type})`;
+
+  return (
+    <div className="flex-1 p-8 space-y-8 overflow-auto">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-page font-bold">Cap Table</h1>
+          <p className="text-muted-foreground mt-1">
+            Holdings derived from the equity ledger
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Dialog open={classDialogOpen} onOpenChange={setClassDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" data-testid="button-add-share-class">
+                <Layers className="h-4 w-4 mr-2" />
+                Add Share Class
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Share Class</DialogTitle>
+                <DialogDescription>
+                  Common stock, a preferred series, or an option plan reserving the pool
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...classForm}>
+                <form onSubmit={classForm.handleSubmit((data) => classMutation.mutate(data))} className="space-y-4">
+                  <FormField
+                    control={classForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Series Seed Preferred" {...field} data-testid="input-share-class-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={classForm.control}
+                    name="kind"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Kind</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-share-class-kind">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(kindLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={classForm.control}
+                    name="authorizedShares"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Authorized Shares</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="10000000" {...field} value={field.value ?? ""} data-testid="input-authorized-shares" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={classMutation.isPending} data-testid="button-submit-share-class">
+                    {classMutation.isPending ? "Adding..." : "Add Share Class"}
+                  </Button>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={eventDialogOpen} onOpenChange={setEventDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={shareClasses.length === 0} data-testid="button-record-event">
+                <Plus className="h-4 w-4 mr-2" />
+                Record Event
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Record Equity Event</DialogTitle>
+                <DialogDescription>
+                  Ledger events are permanent; correct a mistake with an offsetting event
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...eventForm}>
+                <form onSubmit={eventForm.handleSubmit(onSubmitEvent)} className="space-y-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <FormField
+                      control={eventForm.control}
+                      name="type"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Event</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-event-type">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.entries(eventLabels).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={eventForm.control}
+                      name="shareClassId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Share Class</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-event-share-class">
+                                <SelectValue placeholder="Pick a class" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {shareClasses.map(shareClass => (
+                                <SelectItem key={shareClass.id} value={shareClass.id}>{shareClass.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={eventForm.control}
+                    name="holder"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{eventType === 'issuance' ? "Issued To" : "From Holder"}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-event-holder">
+                              <SelectValue placeholder="Pick a holder" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>{holderOptions}</SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {holderChoice === 'other' && (
+                    <FormField
+                      control={eventForm.control}
+                      name="holderName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Holder Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Jane Employee" {...field} data-testid="input-event-holder-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {eventType === 'transfer' && (
+                    <FormField
+                      control={eventForm.control}
+                      name="toHolder"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>To Holder</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-event-to-holder">
+                                <SelectValue placeholder="Pick a recipient" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>{holderOptions}</SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {eventType === 'transfer' && toHolderChoice === 'other' && (
+                    <FormField
+                      control={eventForm.control}
+                      name="toHolderName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Recipient Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Family Trust" {...field} data-testid="input-event-to-holder-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <FormField
+                      control={eventForm.control}
+                      name="shares"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Shares</FormLabel>
+                          <FormControl>
+                            <Input type="number" placeholder="1000000" {...field} value={field.value ?? ""} data-testid="input-event-shares" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={eventForm.control}
+                      name="pricePerShare"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Price per Share ($)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="0.0001" {...field} data-testid="input-event-price" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <FormField
+                      control={eventForm.control}
+                      name="effectiveDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Effective Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} data-testid="input-event-date" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={eventForm.control}
+                      name="certificateNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Certificate</FormLabel>
+                          <FormControl>
+                            <Input placeholder={eventType === 'issuance' || eventType === 'transfer' ? "Generated if blank" : "Certificate given up"} {...field} data-testid="input-event-certificate" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={eventForm.control}
+                    name="note"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Note</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} {...field} data-testid="input-event-note" />
+                        </FormControl>
+                        <FormDescription>E.g. the board consent approving it</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={eventMutation.isPending} data-testid="button-submit-event">
+                    {eventMutation.isPending ? "Recording..." : "Record Event"}
+                  </Button>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+            <CardTitle className="text-sm font-medium">Outstanding Shares</CardTitle>
+            <PieChart className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="outstanding-shares">
+              {(capTable?.outstandingShares || 0).toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Issued common and preferred stock</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+            <CardTitle className="text-sm font-medium">Fully Diluted</CardTitle>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="fully-diluted-shares">
+              {(capTable?.fullyDilutedShares || 0).toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Including granted options and the unallocated pool</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {shareClasses.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted mb-4">
+              <PieChart className="h-10 w-10 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No share classes yet</h3>
+            <p className="text-sm text-muted-foreground mb-6 text-center max-w-sm">
+              Founder common stock is issued automatically when the pre-founder agreement takes effect
+            </p>
+            <Button onClick={() => setClassDialogOpen(true)} data-testid="button-add-first-share-class">
+              <Layers className="h-4 w-4 mr-2" />
+              Add Share Class
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title">Holdings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holder</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Fully Diluted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holdings.map(holding => (
+                    <TableRow key={`${holding.shareClassId}-${holding.holderType}-${holding.holderId || holding.holderName}`}>
+                      <TableCell className="font-medium">{holding.holderName}</TableCell>
+                      <TableCell>{holding.shareClassName}</TableCell>
+                      <TableCell className="text-right">{holding.shares.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{holding.percentage.toFixed(2)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title">Share Classes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead className="text-right">Authorized</TableHead>
+                    <TableHead className="text-right">Issued</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shareClasses.map(shareClass => (
+                    <TableRow key={shareClass.id} data-testid={`share-class-${shareClass.id}`}>
+                      <TableCell className="font-medium">{shareClass.name}</TableCell>
+                      <TableCell><Badge variant="secondary">{kindLabels[shareClass.kind]}</Badge></TableCell>
+                      <TableCell className="text-right">{shareClass.authorizedShares.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{shareClass.issuedShares.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{shareClass.availableShares.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title flex items-center gap-2">
+                <ScrollText className="h-5 w-5" />
+                Ledger
+              </CardTitle>
+              <CardDescription>Every issuance, transfer, cancellation and repurchase, newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {events.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No events recorded yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead>Holder</TableHead>
+                      <TableHead className="text-right">Shares</TableHead>
+                      <TableHead>Certificate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map(event => (
+                      <TableRow key={event.id} data-testid={`equity-event-${event.id}`}>
+                        <TableCell>{event.effectiveDate}</TableCell>
+                        <TableCell>{eventLabels[event.type]}</TableCell>
+                        <TableCell>{shareClasses.find(c => c.id === event.shareClassId)?.name}</TableCell>
+                        <TableCell>
+                          {describeHolder(event.holderType, event.holderName)}
+                          {event.type === 'transfer' && ` → ${describeHolder(event.toHolderType, event.toHolderName)}`}
+                        </TableCell>
+                        <TableCell className="text-right">{event.shares.toLocaleString()}</TableCell>
+                        <TableCell>{event.certificateNumber || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
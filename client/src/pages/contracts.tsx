@@ -1,13 +1,18 @@
 import { useEffect, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getLifecycleError } from "@/lib/documentUtils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { StatusBadge } from "@/components/shared/StatusBadge";
-import { FileText, Shield, UserCheck, Handshake, Globe, FileCheck, Briefcase, DollarSign, Building2 } from "lucide-react";
-import type { Document } from "@shared/schema";
+import { DraftDocumentButton } from "@/components/shared/DraftDocumentButton";
+import { ValidationChecklist } from "@/components/shared/ValidationChecklist";
+import { FileText, Shield, UserCheck, Handshake, Globe, FileCheck, Briefcase, DollarSign, Building2, Archive } from "lucide-react";
+import type { Document, ValidationReport } from "@shared/schema";
 
 const documentCategories = {
   "pre-startup": {
@@ -46,6 +51,8 @@ const documentCategories = {
 
 export default function ContractsPage() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const [selectedCategory, setSelectedCategory] = useState("pre-startup");
 
@@ -68,6 +75,31 @@ export default function ContractsPage() {
     enabled: isAuthenticated,
   });
 
+  const validateMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      return await apiRequest("POST", `/api/documents/${documentId}/validate`);
+    },
+    onSuccess: (report: ValidationReport) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      const blockers = report.findings.filter(f => f.severity === 'blocker').length;
+      toast({
+        title: report.valid ? "Document validated" : "Validation found blockers",
+        description: report.valid
+          ? `The document is ready to send for signature (${report.findings.length} finding${report.findings.length !== 1 ? 's' : ''} to review).`
+          : `${blockers} blocker${blockers !== 1 ? 's' : ''} must be fixed before signing.`,
+        variant: report.valid ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      const lifecycleError = getLifecycleError(error);
+      toast({
+        title: lifecycleError ? "Action not allowed" : "Error",
+        description: lifecycleError ? lifecycleError.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (authLoading || isLoading) {
     return <div className="flex-1 p-8">Loading...</div>;
   }
@@ -81,6 +113,14 @@ export default function ContractsPage() {
             Browse templates and manage your legal documents
           </p>
         </div>
+        {documents.some(d => d.status === 'active') && (
+          <Button variant="outline" asChild data-testid="button-export-data-room">
+            <a href="/api/data-room/export" download>
+              <Archive className="h-4 w-4 mr-2" />
+              Export Data Room
+            </a>
+          </Button>
+        )}
       </div>
 
       <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
@@ -124,14 +164,12 @@ export default function ContractsPage() {
                             <span className="text-muted-foreground">Created</span>
                             <span>{new Date(existingDoc.createdAt!).toLocaleDateString()}</span>
                           </div>
-                          <Button variant="outline" className="w-full" data-testid={`button-view-${template.type}`}>
+                          <Button variant="outline" className="w-full" onClick={() => setLocation(`/documents/${existingDoc.id}`)} data-testid={`button-view-${template.type}`}>
                             View Document
                           </Button>
                         </div>
                       ) : (
-                        <Button className="w-full" data-testid={`button-draft-${template.type}`}>
-                          Draft {template.title}
-                        </Button>
+                        <DraftDocumentButton type={template.type} title={template.title} className="w-full" />
                       )}
                     </CardContent>
                   </Card>
@@ -162,11 +200,27 @@ export default function ContractsPage() {
                   </div>
                   <div className="flex items-center gap-4">
                     <StatusBadge status={doc.status || 'drafting'} />
-                    <Button size="sm" variant="outline" data-testid={`button-open-${doc.id}`}>
+                    {doc.status === 'drafting' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => validateMutation.mutate(doc.id)}
+                        disabled={validateMutation.isPending}
+                        data-testid={`button-validate-${doc.id}`}
+                      >
+                        Validate
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setLocation(`/documents/${doc.id}`)} data-testid={`button-open-${doc.id}`}>
                       Open
                     </Button>
                   </div>
                 </CardContent>
+                {doc.validationErrors && (
+                  <CardContent className="pt-0 px-6 pb-6">
+                    <ValidationChecklist report={doc.validationErrors} className="border-t border-border pt-4" />
+                  </CardContent>
+                )}
               </Card>
             ))}
           </div>
@@ -0,0 +1,739 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { getLifecycleError } from "@/lib/documentUtils";
+import { splitClauses } from "@shared/clauses";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/shared/StatusBadge";
+import { ValidationChecklist } from "@/components/shared/ValidationChecklist";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, FileText, Lock, MessageCircleQuestion, MessageSquare, Pencil, Send, ShieldCheck, Sparkles, Users } from "lucide-react";
+import type { CertificateVerification, Document, DocumentComment, DocumentRevisionProposal, DocumentSignature, Founder, HostSigningSession, Investor, PlannedSigner, SignatureEvent, SignerRole, ValidationReport } from "@shared/schema";
+
+interface SignerOption {
+  signerId: string;
+  signerType: 'founder' | 'investor';
+  email: string;
+  name: string;
+}
+
+const documentSteps = ['drafting', 'validating', 'signing', 'active'] as const;
+
+const roleLabels: Record<SignerRole, string> = {
+  investor: "Investor",
+  founder: "Founder",
+  assignor: "Assignor",
+  director: "Director",
+  incorporator: "Incorporator",
+  officer: "Officer",
+  signer: "Signer",
+};
+
+export default function DocumentPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftContent, setDraftContent] = useState("");
+  const [explanation, setExplanation] = useState<{ title: string; text: string } | null>(null);
+  const [signDialogOpen, setSignDialogOpen] = useState(false);
+  const [selectedSigners, setSelectedSigners] = useState<string[]>([]);
+  const [revision, setRevision] = useState<DocumentRevisionProposal | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: document, isLoading } = useQuery<Document>({
+    queryKey: ["/api/documents", id],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: signatures = [] } = useQuery<DocumentSignature[]>({
+    queryKey: ["/api/documents", id, "signatures"],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: founders = [] } = useQuery<Founder[]>({
+    queryKey: ["/api/founders"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: investors = [] } = useQuery<Investor[]>({
+    queryKey: ["/api/investors"],
+    enabled: isAuthenticated,
+  });
+
+  // Events outlive the signing round they belong to, so fetch them even with no current signers
+  const { data: events = [] } = useQuery<SignatureEvent[]>({
+    queryKey: ["/api/documents", id, "signature-events"],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: comments = [] } = useQuery<DocumentComment[]>({
+    queryKey: ["/api/documents", id, "comments"],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: verification } = useQuery<CertificateVerification>({
+    queryKey: ["/api/documents", id, "certificate"],
+    enabled: isAuthenticated && !!id && document?.status === 'active',
+  });
+
+  const { data: plannedSigners = [], isLoading: planLoading } = useQuery<PlannedSigner[]>({
+    queryKey: ["/api/documents", id, "signers", "plan"],
+    enabled: isAuthenticated && !!id && signDialogOpen,
+  });
+
+  const clauses = useMemo(() => splitClauses(document?.content || ""), [document?.content]);
+
+  const signerOptions: SignerOption[] = [
+    ...founders.map(f => ({
+      signerId: f.id,
+      signerType: 'founder' as const,
+      email: f.email,
+      name: `${f.firstName || ""} ${f.lastName || ""}`.trim() || f.email,
+    })),
+    ...investors.map(i => ({
+      signerId: i.id,
+      signerType: 'investor' as const,
+      email: i.email,
+      name: i.name,
+    })),
+  ];
+
+  const signerName = (signature: DocumentSignature) =>
+    signerOptions.find(s => s.signerId === signature.signerId)?.name || signature.signerEmail;
+
+  const signatureLinkState = (signature: DocumentSignature) => {
+    if (signature.revokedAt) return `${signature.signerEmail} · link revoked`;
+    if (signature.tokenExpiresAt && new Date(signature.tokenExpiresAt).getTime() < Date.now()) {
+      return `${signature.signerEmail} · link expired`;
+    }
+    return signature.signerEmail;
+  };
+
+  const refreshDocument = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  };
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    const lifecycleError = getLifecycleError(error);
+    toast({
+      title: lifecycleError ? "Action not allowed" : "Error",
+      description: lifecycleError ? lifecycleError.message : error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (content: string) => {
+      return await apiRequest("PATCH", `/api/documents/${id}`, { content, reason: 'manual_edit' });
+    },
+    onSuccess: () => {
+      refreshDocument();
+      setIsEditing(false);
+      toast({
+        title: "Saved",
+        description: "Your changes were saved as a new version.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/documents/${id}/validate`);
+    },
+    onSuccess: (report: ValidationReport) => {
+      refreshDocument();
+      toast({
+        title: report.valid ? "Document validated" : "Validation found blockers",
+        description: report.valid
+          ? "The document is ready to send for signature."
+          : "Fix the blocking findings before sending for signature.",
+        variant: report.valid ? "default" : "destructive",
+      });
+    },
+    onError: handleError,
+  });
+
+  const sendMutation = useMutation({
+    // Without an explicit list the server routes signers for the document type
+    mutationFn: async (signers?: SignerOption[]) => {
+      return await apiRequest("POST", `/api/documents/${id}/send-for-signature`, signers ? { signers } : {});
+    },
+    onSuccess: () => {
+      refreshDocument();
+      setSignDialogOpen(false);
+      setSelectedSigners([]);
+      toast({
+        title: "Sent for signature",
+        description: "Signers will receive an email with a signing link.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const signatureLinkMutation = useMutation({
+    mutationFn: async ({ signatureId, action }: { signatureId: string; action: 'resend' | 'revoke' }) => {
+      return await apiRequest("POST", `/api/documents/${id}/signatures/${signatureId}/${action}`);
+    },
+    onSuccess: (_signature, { action }) => {
+      refreshDocument();
+      toast({
+        title: action === 'resend' ? "Signing link resent" : "Signing link revoked",
+        description: action === 'resend'
+          ? "A new link was emailed and the previous one no longer works."
+          : "The signer can no longer use their link.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const hostSessionMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/documents/${id}/host-sessions`);
+    },
+    onSuccess: (session: HostSigningSession) => {
+      refreshDocument();
+      setLocation(`/host-signing/${session.id}`);
+    },
+    onError: handleError,
+  });
+
+  const proposeRevisionMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      return await apiRequest("POST", `/api/documents/${id}/comments/${commentId}/propose-revision`);
+    },
+    onSuccess: (proposal: DocumentRevisionProposal) => setRevision(proposal),
+    onError: handleError,
+  });
+
+  const applyRevisionMutation = useMutation({
+    mutationFn: async ({ commentId, content }: { commentId: string; content: string }) => {
+      return await apiRequest("POST", `/api/documents/${id}/comments/${commentId}/apply-revision`, { content });
+    },
+    onSuccess: () => {
+      refreshDocument();
+      setRevision(null);
+      toast({
+        title: "Revision applied",
+        description: "Validate the document again before sending it for signature.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const explainMutation = useMutation({
+    mutationFn: async (clause: { title: string; text: string }) => {
+      const result = await apiRequest("POST", `/api/documents/${id}/explain`, { clause: clause.text });
+      return { title: clause.title, text: result.explanation as string };
+    },
+    onSuccess: (result) => setExplanation(result),
+    onError: handleError,
+  });
+
+  if (authLoading || isLoading) {
+    return <div className="flex-1 p-8">Loading...</div>;
+  }
+
+  if (!document) {
+    return (
+      <div className="flex-1 p-8">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <p className="text-muted-foreground">Document not found</p>
+            <Button className="mt-4" onClick={() => setLocation("/contracts")}>
+              Back to Contracts
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const status = document.status || 'drafting';
+  const canEdit = status === 'drafting';
+  const currentStep = documentSteps.indexOf(status);
+
+  const startEditing = () => {
+    setDraftContent(document.content || "");
+    setIsEditing(true);
+  };
+
+  const toggleSigner = (signerId: string, checked: boolean) => {
+    setSelectedSigners(checked
+      ? [...selectedSigners, signerId]
+      : selectedSigners.filter(s => s !== signerId));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto p-8 space-y-6">
+        <div className="space-y-4">
+          <Button variant="ghost" size="sm" onClick={() => setLocation("/contracts")} data-testid="button-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Contracts
+          </Button>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-page font-bold" data-testid="document-title">{document.title}</h1>
+              <p className="text-muted-foreground mt-1">
+                Created {new Date(document.createdAt!).toLocaleDateString()}
+                {document.activatedAt && ` · Activated ${new Date(document.activatedAt).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <StatusBadge status={status} />
+              <Button variant="outline" size="sm" asChild data-testid="button-download-pdf">
+                <a href={`/api/documents/${document.id}/pdf`} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  PDF
+                </a>
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-2" data-testid="document-progress">
+            {documentSteps.map((step, index) => (
+              <div key={step} className="space-y-1">
+                <div className={`h-1.5 rounded-full ${index <= currentStep ? "bg-primary" : "bg-muted"}`} />
+                <p className={`text-xs capitalize ${index === currentStep ? "font-medium" : "text-muted-foreground"}`}>{step}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-5">
+          <div className="lg:col-span-3 space-y-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div className="flex items-center gap-2">
+                  <FileText className="h-5 w-5 text-primary" />
+                  <CardTitle className="text-card-title">Document</CardTitle>
+                </div>
+                {canEdit ? (
+                  !isEditing && (
+                    <Button size="sm" variant="outline" onClick={startEditing} data-testid="button-edit">
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  )
+                ) : (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Lock className="h-3 w-3" />
+                    {status === 'validating' ? "Validated" : "Locked for signing"}
+                  </span>
+                )}
+              </CardHeader>
+              <CardContent>
+                {isEditing ? (
+                  <div className="space-y-4">
+                    <Textarea
+                      value={draftContent}
+                      onChange={(e) => setDraftContent(e.target.value)}
+                      className="min-h-[60vh] font-mono text-sm leading-relaxed"
+                      data-testid="textarea-content"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={() => setIsEditing(false)} data-testid="button-cancel-edit">
+                        Cancel
+                      </Button>
+                      <Button
+                        onClick={() => saveMutation.mutate(draftContent)}
+                        disabled={saveMutation.isPending}
+                        data-testid="button-save"
+                      >
+                        {saveMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : clauses.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This document has no content yet.</p>
+                ) : (
+                  <div className="space-y-6">
+                    {clauses.map((clause) => (
+                      <section key={clause.id} id={clause.id} className="group scroll-mt-8" data-testid={`clause-${clause.id}`}>
+                        <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed">{clause.text}</pre>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="mt-1 invisible group-hover:visible"
+                          onClick={() => explainMutation.mutate(clause)}
+                          disabled={explainMutation.isPending}
+                          data-testid={`button-explain-${clause.id}`}
+                        >
+                          <MessageCircleQuestion className="h-4 w-4 mr-2" />
+                          Explain this clause
+                        </Button>
+                      </section>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {clauses.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-card-title">Outline</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <nav className="space-y-1">
+                    {clauses.map((clause) => (
+                      <a
+                        key={clause.id}
+                        href={`#${clause.id}`}
+                        className="block truncate rounded-md px-2 py-1 text-sm text-muted-foreground hover-elevate"
+                        data-testid={`outline-${clause.id}`}
+                      >
+                        {clause.title}
+                      </a>
+                    ))}
+                  </nav>
+                </CardContent>
+              </Card>
+            )}
+
+            {comments.length > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+                  <MessageSquare className="h-5 w-5 text-primary" />
+                  <CardTitle className="text-card-title">Feedback</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {comments.map((comment) => (
+                    <div key={comment.id} className="space-y-1 text-sm" data-testid={`comment-${comment.id}`}>
+                      <p className="text-xs text-muted-foreground">
+                        {comment.kind === 'decline' ? "Declined by " : ""}
+                        {comment.authorName || comment.authorEmail || "Reviewer"}
+                        {" · "}
+                        {new Date(comment.createdAt!).toLocaleString()}
+                      </p>
+                      <p className={comment.resolvedAt ? "text-muted-foreground line-through" : ""}>{comment.body}</p>
+                      {comment.resolvedAt ? (
+                        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <CheckCircle2 className="h-3 w-3 text-green-600" />
+                          Addressed {new Date(comment.resolvedAt).toLocaleDateString()}
+                        </p>
+                      ) : canEdit && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => proposeRevisionMutation.mutate(comment.id)}
+                          disabled={proposeRevisionMutation.isPending || isEditing}
+                          data-testid={`button-propose-revision-${comment.id}`}
+                        >
+                          <Sparkles className="h-3 w-3 mr-1" />
+                          {proposeRevisionMutation.isPending && proposeRevisionMutation.variables === comment.id
+                            ? "Drafting revision..."
+                            : "Propose revision"}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-card-title">Validation</CardTitle>
+                {!document.validationErrors && (
+                  <CardDescription>This document has not been validated yet</CardDescription>
+                )}
+              </CardHeader>
+              {document.validationErrors && (
+                <CardContent>
+                  <ValidationChecklist report={document.validationErrors} />
+                </CardContent>
+              )}
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-card-title">Signers</CardTitle>
+                {signatures.length === 0 && (
+                  <CardDescription>No signature requests sent yet</CardDescription>
+                )}
+              </CardHeader>
+              {signatures.length > 0 && (
+                <CardContent className="space-y-3">
+                  {signatures.map((signature) => (
+                    <div key={signature.id} className="flex items-center justify-between text-sm" data-testid={`signer-${signature.id}`}>
+                      <div>
+                        <p className="font-medium">
+                          {signerName(signature)}
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            Step {signature.signingOrder} · {roleLabels[(signature.role || 'signer') as SignerRole] || signature.role}
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {signature.status === 'declined'
+                            ? `Declined: ${signature.declineReason}`
+                            : signature.signedAt
+                              ? `Signed ${new Date(signature.signedAt).toLocaleString()}`
+                              : signatureLinkState(signature)}
+                        </p>
+                        {status === 'signing' && signature.status === 'sent' && signature.packetId && (
+                          <p className="text-xs text-muted-foreground mt-1">Link managed by its signature packet</p>
+                        )}
+                        {status === 'signing' && signature.status === 'sent' && !signature.packetId && (
+                          <div className="flex gap-1 mt-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => signatureLinkMutation.mutate({ signatureId: signature.id, action: 'resend' })}
+                              disabled={signatureLinkMutation.isPending}
+                              data-testid={`button-resend-${signature.id}`}
+                            >
+                              Resend
+                            </Button>
+                            {!signature.revokedAt && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => signatureLinkMutation.mutate({ signatureId: signature.id, action: 'revoke' })}
+                                disabled={signatureLinkMutation.isPending}
+                                data-testid={`button-revoke-${signature.id}`}
+                              >
+                                Revoke
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <StatusBadge status={signature.status || 'pending'} />
+                    </div>
+                  ))}
+                </CardContent>
+              )}
+            </Card>
+
+            {(events.length > 0 || verification) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-card-title">Audit Trail</CardTitle>
+                  {verification && (
+                    <CardDescription className="flex items-center gap-1" data-testid="certificate-status">
+                      {verification.intact && verification.signaturesMatch ? (
+                        <>
+                          <ShieldCheck className="h-4 w-4 text-green-600" />
+                          Content matches the signed version
+                        </>
+                      ) : (
+                        <>
+                          <AlertTriangle className="h-4 w-4 text-destructive" />
+                          Content differs from the signed version
+                        </>
+                      )}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {verification && (
+                    <div className="rounded-md bg-muted p-3 text-xs space-y-1">
+                      <p>Certificate {verification.certificate.id}</p>
+                      <p className="font-mono break-all text-muted-foreground">SHA-256 {verification.certificate.contentHash}</p>
+                    </div>
+                  )}
+                  {events.map((event) => (
+                    <div key={event.id} className="flex items-start justify-between gap-2 text-sm" data-testid={`event-${event.id}`}>
+                      <div>
+                        <p className="font-medium capitalize">{event.type.replace('_', ' ')}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {signatures.find(s => s.id === event.signatureId)?.signerEmail || event.details}
+                          {event.ipAddress && ` · ${event.ipAddress}`}
+                        </p>
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {new Date(event.createdAt!).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="border-t border-border bg-background px-8 py-4 flex items-center justify-end gap-2">
+        {status === 'active' ? (
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            Fully signed and active
+          </span>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => validateMutation.mutate()}
+              disabled={validateMutation.isPending || isEditing || status === 'signing'}
+              data-testid="button-validate"
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {validateMutation.isPending ? "Validating..." : "Validate"}
+            </Button>
+            <Button
+              onClick={() => setSignDialogOpen(true)}
+              disabled={status !== 'validating'}
+              data-testid="button-send-for-signature"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send for Signature
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => hostSessionMutation.mutate()}
+              disabled={(status !== 'validating' && status !== 'signing') || hostSessionMutation.isPending}
+              data-testid="button-sign-in-person"
+            >
+              <Users className="h-4 w-4 mr-2" />
+              {hostSessionMutation.isPending ? "Starting..." : "Sign in Person"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!explanation} onOpenChange={(open) => !open && setExplanation(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{explanation?.title}</DialogTitle>
+            <DialogDescription>Plain-language explanation</DialogDescription>
+          </DialogHeader>
+          <p className="text-sm leading-relaxed whitespace-pre-wrap" data-testid="clause-explanation">{explanation?.text}</p>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revision} onOpenChange={(open) => !open && setRevision(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Proposed Revision</DialogTitle>
+            <DialogDescription>{revision?.summary || "Review the revised document before applying it"}</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={revision?.content || ""}
+            onChange={(e) => revision && setRevision({ ...revision, content: e.target.value })}
+            className="min-h-[50vh] font-mono text-sm leading-relaxed"
+            data-testid="textarea-revision"
+          />
+          <Button
+            className="w-full"
+            onClick={() => revision && applyRevisionMutation.mutate({ commentId: revision.commentId, content: revision.content })}
+            disabled={!revision?.content.trim() || applyRevisionMutation.isPending}
+            data-testid="button-apply-revision"
+          >
+            {applyRevisionMutation.isPending ? "Applying..." : "Apply Revision"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={signDialogOpen} onOpenChange={setSignDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send for Signature</DialogTitle>
+            <DialogDescription>
+              {plannedSigners.length > 0
+                ? "Signers are emailed in order; each step starts once the previous one has signed"
+                : `Choose who needs to sign ${document.title}`}
+            </DialogDescription>
+          </DialogHeader>
+          {planLoading ? (
+            <p className="text-sm text-muted-foreground">Loading signers...</p>
+          ) : plannedSigners.length > 0 ? (
+            <>
+              <ol className="space-y-3">
+                {plannedSigners.map((signer) => (
+                  <li key={`${signer.signerId}-${signer.role}`} className="flex items-center gap-3 text-sm" data-testid={`planned-signer-${signer.signerId}-${signer.role}`}>
+                    <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium">
+                      {signer.signingOrder}
+                    </span>
+                    <span className="flex-1">
+                      <span className="font-medium">{signer.name}</span>
+                      <span className="text-muted-foreground"> · {signer.email}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">{roleLabels[signer.role]}</span>
+                  </li>
+                ))}
+              </ol>
+              <Button
+                className="w-full"
+                onClick={() => sendMutation.mutate(undefined)}
+                disabled={sendMutation.isPending}
+                data-testid="button-confirm-send"
+              >
+                {sendMutation.isPending ? "Sending..." : "Start Signing"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {signerOptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Add founders or investors before sending for signature.</p>
+                ) : (
+                  signerOptions.map((signer) => (
+                    <label key={signer.signerId} className="flex items-center gap-3 text-sm" data-testid={`signer-option-${signer.signerId}`}>
+                      <Checkbox
+                        checked={selectedSigners.includes(signer.signerId)}
+                        onCheckedChange={(checked) => toggleSigner(signer.signerId, checked === true)}
+                      />
+                      <span className="flex-1">
+                        <span className="font-medium">{signer.name}</span>
+                        <span className="text-muted-foreground"> · {signer.email}</span>
+                      </span>
+                      <span className="text-xs capitalize text-muted-foreground">{signer.signerType}</span>
+                    </label>
+                  ))
+                )}
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => sendMutation.mutate(signerOptions.filter(s => selectedSigners.includes(s.signerId)))}
+                disabled={selectedSigners.length === 0 || sendMutation.isPending}
+                data-testid="button-confirm-send"
+              >
+                {sendMutation.isPending ? "Sending..." : `Send to ${selectedSigners.length} signer${selectedSigners.length !== 1 ? 's' : ''}`}
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
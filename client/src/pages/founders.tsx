@@ -12,12 +12,18 @@ import { StatusBadge } from "@/components/shared/StatusBadge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Election83bStatus } from "@/components/shared/Election83b";
+import { DepartureStatus, FounderDepartureDialog } from "@/components/shared/FounderDeparture";
+import { FounderPortalInviteButton } from "@/components/shared/FounderPortalInvite";
+import { IdentityRequestButton, IdentityReviewQueue } from "@/components/shared/IdentityVerification";
+import { VestingGrantDialog, VestingGrantFields, VestingTimeline, vestingDefaults, vestingFormSchema } from "@/components/shared/VestingSchedule";
 import { Plus, Mail, User, Briefcase, Percent } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertFounderSchema } from "@shared/schema";
 import { z } from "zod";
-import type { Founder } from "@shared/schema";
+import type { Election83bSummary, FounderDeparture, FounderWithVesting, IdentityVerificationSummary } from "@shared/schema";
 
 const formSchema = insertFounderSchema.omit({
   companyId: true, // Backend adds companyId automatically
@@ -29,6 +35,7 @@ const formSchema = insertFounderSchema.omit({
   firstName: z.string().optional(),
   lastName: z.string().optional(),
   role: z.string().optional(),
+  vestingGrant: vestingFormSchema.optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -39,6 +46,7 @@ export default function FoundersPage() {
   const [, setLocation] = useLocation();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [withVesting, setWithVesting] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -54,11 +62,26 @@ export default function FoundersPage() {
     }
   }, [isAuthenticated, authLoading, toast, setLocation]);
 
-  const { data: founders = [], isLoading } = useQuery<Founder[]>({
+  const { data: founders = [], isLoading } = useQuery<FounderWithVesting[]>({
     queryKey: ["/api/founders"],
     enabled: isAuthenticated,
   });
 
+  const { data: elections = [] } = useQuery<Election83bSummary[]>({
+    queryKey: ["/api/83b-elections"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: departures = [] } = useQuery<FounderDeparture[]>({
+    queryKey: ["/api/founder-departures"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: verifications = [] } = useQuery<IdentityVerificationSummary[]>({
+    queryKey: ["/api/identity-verifications"],
+    enabled: isAuthenticated,
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -81,6 +104,7 @@ export default function FoundersPage() {
         description: "Founder invited successfully.",
       });
       setDialogOpen(false);
+      setWithVesting(false);
       form.reset();
     },
     onError: (error: Error) => {
@@ -103,6 +127,12 @@ export default function FoundersPage() {
     },
   });
 
+  // The schedule is only validated and sent while its fields are showing
+  const toggleVesting = (checked: boolean) => {
+    setWithVesting(checked);
+    form.setValue("vestingGrant", checked ? vestingDefaults() : undefined);
+  };
+
   const onSubmit = (data: FormData) => {
     console.log("Form submitted with data:", data);
     console.log("Form errors:", form.formState.errors);
@@ -129,7 +159,7 @@ export default function FoundersPage() {
               Add Founder
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Add Founder</DialogTitle>
               <DialogDescription>
@@ -205,6 +235,14 @@ export default function FoundersPage() {
                     </FormItem>
                   )}
                 />
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <p className="text-sm font-medium">Vesting schedule</p>
+                    <p className="text-xs text-muted-foreground">Set how this founder's shares vest</p>
+                  </div>
+                  <Switch checked={withVesting} onCheckedChange={toggleVesting} data-testid="switch-founder-vesting" />
+                </div>
+                {withVesting && <VestingGrantFields prefix="vestingGrant." />}
                 <Button type="submit" className="w-full" disabled={createMutation.isPending} data-testid="button-submit-founder">
                   {createMutation.isPending ? "Adding..." : "Add Founder"}
                 </Button>
@@ -214,6 +252,8 @@ export default function FoundersPage() {
         </Dialog>
       </div>
 
+      <IdentityReviewQueue verifications={verifications} founders={founders} />
+
       {founders.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-16">
@@ -232,47 +272,79 @@ export default function FoundersPage() {
         </Card>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {founders.map((founder) => (
-            <Card key={founder.id} className="hover-elevate active-elevate-2" data-testid={`founder-card-${founder.id}`}>
-              <CardHeader>
-                <div className="flex items-start gap-3">
-                  <Avatar className="h-12 w-12">
-                    <AvatarFallback className="text-lg">
-                      {(founder.firstName?.[0] || founder.email[0]).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1 min-w-0">
-                    <CardTitle className="text-base truncate">
-                      {founder.firstName && founder.lastName
-                        ? `${founder.firstName} ${founder.lastName}`
-                        : founder.email}
-                    </CardTitle>
-                    <CardDescription className="truncate">{founder.email}</CardDescription>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {founder.role && (
-                  <div className="flex items-center gap-2 text-sm">
-                    <Briefcase className="h-4 w-4 text-muted-foreground" />
-                    <span>{founder.role}</span>
+          {founders.map((founder) => {
+            const departure = departures.find(d => d.founderId === founder.id);
+            // Newest first, so this is the founder's current ID request
+            const verification = verifications.find(v => v.founderId === founder.id);
+            return (
+              <Card key={founder.id} className="hover-elevate active-elevate-2" data-testid={`founder-card-${founder.id}`}>
+                <CardHeader>
+                  <div className="flex items-start gap-3">
+                    <Avatar className="h-12 w-12">
+                      <AvatarFallback className="text-lg">
+                        {(founder.firstName?.[0] || founder.email[0]).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-base truncate">
+                        {founder.firstName && founder.lastName
+                          ? `${founder.firstName} ${founder.lastName}`
+                          : founder.email}
+                      </CardTitle>
+                      <CardDescription className="truncate">{founder.email}</CardDescription>
+                    </div>
                   </div>
-                )}
-                {founder.equityPercentage !== null && founder.equityPercentage !== undefined && (
-                  <div className="flex items-center gap-2 text-sm">
-                    <Percent className="h-4 w-4 text-muted-foreground" />
-                    <span>{founder.equityPercentage}% Equity</span>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {founder.role && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Briefcase className="h-4 w-4 text-muted-foreground" />
+                      <span>{founder.role}</span>
+                    </div>
+                  )}
+                  {founder.equityPercentage !== null && founder.equityPercentage !== undefined && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Percent className="h-4 w-4 text-muted-foreground" />
+                      <span>{founder.equityPercentage}% Equity</span>
+                    </div>
+                  )}
+                  {founder.termsResponse === 'disputed' && (
+                    <p className="text-xs text-destructive" data-testid={`text-terms-disputed-${founder.id}`}>
+                      Disputes equity or role: {founder.termsDisputeNote}
+                    </p>
+                  )}
+                  {founder.termsResponse === 'accepted' && (
+                    <p className="text-xs text-muted-foreground">Accepted equity and role</p>
+                  )}
+                  {founder.vestingGrant && <VestingTimeline founderId={founder.id} />}
+                  {elections.filter(e => e.founderId === founder.id).map(election => (
+                    <Election83bStatus key={election.id} election={election} />
+                  ))}
+                  <div className="flex items-center justify-between pt-2">
+                    <StatusBadge status={founder.status || 'invited'} />
+                    {founder.idUploaded ? (
+                      <span className="text-xs text-green-600 dark:text-green-400">ID Verified</span>
+                    ) : verification?.status === 'submitted' ? (
+                      <span className="text-xs text-muted-foreground">ID awaiting review</span>
+                    ) : verification?.status === 'requested' ? (
+                      <span className="text-xs text-muted-foreground">ID requested</span>
+                    ) : verification?.status === 'rejected' ? (
+                      <span className="text-xs text-destructive">ID rejected</span>
+                    ) : null}
                   </div>
-                )}
-                <div className="flex items-center justify-between pt-2">
-                  <StatusBadge status={founder.status || 'invited'} />
-                  {founder.idUploaded && (
-                    <span className="text-xs text-green-600 dark:text-green-400">ID Verified</span>
+                  {departure && <DepartureStatus departure={departure} />}
+                  {!departure && founder.status !== 'departed' && (
+                    <div className="flex flex-wrap gap-2">
+                      <VestingGrantDialog founder={founder} />
+                      <IdentityRequestButton founder={founder} latest={verification} />
+                      <FounderPortalInviteButton founder={founder} />
+                      <FounderDepartureDialog founder={founder} founders={founders} />
+                    </div>
                   )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
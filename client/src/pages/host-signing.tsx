@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { SignatureForm } from "@/components/shared/SignatureForm";
+import { SigningHeader } from "@/components/shared/SigningLinkError";
+import { SigningStateIcon, signingStateLabels } from "@/components/shared/SigningItemState";
+import { CheckCircle2, Clock, FileText, Mail, ShieldCheck, XCircle } from "lucide-react";
+import type { HostSigningView, SignatureSubmission } from "@shared/schema";
+
+// In-person signing: the owner hosts, and each founder confirms an emailed code before signing on this device
+export default function HostSigningPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data, isLoading, error } = useQuery<HostSigningView>({
+    queryKey: ["/api/host-sessions", id],
+    enabled: !!id,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/host-sessions", id] });
+  };
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const sendCodeMutation = useMutation({
+    mutationFn: async (signatureId: string) => {
+      return await apiRequest("POST", `/api/host-sessions/${id}/signatures/${signatureId}/code`);
+    },
+    onSuccess: (_result, signatureId) => {
+      setCodeSentTo(signatureId);
+      setCode("");
+      toast({
+        title: "Code sent",
+        description: "Check your email and enter the 6-digit code.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async ({ signatureId, code }: { signatureId: string; code: string }) => {
+      return await apiRequest("POST", `/api/host-sessions/${id}/signatures/${signatureId}/verify`, { code });
+    },
+    onSuccess: () => {
+      setCodeSentTo(null);
+      setCode("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      handleError(error);
+    },
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async ({ signatureId, submission }: { signatureId: string; submission: SignatureSubmission }) => {
+      return await apiRequest("POST", `/api/host-sessions/${id}/signatures/${signatureId}/sign`, submission);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Signature recorded",
+        description: "Hand the device to the next founder.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async ({ signatureId, reason }: { signatureId: string; reason: string }) => {
+      return await apiRequest("POST", `/api/host-sessions/${id}/signatures/${signatureId}/decline`, { reason });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Signature declined",
+        description: "The document has gone back to drafting.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/host-sessions/${id}/cancel`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Session ended",
+        description: "Founders who have not signed will receive their link by email.",
+      });
+    },
+    onError: handleError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-5xl p-8">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-xl p-8">
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <XCircle className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground" data-testid="text-host-session-error">
+                {error ? getErrorMessage(error as Error) : "The signing session could not be found."}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { session, document, turns } = data;
+  const current = session.status === 'active' ? turns.find(turn => turn.state === 'ready') : undefined;
+  const backToDocument = () => setLocation(`/documents/${document.id}`);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SigningHeader />
+      <div className="mx-auto max-w-5xl space-y-6 p-6 lg:p-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-page font-bold" data-testid="host-session-title">{document.title}</h1>
+            <p className="text-muted-foreground mt-1">
+              Signing in person · {turns.filter(turn => turn.state === 'signed').length} of {turns.length} founders signed
+            </p>
+          </div>
+          {session.status === 'active' ? (
+            <Button
+              variant="outline"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              data-testid="button-end-session"
+            >
+              {cancelMutation.isPending ? "Ending..." : "End Session"}
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={backToDocument} data-testid="button-back-to-document">
+              Back to Document
+            </Button>
+          )}
+        </div>
+
+        {session.status === 'completed' && (
+          <Card data-testid="host-session-complete">
+            <CardContent className="flex items-center gap-3 p-6">
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+              <p>Every founder in the room has signed.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {session.status === 'cancelled' && (
+          <Card data-testid="host-session-cancelled">
+            <CardContent className="flex items-center gap-3 p-6">
+              <XCircle className="h-6 w-6 text-muted-foreground" />
+              <p>This session has ended. Any remaining signatures are collected by email.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {session.status === 'active' && !current && (
+          <Card data-testid="host-session-waiting">
+            <CardContent className="flex items-center gap-3 p-6">
+              <Clock className="h-6 w-6 text-muted-foreground" />
+              <p>Waiting for signers outside the room before the next founder can sign.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-1 h-fit">
+            <CardHeader>
+              <CardTitle className="text-card-title">Founders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {turns.map((turn) => (
+                  <li key={turn.signature.id} className="flex items-start gap-2 text-sm" data-testid={`host-turn-${turn.signature.id}`}>
+                    <SigningStateIcon state={turn.state} />
+                    <span>
+                      <span className="block font-medium">{turn.name}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {turn === current && turn.verified ? "Identity confirmed" : signingStateLabels[turn.state]}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+
+          {current && (
+            <div className="lg:col-span-2 space-y-6">
+              {!current.verified ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-card-title">Hand the device to {current.name}</CardTitle>
+                    <CardDescription>
+                      To confirm it's you, we'll email a one-time code to {current.email}.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {codeSentTo === current.signature.id && (
+                      <div className="flex flex-col items-center gap-4">
+                        <InputOTP
+                          maxLength={6}
+                          value={code}
+                          onChange={setCode}
+                          onComplete={(value: string) => verifyMutation.mutate({ signatureId: current.signature.id, code: value })}
+                          data-testid="input-signing-code"
+                        >
+                          <InputOTPGroup>
+                            {Array.from({ length: 6 }, (_, index) => (
+                              <InputOTPSlot key={index} index={index} />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                        <Button
+                          onClick={() => verifyMutation.mutate({ signatureId: current.signature.id, code })}
+                          disabled={code.length !== 6 || verifyMutation.isPending}
+                          data-testid="button-verify-code"
+                        >
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                          {verifyMutation.isPending ? "Checking..." : "Confirm Code"}
+                        </Button>
+                      </div>
+                    )}
+                    <Button
+                      variant={codeSentTo === current.signature.id ? "outline" : "default"}
+                      className="w-full"
+                      onClick={() => sendCodeMutation.mutate(current.signature.id)}
+                      disabled={sendCodeMutation.isPending}
+                      data-testid="button-send-code"
+                    >
+                      <Mail className="h-4 w-4 mr-2" />
+                      {sendCodeMutation.isPending
+                        ? "Sending..."
+                        : codeSentTo === current.signature.id ? "Send a New Code" : "Email Me a Code"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <>
+                  <Card>
+                    <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+                      <FileText className="h-5 w-5 text-primary" />
+                      <CardTitle className="text-card-title">{document.title}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap font-mono text-sm leading-relaxed" data-testid="host-document-content">
+                        {document.content}
+                      </pre>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-card-title">{current.name}'s Signature</CardTitle>
+                      <CardDescription>Type your full name or draw your signature.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <SignatureForm
+                        key={current.signature.id}
+                        onSign={(submission) => signMutation.mutate({ signatureId: current.signature.id, submission })}
+                        onDecline={(reason) => declineMutation.mutate({ signatureId: current.signature.id, reason })}
+                        isSigning={signMutation.isPending}
+                        isDeclining={declineMutation.isPending}
+                      />
+                    </CardContent>
+                  </Card>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "@/components/shared/StatusBadge";
-import { Scale, FileText, Shield } from "lucide-react";
-import type { Company, Document } from "@shared/schema";
+import { DraftDocumentButton } from "@/components/shared/DraftDocumentButton";
+import { Scale, FileText, Shield, Send } from "lucide-react";
+import type { Company, Document, SignaturePacket, SignaturePacketSummary } from "@shared/schema";
 
 const incorporationDocs = {
   delaware: [
@@ -23,6 +27,7 @@ const incorporationDocs = {
 
 export default function IncorporationPage() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
 
   useEffect(() => {
@@ -49,6 +54,32 @@ export default function IncorporationPage() {
     enabled: isAuthenticated && !!company,
   });
 
+  const { data: packets = [] } = useQuery<SignaturePacketSummary[]>({
+    queryKey: ["/api/signature-packets"],
+    enabled: isAuthenticated && !!company,
+  });
+
+  const packetMutation = useMutation({
+    mutationFn: async (payload: { documentIds: string[]; title: string }) => {
+      return await apiRequest("POST", "/api/signature-packets", payload);
+    },
+    onSuccess: (packet: SignaturePacket) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/signature-packets"] });
+      toast({
+        title: "Pack sent for signature",
+        description: `Each signer received one link for ${packet.title}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   if (authLoading || companyLoading) {
     return <div className="flex-1 p-8">Loading...</div>;
   }
@@ -71,6 +102,15 @@ export default function IncorporationPage() {
   const docs = incorporationDocs[company.jurisdiction as keyof typeof incorporationDocs] || [];
   const jurisdictionName = company.jurisdiction === 'delaware' ? 'Delaware C-Corp' : 'France SAS';
 
+  // The pack goes out once every document has passed validation with no blockers
+  const packDocuments = docs.map(doc => documents.find(d => d.type === doc.type));
+  const packReady = packDocuments.length > 0 && packDocuments.every(d =>
+    d?.status === 'validating' &&
+    !!d.validationErrors &&
+    !d.validationErrors.findings.some(f => f.severity === 'blocker')
+  );
+  const latestPacket = packets[0];
+
   return (
     <div className="flex-1 p-8 space-y-8 overflow-auto">
       <div className="flex items-center justify-between">
@@ -170,14 +210,12 @@ export default function IncorporationPage() {
                         <span className="text-muted-foreground">Created</span>
                         <span>{new Date(existingDoc.createdAt!).toLocaleDateString()}</span>
                       </div>
-                      <Button variant="outline" className="w-full" data-testid={`button-view-${doc.type}`}>
+                      <Button variant="outline" className="w-full" onClick={() => setLocation(`/documents/${existingDoc.id}`)} data-testid={`button-view-${doc.type}`}>
                         View Document
                       </Button>
                     </div>
                   ) : (
-                    <Button className="w-full" data-testid={`button-draft-${doc.type}`}>
-                      Draft {doc.title}
-                    </Button>
+                    <DraftDocumentButton type={doc.type} title={doc.title} className="w-full" />
                   )}
                 </CardContent>
               </Card>
@@ -186,6 +224,52 @@ export default function IncorporationPage() {
         </div>
       </div>
 
+      <Card data-testid="card-incorporation-pack">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <Send className="h-6 w-6 text-primary" />
+            <div>
+              <CardTitle>Send the Whole Pack</CardTitle>
+              <CardDescription className="mt-1">
+                Every signer gets one link for all of their incorporation documents
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {latestPacket && (
+            <div className="space-y-2 text-sm" data-testid="latest-packet">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{latestPacket.packet.title}</span>
+                <StatusBadge status={latestPacket.packet.status || 'signing'} />
+              </div>
+              {latestPacket.signers.map(signer => (
+                <div key={signer.email} className="flex items-center justify-between text-muted-foreground">
+                  <span>{signer.name}</span>
+                  <span>{signer.signed} of {signer.total} signed</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {!packReady && (
+            <p className="text-sm text-muted-foreground">
+              Draft and validate each required document, resolving any blockers, to send them together.
+            </p>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => packetMutation.mutate({
+              documentIds: packDocuments.map(d => d!.id),
+              title: `${company.name} incorporation pack`,
+            })}
+            disabled={!packReady || packetMutation.isPending}
+            data-testid="button-send-pack"
+          >
+            {packetMutation.isPending ? "Sending..." : "Send the Whole Pack"}
+          </Button>
+        </CardContent>
+      </Card>
+
       <Card className="bg-muted/50">
         <CardHeader>
           <div className="flex items-center gap-3">
@@ -10,14 +10,24 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { StatusBadge } from "@/components/shared/StatusBadge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Plus, DollarSign, TrendingUp } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RoundModeler } from "@/components/shared/RoundModeler";
+import { Plus, DollarSign, TrendingUp, FileText, Calculator, Users } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertInvestorSchema } from "@shared/schema";
 import { z } from "zod";
-import type { Investor } from "@shared/schema";
+import type { InvestorWithTerms, SafeTerms, SafeTermsInput } from "@shared/schema";
+
+// Blank number inputs mean "no cap" / "no discount" rather than 0
+const optionalNumber = (schema: z.ZodNumber) => z.preprocess(
+  (value) => value === "" || value === null || value === undefined ? undefined : Number(value),
+  schema.optional()
+);
 
 const formSchema = insertInvestorSchema.omit({
   companyId: true, // Backend adds companyId automatically
@@ -26,10 +36,30 @@ const formSchema = insertInvestorSchema.omit({
   email: z.string().email("Invalid email address"),
   name: z.string().min(1, "Name is required"),
   amount: z.coerce.number().min(1, "Amount must be greater than 0"),
+  safeType: z.enum(['post_money', 'pre_money']),
+  valuationCap: optionalNumber(z.number().int().positive("Valuation cap must be greater than 0")),
+  discountRate: optionalNumber(z.number().int().min(1, "Discount must be at least 1%").max(99, "Discount must be below 100%")),
+  mfn: z.boolean(),
+  proRata: z.boolean(),
+}).refine(data => !!data.valuationCap || !!data.discountRate || data.mfn, {
+  message: "Set a valuation cap, a discount or MFN",
+  path: ["valuationCap"],
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+type InvestorPayload = Pick<FormData, 'name' | 'email' | 'amount'> & { safeTerms: SafeTermsInput };
+
+function describeTerms(terms: SafeTerms): string {
+  return [
+    terms.safeType === 'post_money' ? 'Post-money' : 'Pre-money',
+    terms.valuationCap ? `$${terms.valuationCap.toLocaleString()} cap` : 'Uncapped',
+    terms.discountRate ? `${terms.discountRate}% discount` : null,
+    terms.mfn ? 'MFN' : null,
+    terms.proRata ? 'Pro rata' : null,
+  ].filter(Boolean).join(' · ');
+}
+
 export default function InvestorsPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -51,7 +81,7 @@ export default function InvestorsPage() {
     }
   }, [isAuthenticated, authLoading, toast, setLocation]);
 
-  const { data: investors = [], isLoading } = useQuery<Investor[]>({
+  const { data: investors = [], isLoading } = useQuery<InvestorWithTerms[]>({
     queryKey: ["/api/investors"],
     enabled: isAuthenticated,
   });
@@ -62,11 +92,16 @@ export default function InvestorsPage() {
       email: "",
       name: "",
       amount: "" as any, // Will be coerced to number
+      safeType: 'post_money',
+      valuationCap: "" as any,
+      discountRate: "" as any,
+      mfn: false,
+      proRata: false,
     },
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: FormData) => {
+    mutationFn: async (data: InvestorPayload) => {
       return await apiRequest("POST", "/api/investors", data);
     },
     onSuccess: () => {
@@ -101,7 +136,13 @@ export default function InvestorsPage() {
   const onSubmit = (data: FormData) => {
     console.log("Form submitted with data:", data);
     console.log("Form errors:", form.formState.errors);
-    createMutation.mutate(data);
+    const { name, email, amount, safeType, valuationCap, discountRate, mfn, proRata } = data;
+    createMutation.mutate({
+      name,
+      email,
+      amount,
+      safeTerms: { safeType, valuationCap: valuationCap ?? null, discountRate: discountRate ?? null, mfn, proRata },
+    });
   };
 
   if (authLoading || isLoading) {
@@ -126,7 +167,7 @@ export default function InvestorsPage() {
               Add Investor
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Add Investor</DialogTitle>
               <DialogDescription>
@@ -174,6 +215,86 @@ export default function InvestorsPage() {
                     </FormItem>
                   )}
                 />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="safeType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SAFE Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-safe-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="post_money">Post-money</SelectItem>
+                            <SelectItem value="pre_money">Pre-money</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="valuationCap"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valuation Cap ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="10000000" {...field} value={field.value ?? ""} data-testid="input-valuation-cap" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="discountRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Discount (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="20" {...field} value={field.value ?? ""} data-testid="input-discount-rate" />
+                      </FormControl>
+                      <FormDescription>Leave the cap or discount blank if the SAFE has none</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="mfn"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                      <div>
+                        <FormLabel>Most Favored Nation</FormLabel>
+                        <FormDescription>Investor gets any better terms given to later SAFEs</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-mfn" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="proRata"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                      <div>
+                        <FormLabel>Pro Rata Side Letter</FormLabel>
+                        <FormDescription>Right to invest in the next priced round</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-pro-rata" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
                 <Button type="submit" className="w-full" disabled={createMutation.isPending} data-testid="button-submit-investor">
                   {createMutation.isPending ? "Adding..." : "Add Investor & Generate SAFE"}
                 </Button>
@@ -215,59 +336,84 @@ export default function InvestorsPage() {
         </Card>
       </div>
 
-      {investors.length === 0 ? (
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-16">
-            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted mb-4">
-              <TrendingUp className="h-10 w-10 text-muted-foreground" />
-            </div>
-            <h3 className="text-lg font-semibold mb-2">No investors yet</h3>
-            <p className="text-sm text-muted-foreground mb-6 text-center max-w-sm">
-              Add investors to generate SAFE documents and manage your cap table
-            </p>
-            <Button onClick={() => setDialogOpen(true)} data-testid="button-add-first-investor">
-              <Plus className="h-4 w-4 mr-2" />
-              Add First Investor
-            </Button>
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {investors.map((investor) => (
-            <Card key={investor.id} className="hover-elevate active-elevate-2" data-testid={`investor-card-${investor.id}`}>
-              <CardHeader>
-                <div className="flex items-start gap-3">
-                  <Avatar className="h-12 w-12">
-                    <AvatarFallback className="text-lg">
-                      {investor.name[0].toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1 min-w-0">
-                    <CardTitle className="text-base truncate">{investor.name}</CardTitle>
-                    <CardDescription className="truncate">{investor.email}</CardDescription>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {investor.amount && (
-                  <div className="flex items-center gap-2 text-sm">
-                    <DollarSign className="h-4 w-4 text-muted-foreground" />
-                    <span className="font-semibold">${investor.amount.toLocaleString()}</span>
-                  </div>
-                )}
-                <div className="flex items-center justify-between pt-2">
-                  <StatusBadge status={investor.status || 'pending'} />
-                  {investor.safeDocumentId && (
-                    <Button size="sm" variant="ghost" data-testid={`button-view-safe-${investor.id}`}>
-                      View SAFE
-                    </Button>
-                  )}
+      <Tabs defaultValue="investors">
+        <TabsList>
+          <TabsTrigger value="investors" className="flex items-center gap-2" data-testid="tab-investors">
+            <Users className="h-4 w-4" />
+            Investors
+          </TabsTrigger>
+          <TabsTrigger value="model" className="flex items-center gap-2" data-testid="tab-model-round">
+            <Calculator className="h-4 w-4" />
+            Model a Round
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="investors" className="mt-6">
+          {investors.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-16">
+                <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted mb-4">
+                  <TrendingUp className="h-10 w-10 text-muted-foreground" />
                 </div>
+                <h3 className="text-lg font-semibold mb-2">No investors yet</h3>
+                <p className="text-sm text-muted-foreground mb-6 text-center max-w-sm">
+                  Add investors to generate SAFE documents and manage your cap table
+                </p>
+                <Button onClick={() => setDialogOpen(true)} data-testid="button-add-first-investor">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add First Investor
+                </Button>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {investors.map((investor) => (
+                <Card key={investor.id} className="hover-elevate active-elevate-2" data-testid={`investor-card-${investor.id}`}>
+                  <CardHeader>
+                    <div className="flex items-start gap-3">
+                      <Avatar className="h-12 w-12">
+                        <AvatarFallback className="text-lg">
+                          {investor.name[0].toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <CardTitle className="text-base truncate">{investor.name}</CardTitle>
+                        <CardDescription className="truncate">{investor.email}</CardDescription>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {investor.amount && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <DollarSign className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-semibold">${investor.amount.toLocaleString()}</span>
+                      </div>
+                    )}
+                    {investor.safeTerms && (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid={`investor-terms-${investor.id}`}>
+                        <FileText className="h-4 w-4" />
+                        <span>{describeTerms(investor.safeTerms)}</span>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between pt-2">
+                      <StatusBadge status={investor.status || 'pending'} />
+                      {investor.safeDocumentId && (
+                        <Button size="sm" variant="ghost" onClick={() => setLocation(`/documents/${investor.safeDocumentId}`)} data-testid={`button-view-safe-${investor.id}`}>
+                          View SAFE
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="model" className="mt-6">
+          <RoundModeler />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
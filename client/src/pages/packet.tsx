@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage, getSigningTokenError } from "@/lib/documentUtils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SignatureForm } from "@/components/shared/SignatureForm";
+import { SigningHeader, SigningLinkError } from "@/components/shared/SigningLinkError";
+import { SigningStateIcon, signingStateLabels } from "@/components/shared/SigningItemState";
+import { CheckCircle2, Clock, FileText, XCircle } from "lucide-react";
+import type { PacketSigningRequest, SignatureSubmission } from "@shared/schema";
+
+// Public page for a signature packet: one link walks the signer through each of their documents
+export default function PacketPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery<PacketSigningRequest>({
+    queryKey: ["/api/packets", token],
+    enabled: !!token,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/packets", token] });
+  };
+
+  const handleError = (error: Error) => {
+    // A link that stopped working mid-session is explained by the full-page error state
+    if (getSigningTokenError(error)) {
+      refresh();
+    }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async ({ signatureId, submission }: { signatureId: string; submission: SignatureSubmission }) => {
+      return await apiRequest("POST", `/api/packets/${token}/sign`, { signatureId, ...submission });
+    },
+    onSuccess: () => {
+      // Move on to the next document that is ready
+      setSelectedId(null);
+      refresh();
+      toast({
+        title: "Document signed",
+        description: "Your signature has been recorded.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async ({ signatureId, reason }: { signatureId: string; reason: string }) => {
+      return await apiRequest("POST", `/api/packets/${token}/decline`, { signatureId, reason });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Signature declined",
+        description: "Your reason has been shared with the sender.",
+      });
+    },
+    onError: handleError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-5xl p-8">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <SigningLinkError error={error as Error | null} fallback="The signature packet could not be found." />;
+  }
+
+  const { packet, signer, items } = data;
+  const signedCount = items.filter(item => item.state === 'signed').length;
+  const current = items.find(item => item.signature.id === selectedId)
+    || items.find(item => item.state === 'ready')
+    || items[0];
+  const currentIndex = current ? items.indexOf(current) : -1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SigningHeader />
+      <div className="mx-auto max-w-5xl space-y-6 p-6 lg:p-8">
+        <div>
+          <h1 className="text-page font-bold" data-testid="packet-title">{packet.title}</h1>
+          <p className="text-muted-foreground mt-1">
+            {signer.name} · {signedCount} of {items.length} signed
+          </p>
+        </div>
+
+        {packet.status === 'completed' && (
+          <Card data-testid="packet-complete">
+            <CardContent className="flex items-center gap-3 p-6">
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+              <p>Everyone has signed. Every document in this packet is now in effect.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {packet.status === 'declined' && (
+          <Card data-testid="packet-declined">
+            <CardContent className="flex items-center gap-3 p-6">
+              <XCircle className="h-6 w-6 text-destructive" />
+              <p>This packet was declined and sent back to the sender for changes.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {packet.status === 'signing' && items.length > 0 && !items.some(item => item.state === 'ready') && (
+          <Card data-testid="packet-waiting">
+            <CardContent className="flex items-center gap-3 p-6">
+              <Clock className="h-6 w-6 text-muted-foreground" />
+              <p>You're done for now. We'll email you if another document needs your signature.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-1 h-fit">
+            <CardHeader>
+              <CardTitle className="text-card-title">Documents</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-1">
+                {items.map((item, index) => (
+                  <li key={item.signature.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(item.signature.id)}
+                      className={`flex w-full items-start gap-2 rounded-md px-2 py-2 text-left text-sm hover-elevate ${item === current ? "bg-muted" : ""}`}
+                      data-testid={`packet-item-${item.signature.id}`}
+                    >
+                      <SigningStateIcon state={item.state} />
+                      <span>
+                        <span className="block font-medium">{index + 1}. {item.document.title}</span>
+                        <span className="block text-xs text-muted-foreground">{signingStateLabels[item.state]}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+
+          {current && (
+            <div className="lg:col-span-2 space-y-6">
+              <Card>
+                <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+                  <FileText className="h-5 w-5 text-primary" />
+                  <CardTitle className="text-card-title">{current.document.title}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap font-mono text-sm leading-relaxed" data-testid="packet-document-content">
+                    {current.document.content}
+                  </pre>
+                </CardContent>
+              </Card>
+
+              {current.state === 'ready' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-card-title">Your Signature</CardTitle>
+                    <CardDescription>
+                      Document {currentIndex + 1} of {items.length}. Type your full name or draw your signature.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <SignatureForm
+                      key={current.signature.id}
+                      onSign={(submission) => signMutation.mutate({ signatureId: current.signature.id, submission })}
+                      onDecline={(reason) => declineMutation.mutate({ signatureId: current.signature.id, reason })}
+                      isSigning={signMutation.isPending}
+                      isDeclining={declineMutation.isPending}
+                      signLabel={items.filter(item => item.state === 'ready').length > 1 ? "Sign and Continue" : "Sign Document"}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
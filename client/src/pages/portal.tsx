@@ -0,0 +1,390 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { IdentityUploadForm } from "@/components/shared/IdentityUploadForm";
+import { SigningHeader } from "@/components/shared/SigningLinkError";
+import { CheckCircle2, Clock, FileSignature, IdCard, Scale, UserRound, XCircle } from "lucide-react";
+import {
+  founderProfileSchema,
+  type FounderPortalSignature,
+  type FounderPortalView,
+  type FounderProfileInput,
+  type FounderTermsResponseInput,
+  type IdentityUploadInput,
+} from "@shared/schema";
+
+// Why a listed document can't be opened from here
+function waitingLabel(signature: FounderPortalSignature): string {
+  if (signature.via === 'packet') return "Sign from the packet email";
+  if (signature.via === 'in_person') return "Sign in person with the company";
+  if (signature.status === 'pending') return "Waiting for earlier signers";
+  return "Link expired, ask the company to resend it";
+}
+
+function ProfileCard({ portal, onSave, isPending }: {
+  portal: FounderPortalView;
+  onSave: (input: FounderProfileInput) => void;
+  isPending: boolean;
+}) {
+  const form = useForm<FounderProfileInput>({
+    resolver: zodResolver(founderProfileSchema),
+    defaultValues: {
+      firstName: portal.founder.firstName || "",
+      lastName: portal.founder.lastName || "",
+      address: portal.founder.address || "",
+      taxResidency: portal.founder.taxResidency || "",
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-card-title flex items-center gap-2">
+            <UserRound className="h-5 w-5 text-primary" />
+            Your Profile
+          </CardTitle>
+          {portal.founder.profileCompletedAt && <Badge variant="secondary">Complete</Badge>}
+        </div>
+        <CardDescription>Your legal name exactly as it appears on your ID, used in every company document</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="firstName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Legal First Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-portal-first-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="lastName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Legal Last Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-portal-last-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Residential Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} data-testid="input-portal-address" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="taxResidency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tax Residency</FormLabel>
+                  <FormControl>
+                    <Input placeholder="United States" {...field} data-testid="input-portal-tax-residency" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isPending} data-testid="button-save-portal-profile">
+              {isPending ? "Saving..." : "Save Profile"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TermsCard({ portal, onRespond, isPending }: {
+  portal: FounderPortalView;
+  onRespond: (input: FounderTermsResponseInput) => void;
+  isPending: boolean;
+}) {
+  const { founder } = portal;
+  const [disputing, setDisputing] = useState(false);
+  const [note, setNote] = useState("");
+
+  // A saved response closes the dispute box
+  useEffect(() => {
+    setDisputing(false);
+    setNote("");
+  }, [founder.termsResponse, founder.termsDisputeNote]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-card-title flex items-center gap-2">
+            <Scale className="h-5 w-5 text-primary" />
+            Equity and Role
+          </CardTitle>
+          {founder.termsResponse === 'accepted' && <Badge variant="secondary">Accepted</Badge>}
+          {founder.termsResponse === 'disputed' && <Badge variant="destructive">Disputed</Badge>}
+        </div>
+        <CardDescription>What {portal.companyName} has recorded for you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Role</p>
+            <p className="font-medium" data-testid="text-portal-role">{founder.role || "Not set"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Equity</p>
+            <p className="font-medium" data-testid="text-portal-equity">
+              {founder.equityPercentage !== null ? `${founder.equityPercentage}%` : "Not set"}
+            </p>
+          </div>
+        </div>
+        {founder.termsResponse === 'disputed' && founder.termsDisputeNote && (
+          <p className="rounded-md border p-3 text-sm text-muted-foreground">You said: {founder.termsDisputeNote}</p>
+        )}
+        {disputing ? (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="What should change, and why"
+              value={note}
+              onChange={event => setNote(event.target.value)}
+              data-testid="input-portal-dispute-note"
+            />
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => setDisputing(false)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                disabled={isPending || !note.trim()}
+                onClick={() => onRespond({ response: 'disputed', note: note.trim() })}
+                data-testid="button-submit-portal-dispute"
+              >
+                Send Dispute
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            {founder.termsResponse !== 'accepted' && (
+              <Button onClick={() => onRespond({ response: 'accepted' })} disabled={isPending} data-testid="button-portal-accept-terms">
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Accept
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setDisputing(true)} disabled={isPending} data-testid="button-portal-dispute-terms">
+              {founder.termsResponse === 'disputed' ? "Update Dispute" : "Dispute"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function IdentityCard({ portal, onUpload, isPending }: {
+  portal: FounderPortalView;
+  onUpload: (input: IdentityUploadInput) => void;
+  isPending: boolean;
+}) {
+  const { founder, identity } = portal;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-card-title flex items-center gap-2">
+          <IdCard className="h-5 w-5 text-primary" />
+          Identity
+        </CardTitle>
+        <CardDescription>A passport, national ID card or driver's license</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {founder.idUploaded ? (
+          <p className="flex items-center gap-2 text-sm" data-testid="portal-id-verified">
+            <CheckCircle2 className="h-5 w-5 text-green-600" />
+            Your identity has been verified.
+          </p>
+        ) : identity?.status === 'submitted' ? (
+          <p className="flex items-center gap-2 text-sm" data-testid="portal-id-submitted">
+            <Clock className="h-5 w-5 text-primary" />
+            Your ID is waiting for review.
+          </p>
+        ) : (
+          <>
+            {identity?.status === 'rejected' && (
+              <p className="flex items-center gap-2 text-sm" data-testid="portal-id-rejected">
+                <XCircle className="h-5 w-5 text-destructive" />
+                Your last upload was not accepted{identity.reviewNote ? `: ${identity.reviewNote}` : "."}
+              </p>
+            )}
+            <IdentityUploadForm onSubmit={onUpload} isPending={isPending} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Public page reached from the founder invitation; works without an account
+export default function FounderPortalPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: portal, isLoading, error } = useQuery<FounderPortalView>({
+    queryKey: ["/api/portal", token],
+    enabled: !!token,
+  });
+
+  // Every portal action answers with the refreshed portal
+  const onSaved = (title: string) => (updated: FounderPortalView) => {
+    queryClient.setQueryData(["/api/portal", token], updated);
+    toast({ title });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const profileMutation = useMutation({
+    mutationFn: async (input: FounderProfileInput) => {
+      return await apiRequest("PUT", `/api/portal/${token}/profile`, input);
+    },
+    onSuccess: onSaved("Profile saved"),
+    onError,
+  });
+
+  const termsMutation = useMutation({
+    mutationFn: async (input: FounderTermsResponseInput) => {
+      return await apiRequest("POST", `/api/portal/${token}/terms`, input);
+    },
+    onSuccess: onSaved("Response sent to the company"),
+    onError,
+  });
+
+  const identityMutation = useMutation({
+    mutationFn: async (input: IdentityUploadInput) => {
+      return await apiRequest("POST", `/api/portal/${token}/identity`, input);
+    },
+    onSuccess: onSaved("ID uploaded"),
+    onError,
+  });
+
+  const openMutation = useMutation({
+    mutationFn: async (signatureId: string) => {
+      return await apiRequest("POST", `/api/portal/${token}/signatures/${signatureId}/open`);
+    },
+    onSuccess: (result: { url: string }) => setLocation(result.url),
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-3xl p-8">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-xl p-8">
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <XCircle className="h-12 w-12 text-muted-foreground mb-4" />
+              <h2 className="text-section font-semibold mb-2">This portal link can't be used</h2>
+              <p className="text-muted-foreground" data-testid="text-portal-error">
+                {error ? getErrorMessage(error as Error) : "The founder portal could not be found."}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const name = portal.founder.firstName || portal.founder.email;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SigningHeader />
+      <div className="mx-auto max-w-3xl space-y-6 p-6 lg:p-8">
+        <div>
+          <h1 className="text-page font-bold">Welcome, {name}</h1>
+          <p className="text-muted-foreground mt-1">Your founder portal for {portal.companyName}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-card-title flex items-center gap-2">
+              <FileSignature className="h-5 w-5 text-primary" />
+              Awaiting Your Signature
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {portal.signatures.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing to sign right now.</p>
+            ) : portal.signatures.map(signature => (
+              <div key={signature.id} className="flex items-center justify-between gap-2 rounded-md border p-3" data-testid={`portal-signature-${signature.id}`}>
+                <span className="text-sm font-medium">{signature.documentTitle}</span>
+                {signature.canOpen ? (
+                  <Button
+                    size="sm"
+                    onClick={() => openMutation.mutate(signature.id)}
+                    disabled={openMutation.isPending}
+                    data-testid={`button-portal-sign-${signature.id}`}
+                  >
+                    Review & Sign
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">{waitingLabel(signature)}</span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <ProfileCard portal={portal} onSave={input => profileMutation.mutate(input)} isPending={profileMutation.isPending} />
+        <TermsCard portal={portal} onRespond={input => termsMutation.mutate(input)} isPending={termsMutation.isPending} />
+        <IdentityCard portal={portal} onUpload={input => identityMutation.mutate(input)} isPending={identityMutation.isPending} />
+
+        <p className="text-center text-xs text-muted-foreground">
+          This link is personal to you and expires on {new Date(portal.expiresAt).toLocaleDateString()}.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage, getSigningTokenError } from "@/lib/documentUtils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SignatureForm } from "@/components/shared/SignatureForm";
+import { SigningHeader, SigningLinkError } from "@/components/shared/SigningLinkError";
+import { CheckCircle2, FileText, XCircle } from "lucide-react";
+import type { SignatureSubmission, SigningRequest } from "@shared/schema";
+
+// Public page reached from the emailed magic link; works without an account
+export default function SignPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<SigningRequest>({
+    queryKey: ["/api/signatures", token],
+    enabled: !!token,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/signatures", token] });
+  };
+
+  const handleError = (error: Error) => {
+    // A link that stopped working mid-session is explained by the full-page error state
+    if (getSigningTokenError(error)) {
+      refresh();
+    }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async (submission: SignatureSubmission) => {
+      return await apiRequest("POST", `/api/signatures/${token}/sign`, submission);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Document signed",
+        description: "Thank you. Your signature has been recorded.",
+      });
+    },
+    onError: handleError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      return await apiRequest("POST", `/api/signatures/${token}/decline`, { reason });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Signature declined",
+        description: "Your reason has been shared with the sender.",
+      });
+    },
+    onError: handleError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-5xl p-8">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !data?.document) {
+    return <SigningLinkError error={error as Error | null} fallback="The document could not be found." />;
+  }
+
+  const { signature, document } = data;
+  const isOpen = signature.status !== 'signed' && signature.status !== 'declined' && document.status === 'signing';
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SigningHeader />
+      <div className="mx-auto max-w-5xl space-y-6 p-6 lg:p-8">
+        <div>
+          <h1 className="text-page font-bold" data-testid="sign-document-title">{document.title}</h1>
+          <p className="text-muted-foreground mt-1">
+            Signature requested from {signature.signerEmail}
+          </p>
+        </div>
+
+        {signature.status === 'signed' && (
+          <Card data-testid="sign-complete">
+            <CardContent className="flex items-center gap-3 p-6">
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+              <p>You signed this document on {new Date(signature.signedAt!).toLocaleString()}.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {signature.status === 'declined' && (
+          <Card data-testid="sign-declined">
+            <CardContent className="flex items-center gap-3 p-6">
+              <XCircle className="h-6 w-6 text-destructive" />
+              <p>You declined to sign this document. The sender can see your reason.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isOpen && signature.status !== 'signed' && signature.status !== 'declined' && (
+          <Card>
+            <CardContent className="p-6 text-muted-foreground">
+              This document is no longer collecting signatures.
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+            <FileText className="h-5 w-5 text-primary" />
+            <CardTitle className="text-card-title">Document</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap font-mono text-sm leading-relaxed" data-testid="sign-document-content">
+              {document.content}
+            </pre>
+          </CardContent>
+        </Card>
+
+        {isOpen && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title">Your Signature</CardTitle>
+              <CardDescription>Type your full name or draw your signature</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SignatureForm
+                onSign={(submission) => signMutation.mutate(submission)}
+                onDecline={(reason) => declineMutation.mutate(reason)}
+                isSigning={signMutation.isPending}
+                isDeclining={declineMutation.isPending}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,13 +6,15 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { StatusBadge } from "@/components/shared/StatusBadge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { CheckSquare, FileText, Users, Scale } from "lucide-react";
+import { CheckSquare, FileText, Users, Scale, Landmark, UserCog } from "lucide-react";
 import type { Task } from "@shared/schema";
 
 const categoryIcons: Record<string, React.ReactNode> = {
   Documents: <FileText className="h-4 w-4" />,
   KYC: <Users className="h-4 w-4" />,
   Jurisdiction: <Scale className="h-4 w-4" />,
+  Tax: <Landmark className="h-4 w-4" />,
+  Founders: <UserCog className="h-4 w-4" />,
 };
 
 export default function TasksPage() {
@@ -0,0 +1,139 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/documentUtils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { IdentityUploadForm } from "@/components/shared/IdentityUploadForm";
+import { SigningHeader } from "@/components/shared/SigningLinkError";
+import { CheckCircle2, Clock, IdCard, XCircle } from "lucide-react";
+import type { IdentityUploadInput, IdentityUploadRequest } from "@shared/schema";
+
+function StatusCard({ icon, children, testId }: { icon: React.ReactNode; children: React.ReactNode; testId: string }) {
+  return (
+    <Card data-testid={testId}>
+      <CardContent className="flex items-center gap-3 p-6">
+        {icon}
+        <div>{children}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Public page reached from the emailed ID request; works without an account
+export default function VerifyIdPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<IdentityUploadRequest>({
+    queryKey: ["/api/id-upload", token],
+    enabled: !!token,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (input: IdentityUploadInput) => {
+      return await apiRequest("POST", `/api/id-upload/${token}`, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/id-upload", token] });
+      toast({
+        title: "ID uploaded",
+        description: "Thank you. The company will review it shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-xl p-8">Loading...</div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SigningHeader />
+        <div className="mx-auto max-w-xl p-8">
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <XCircle className="h-12 w-12 text-muted-foreground mb-4" />
+              <h2 className="text-section font-semibold mb-2">This upload link is not valid</h2>
+              <p className="text-muted-foreground" data-testid="text-verify-id-error">
+                {error ? getErrorMessage(error as Error) : "The ID request could not be found."}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const expired = data.status === 'requested' && !!data.expiresAt && new Date(data.expiresAt) < new Date();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SigningHeader />
+      <div className="mx-auto max-w-xl space-y-6 p-6 lg:p-8">
+        <div>
+          <h1 className="text-page font-bold">Verify your identity</h1>
+          <p className="text-muted-foreground mt-1">
+            {data.companyName} asked {data.founderName} for a copy of a government-issued ID
+          </p>
+        </div>
+
+        {data.status === 'submitted' && (
+          <StatusCard icon={<Clock className="h-6 w-6 text-primary" />} testId="verify-id-submitted">
+            <p>Your ID was uploaded and is waiting for review.</p>
+          </StatusCard>
+        )}
+
+        {data.status === 'approved' && (
+          <StatusCard icon={<CheckCircle2 className="h-6 w-6 text-green-600" />} testId="verify-id-approved">
+            <p>Your identity has been verified. There is nothing else to do.</p>
+          </StatusCard>
+        )}
+
+        {data.status === 'rejected' && (
+          <StatusCard icon={<XCircle className="h-6 w-6 text-destructive" />} testId="verify-id-rejected">
+            <p>Your ID was not accepted{data.reviewNote ? `: ${data.reviewNote}` : "."}</p>
+            <p className="text-sm text-muted-foreground">The company will send you a new link to try again.</p>
+          </StatusCard>
+        )}
+
+        {expired && (
+          <StatusCard icon={<XCircle className="h-6 w-6 text-muted-foreground" />} testId="verify-id-expired">
+            <p>This upload link has expired. Ask the company to send a new one.</p>
+          </StatusCard>
+        )}
+
+        {data.status === 'requested' && !expired && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-card-title flex items-center gap-2">
+                <IdCard className="h-5 w-5 text-primary" />
+                Upload your ID
+              </CardTitle>
+              <CardDescription>
+                A clear photo or scan where your name, photo and expiry date are readable
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <IdentityUploadForm onSubmit={input => uploadMutation.mutate(input)} isPending={uploadMutation.isPending} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
+import type { IncomingMessage, ServerResponse } from "http";
 import { registerRoutes } from "./routes";
 import { setupAuth } from "./replitAuth";
 import { storage } from "./storage";
+import { jobScheduler } from "./services/jobs";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -12,11 +14,17 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-app.use(express.json({
-  verify: (req, _res, buf) => {
-    req.rawBody = buf;
-  }
-}));
+const keepRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  req.rawBody = buf;
+};
+// Files are uploaded inline as base64 data URLs, so only these routes take large bodies
+const UPLOAD_ROUTES = [
+  '/api/id-upload/:token',
+  '/api/portal/:token/identity',
+  '/api/83b-elections/:id/mailed',
+];
+app.use(UPLOAD_ROUTES, express.json({ limit: '10mb', verify: keepRawBody }));
+app.use(express.json({ verify: keepRawBody }));
 app.use(express.urlencoded({ extended: false }));
 
 // Session configuration
@@ -97,5 +105,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    jobScheduler.start();
   });
 })();
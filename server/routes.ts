@@ -1,12 +1,40 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
 import { requireAuth } from "./replitAuth";
-import { insertCompanySchema, insertFounderSchema, insertInvestorSchema, insertDocumentSchema, insertTaskSchema, insertDocumentSignatureSchema, insertCapTableEntrySchema } from "@shared/schema";
+import { insertCompanySchema, insertFounderSchema, insertInvestorSchema, insertDocumentSchema, insertTaskSchema, insertDocumentSignatureSchema, plannedSignerSchema, signatureSubmissionSchema, signatureDeclineSchema, applyRevisionSchema, safeTermsInputSchema, vestingGrantInputSchema, vestingQuerySchema, founderDepartureInputSchema, identityUploadSchema, identityReviewSchema, founderProfileSchema, founderTermsResponseSchema, signaturePacketCreateSchema, packetItemSchema, signingCodeVerifySchema, roundModelInputSchema, roundScenarioCreateSchema, insertShareClassSchema, shareClassUpdateSchema, equityEventInputSchema, election83bMailedSchema, documentTypeEnum, type ValidationReport, type MissingVariablesResponse } from "@shared/schema";
 import { qdrantService } from "./services/qdrant";
 import { geminiService } from "./services/gemini";
 import { elevenLabsService } from "./services/elevenlabs";
-import { emailService } from "./services/email";
+import { documentLifecycle, DocumentLifecycleError } from "./services/documentLifecycle";
+import { documentVersions } from "./services/documentVersions";
+import { activationHooks } from "./services/activationHooks";
+import { documentRules } from "./services/documentRules";
+import { templateService } from "./services/templates";
+import { draftingSessions } from "./services/draftingSessions";
+import { pdfService, documentFileName } from "./services/pdf";
+import { signatureAudit, type RequestContext } from "./services/signatureAudit";
+import { signingTokens, SigningTokenError } from "./services/signingTokens";
+import { signerRouting } from "./services/signerRouting";
+import { documentRework } from "./services/documentRework";
+import { signaturePackets, SignaturePacketError } from "./services/signaturePackets";
+import { hostSigning, HostSigningError } from "./services/hostSigning";
+import { equityLedger, EquityLedgerError } from "./services/equityLedger";
+import { vesting, VestingError } from "./services/vesting";
+import { founderDepartures, FounderDepartureError } from "./services/founderDepartures";
+import { identityVerification, IdentityVerificationError } from "./services/identityVerification";
+import { founderPortal, FounderPortalError } from "./services/founderPortal";
+import { UploadRejectedError } from "./services/uploadScanner";
+import { financingModel, FinancingModelError } from "./services/financingModel";
+import { section83b, Section83bError } from "./services/section83b";
+import { jobScheduler } from "./services/jobs";
+
+// Comma-separated emails allowed to use the admin endpoints
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
 
 // Helper to get authenticated user
 function getAuthUser(req: Request) {
@@ -17,6 +45,34 @@ function getAuthUser(req: Request) {
   return user;
 }
 
+// Helper to capture where a signer action came from for the audit trail
+function requestContext(req: Request): RequestContext {
+  return { ipAddress: req.ip, userAgent: req.get('user-agent') };
+}
+
+// Helper to report lifecycle violations as a typed 409 response
+function sendLifecycleError(res: Response, error: DocumentLifecycleError) {
+  return res.status(409).json(error.toResponse());
+}
+
+// Helper to report an unusable magic link with a code the signing page can explain
+function sendSigningTokenError(res: Response, error: SigningTokenError) {
+  return res.status(error.status).json(error.toResponse());
+}
+
+// Helper to check the signed-in user against ADMIN_EMAILS
+async function isAdmin(req: Request): Promise<boolean> {
+  const user = await storage.getUser(getAuthUser(req).id);
+  return !!user?.email && ADMIN_EMAILS.includes(user.email.toLowerCase());
+}
+
+const documentPatchSchema = insertDocumentSchema
+  .pick({ title: true, content: true, status: true })
+  .partial();
+
+// Reasons a client may give for a content change (restores go through their own route)
+const editReasonSchema = z.enum(['ai_draft', 'manual_edit', 'validation_fix']).default('manual_edit');
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // ============================================
   // COMPANY ROUTES
@@ -75,14 +131,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const founders = await storage.getFoundersByCompanyId(company.id);
-      res.json(founders);
+      const [founders, grants] = await Promise.all([
+        storage.getFoundersByCompanyId(company.id),
+        storage.getVestingGrantsByCompanyId(company.id),
+      ]);
+      res.json(founders.map(founder => ({
+        ...founder,
+        vestingGrant: grants.find(g => g.founderId === founder.id) || null,
+      })));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Create a new founder (invite)
+  // Create a new founder (invite), optionally with their vesting schedule
   app.post("/api/founders", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
@@ -97,30 +159,1584 @@ export async function registerRoutes(app: Express): Promise<Server> {
         companyId: company.id,
         status: 'invited',
       });
+      const schedule = req.body.vestingGrant ? vestingGrantInputSchema.parse(req.body.vestingGrant) : null;
       
       const founder = await storage.createFounder(data);
+      const vestingGrant = schedule ? await vesting.setGrant(founder, schedule) : null;
       
-      // Send invitation email
+      // Send invitation email with the founder's portal link
       const inviterName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email;
-      await emailService.sendFounderInvitation(
-        founder.email,
-        founder.firstName || founder.email,
-        company.name,
-        inviterName
-      );
+      const baseUrl = req.protocol + '://' + req.get('host');
+      await founderPortal.invite(company, founder, inviterName, baseUrl);
       
-      res.json(founder);
+      res.json({ ...founder, vestingGrant });
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
       res.status(400).json({ message: error.message });
     }
   });
 
-  // ============================================
-  // INVESTOR ROUTES
-  // ============================================
-  
-  // Get all investors for the current user's company
-  app.get("/api/investors", requireAuth, async (req: Request, res: Response) => {
+  // Record or replace a founder's vesting schedule
+  app.post("/api/founders/:id/vesting", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const founder = company && (await storage.getFoundersByCompanyId(company.id)).find(f => f.id === req.params.id);
+      
+      if (!founder) {
+        return res.status(404).json({ message: "Founder not found" });
+      }
+      
+      const schedule = vestingGrantInputSchema.parse(req.body);
+      res.json(await vesting.setGrant(founder, schedule));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Vested and unvested shares as of a date (default today); pass changeOfControlDate / terminationDate to model acceleration
+  app.get("/api/founders/:id/vesting", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const founder = company && (await storage.getFoundersByCompanyId(company.id)).find(f => f.id === req.params.id);
+      
+      if (!founder) {
+        return res.status(404).json({ message: "Founder not found" });
+      }
+      
+      const query = vestingQuerySchema.parse(req.query);
+      res.json(await vesting.status(founder, query));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof VestingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Departures started or completed, newest first
+  app.get("/api/founder-departures", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      res.json(await founderDepartures.list(company.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Start offboarding a founder: drafts the repurchase notice and separation agreement
+  app.post("/api/founders/:id/departure", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const founder = company && (await storage.getFoundersByCompanyId(company.id)).find(f => f.id === req.params.id);
+      
+      if (!company || !founder) {
+        return res.status(404).json({ message: "Founder not found" });
+      }
+      
+      const input = founderDepartureInputSchema.parse(req.body);
+      res.status(201).json(await founderDepartures.start(company, founder, input, user.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof FounderDepartureError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // IDENTITY VERIFICATION ROUTES
+  // ============================================
+
+  // Every ID request and upload for the company, newest first; the review queue is the submitted ones
+  app.get("/api/identity-verifications", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      res.json(await identityVerification.list(company.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Email a founder a magic link to upload their ID
+  app.post("/api/founders/:id/identity-request", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const founder = company && (await storage.getFoundersByCompanyId(company.id)).find(f => f.id === req.params.id);
+      
+      if (!company || !founder) {
+        return res.status(404).json({ message: "Founder not found" });
+      }
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      res.status(201).json(await identityVerification.request(company, founder, user.id, baseUrl));
+    } catch (error: any) {
+      if (error instanceof IdentityVerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // View an uploaded ID while reviewing it; never cached
+  app.get("/api/identity-verifications/:id/file", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const file = await identityVerification.file(company.id, req.params.id);
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Disposition", `inline; filename="${file.fileName.replace(/["\\\r\n]/g, '')}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(file.data);
+    } catch (error: any) {
+      if (error instanceof IdentityVerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Approve or reject an uploaded ID
+  app.post("/api/identity-verifications/:id/review", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const input = identityReviewSchema.parse(req.body);
+      res.json(await identityVerification.review(company.id, req.params.id, input, user.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof IdentityVerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // What an ID upload link is for (no auth required, the token is the credential)
+  app.get("/api/id-upload/:token", async (req: Request, res: Response) => {
+    try {
+      res.json(await identityVerification.view(req.params.token));
+    } catch (error: any) {
+      if (error instanceof IdentityVerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Upload the ID through the magic link
+  app.post("/api/id-upload/:token", async (req: Request, res: Response) => {
+    try {
+      const input = identityUploadSchema.parse(req.body);
+      res.json(await identityVerification.submit(req.params.token, input));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof IdentityVerificationError || error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // FOUNDER PORTAL ROUTES
+  // ============================================
+
+  // Resend a founder's invitation with a new portal link
+  app.post("/api/founders/:id/portal-link", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const founder = company && (await storage.getFoundersByCompanyId(company.id)).find(f => f.id === req.params.id);
+      
+      if (!company || !founder) {
+        return res.status(404).json({ message: "Founder not found" });
+      }
+      
+      const inviterName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email;
+      const baseUrl = req.protocol + '://' + req.get('host');
+      await founderPortal.invite(company, founder, inviterName, baseUrl);
+      res.json({ message: "Invitation sent" });
+    } catch (error: any) {
+      if (error instanceof FounderPortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The founder's portal (no auth required, the token is the credential)
+  app.get("/api/portal/:token", async (req: Request, res: Response) => {
+    try {
+      res.json(await founderPortal.view(req.params.token));
+    } catch (error: any) {
+      if (error instanceof FounderPortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Complete the founder's profile
+  app.put("/api/portal/:token/profile", async (req: Request, res: Response) => {
+    try {
+      const input = founderProfileSchema.parse(req.body);
+      res.json(await founderPortal.updateProfile(req.params.token, input));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof FounderPortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Accept or dispute the equity percentage and role
+  app.post("/api/portal/:token/terms", async (req: Request, res: Response) => {
+    try {
+      const input = founderTermsResponseSchema.parse(req.body);
+      res.json(await founderPortal.respondToTerms(req.params.token, input));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof FounderPortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Upload an ID from the portal
+  app.post("/api/portal/:token/identity", async (req: Request, res: Response) => {
+    try {
+      const input = identityUploadSchema.parse(req.body);
+      res.json(await founderPortal.uploadId(req.params.token, input));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof FounderPortalError || error instanceof IdentityVerificationError || error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get a signing link for a document waiting on the founder
+  app.post("/api/portal/:token/signatures/:id/open", async (req: Request, res: Response) => {
+    try {
+      res.json(await founderPortal.openSignature(req.params.token, req.params.id));
+    } catch (error: any) {
+      if (error instanceof FounderPortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // INVESTOR ROUTES
+  // ============================================
+  
+  // Get all investors for the current user's company
+  app.get("/api/investors", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const [investors, terms] = await Promise.all([
+        storage.getInvestorsByCompanyId(company.id),
+        storage.getSafeTermsByCompanyId(company.id),
+      ]);
+      res.json(investors.map(investor => ({
+        ...investor,
+        safeTerms: terms.find(t => t.investorId === investor.id) || null,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create a new investor with their SAFE terms and generate the SAFE document
+  app.post("/api/investors", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const data = insertInvestorSchema.parse({
+        ...req.body,
+        companyId: company.id,
+        status: 'pending',
+      });
+      const terms = safeTermsInputSchema.parse(req.body.safeTerms);
+      
+      const investor = await storage.createInvestor(data);
+      const safeTerms = await storage.createSafeTerms({ ...terms, investorId: investor.id });
+      
+      // Generate SAFE document from the template, leaving placeholders for anything unknown
+      const draft = await templateService.draft(company, 'safe', {
+        investorId: investor.id,
+        allowMissing: true,
+      });
+      
+      const safeDoc = await storage.createDocument({
+        companyId: company.id,
+        type: 'safe',
+        title: `SAFE - ${investor.name}`,
+        content: draft.content,
+        status: 'drafting',
+        templateId: draft.template.id,
+        templateVersion: draft.template.version,
+      });
+      
+      await documentVersions.record(safeDoc, 'ai_draft', user.id);
+      
+      // Update investor with SAFE document reference
+      const updated = await storage.updateInvestor(investor.id, { safeDocumentId: safeDoc.id });
+      
+      res.json({ ...updated, safeTerms });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // DOCUMENT ROUTES
+  // ============================================
+  
+  // Get all documents for the current user's company
+  app.get("/api/documents", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const documents = await storage.getDocumentsByCompanyId(company.id);
+      res.json(documents);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get a specific document
+  app.get("/api/documents/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(document);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create a new document
+  app.post("/api/documents", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const data = insertDocumentSchema.parse({
+        ...req.body,
+        companyId: company.id,
+        status: 'drafting',
+        validationErrors: null,
+      });
+      
+      const document = await storage.createDocument(data);
+      
+      // Record the first version (also stores it in Qdrant for semantic search)
+      await documentVersions.record(document, editReasonSchema.parse(req.body.reason), user.id);
+      
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // List the templates available for the company's jurisdiction
+  app.get("/api/templates", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const templates = templateService.listTemplates(company.jurisdiction).map(template => ({
+        id: template.id,
+        type: template.type,
+        version: template.version,
+        title: template.title,
+        variables: template.variables,
+        optionalClauses: template.optionalClauses.map(({ key, title }) => ({ key, title })),
+      }));
+      res.json(templates);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Draft a document from its template, reporting any variables that still need values
+  app.post("/api/documents/draft-from-template", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const { type, investorId, values } = z.object({
+        type: z.enum(documentTypeEnum.enumValues),
+        investorId: z.string().optional(),
+        values: z.record(z.string()).optional(),
+      }).parse(req.body);
+      
+      const draft = await templateService.draft(company, type, { investorId, values });
+      
+      if (!draft.content) {
+        const body: MissingVariablesResponse = {
+          message: `Missing details: ${draft.missingVariables.map(v => v.label).join(', ')}`,
+          templateId: draft.template.id,
+          missingVariables: draft.missingVariables,
+        };
+        return res.status(422).json(body);
+      }
+      
+      const document = await storage.createDocument({
+        companyId: company.id,
+        type,
+        title: investorId && type === 'safe'
+          ? `SAFE - ${draft.values['investor.name']}`
+          : draft.template.title,
+        content: draft.content,
+        status: 'drafting',
+        templateId: draft.template.id,
+        templateVersion: draft.template.version,
+      });
+      
+      await documentVersions.record(document, 'ai_draft', user.id);
+      
+      if (investorId && type === 'safe') {
+        await storage.updateInvestor(investorId, { safeDocumentId: document.id });
+      }
+      
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Update a document
+  app.patch("/api/documents/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const existing = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !existing || existing.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const patch = documentPatchSchema.parse(req.body);
+      const reason = editReasonSchema.parse(req.body.reason);
+      const document = await documentLifecycle.update(existing, {
+        title: patch.title,
+        content: patch.content,
+        status: patch.status ?? undefined,
+      });
+      
+      // Record a new version (and re-index in Qdrant) if content changed
+      if (document.content !== existing.content) {
+        await documentVersions.record(document, reason, user.id);
+      }
+      
+      res.json(document);
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // List a document's version history (newest first)
+  app.get("/api/documents/:id/versions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const versions = await documentVersions.list(document.id);
+      res.json(versions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Diff two versions of a document (?from=<versionId>&to=<versionId>&granularity=line|clause)
+  app.get("/api/documents/:id/versions/diff", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { from, to, granularity } = z.object({
+        from: z.string(),
+        to: z.string(),
+        granularity: z.enum(['line', 'clause']).default('line'),
+      }).parse(req.query);
+      
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getDocumentVersionById(from),
+        storage.getDocumentVersionById(to),
+      ]);
+      
+      if (!fromVersion || !toVersion || fromVersion.documentId !== document.id || toVersion.documentId !== document.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      res.json({
+        from: fromVersion,
+        to: toVersion,
+        granularity,
+        changes: documentVersions.diff(fromVersion, toVersion, granularity),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Restore an old version as the current draft
+  app.post("/api/documents/:id/versions/:versionId/restore", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const version = await storage.getDocumentVersionById(req.params.versionId);
+      if (!version || version.documentId !== document.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      const restored = await documentVersions.restore(document, version, user.id);
+      res.json(restored);
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Validate a document using local rules and AI
+  app.post("/api/documents/:id/validate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Local rule checks run alongside the AI review and are merged into one report
+      const [ruleFindings, aiValidation] = await Promise.all([
+        documentRules.check(document),
+        geminiService.validateDocument(document.type, document.content || ''),
+      ]);
+      
+      const findings = [...ruleFindings, ...aiValidation.findings];
+      const report: ValidationReport = {
+        valid: !findings.some(finding => finding.severity === 'blocker'),
+        findings,
+        validatedAt: new Date().toISOString(),
+      };
+      const validated = await storage.updateDocument(document.id, { validationErrors: report });
+      
+      // Update document status based on validation
+      const status = documentLifecycle.statusOf(validated);
+      if (report.valid && status === 'drafting') {
+        await documentLifecycle.transition(validated, 'validating');
+      } else if (!report.valid && status === 'validating') {
+        await documentLifecycle.transition(validated, 'drafting');
+      }
+      
+      res.json(report);
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Send document for signature
+  app.post("/api/documents/:id/send-for-signature", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Signers default to the routing for the document type; an explicit list overrides it
+      const { signers } = z.object({
+        signers: z.array(plannedSignerSchema).min(1, "Signers array cannot be empty").optional(),
+      }).parse(req.body || {});
+      
+      // Reject before any emails go out if the document is not ready
+      documentLifecycle.assertTransition(document, 'signing');
+      
+      const planned = signers || await signerRouting.plan(document);
+      if (planned.length === 0) {
+        return res.status(400).json({ message: "No signers could be determined for this document. List the signers explicitly." });
+      }
+      
+      // Create signature requests; only the first signing group is emailed now
+      const baseUrl = req.protocol + '://' + req.get('host');
+      await signerRouting.start(document, planned, baseUrl, requestContext(req));
+      
+      // Update document status
+      await documentLifecycle.transition(document, 'signing');
+      
+      res.json({ message: "Signature requests sent successfully" });
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Explain a clause of a document in plain language
+  app.post("/api/documents/:id/explain", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const { clause } = z.object({ clause: z.string().min(1, "Clause text is required") }).parse(req.body);
+      
+      const companyContext = `Company: ${company.name}, Jurisdiction: ${company.jurisdiction}`;
+      const explanation = await geminiService.explainClause(document.title, clause, companyContext);
+      res.json({ explanation });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Download a document as a PDF
+  app.get("/api/documents/:id/pdf", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const pdf = await pdfService.render(document);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${documentFileName(document)}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Export every active document as a zipped data room
+  app.get("/api/data-room/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const archive = await pdfService.dataRoom(company);
+      if (!archive) {
+        return res.status(404).json({ message: "No active documents to export" });
+      }
+      
+      const slug = company.name.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase();
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${slug || "company"}-data-room.zip"`);
+      archive.on("error", (error) => res.destroy(error));
+      archive.pipe(res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get the activation hook log for a document
+  app.get("/api/documents/:id/activation-hooks", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const runs = await storage.getActivationHookRuns(document.id);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Re-run activation hooks for an active document (completed hooks are skipped)
+  app.post("/api/documents/:id/activation-hooks/run", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      if (documentLifecycle.statusOf(document) !== 'active') {
+        return res.status(400).json({ message: "Activation hooks only run for active documents" });
+      }
+      
+      const runs = await activationHooks.run(document);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // DRAFTING SESSION ROUTES
+  // ============================================
+  
+  // List the company's drafting sessions (most recently active first)
+  app.get("/api/drafting-sessions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const sessions = await storage.getDraftingSessionsByCompanyId(company.id);
+      res.json(sessions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Start drafting a document; returns the questions that still need answers
+  app.post("/api/drafting-sessions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const { type, investorId } = z.object({
+        type: z.enum(documentTypeEnum.enumValues),
+        investorId: z.string().optional(),
+      }).parse(req.body);
+      
+      const state = await draftingSessions.start(company, user.id, type, investorId);
+      res.json(state);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Resume a drafting session
+  app.get("/api/drafting-sessions/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const session = await storage.getDraftingSessionById(req.params.id);
+      
+      if (!company || !session || session.companyId !== company.id) {
+        return res.status(404).json({ message: "Drafting session not found" });
+      }
+      
+      const state = await draftingSessions.refresh(session, company);
+      res.json(state);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Answer open questions, either directly or with a text/voice transcript
+  app.post("/api/drafting-sessions/:id/answers", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const session = await storage.getDraftingSessionById(req.params.id);
+      
+      if (!company || !session || session.companyId !== company.id) {
+        return res.status(404).json({ message: "Drafting session not found" });
+      }
+      
+      const input = z.object({
+        answers: z.record(z.string()).optional(),
+        transcript: z.string().optional(),
+      }).refine(data => data.answers || data.transcript, {
+        message: "Provide answers or a transcript",
+      }).parse(req.body);
+      
+      const state = await draftingSessions.answer(session, company, input);
+      res.json(state);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Produce the draft once every required input is filled
+  app.post("/api/drafting-sessions/:id/draft", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const session = await storage.getDraftingSessionById(req.params.id);
+      
+      if (!company || !session || session.companyId !== company.id) {
+        return res.status(404).json({ message: "Drafting session not found" });
+      }
+      
+      if (session.status === 'drafted') {
+        return res.status(400).json({ message: "This drafting session has already produced a document" });
+      }
+      
+      const { state, document } = await draftingSessions.draft(session, company, user.id);
+      
+      if (!document) {
+        return res.status(422).json({
+          message: `Still need: ${state.questions.map(q => q.label).join(', ')}`,
+          ...state,
+        });
+      }
+      
+      res.json({ ...state, document });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // TASK ROUTES
+  // ============================================
+  
+  // Get all tasks for the current user's company
+  app.get("/api/tasks", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const tasks = await storage.getTasksByCompanyId(company.id);
+      res.json(tasks);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create a new task
+  app.post("/api/tasks", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const data = insertTaskSchema.parse({
+        ...req.body,
+        companyId: company.id,
+        status: 'pending',
+      });
+      
+      const task = await storage.createTask(data);
+      res.json(task);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Update a task
+  app.patch("/api/tasks/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const task = await storage.updateTask(req.params.id, req.body);
+      res.json(task);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // SIGNATURE ROUTES
+  // ============================================
+  
+  // Get signatures for a document
+  app.get("/api/documents/:id/signatures", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const signatures = await storage.getSignaturesByDocumentId(document.id);
+      res.json(signatures);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Preview who would sign a document, and in what order
+  app.get("/api/documents/:id/signers/plan", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const signers = await signerRouting.plan(document);
+      res.json(signers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Revoke an outstanding signing link
+  app.post("/api/documents/:id/signatures/:signatureId/revoke", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const [company, signature, document] = await Promise.all([
+        storage.getCompanyByUserId(user.id),
+        storage.getSignatureById(req.params.signatureId),
+        storage.getDocumentById(req.params.id),
+      ]);
+      
+      if (!company || !signature || !document || document.companyId !== company.id || signature.documentId !== document.id) {
+        return res.status(404).json({ message: "Signature request not found" });
+      }
+      
+      if (signature.status === 'signed' || signature.status === 'declined') {
+        return res.status(400).json({ message: `This signature request was already ${signature.status}` });
+      }
+      
+      if (signature.status === 'pending') {
+        return res.status(400).json({ message: "This signer is waiting for earlier signers and has no link yet" });
+      }
+      
+      if (signature.packetId) {
+        return res.status(400).json({ message: "This signer uses their signature packet link, not a per-document link" });
+      }
+      
+      const updated = await signingTokens.revoke(signature);
+      await signatureAudit.record(updated, 'revoked', requestContext(req));
+      
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Resend a signature request with a new link, invalidating the old one
+  app.post("/api/documents/:id/signatures/:signatureId/resend", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const [company, signature, document] = await Promise.all([
+        storage.getCompanyByUserId(user.id),
+        storage.getSignatureById(req.params.signatureId),
+        storage.getDocumentById(req.params.id),
+      ]);
+      
+      if (!company || !signature || !document || document.companyId !== company.id || signature.documentId !== document.id) {
+        return res.status(404).json({ message: "Signature request not found" });
+      }
+      
+      if (signature.status === 'signed' || signature.status === 'declined') {
+        return res.status(400).json({ message: `This signature request was already ${signature.status}` });
+      }
+      
+      if (signature.status === 'pending') {
+        return res.status(400).json({ message: "This signer is waiting for earlier signers and has no link yet" });
+      }
+      
+      if (signature.packetId) {
+        return res.status(400).json({ message: "This signer uses their signature packet link, not a per-document link" });
+      }
+      
+      // Only documents still out for signature can be resent
+      documentLifecycle.assertTransition(document, 'active');
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const updated = await signerRouting.send(document, signature, baseUrl, requestContext(req), "Resent with a new link");
+      
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Get signature by magic token (no auth required for signing)
+  app.get("/api/signatures/:token", async (req: Request, res: Response) => {
+    try {
+      const signature = await signingTokens.resolve(req.params.token);
+      
+      // Also return the document
+      const document = await storage.getDocumentById(signature.documentId);
+      
+      await signatureAudit.record(signature, 'viewed', requestContext(req));
+      
+      res.json({ signature, document });
+    } catch (error: any) {
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Audit trail of signature events for a document
+  app.get("/api/documents/:id/signature-events", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const events = await signatureAudit.events(document.id);
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Comments on a document, newest first (decline reasons land here)
+  app.get("/api/documents/:id/comments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const comments = await storage.getCommentsByDocumentId(document.id);
+      res.json(comments);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Ask the AI for a revision that addresses a comment; nothing is saved yet
+  app.post("/api/documents/:id/comments/:commentId/propose-revision", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      const comment = await storage.getCommentById(req.params.commentId);
+      
+      if (!company || !document || document.companyId !== company.id || !comment || comment.documentId !== document.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (documentLifecycle.isContentLocked(document)) {
+        return res.status(400).json({ message: "Documents can only be revised while drafting" });
+      }
+      
+      const proposal = await documentRework.proposeRevision(document, comment);
+      if (!proposal) {
+        return res.status(502).json({ message: "Failed to draft a revision. Please try again." });
+      }
+      
+      res.json(proposal);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Save a (possibly edited) revision as a new version and resolve the comment
+  app.post("/api/documents/:id/comments/:commentId/apply-revision", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      const comment = await storage.getCommentById(req.params.commentId);
+      
+      if (!company || !document || document.companyId !== company.id || !comment || comment.documentId !== document.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.resolvedAt) {
+        return res.status(400).json({ message: "This comment has already been resolved" });
+      }
+      
+      const { content } = applyRevisionSchema.parse(req.body);
+      const updated = await documentRework.applyRevision(document, comment, content, user.id);
+      
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Certificate of completion for an activated document, checked against the stored content
+  app.get("/api/documents/:id/certificate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const certificate = await storage.getCertificateByDocumentId(document.id);
+      
+      if (!certificate) {
+        return res.status(404).json({ message: "No certificate has been issued for this document" });
+      }
+      
+      const verification = await signatureAudit.verify(certificate.id);
+      res.json(verification);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Verify a certificate of completion (no auth required)
+  app.get("/api/certificates/:id/verify", async (req: Request, res: Response) => {
+    try {
+      const verification = await signatureAudit.verifyPublic(req.params.id);
+      
+      if (!verification) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+      
+      res.json(verification);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Submit signature (no auth required)
+  app.post("/api/signatures/:token/sign", async (req: Request, res: Response) => {
+    try {
+      const signature = await signingTokens.resolve(req.params.token, { forAction: true });
+      
+      const submission = signatureSubmissionSchema.parse(req.body);
+      
+      const document = await storage.getDocumentById(signature.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Fingerprint the signed content, then activate or release the next signing group
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const { signature: updated } = await signerRouting.sign(document, signature, submission, baseUrl, requestContext(req));
+      
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Decline to sign, with a reason for the sender (no auth required)
+  app.post("/api/signatures/:token/decline", async (req: Request, res: Response) => {
+    try {
+      const signature = await signingTokens.resolve(req.params.token, { forAction: true });
+      
+      const { reason } = signatureDeclineSchema.parse(req.body);
+      
+      const document = await storage.getDocumentById(signature.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Send the document back for rework and tell the owner why
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const { signature: updated } = await documentRework.decline(document, signature, reason, baseUrl, requestContext(req));
+      
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // SIGNATURE PACKET ROUTES
+  // ============================================
+
+  // Packets for the current company, newest first
+  app.get("/api/signature-packets", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      res.json(await signaturePackets.summaries(company.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Send several documents for signature together, one link per signer
+  app.post("/api/signature-packets", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const { documentIds, title } = signaturePacketCreateSchema.parse(req.body);
+      
+      const documents = [];
+      for (const id of Array.from(new Set(documentIds))) {
+        const document = await storage.getDocumentById(id);
+        if (!document || document.companyId !== company.id) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        documents.push(document);
+      }
+      
+      // Reject before any emails go out if a document is not ready
+      for (const document of documents) {
+        documentLifecycle.assertTransition(document, 'signing');
+      }
+      
+      const plans = await signaturePackets.plan(documents);
+      const unrouted = documents.find(d => (plans.get(d.id) || []).length === 0);
+      if (unrouted) {
+        return res.status(400).json({ message: `No signers could be determined for ${unrouted.title}` });
+      }
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const packet = await signaturePackets.send(
+        company,
+        documents,
+        title || `${company.name} signature packet`,
+        plans,
+        baseUrl,
+        requestContext(req)
+      );
+      
+      res.status(201).json(packet);
+    } catch (error: any) {
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public view of a packet from its magic link (no auth required)
+  app.get("/api/packets/:token", async (req: Request, res: Response) => {
+    try {
+      res.json(await signaturePackets.view(req.params.token, requestContext(req)));
+    } catch (error: any) {
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Sign one document in a packet (no auth required)
+  app.post("/api/packets/:token/sign", async (req: Request, res: Response) => {
+    try {
+      const { signatureId } = packetItemSchema.parse(req.body);
+      const submission = signatureSubmissionSchema.parse(req.body);
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const signature = await signaturePackets.sign(req.params.token, signatureId, submission, baseUrl, requestContext(req));
+      
+      res.json(signature);
+    } catch (error: any) {
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      if (error instanceof SignaturePacketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Decline one document, which sends the whole packet back for rework (no auth required)
+  app.post("/api/packets/:token/decline", async (req: Request, res: Response) => {
+    try {
+      const { signatureId } = packetItemSchema.parse(req.body);
+      const { reason } = signatureDeclineSchema.parse(req.body);
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const signature = await signaturePackets.decline(req.params.token, signatureId, reason, baseUrl, requestContext(req));
+      
+      res.json(signature);
+    } catch (error: any) {
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      if (error instanceof SignaturePacketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // IN-PERSON SIGNING ROUTES
+  // ============================================
+
+  // Start (or resume) a session where founders sign in turn on this device
+  app.post("/api/documents/:id/host-sessions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const document = await storage.getDocumentById(req.params.id);
+      
+      if (!company || !document || document.companyId !== company.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const session = await hostSigning.start(document, user.id, baseUrl, requestContext(req));
+      
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/host-sessions/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const { session, document } = await hostSigning.resolve(req.params.id, company.id);
+      res.json(await hostSigning.view(session, document));
+    } catch (error: any) {
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Email the founder whose turn it is a one-time code
+  app.post("/api/host-sessions/:id/signatures/:signatureId/code", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const { session, document } = await hostSigning.resolve(req.params.id, company.id);
+      await hostSigning.sendCode(session, document, req.params.signatureId, requestContext(req));
+      
+      res.json({ message: "Code sent" });
+    } catch (error: any) {
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/host-sessions/:id/signatures/:signatureId/verify", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
+      }
+      
+      const { code } = signingCodeVerifySchema.parse(req.body);
+      const { session, document } = await hostSigning.resolve(req.params.id, company.id);
+      await hostSigning.verifyCode(session, document, req.params.signatureId, code, requestContext(req));
+      
+      res.json({ message: "Identity confirmed" });
+    } catch (error: any) {
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Sign for a founder who has just confirmed their code
+  app.post("/api/host-sessions/:id/signatures/:signatureId/sign", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -129,15 +1745,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const investors = await storage.getInvestorsByCompanyId(company.id);
-      res.json(investors);
+      const submission = signatureSubmissionSchema.parse(req.body);
+      const { session, document } = await hostSigning.resolve(req.params.id, company.id);
+      const host = await storage.getUser(user.id);
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const signature = await hostSigning.sign(
+        session,
+        document,
+        req.params.signatureId,
+        submission,
+        host?.email || user.id,
+        baseUrl,
+        requestContext(req)
+      );
+      
+      res.json(signature);
     } catch (error: any) {
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Create a new investor and generate SAFE document
-  app.post("/api/investors", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/host-sessions/:id/signatures/:signatureId/decline", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -146,44 +1787,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const data = insertInvestorSchema.parse({
-        ...req.body,
-        companyId: company.id,
-        status: 'pending',
-      });
-      
-      const investor = await storage.createInvestor(data);
-      
-      // Generate SAFE document
-      const safeContent = await geminiService.draftDocument(
-        'SAFE',
-        company,
-        { investor: data, amount: data.amount }
-      );
-      
-      const safeDoc = await storage.createDocument({
-        companyId: company.id,
-        type: 'safe',
-        title: `SAFE - ${investor.name}`,
-        content: safeContent,
-        status: 'drafting',
-      });
+      const { reason } = signatureDeclineSchema.parse(req.body);
+      const { session, document } = await hostSigning.resolve(req.params.id, company.id);
       
-      // Update investor with SAFE document reference
-      await storage.updateInvestor(investor.id, { safeDocumentId: safeDoc.id });
+      const baseUrl = req.protocol + '://' + req.get('host');
+      const signature = await hostSigning.decline(session, document, req.params.signatureId, reason, baseUrl, requestContext(req));
       
-      res.json(investor);
+      res.json(signature);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof SigningTokenError) {
+        return sendSigningTokenError(res, error);
+      }
+      if (error instanceof DocumentLifecycleError) {
+        return sendLifecycleError(res, error);
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // ============================================
-  // DOCUMENT ROUTES
-  // ============================================
-  
-  // Get all documents for the current user's company
-  app.get("/api/documents", requireAuth, async (req: Request, res: Response) => {
+  // End the session early; founders who have not signed get their links by email
+  app.post("/api/host-sessions/:id/cancel", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -192,30 +1821,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const documents = await storage.getDocumentsByCompanyId(company.id);
-      res.json(documents);
+      const { session, document } = await hostSigning.resolve(req.params.id, company.id);
+      
+      const baseUrl = req.protocol + '://' + req.get('host');
+      res.json(await hostSigning.cancel(session, document, baseUrl, requestContext(req)));
     } catch (error: any) {
+      if (error instanceof HostSigningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get a specific document
-  app.get("/api/documents/:id", requireAuth, async (req: Request, res: Response) => {
+  // ============================================
+  // CAP TABLE ROUTES
+  // ============================================
+  
+  // Read-only projection of the equity ledger: share classes, holdings and fully diluted percentages
+  app.get("/api/cap-table", requireAuth, async (req: Request, res: Response) => {
     try {
-      const document = await storage.getDocumentById(req.params.id);
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
       
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
       }
       
-      res.json(document);
+      res.json(await equityLedger.capTable(company.id));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Create a new document
-  app.post("/api/documents", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/share-classes", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -224,132 +1862,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const data = insertDocumentSchema.parse({
-        ...req.body,
-        companyId: company.id,
-        status: 'drafting',
-      });
-      
-      const document = await storage.createDocument(data);
-      
-      // Store in Qdrant for semantic search
-      if (document.content) {
-        await qdrantService.storeDocument(
-          company.id,
-          document.id,
-          document.content,
-          { title: document.title, type: document.type }
-        );
-      }
+      const data = insertShareClassSchema.omit({ companyId: true }).parse(req.body);
+      const shareClass = await equityLedger.createShareClass(company.id, data);
       
-      res.json(document);
+      res.status(201).json(shareClass);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof EquityLedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // Update a document
-  app.patch("/api/documents/:id", requireAuth, async (req: Request, res: Response) => {
+  // Change a class's authorized shares; it can never drop below what the ledger has issued
+  app.patch("/api/share-classes/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const document = await storage.updateDocument(req.params.id, req.body);
-      
-      // Update in Qdrant if content changed
-      if (req.body.content) {
-        const company = await storage.getCompanyByUserId((req.user as any).id);
-        if (company) {
-          await qdrantService.storeDocument(
-            company.id,
-            document.id,
-            req.body.content,
-            { title: document.title, type: document.type }
-          );
-        }
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
+      const shareClass = await storage.getShareClassById(req.params.id);
+      
+      if (!company || !shareClass || shareClass.companyId !== company.id) {
+        return res.status(404).json({ message: "Share class not found" });
       }
       
-      res.json(document);
+      const { authorizedShares } = shareClassUpdateSchema.parse(req.body);
+      res.json(await equityLedger.setAuthorizedShares(shareClass, authorizedShares));
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof EquityLedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // Validate a document using AI
-  app.post("/api/documents/:id/validate", requireAuth, async (req: Request, res: Response) => {
+  // Ledger history, newest first
+  app.get("/api/equity-events", requireAuth, async (req: Request, res: Response) => {
     try {
-      const document = await storage.getDocumentById(req.params.id);
-      
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-      
-      const validation = await geminiService.validateDocument(
-        document.type,
-        document.content || ''
-      );
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
       
-      // Update document status based on validation
-      if (validation.valid) {
-        await storage.updateDocument(document.id, { status: 'validating' });
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
       }
       
-      res.json(validation);
+      res.json(await equityLedger.history(company.id));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Send document for signature
-  app.post("/api/documents/:id/send-for-signature", requireAuth, async (req: Request, res: Response) => {
+  // Record an issuance, transfer, cancellation or repurchase; events are never edited afterwards
+  app.post("/api/equity-events", requireAuth, async (req: Request, res: Response) => {
     try {
-      const document = await storage.getDocumentById(req.params.id);
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
       
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
       }
       
-      const { signers } = req.body; // Array of { email, name }
+      const input = equityEventInputSchema.parse(req.body);
+      const event = await equityLedger.record(company.id, input, user.id);
       
-      if (!signers || !Array.isArray(signers)) {
-        return res.status(400).json({ message: "Signers array is required" });
+      res.status(201).json(event);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
       }
-      
-      // Create signature requests
-      const baseUrl = req.protocol + '://' + req.get('host');
-      
-      for (const signer of signers) {
-        const magicToken = emailService.generateMagicToken();
-        
-        await storage.createSignature({
-          documentId: document.id,
-          signerEmail: signer.email,
-          signerName: signer.name,
-          magicToken,
-          status: 'sent',
-        });
-        
-        await emailService.sendSignatureRequest(
-          signer.email,
-          signer.name,
-          document.title,
-          magicToken,
-          baseUrl
-        );
+      if (error instanceof EquityLedgerError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      // Update document status
-      await storage.updateDocument(document.id, { status: 'signing' });
-      
-      res.json({ message: "Signature requests sent successfully" });
-    } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // ============================================
-  // TASK ROUTES
+  // 83(B) ELECTION ROUTES
   // ============================================
-  
-  // Get all tasks for the current user's company
-  app.get("/api/tasks", requireAuth, async (req: Request, res: Response) => {
+
+  // Elections prepared for founders' restricted stock, newest first
+  app.get("/api/83b-elections", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -358,15 +1956,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const tasks = await storage.getTasksByCompanyId(company.id);
-      res.json(tasks);
+      res.json(await section83b.list(company.id));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Create a new task
-  app.post("/api/tasks", requireAuth, async (req: Request, res: Response) => {
+  // Record that the signed election went to the IRS, with the certified mail receipt
+  app.post("/api/83b-elections/:id/mailed", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -375,102 +1972,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const data = insertTaskSchema.parse({
-        ...req.body,
-        companyId: company.id,
-        status: 'pending',
-      });
-      
-      const task = await storage.createTask(data);
-      res.json(task);
-    } catch (error: any) {
-      res.status(400).json({ message: error.message });
-    }
-  });
-
-  // Update a task
-  app.patch("/api/tasks/:id", requireAuth, async (req: Request, res: Response) => {
-    try {
-      const task = await storage.updateTask(req.params.id, req.body);
-      res.json(task);
-    } catch (error: any) {
-      res.status(400).json({ message: error.message });
-    }
-  });
-
-  // ============================================
-  // SIGNATURE ROUTES
-  // ============================================
-  
-  // Get signatures for a document
-  app.get("/api/documents/:id/signatures", requireAuth, async (req: Request, res: Response) => {
-    try {
-      const signatures = await storage.getSignaturesByDocumentId(req.params.id);
-      res.json(signatures);
+      const input = election83bMailedSchema.parse(req.body);
+      res.json(await section83b.markMailed(company.id, req.params.id, input));
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof Section83bError || error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
-  
-  // Get signature by magic token (no auth required for signing)
-  app.get("/api/signatures/:token", async (req: Request, res: Response) => {
+
+  // Download the proof of mailing
+  app.get("/api/83b-elections/:id/proof", requireAuth, async (req: Request, res: Response) => {
     try {
-      const signature = await storage.getSignatureByToken(req.params.token);
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
       
-      if (!signature) {
-        return res.status(404).json({ message: "Signature request not found or expired" });
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
       }
       
-      // Also return the document
-      const document = await storage.getDocumentById(signature.documentId);
-      
-      res.json({ signature, document });
+      const proof = await section83b.proof(company.id, req.params.id);
+      res.setHeader("Content-Type", proof.mimeType);
+      res.setHeader("Content-Disposition", `attachment; filename="${proof.fileName.replace(/["\\\r\n]/g, '')}"`);
+      res.send(proof.data);
     } catch (error: any) {
+      if (error instanceof Section83bError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
-  
-  // Submit signature (no auth required)
-  app.post("/api/signatures/:token/sign", async (req: Request, res: Response) => {
+
+  // ============================================
+  // ROUND MODELING ROUTES
+  // ============================================
+
+  // Model a priced round against the current cap table and SAFEs without saving it
+  app.post("/api/financing/model", requireAuth, async (req: Request, res: Response) => {
     try {
-      const signature = await storage.getSignatureByToken(req.params.token);
+      const user = getAuthUser(req);
+      const company = await storage.getCompanyByUserId(user.id);
       
-      if (!signature) {
-        return res.status(404).json({ message: "Signature request not found or expired" });
+      if (!company) {
+        return res.status(404).json({ message: "No company found" });
       }
       
-      if (signature.status === 'signed') {
-        return res.status(400).json({ message: "Document already signed" });
+      const inputs = roundModelInputSchema.parse(req.body);
+      res.json(await financingModel.model(company.id, inputs));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
       }
-      
-      // Update signature
-      const updated = await storage.updateSignature(signature.id, {
-        status: 'signed',
-        signedAt: new Date(),
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      });
-      
-      // Check if all signatures are complete
-      const allSignatures = await storage.getSignaturesByDocumentId(signature.documentId);
-      const allSigned = allSignatures.every(s => s.status === 'signed');
-      
-      if (allSigned) {
-        await storage.updateDocument(signature.documentId, { status: 'active' });
+      if (error instanceof FinancingModelError) {
+        return res.status(400).json({ message: error.message });
       }
-      
-      res.json(updated);
-    } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // ============================================
-  // CAP TABLE ROUTES
-  // ============================================
-  
-  // Get cap table for the current user's company
-  app.get("/api/cap-table", requireAuth, async (req: Request, res: Response) => {
+  // Saved scenarios, newest first
+  app.get("/api/financing/scenarios", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -479,15 +2044,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const capTable = await storage.getCapTableByCompanyId(company.id);
-      res.json(capTable);
+      res.json(await storage.getRoundScenariosByCompanyId(company.id));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-  
-  // Create cap table entry
-  app.post("/api/cap-table", requireAuth, async (req: Request, res: Response) => {
+
+  // Save a scenario; the result is a snapshot of the cap table as it stands today
+  app.post("/api/financing/scenarios", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = getAuthUser(req);
       const company = await storage.getCompanyByUserId(user.id);
@@ -496,15 +2060,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No company found" });
       }
       
-      const data = insertCapTableEntrySchema.parse({
-        ...req.body,
-        companyId: company.id,
-      });
+      const { name, ...inputs } = roundScenarioCreateSchema.parse(req.body);
+      const scenario = await financingModel.saveScenario(company.id, name, inputs);
       
-      const entry = await storage.createCapTableEntry(data);
-      res.json(entry);
+      res.status(201).json(scenario);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", details: error.errors });
+      }
+      if (error instanceof FinancingModelError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
     }
   });
 
@@ -729,6 +2296,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============================================
+  // ADMIN ROUTES
+  // ============================================
+
+  // Scheduler health: schedules, queue counts, recent and failed jobs
+  app.get("/api/admin/jobs", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await isAdmin(req))) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      res.json(await jobScheduler.status());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Re-queue a job that used up its attempts
+  app.post("/api/admin/jobs/:id/retry", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await isAdmin(req))) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const job = await storage.getJobById(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.status !== 'failed') {
+        return res.status(400).json({ message: `Only failed jobs can be retried (this one is ${job.status})` });
+      }
+
+      res.json(await jobScheduler.retry(job.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
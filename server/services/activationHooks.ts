@@ -0,0 +1,152 @@
+import { storage } from "../storage";
+import { equityLedger } from "./equityLedger";
+import { founderDepartures } from "./founderDepartures";
+import type { ActivationHookRun, Company, Document, DocumentType } from "@shared/schema";
+
+// Shares split between founders when a pre-founder agreement is activated
+const FOUNDER_SHARE_POOL = 10_000_000;
+
+// A run still marked running after this long is assumed to have died with its process
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+export interface ActivationContext {
+  document: Document;
+  company: Company;
+}
+
+// A hook returns a short summary of what it changed, for the run log
+export type ActivationHandler = (context: ActivationContext) => Promise<string>;
+
+interface ActivationHook {
+  name: string;
+  handler: ActivationHandler;
+}
+
+export class ActivationHookService {
+  private registry: Partial<Record<DocumentType, ActivationHook[]>> = {};
+
+  register(type: DocumentType, name: string, handler: ActivationHandler): void {
+    const hooks = this.registry[type] || [];
+    if (hooks.some(hook => hook.name === name)) {
+      throw new Error(`Activation hook ${name} is already registered for ${type}`);
+    }
+    this.registry[type] = [...hooks, { name, handler }];
+  }
+
+  hooksFor(type: DocumentType): string[] {
+    return (this.registry[type] || []).map(hook => hook.name);
+  }
+
+  // Run every hook for the document's type. Each run is claimed in the database before its
+  // handler starts, so a re-run racing a live activation can never apply a hook twice.
+  async run(document: Document): Promise<ActivationHookRun[]> {
+    const hooks = this.registry[document.type] || [];
+    if (hooks.length === 0) return [];
+
+    const company = await storage.getCompanyById(document.companyId);
+    if (!company) {
+      throw new Error(`Company ${document.companyId} not found for document ${document.id}`);
+    }
+
+    const runs: ActivationHookRun[] = [];
+
+    for (const hook of hooks) {
+      const claimed = await storage.claimActivationHookRun(document.id, hook.name, new Date(Date.now() - STALE_RUN_MS));
+      if (!claimed) {
+        const current = (await storage.getActivationHookRuns(document.id)).find(run => run.hookName === hook.name);
+        console.log(`Activation hook ${hook.name} already ${current?.status || 'claimed'} for document ${document.id} - skipping`);
+        if (current) runs.push(current);
+        continue;
+      }
+
+      try {
+        const summary = await hook.handler({ document, company });
+        console.log(`Activation hook ${hook.name} applied to document ${document.id}: ${summary}`);
+        runs.push(await storage.updateActivationHookRun(claimed.id, { status: 'completed', summary, error: null }));
+      } catch (error: any) {
+        console.error(`Activation hook ${hook.name} failed for document ${document.id}:`, error);
+        runs.push(await storage.updateActivationHookRun(claimed.id, {
+          status: 'failed',
+          summary: null,
+          error: error?.message || String(error),
+        }));
+      }
+    }
+
+    return runs;
+  }
+}
+
+export const activationHooks = new ActivationHookService();
+
+// ============================================
+// BUILT-IN HOOKS
+// ============================================
+
+// Founders become active and are issued their common stock
+activationHooks.register('pre_founder_agreement', 'activate_founders', async ({ document, company }) => {
+  const founders = await storage.getFoundersByCompanyId(company.id);
+  const grants = await storage.getVestingGrantsByCompanyId(company.id);
+  const common = await equityLedger.commonClass(company.id);
+  const events = await equityLedger.history(company.id);
+  let activated = 0;
+  let issued = 0;
+
+  for (const founder of founders) {
+    if (founder.status === 'departed') continue;
+    if (founder.status !== 'active') {
+      await storage.updateFounder(founder.id, { status: 'active' });
+      activated++;
+    }
+
+    // A vesting grant fixes the founder's share count; otherwise it follows their equity percentage
+    const grant = grants.find(g => g.founderId === founder.id);
+    const shares = grant ? grant.totalShares : Math.round(FOUNDER_SHARE_POOL * (founder.equityPercentage || 0) / 100);
+    const alreadyIssued = events.some(
+      event => event.type === 'issuance' && event.holderType === 'founder' && event.holderId === founder.id
+    );
+    if (shares > 0 && !alreadyIssued) {
+      await equityLedger.record(company.id, {
+        shareClassId: common.id,
+        type: 'issuance',
+        holder: { holderType: 'founder', holderId: founder.id },
+        shares,
+        effectiveDate: new Date().toISOString().slice(0, 10),
+        documentId: document.id,
+        note: 'Founder shares under the pre-founder agreement',
+      }, null);
+      issued++;
+    }
+  }
+
+  return `${activated} founder(s) activated, ${issued} founder issuance${issued === 1 ? '' : 's'} recorded`;
+});
+
+// The investor attached to this SAFE is now signed
+activationHooks.register('safe', 'mark_investor_signed', async ({ document }) => {
+  const investor = await storage.getInvestorBySafeDocumentId(document.id);
+  if (!investor) return 'No investor linked to this SAFE';
+
+  if (investor.status !== 'signed') {
+    await storage.updateInvestor(investor.id, { status: 'signed' });
+  }
+  return `Investor ${investor.name} marked signed`;
+});
+
+// Close out tasks tracking the IP assignment
+activationHooks.register('ip_assignment', 'complete_ip_tasks', async ({ document, company }) => {
+  const tasks = await storage.getTasksByCompanyId(company.id);
+  const matching = tasks.filter(task =>
+    task.status !== 'completed' &&
+    (task.documentId === document.id || (!task.documentId && /\bip assignment\b/i.test(task.description)))
+  );
+
+  for (const task of matching) {
+    await storage.updateTask(task.id, { status: 'completed' });
+  }
+  return `${matching.length} task(s) completed`;
+});
+
+// Whichever departure document is activated last buys back the unvested shares and offboards the founder
+activationHooks.register('repurchase_notice', 'complete_founder_departure', ({ document }) => founderDepartures.complete(document));
+activationHooks.register('separation_agreement', 'complete_founder_departure', ({ document }) => founderDepartures.complete(document));
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { documentLifecycle, DocumentLifecycleError } from "./documentLifecycle";
+import { activationHooks } from "./activationHooks";
+import { storage } from "../storage";
+import type { Document, DocumentStatus, ValidationFinding } from "@shared/schema";
+
+vi.mock("../storage", () => ({
+  storage: {
+    updateDocument: vi.fn(async (id: string, data: Partial<Document>) => ({ id, ...data })),
+    updateDocumentIfStatus: vi.fn(),
+  },
+}));
+vi.mock("./activationHooks", () => ({ activationHooks: { run: vi.fn() } }));
+vi.mock("./signatureAudit", () => ({ signatureAudit: { issueCertificate: vi.fn() } }));
+
+const STATUSES: DocumentStatus[] = ['drafting', 'validating', 'signing', 'active'];
+
+const ALLOWED: [DocumentStatus, DocumentStatus][] = [
+  ['drafting', 'validating'],
+  ['validating', 'drafting'],
+  ['validating', 'signing'],
+  ['signing', 'active'],
+  ['signing', 'drafting'],
+];
+
+function finding(severity: ValidationFinding['severity']): ValidationFinding {
+  return { severity, category: 'inconsistency', message: `A ${severity}`, source: 'rules' };
+}
+
+function document(status: DocumentStatus | null, overrides: Partial<Document> = {}): Document {
+  return {
+    id: 'doc-1',
+    companyId: 'company-1',
+    type: 'safe',
+    title: 'SAFE',
+    status,
+    content: 'Original text',
+    validationErrors: null,
+    ...overrides,
+  } as Document;
+}
+
+function validated(findings: ValidationFinding[]): Partial<Document> {
+  return { validationErrors: { findings } } as Partial<Document>;
+}
+
+function lifecycleError(action: () => unknown): DocumentLifecycleError {
+  try {
+    action();
+  } catch (error) {
+    expect(error).toBeInstanceOf(DocumentLifecycleError);
+    return error as DocumentLifecycleError;
+  }
+  throw new Error("Expected a DocumentLifecycleError");
+}
+
+describe("transition table", () => {
+  for (const from of STATUSES) {
+    for (const to of STATUSES) {
+      const allowed = ALLOWED.some(([a, b]) => a === from && b === to);
+      it(`${allowed ? 'allows' : 'refuses'} ${from} → ${to}`, () => {
+        expect(documentLifecycle.canTransition(from, to)).toBe(allowed);
+      });
+    }
+  }
+
+  it("treats a document without a status as drafting", () => {
+    expect(documentLifecycle.statusOf(document(null))).toBe('drafting');
+  });
+
+  it("locks content once the document goes out for signature", () => {
+    expect(STATUSES.filter(status => documentLifecycle.isContentLocked(document(status)))).toEqual(['signing', 'active']);
+  });
+});
+
+describe("assertTransition", () => {
+  it("refuses a move the table does not allow", () => {
+    const error = lifecycleError(() => documentLifecycle.assertTransition(document('drafting'), 'active'));
+
+    expect(error.code).toBe('invalid_transition');
+    expect(error.toResponse()).toMatchObject({ from: 'drafting', to: 'active' });
+  });
+
+  it("requires a validation report before signing", () => {
+    const error = lifecycleError(() => documentLifecycle.assertTransition(document('validating'), 'signing'));
+
+    expect(error.code).toBe('validation_blocked');
+  });
+
+  it("requires blockers to be resolved before signing, but not warnings", () => {
+    const blocked = document('validating', validated([finding('blocker'), finding('warning')]));
+    expect(lifecycleError(() => documentLifecycle.assertTransition(blocked, 'signing')).message)
+      .toBe('Resolve 1 blocking validation finding before sending for signature');
+
+    const warned = document('validating', validated([finding('warning')]));
+    expect(() => documentLifecycle.assertTransition(warned, 'signing')).not.toThrow();
+  });
+});
+
+describe("transition", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("only applies the move if the stored status is unchanged", async () => {
+    vi.mocked(storage.updateDocumentIfStatus).mockResolvedValue(undefined);
+
+    const error = await documentLifecycle.transition(document('signing'), 'active').catch(e => e);
+    expect(error).toBeInstanceOf(DocumentLifecycleError);
+    expect(error.code).toBe('conflict');
+    expect(storage.updateDocumentIfStatus).toHaveBeenCalledWith('doc-1', 'signing', expect.objectContaining({ status: 'active' }));
+    expect(activationHooks.run).not.toHaveBeenCalled();
+  });
+
+  it("stamps activation and runs the hooks once active", async () => {
+    const active = document('active');
+    vi.mocked(storage.updateDocumentIfStatus).mockResolvedValue(active);
+
+    await expect(documentLifecycle.transition(document('signing'), 'active')).resolves.toBe(active);
+    expect(vi.mocked(storage.updateDocumentIfStatus).mock.calls[0][2]).toHaveProperty('activatedAt');
+    expect(activationHooks.run).toHaveBeenCalledWith(active);
+  });
+});
+
+describe("update", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("refuses content edits once signing has started", async () => {
+    const error = await documentLifecycle.update(document('signing'), { content: 'New text' }).catch(e => e);
+
+    expect(error.code).toBe('content_locked');
+  });
+
+  it("sends an edited, validated document back to drafting and drops the old report", async () => {
+    await documentLifecycle.update(document('validating', validated([])), { content: 'New text' });
+
+    expect(storage.updateDocument).toHaveBeenCalledWith('doc-1', { content: 'New text', validationErrors: null, status: 'drafting' });
+  });
+
+  it("keeps signing and validation statuses out of plain edits", async () => {
+    const toSigning = await documentLifecycle.update(document('validating', validated([])), { status: 'signing' }).catch(e => e);
+    const toValidating = await documentLifecycle.update(document('drafting'), { status: 'validating' }).catch(e => e);
+
+    expect(toSigning.code).toBe('invalid_transition');
+    expect(toValidating.code).toBe('invalid_transition');
+    expect(storage.updateDocument).not.toHaveBeenCalled();
+  });
+});
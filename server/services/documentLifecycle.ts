@@ -0,0 +1,183 @@
+import { storage } from "../storage";
+import { activationHooks } from "./activationHooks";
+import { signatureAudit } from "./signatureAudit";
+import type {
+  Document,
+  DocumentStatus,
+  DocumentLifecycleErrorCode,
+  DocumentLifecycleErrorResponse,
+  ValidationFinding,
+} from "@shared/schema";
+
+// Allowed moves through the drafting → validating → signing → active workflow
+const TRANSITIONS: Record<DocumentStatus, DocumentStatus[]> = {
+  drafting: ['validating'],
+  validating: ['drafting', 'signing'],
+  signing: ['active', 'drafting'], // back to drafting when a signer declines
+  active: [],
+};
+
+// Content is frozen once a document has gone out for signature
+const LOCKED_STATUSES: DocumentStatus[] = ['signing', 'active'];
+
+// Statuses that can only be entered or left through the signature routes, never a plain edit
+const SIGNATURE_STATUSES: DocumentStatus[] = ['signing', 'active'];
+
+// Only a validation run can mark a document as validated
+const VALIDATION_STATUSES: DocumentStatus[] = ['validating'];
+
+export class DocumentLifecycleError extends Error {
+  constructor(
+    public code: DocumentLifecycleErrorCode,
+    message: string,
+    public from: DocumentStatus,
+    public to?: DocumentStatus
+  ) {
+    super(message);
+    this.name = 'DocumentLifecycleError';
+  }
+
+  toResponse(): DocumentLifecycleErrorResponse {
+    return {
+      message: this.message,
+      code: this.code,
+      from: this.from,
+      to: this.to,
+    };
+  }
+}
+
+export interface DocumentPatch {
+  title?: string;
+  content?: string | null;
+  status?: DocumentStatus;
+}
+
+export class DocumentLifecycleService {
+  statusOf(document: Document): DocumentStatus {
+    return document.status || 'drafting';
+  }
+
+  canTransition(from: DocumentStatus, to: DocumentStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  isContentLocked(document: Document): boolean {
+    return LOCKED_STATUSES.includes(this.statusOf(document));
+  }
+
+  // Blocker findings from the last validation report
+  blockersOf(document: Document): ValidationFinding[] {
+    return (document.validationErrors?.findings || []).filter(finding => finding.severity === 'blocker');
+  }
+
+  // Throws if the document cannot move to the given status
+  assertTransition(document: Document, to: DocumentStatus): void {
+    const from = this.statusOf(document);
+    if (!this.canTransition(from, to)) {
+      throw new DocumentLifecycleError(
+        'invalid_transition',
+        `Cannot move a document from ${from} to ${to}`,
+        from,
+        to
+      );
+    }
+
+    if (to === 'signing') {
+      if (!document.validationErrors) {
+        throw new DocumentLifecycleError(
+          'validation_blocked',
+          'Document must be validated before it can be sent for signature',
+          from,
+          to
+        );
+      }
+      const blockers = this.blockersOf(document);
+      if (blockers.length > 0) {
+        throw new DocumentLifecycleError(
+          'validation_blocked',
+          `Resolve ${blockers.length} blocking validation finding${blockers.length === 1 ? '' : 's'} before sending for signature`,
+          from,
+          to
+        );
+      }
+    }
+  }
+
+  // Move a document to a new status, stamping activatedAt and running hooks on activation.
+  // The move only applies if the stored status is still the one checked, so when two requests
+  // race (say the last two signers) exactly one activates and the other gets a conflict.
+  async transition(document: Document, to: DocumentStatus): Promise<Document> {
+    this.assertTransition(document, to);
+
+    const from = this.statusOf(document);
+    const updated = await storage.updateDocumentIfStatus(document.id, from, {
+      status: to,
+      ...(to === 'active' ? { activatedAt: new Date() } : {}),
+    });
+    if (!updated) {
+      throw new DocumentLifecycleError(
+        'conflict',
+        `The document is no longer ${from}; reload it and try again`,
+        from,
+        to
+      );
+    }
+
+    if (to === 'active') {
+      await signatureAudit.issueCertificate(updated);
+      await activationHooks.run(updated);
+    }
+
+    return updated;
+  }
+
+  // Apply a user edit, enforcing content locks and legal status changes
+  async update(document: Document, patch: DocumentPatch): Promise<Document> {
+    const from = this.statusOf(document);
+    const contentChanged = patch.content !== undefined && patch.content !== document.content;
+
+    if (contentChanged && this.isContentLocked(document)) {
+      throw new DocumentLifecycleError(
+        'content_locked',
+        `Document content cannot be edited once it is ${from}`,
+        from
+      );
+    }
+
+    let status = patch.status;
+    if (status && status !== from) {
+      this.assertTransition(document, status);
+      if (SIGNATURE_STATUSES.includes(status) || SIGNATURE_STATUSES.includes(from)) {
+        throw new DocumentLifecycleError(
+          'invalid_transition',
+          `Documents can only move to ${status} through the signature workflow`,
+          from,
+          status
+        );
+      }
+      if (VALIDATION_STATUSES.includes(status)) {
+        throw new DocumentLifecycleError(
+          'invalid_transition',
+          `Documents can only move to ${status} by running validation`,
+          from,
+          status
+        );
+      }
+    }
+
+    // Editing a validated document invalidates the validation
+    if (contentChanged && from === 'validating') {
+      status = 'drafting';
+    }
+
+    // The last report describes the old text, so edited content must be validated again
+    return await storage.updateDocument(document.id, {
+      ...(patch.title !== undefined ? { title: patch.title } : {}),
+      ...(contentChanged ? { content: patch.content, validationErrors: null } : {}),
+      ...(status && status !== from ? { status } : {}),
+    });
+  }
+}
+
+export const documentLifecycle = new DocumentLifecycleService();
@@ -0,0 +1,113 @@
+import { storage } from "../storage";
+import { documentLifecycle } from "./documentLifecycle";
+import { documentVersions } from "./documentVersions";
+import { emailService } from "./email";
+import { geminiService } from "./gemini";
+import { pdfService } from "./pdf";
+import { signingTokens, SigningTokenError } from "./signingTokens";
+import { signatureAudit, type RequestContext } from "./signatureAudit";
+import type {
+  Document,
+  DocumentComment,
+  DocumentRevisionProposal,
+  DocumentSignature,
+} from "@shared/schema";
+
+export class DocumentReworkService {
+  // A decline ends the signing round: every other link stops working, the round's
+  // signatures are voided, and the reason is kept as a comment to revise against
+  async decline(
+    document: Document,
+    signature: DocumentSignature,
+    reason: string,
+    baseUrl: string,
+    context: RequestContext = {}
+  ): Promise<{ signature: DocumentSignature; document: Document; comment: DocumentComment }> {
+    // Only documents out for signature can be declined
+    documentLifecycle.assertTransition(document, 'active');
+
+    const declined = await storage.updateSignatureIfSent(signature.id, {
+      status: 'declined',
+      declinedAt: new Date(),
+      declineReason: reason,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+    if (!declined) {
+      throw new SigningTokenError('used', "This signature request has already been completed or withdrawn");
+    }
+    await signatureAudit.record(declined, 'declined', context, reason);
+
+    const signerName = (await pdfService.signersFor(document)).find(s => s.signature.id === declined.id)?.name
+      || declined.signerEmail;
+    const comment = await storage.createComment({
+      documentId: document.id,
+      signatureId: declined.id,
+      kind: 'decline',
+      authorName: signerName,
+      authorEmail: declined.signerEmail,
+      body: reason,
+    });
+
+    const updated = await this.recall(document, context, `Voided after ${declined.signerEmail} declined`);
+    await this.notifyOwner(updated, signerName, reason, baseUrl);
+
+    return { signature: declined, document: updated, comment };
+  }
+
+  // Pull a document out of signing: revoke open links, void the round and reopen drafting
+  async recall(document: Document, context: RequestContext, details: string): Promise<Document> {
+    const signatures = await storage.getSignaturesByDocumentId(document.id);
+    for (const signature of signatures) {
+      const open = signature.status === 'pending' || signature.status === 'sent';
+      if (!open || signature.revokedAt) continue;
+
+      const revoked = await signingTokens.revoke(signature);
+      if (signature.status === 'sent') {
+        await signatureAudit.record(revoked, 'revoked', context, details);
+      }
+    }
+    await storage.voidSignaturesByDocumentId(document.id);
+
+    return await documentLifecycle.transition(document, 'drafting');
+  }
+
+  // Ask the AI for a full revision that addresses one comment; nothing is saved until applied
+  async proposeRevision(document: Document, comment: DocumentComment): Promise<DocumentRevisionProposal | null> {
+    const revision = await geminiService.reviseDocument(document.type, document.content || '', comment.body);
+    if (!revision) return null;
+
+    return { commentId: comment.id, ...revision };
+  }
+
+  // Save the revised content as a new version and mark the comment resolved
+  async applyRevision(
+    document: Document,
+    comment: DocumentComment,
+    content: string,
+    authorId: string | null
+  ): Promise<Document> {
+    const updated = await documentLifecycle.update(document, { content });
+    if (updated.content !== document.content) {
+      await documentVersions.record(updated, 'ai_draft', authorId);
+    }
+    await storage.resolveComment(comment.id);
+    return updated;
+  }
+
+  private async notifyOwner(document: Document, signerName: string, reason: string, baseUrl: string): Promise<void> {
+    const company = await storage.getCompanyById(document.companyId);
+    const owner = company && await storage.getUser(company.userId);
+    if (!owner?.email) return;
+
+    await emailService.sendSignatureDeclined(
+      owner.email,
+      document.title,
+      signerName,
+      reason,
+      `${baseUrl}/documents/${document.id}`
+    );
+  }
+}
+
+export const documentRework = new DocumentReworkService();
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { documentRules, mentionsAmount } from "./documentRules";
+import { storage } from "../storage";
+import type { Company, Document, Founder, Investor, SafeTerms } from "@shared/schema";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getCompanyById: vi.fn(),
+    getFoundersByCompanyId: vi.fn(),
+    getInvestorsByCompanyId: vi.fn(),
+    getSafeTermsByCompanyId: vi.fn(),
+  },
+}));
+
+const company = { id: 'company-1', name: 'Acme Robotics', jurisdiction: 'delaware' } as Company;
+
+function founder(firstName: string, equityPercentage: number, status: Founder['status'] = 'active'): Founder {
+  return { id: firstName, companyId: company.id, email: `${firstName}@acme.test`, firstName, lastName: 'Smith', equityPercentage, status } as Founder;
+}
+
+function document(type: Document['type'], content: string): Document {
+  return { id: 'doc-1', companyId: company.id, type, title: 'Draft', content, status: 'drafting' } as Document;
+}
+
+const investor = { id: 'inv-1', name: 'Seed Fund', amount: 250000, safeDocumentId: 'doc-1' } as Investor;
+const terms = {
+  investorId: 'inv-1',
+  safeType: 'post_money',
+  valuationCap: 8000000,
+  discountRate: 20,
+  mfn: false,
+  proRata: true,
+} as SafeTerms;
+
+function setup(data: { founders?: Founder[]; investors?: Investor[]; safeTerms?: SafeTerms[] }) {
+  vi.mocked(storage.getCompanyById).mockResolvedValue(company);
+  vi.mocked(storage.getFoundersByCompanyId).mockResolvedValue(data.founders || []);
+  vi.mocked(storage.getInvestorsByCompanyId).mockResolvedValue(data.investors || []);
+  vi.mocked(storage.getSafeTermsByCompanyId).mockResolvedValue(data.safeTerms || []);
+}
+
+function messages(findings: { message: string }[]): string[] {
+  return findings.map(f => f.message);
+}
+
+describe("mentionsAmount", () => {
+  it("matches the usual ways of writing an amount", () => {
+    for (const text of ['50000', '50,000', '$50,000.00', '50 000', '50.000']) {
+      expect(mentionsAmount(`Purchase Amount: ${text}`, 50000)).toBe(true);
+    }
+  });
+
+  it("does not match inside a larger number", () => {
+    expect(mentionsAmount('Purchase Amount: $150,000', 50000)).toBe(false);
+    expect(mentionsAmount('Purchase Amount: $50,0001', 50000)).toBe(false);
+  });
+});
+
+describe("documentRules.check", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("flags an empty document", async () => {
+    setup({});
+    const findings = await documentRules.check(document('bylaws', '  '));
+
+    expect(findings).toEqual([expect.objectContaining({ severity: 'blocker', message: 'Document has no content', source: 'rules' })]);
+  });
+
+  it("warns when the company is not named", async () => {
+    setup({});
+    const findings = await documentRules.check(document('bylaws', 'Bylaws of a company'));
+
+    expect(messages(findings)).toContain('Document does not name the company "Acme Robotics"');
+  });
+
+  it("passes a founder agreement that matches the recorded split", async () => {
+    setup({ founders: [founder('Ada', 60), founder('Grace', 40)] });
+    const findings = await documentRules.check(document('pre_founder_agreement',
+      'Acme Robotics. Ada Smith holds 60%. Grace Smith holds 40 percent.'));
+
+    expect(findings).toEqual([]);
+  });
+
+  it("catches a founder agreement that disagrees with the records", async () => {
+    setup({ founders: [founder('Ada', 60), founder('Grace', 30)] });
+    const findings = await documentRules.check(document('pre_founder_agreement', 'Acme Robotics. Ada Smith holds 50%.'));
+
+    expect(messages(findings)).toEqual([
+      'Founder equity percentages add up to 90%, not 100%',
+      'Agreement does not state the 60% equity recorded for Ada Smith',
+      'Agreement does not name founder Grace Smith',
+    ]);
+  });
+
+  it("leaves departed founders out of the split", async () => {
+    setup({ founders: [founder('Ada', 100), founder('Grace', 40, 'departed')] });
+    const findings = await documentRules.check(document('pre_founder_agreement', 'Acme Robotics. Ada Smith holds 100%.'));
+
+    expect(findings).toEqual([]);
+  });
+
+  it("passes a SAFE that matches its investor and terms", async () => {
+    setup({ investors: [investor], safeTerms: [terms] });
+    const findings = await documentRules.check(document('safe',
+      'Acme Robotics issues this Post-Money SAFE to Seed Fund for $250,000. ' +
+      'The Valuation Cap is $8,000,000. The Discount is 20%. Pro Rata Rights under a side letter.'));
+
+    expect(findings).toEqual([]);
+  });
+
+  it("catches SAFE economics that differ from the recorded terms", async () => {
+    setup({ investors: [investor], safeTerms: [terms] });
+    const findings = await documentRules.check(document('safe',
+      'Acme Robotics issues this Pre-Money SAFE to Seed Fund for $200,000. ' +
+      'The Valuation Cap is $10,000,000. The Discount is 15%. Most Favored Nation applies.'));
+
+    expect(messages(findings)).toEqual([
+      'SAFE does not state the purchase amount of $250,000 recorded for Seed Fund',
+      'SAFE does not say it is a post-money instrument, as recorded for Seed Fund',
+      'SAFE does not state the valuation cap of 8,000,000 recorded for Seed Fund',
+      'SAFE does not state the 20% discount recorded for Seed Fund',
+      'SAFE includes a most favored nation provision that is not recorded for Seed Fund',
+      'SAFE does not reference the pro rata side letter agreed with Seed Fund',
+    ]);
+  });
+
+  it("requires a Delaware certificate to name the state", async () => {
+    setup({});
+    const findings = await documentRules.check(document('certificate_incorporation', 'Certificate of Acme Robotics'));
+
+    expect(messages(findings)).toEqual(['Certificate of Incorporation does not reference the State of Delaware']);
+  });
+});
@@ -0,0 +1,265 @@
+import { storage } from "../storage";
+import type {
+  Company,
+  Document,
+  DocumentType,
+  Founder,
+  Investor,
+  SafeTerms,
+  ValidationFinding,
+} from "@shared/schema";
+
+// Everything a rule may look at; loaded once per validation
+export interface RuleContext {
+  document: Document;
+  content: string;
+  company: Company;
+  founders: Founder[];
+  investors: Investor[];
+  safeTerms: SafeTerms[];
+}
+
+export type DocumentRule = (context: RuleContext) => ValidationFinding[];
+
+type RuleFinding = Omit<ValidationFinding, 'source'>;
+
+function finding(data: RuleFinding): ValidationFinding {
+  return { ...data, source: 'rules' };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(content: string, text: string): boolean {
+  return new RegExp(escapeRegExp(text.trim()), 'i').test(content);
+}
+
+// Match an amount written as 50000, 50,000, $50,000.00, 50 000 or 50.000
+export function mentionsAmount(content: string, amount: number): boolean {
+  const digits = String(Math.trunc(amount));
+  const grouped = digits.replace(/\B(?=(\d{3})+(?!\d))/g, '[,. \u00a0]?');
+  return new RegExp(`(^|[^\\d])${grouped}([.,]0{1,2})?(?![\\d])`).test(content);
+}
+
+function founderName(founder: Founder): string {
+  return `${founder.firstName || ''} ${founder.lastName || ''}`.trim();
+}
+
+// ============================================
+// RULES
+// ============================================
+
+const notEmpty: DocumentRule = ({ content }) =>
+  content.trim().length === 0
+    ? [finding({ severity: 'blocker', category: 'missing_clause', message: 'Document has no content' })]
+    : [];
+
+const namesCompany: DocumentRule = ({ content, company }) =>
+  content.trim().length > 0 && !mentions(content, company.name)
+    ? [finding({
+        severity: 'warning',
+        category: 'inconsistency',
+        message: `Document does not name the company "${company.name}"`,
+        suggestedFix: `Identify the company as "${company.name}" in the preamble`,
+      })]
+    : [];
+
+const safeMatchesInvestor: DocumentRule = ({ document, content, investors }) => {
+  const investor = investors.find(i => i.safeDocumentId === document.id);
+  if (!investor) {
+    return [finding({
+      severity: 'warning',
+      category: 'inconsistency',
+      message: 'This SAFE is not linked to an investor record',
+    })];
+  }
+
+  const findings: ValidationFinding[] = [];
+  if (!mentions(content, investor.name)) {
+    findings.push(finding({
+      severity: 'blocker',
+      category: 'inconsistency',
+      message: `SAFE does not name the investor "${investor.name}"`,
+      suggestedFix: `Name "${investor.name}" as the Investor`,
+    }));
+  }
+  if (investor.amount && !mentionsAmount(content, investor.amount)) {
+    findings.push(finding({
+      severity: 'blocker',
+      category: 'inconsistency',
+      message: `SAFE does not state the purchase amount of $${investor.amount.toLocaleString('en-US')} recorded for ${investor.name}`,
+      suggestedFix: `State the Purchase Amount as $${investor.amount.toLocaleString('en-US')}`,
+    }));
+  }
+  return findings;
+};
+
+const MFN_PATTERN = /most[- ]favou?red[- ]nation|\bMFN\b/i;
+const PRO_RATA_PATTERN = /pro[- ]rata/i;
+
+const safeMatchesTerms: DocumentRule = ({ document, content, investors, safeTerms }) => {
+  const investor = investors.find(i => i.safeDocumentId === document.id);
+  if (!investor) return [];
+
+  const terms = safeTerms.find(t => t.investorId === investor.id);
+  if (!terms) {
+    return [finding({
+      severity: 'warning',
+      category: 'missing_clause',
+      message: `No SAFE terms (valuation cap, discount, MFN) are recorded for ${investor.name}, so the economics cannot be checked`,
+    })];
+  }
+
+  const findings: ValidationFinding[] = [];
+  const type = terms.safeType === 'post_money' ? 'post-money' : 'pre-money';
+  if (!new RegExp(type.replace('-', '[- ]'), 'i').test(content)) {
+    findings.push(finding({
+      severity: 'blocker',
+      category: 'inconsistency',
+      message: `SAFE does not say it is a ${type} instrument, as recorded for ${investor.name}`,
+      suggestedFix: `State that the valuation is ${type}`,
+    }));
+  }
+  if (terms.valuationCap && !mentionsAmount(content, terms.valuationCap)) {
+    findings.push(finding({
+      severity: 'blocker',
+      category: 'inconsistency',
+      message: `SAFE does not state the valuation cap of ${terms.valuationCap.toLocaleString('en-US')} recorded for ${investor.name}`,
+      suggestedFix: `Set the Valuation Cap to ${terms.valuationCap.toLocaleString('en-US')}`,
+    }));
+  }
+  if (terms.discountRate && !new RegExp(`(^|[^\\d])${terms.discountRate}\\s?(%|percent)`, 'i').test(content)) {
+    findings.push(finding({
+      severity: 'blocker',
+      category: 'inconsistency',
+      message: `SAFE does not state the ${terms.discountRate}% discount recorded for ${investor.name}`,
+      suggestedFix: `Set the Discount to ${terms.discountRate}% (a Discount Rate of ${100 - terms.discountRate}%)`,
+    }));
+  }
+  if (terms.mfn !== MFN_PATTERN.test(content)) {
+    findings.push(finding({
+      severity: terms.mfn ? 'blocker' : 'warning',
+      category: terms.mfn ? 'missing_clause' : 'inconsistency',
+      message: terms.mfn
+        ? `SAFE is missing the most favored nation provision agreed with ${investor.name}`
+        : `SAFE includes a most favored nation provision that is not recorded for ${investor.name}`,
+    }));
+  }
+  if (terms.proRata !== PRO_RATA_PATTERN.test(content)) {
+    findings.push(finding({
+      severity: terms.proRata ? 'blocker' : 'warning',
+      category: terms.proRata ? 'missing_clause' : 'inconsistency',
+      message: terms.proRata
+        ? `SAFE does not reference the pro rata side letter agreed with ${investor.name}`
+        : `SAFE grants pro rata rights that are not recorded for ${investor.name}`,
+    }));
+  }
+  return findings;
+};
+
+const founderSplitMatches: DocumentRule = ({ content, founders }) => {
+  const findings: ValidationFinding[] = [];
+  if (founders.length === 0) {
+    return [finding({
+      severity: 'blocker',
+      category: 'missing_clause',
+      message: 'No founders are recorded for this company',
+    })];
+  }
+
+  const total = founders.reduce((sum, f) => sum + (f.equityPercentage || 0), 0);
+  if (total !== 100) {
+    findings.push(finding({
+      severity: 'blocker',
+      category: 'inconsistency',
+      message: `Founder equity percentages add up to ${total}%, not 100%`,
+      suggestedFix: 'Adjust founder equity allocations so they sum to 100%',
+    }));
+  }
+
+  for (const founder of founders) {
+    const name = founderName(founder) || founder.email;
+    if (!mentions(content, name)) {
+      findings.push(finding({
+        severity: 'blocker',
+        category: 'missing_clause',
+        message: `Agreement does not name founder ${name}`,
+      }));
+      continue;
+    }
+    const percentage = founder.equityPercentage || 0;
+    if (!new RegExp(`(^|[^\\d])${percentage}(\\.0+)?\\s?(%|percent|pour cent)`, 'i').test(content)) {
+      findings.push(finding({
+        severity: 'blocker',
+        category: 'inconsistency',
+        message: `Agreement does not state the ${percentage}% equity recorded for ${name}`,
+        suggestedFix: `Allocate ${percentage}% to ${name}`,
+      }));
+    }
+  }
+  return findings;
+};
+
+const franceNamesPresident: DocumentRule = ({ content, company }) =>
+  company.jurisdiction === 'france' && !/pr[ée]sident/i.test(content)
+    ? [finding({
+        severity: 'blocker',
+        category: 'jurisdiction_compliance',
+        message: 'A French SAS must name its Président',
+        suggestedFix: 'Add a clause appointing the Président of the SAS',
+      })]
+    : [];
+
+const delawareNamesState: DocumentRule = ({ content, company }) =>
+  company.jurisdiction === 'delaware' && !/delaware/i.test(content)
+    ? [finding({
+        severity: 'blocker',
+        category: 'jurisdiction_compliance',
+        message: 'Certificate of Incorporation does not reference the State of Delaware',
+      })]
+    : [];
+
+const COMMON_RULES: DocumentRule[] = [notEmpty, namesCompany];
+
+const RULES: Partial<Record<DocumentType, DocumentRule[]>> = {
+  safe: [safeMatchesInvestor, safeMatchesTerms],
+  pre_founder_agreement: [founderSplitMatches],
+  certificate_incorporation: [franceNamesPresident, delawareNamesState],
+  bylaws: [franceNamesPresident],
+  board_consent: [franceNamesPresident],
+};
+
+export class DocumentRuleService {
+  rulesFor(type: DocumentType): DocumentRule[] {
+    return [...COMMON_RULES, ...(RULES[type] || [])];
+  }
+
+  // Run the local checks for a document; needs no network access
+  async check(document: Document): Promise<ValidationFinding[]> {
+    const company = await storage.getCompanyById(document.companyId);
+    if (!company) {
+      throw new Error(`Company ${document.companyId} not found for document ${document.id}`);
+    }
+
+    const [allFounders, investors, safeTerms] = await Promise.all([
+      storage.getFoundersByCompanyId(company.id),
+      storage.getInvestorsByCompanyId(company.id),
+      storage.getSafeTermsByCompanyId(company.id),
+    ]);
+
+    const context: RuleContext = {
+      document,
+      content: document.content || '',
+      company,
+      // Templates leave departed founders out, so the checks must too
+      founders: allFounders.filter(f => f.status !== 'departed'),
+      investors,
+      safeTerms,
+    };
+
+    return this.rulesFor(document.type).flatMap(rule => rule(context));
+  }
+}
+
+export const documentRules = new DocumentRuleService();
@@ -0,0 +1,111 @@
+import { storage } from "../storage";
+import { qdrantService } from "./qdrant";
+import { documentLifecycle } from "./documentLifecycle";
+import type {
+  Document,
+  DocumentVersion,
+  DocumentVersionReason,
+  DocumentDiffEntry,
+} from "@shared/schema";
+
+export type DiffGranularity = 'line' | 'clause';
+
+// Split content into the units we compare: single lines, or blank-line separated clauses
+function splitContent(content: string, granularity: DiffGranularity): string[] {
+  const normalized = content.replace(/\r\n/g, '\n');
+  if (granularity === 'line') {
+    return normalized.split('\n');
+  }
+  return normalized
+    .split(/\n\s*\n/)
+    .map(clause => clause.trim())
+    .filter(Boolean);
+}
+
+// Longest-common-subsequence diff over two lists of units
+function diffUnits(before: string[], after: string[]): DocumentDiffEntry[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: DocumentDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      entries.push({ type: 'equal', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      entries.push({ type: 'removed', text: before[i] });
+      i++;
+    } else {
+      entries.push({ type: 'added', text: after[j] });
+      j++;
+    }
+  }
+  while (i < rows) entries.push({ type: 'removed', text: before[i++] });
+  while (j < cols) entries.push({ type: 'added', text: after[j++] });
+
+  return entries;
+}
+
+export class DocumentVersionService {
+  // Snapshot the document's current content and re-index it in Qdrant
+  async record(
+    document: Document,
+    reason: DocumentVersionReason,
+    authorId: string | null,
+    restoredFromId?: string
+  ): Promise<DocumentVersion | null> {
+    if (document.content == null) return null;
+
+    const latest = await storage.getLatestDocumentVersion(document.id);
+    if (latest && latest.content === document.content && reason !== 'restore') {
+      return latest;
+    }
+
+    const version = await storage.createDocumentVersion({
+      documentId: document.id,
+      versionNumber: (latest?.versionNumber || 0) + 1,
+      content: document.content,
+      reason,
+      authorId,
+      restoredFromId: restoredFromId || null,
+    });
+
+    await qdrantService.storeDocument(
+      document.companyId,
+      document.id,
+      document.content,
+      { title: document.title, type: document.type, version: version.versionNumber }
+    );
+
+    return version;
+  }
+
+  async list(documentId: string): Promise<DocumentVersion[]> {
+    return await storage.getVersionsByDocumentId(documentId);
+  }
+
+  diff(from: DocumentVersion, to: DocumentVersion, granularity: DiffGranularity = 'line'): DocumentDiffEntry[] {
+    return diffUnits(splitContent(from.content, granularity), splitContent(to.content, granularity));
+  }
+
+  // Bring an old version back as the current draft, recorded as a new version
+  async restore(document: Document, version: DocumentVersion, authorId: string | null): Promise<Document> {
+    const updated = await documentLifecycle.update(document, { content: version.content });
+    await this.record(updated, 'restore', authorId, version.id);
+    return updated;
+  }
+}
+
+export const documentVersions = new DocumentVersionService();
@@ -0,0 +1,206 @@
+import { storage } from "../storage";
+import { geminiService } from "./gemini";
+import { templateService } from "./templates";
+import { documentVersions } from "./documentVersions";
+import type {
+  Company,
+  Document,
+  DocumentType,
+  DraftingQuestion,
+  DraftingSession,
+  TemplateVariable,
+} from "@shared/schema";
+
+export interface DraftingState {
+  session: DraftingSession;
+  questions: DraftingQuestion[];
+  issues: string[];
+}
+
+// Friendlier wording for variables whose label doesn't read well as a question
+const QUESTION_TEXT: Record<string, string> = {
+  'counterparty.name': 'Who is the other party to this agreement?',
+  'president.name': 'Who will be the President / CEO?',
+  'incorporator.name': 'Who is signing as incorporator?',
+  'assignor.name': 'Who is assigning their intellectual property to the company?',
+  'founders.list': 'Who are the founders and how is equity split between them?',
+  'contractor.services': 'What services will the contractor perform?',
+  'company.website': 'What is the website address?',
+  'safe.economics': 'What are the valuation cap, discount, MFN and pro rata terms?',
+  'founders.vesting': 'How do each founder\'s shares vest (cliff, duration, acceleration)?',
+};
+
+// Variables that normally come from company records rather than a direct answer
+const HINTS: Record<string, string> = {
+  'founders.list': 'Add founders on the Founders page, or list them here',
+  'founders.signatures': 'Add founders on the Founders page',
+  'founders.directors': 'Add founders on the Founders page',
+  'president.name': 'Set a founder\'s role to CEO on the Founders page, or name them here',
+  'incorporator.name': 'Defaults to the founder whose role is CEO',
+  'investor.name': 'Start drafting from the investor to fill this automatically',
+  'investor.amount': 'Start drafting from the investor to fill this automatically',
+  'safe.economics': 'Record the valuation cap, discount, MFN and pro rata terms when adding the investor',
+  'founders.vesting': 'Set each founder\'s vesting schedule on the Founders page',
+};
+
+function toQuestion(variable: TemplateVariable): DraftingQuestion {
+  return {
+    ...variable,
+    question: QUESTION_TEXT[variable.key] || `What is the ${variable.label.toLowerCase()}?`,
+    hint: HINTS[variable.key],
+  };
+}
+
+export class DraftingSessionService {
+  async start(company: Company, userId: string, documentType: DocumentType, investorId?: string): Promise<DraftingState> {
+    if (!templateService.getTemplate(documentType, company.jurisdiction)) {
+      throw new Error(`No template for ${documentType} in ${company.jurisdiction}`);
+    }
+    // Checked up front: a session saved with a bad investor could never be loaded again
+    if (investorId && !(await storage.getInvestorsByCompanyId(company.id)).some(i => i.id === investorId)) {
+      throw new Error("Investor not found");
+    }
+
+    const session = await storage.createDraftingSession({
+      companyId: company.id,
+      userId,
+      documentType,
+      investorId: investorId || null,
+      status: 'collecting',
+      answers: {},
+    });
+
+    return await this.refresh(session, company);
+  }
+
+  // Recompute open questions and consistency issues from the latest company state
+  async refresh(session: DraftingSession, company: Company): Promise<DraftingState> {
+    const template = templateService.getTemplate(session.documentType, company.jurisdiction)!;
+    const values = await templateService.resolveVariables(company, {
+      investorId: session.investorId || undefined,
+      values: session.answers || {},
+    });
+    const questions = templateService.missingVariables(template, values).map(toQuestion);
+    const issues = await this.checkCompanyState(session, company);
+
+    if (session.status !== 'drafted') {
+      const status = questions.length === 0 ? 'ready' : 'collecting';
+      if (status !== session.status) {
+        session = await storage.updateDraftingSession(session.id, { status });
+      }
+    }
+
+    return { session, questions, issues };
+  }
+
+  // Record answers given directly (form) or extracted from a voice/text transcript
+  async answer(
+    session: DraftingSession,
+    company: Company,
+    input: { answers?: Record<string, string>; transcript?: string }
+  ): Promise<DraftingState> {
+    if (session.status === 'drafted') {
+      throw new Error("This drafting session has already produced a document");
+    }
+
+    const current = await this.refresh(session, company);
+    const openKeys = new Set(current.questions.map(q => q.key));
+    const merged: Record<string, string> = { ...(session.answers || {}) };
+
+    for (const [key, value] of Object.entries(input.answers || {})) {
+      if (value.trim()) merged[key] = value.trim();
+    }
+
+    if (input.transcript?.trim() && current.questions.length > 0) {
+      const extracted = await geminiService.extractAnswers(input.transcript, current.questions);
+      if (!extracted) {
+        throw new Error("Could not understand the answer right now. Please answer each question directly.");
+      }
+      for (const [key, value] of Object.entries(extracted)) {
+        if (openKeys.has(key)) merged[key] = value;
+      }
+    }
+
+    const updated = await storage.updateDraftingSession(session.id, { answers: merged });
+    return await this.refresh(updated, company);
+  }
+
+  // Produce the document once every required input is filled
+  async draft(session: DraftingSession, company: Company, userId: string): Promise<{ state: DraftingState; document: Document | null }> {
+    const state = await this.refresh(session, company);
+    if (state.session.status === 'drafted' || state.questions.length > 0) {
+      return { state, document: null };
+    }
+
+    const draft = await templateService.draft(company, session.documentType, {
+      investorId: session.investorId || undefined,
+      values: session.answers || {},
+    });
+
+    const document = await storage.createDocument({
+      companyId: company.id,
+      type: session.documentType,
+      title: session.investorId && session.documentType === 'safe'
+        ? `SAFE - ${draft.values['investor.name']}`
+        : draft.template.title,
+      content: draft.content,
+      status: 'drafting',
+      templateId: draft.template.id,
+      templateVersion: draft.template.version,
+    });
+
+    await documentVersions.record(document, 'ai_draft', userId);
+
+    if (session.investorId && session.documentType === 'safe') {
+      await storage.updateInvestor(session.investorId, { safeDocumentId: document.id });
+    }
+
+    const updated = await storage.updateDraftingSession(session.id, {
+      status: 'drafted',
+      documentId: document.id,
+    });
+
+    return { state: { ...state, session: updated }, document };
+  }
+
+  // Consistency problems in company records that answers alone can't fix
+  private async checkCompanyState(session: DraftingSession, company: Company): Promise<string[]> {
+    const issues: string[] = [];
+    // Departed founders are left out of drafted documents, so they don't count towards the split
+    const founders = (await storage.getFoundersByCompanyId(company.id)).filter(f => f.status !== 'departed');
+
+    if (['pre_founder_agreement', 'certificate_incorporation', 'board_consent'].includes(session.documentType)) {
+      if (founders.length === 0) {
+        issues.push('No founders have been added yet');
+      } else {
+        const total = founders.reduce((sum, f) => sum + (f.equityPercentage || 0), 0);
+        if (total !== 100) {
+          issues.push(`Founder equity adds up to ${total}%, not 100%`);
+        }
+      }
+    }
+
+    if (session.documentType === 'pre_founder_agreement' && founders.length > 0) {
+      const grants = await storage.getVestingGrantsByCompanyId(company.id);
+      const unscheduled = founders.filter(f => !grants.some(g => g.founderId === f.id));
+      if (grants.length > 0 && unscheduled.length > 0) {
+        issues.push(`No vesting schedule is recorded for ${unscheduled.map(f => f.firstName || f.email).join(', ')}, so their shares would be fully vested`);
+      }
+    }
+
+    if (session.documentType === 'safe' && session.investorId) {
+      const investors = await storage.getInvestorsByCompanyId(company.id);
+      const investor = investors.find(i => i.id === session.investorId);
+      if (investor && !investor.amount) {
+        issues.push(`No investment amount is recorded for ${investor.name}`);
+      }
+      if (investor && !await storage.getSafeTermsByInvestorId(investor.id)) {
+        issues.push(`No SAFE terms (valuation cap, discount, MFN) are recorded for ${investor.name}`);
+      }
+    }
+
+    return issues;
+  }
+}
+
+export const draftingSessions = new DraftingSessionService();
@@ -15,6 +15,24 @@ function getResend(): Resend | null {
   return resend;
 }
 
+// A signing link that will stop working soon, for the sender's warning email
+export interface ExpiringLink {
+  documentTitle: string;
+  signerEmail: string;
+  expiresAt: Date;
+}
+
+// Open items summarised in the weekly digest
+export interface WeeklyDigest {
+  awaitingSignature: { documentTitle: string; signerEmail: string; sentAt: Date | null }[];
+  inProgress: { documentTitle: string; status: string }[];
+  pendingTasks: { description: string; dueDate: Date | null }[];
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
 export class EmailService {
   private fromEmail = 'corporation.run <onboarding@resend.dev>'; // Update with your verified domain
 
@@ -29,7 +47,8 @@ export class EmailService {
     recipientName: string,
     documentTitle: string,
     magicToken: string,
-    baseUrl: string
+    baseUrl: string,
+    expiresAt: Date
   ): Promise<void> {
     if (!this.isAvailable()) {
       console.warn('Email service unavailable - skipping signature request email to', recipientEmail);
@@ -64,7 +83,7 @@ export class EmailService {
             </div>
             
             <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
-              This signature request will expire in 30 days. If you have any questions, please contact the person who sent you this request.
+              This signature request will expire on ${expiresAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. If you have any questions, please contact the person who sent you this request.
             </p>
             
             <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
@@ -85,12 +104,14 @@ export class EmailService {
     });
   }
 
-  // Send founder invitation
+  // Send founder invitation with the link to their portal
   async sendFounderInvitation(
     recipientEmail: string,
     recipientName: string,
     companyName: string,
-    inviterName: string
+    inviterName: string,
+    portalUrl: string,
+    expiresAt: Date
   ): Promise<void> {
     if (!this.isAvailable()) {
       console.warn('Email service unavailable - skipping founder invitation to', recipientEmail);
@@ -104,41 +125,416 @@ export class EmailService {
       from: this.fromEmail,
       to: recipientEmail,
       subject: `You've been added as a founder of ${companyName}`,
-      html: `
-        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <div style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center;">
-            <h1 style="margin: 0; font-size: 24px;">Founder Invitation</h1>
-          </div>
-          
-          <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+      html: this.layout('Founder Invitation', `
             <p style="font-size: 16px; color: #1f2937; margin-top: 0;">Hi ${recipientName},</p>
-            
+
             <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
               <strong>${inviterName}</strong> has added you as a founder of <strong>${companyName}</strong> on corporation.run.
             </p>
-            
-            <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
-              You'll receive separate emails with documents to review and sign. Welcome to the team!
-            </p>
-            
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${portalUrl}" style="background: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
+                Open Your Founder Portal
+              </a>
+            </div>
+
             <div style="margin-top: 30px; padding: 20px; background: #f3f4f6; border-radius: 6px;">
               <p style="font-size: 14px; color: #4b5563; margin: 0; line-height: 1.6;">
-                <strong>Next steps:</strong><br/>
-                • Watch for signature request emails<br/>
+                <strong>In your portal:</strong><br/>
+                • Complete your profile<br/>
+                • Confirm or dispute your equity and role<br/>
                 • Upload your ID for verification<br/>
-                • Review equity allocations and vesting schedules
+                • See the documents waiting for your signature
               </p>
             </div>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              This link is personal to you and expires on ${formatDate(expiresAt)}. Welcome to the team!
+            </p>
+      `),
+    });
+  }
+
+  // Nudge a signer who has not acted on an earlier request
+  async sendSignatureReminder(
+    recipientEmail: string,
+    recipientName: string,
+    documentTitle: string,
+    magicToken: string,
+    baseUrl: string,
+    expiresAt: Date
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping signature reminder to', recipientEmail);
+      return;
+    }
+
+    const signatureUrl = `${baseUrl}/sign/${magicToken}`;
+    const client = getResend();
+    if (!client) return;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `Reminder: ${documentTitle} is waiting for your signature`,
+      html: this.layout('Signature Reminder', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0;">Hi ${recipientName},</p>
+
+            <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
+              <strong>${documentTitle}</strong> is still waiting for your signature. Earlier links no longer work, so please use the button below.
+            </p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${signatureUrl}" style="background: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
+                Review & Sign Document
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              This signature request will expire on ${formatDate(expiresAt)}.
+            </p>
+      `),
+    });
+  }
+
+  // One link for every document a signer has to sign in a packet
+  async sendPacketRequest(
+    recipientEmail: string,
+    recipientName: string,
+    packetTitle: string,
+    documentTitles: string[],
+    magicToken: string,
+    baseUrl: string,
+    expiresAt: Date
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping packet request to', recipientEmail);
+      return;
+    }
+
+    const packetUrl = `${baseUrl}/sign/packet/${magicToken}`;
+    const client = getResend();
+    if (!client) return;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `Sign: ${packetTitle} (${documentTitles.length} document${documentTitles.length === 1 ? '' : 's'})`,
+      html: this.layout('Documents Ready to Sign', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0;">Hi ${recipientName},</p>
+
+            <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
+              You've been asked to sign the following as part of <strong>${packetTitle}</strong>:
+            </p>
+
+            <ul style="font-size: 15px; color: #1f2937; line-height: 1.6; padding-left: 20px;">
+              ${documentTitles.map(title => `<li>${title}</li>`).join('')}
+            </ul>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${packetUrl}" style="background: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
+                Review & Sign Documents
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              This link walks you through each document in turn and expires on ${formatDate(expiresAt)}. Any earlier link for this packet no longer works.
+            </p>
+      `),
+    });
+  }
+
+  // Sent once, when the last document in a packet is signed
+  async sendPacketCompleted(
+    recipientEmail: string,
+    packetTitle: string,
+    documentTitles: string[]
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping packet completion notice to', recipientEmail);
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `Completed: ${packetTitle}`,
+      html: this.layout('All Documents Signed', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0; line-height: 1.6;">
+              Everyone has signed <strong>${packetTitle}</strong>. These documents are now in effect:
+            </p>
+
+            <ul style="font-size: 15px; color: #1f2937; line-height: 1.6; padding-left: 20px;">
+              ${documentTitles.map(title => `<li>${title}</li>`).join('')}
+            </ul>
+      `),
+    });
+  }
+
+  // One-time code a founder reads back on the host's device before signing in person
+  async sendSigningCode(
+    recipientEmail: string,
+    signerName: string,
+    documentTitle: string,
+    code: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping signing code to', recipientEmail);
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `Your signing code for ${documentTitle}`,
+      html: this.layout('Confirm It Is You', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0; line-height: 1.6;">
+              Hi ${signerName}, enter this code on the signing device to sign <strong>${documentTitle}</strong> in person:
+            </p>
+
+            <p style="font-size: 32px; font-weight: 700; letter-spacing: 8px; color: #1f2937; text-align: center; margin: 32px 0;">
+              ${code}
+            </p>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              The code expires in ${expiresInMinutes} minutes. If you are not signing right now, ignore this email.
+            </p>
+      `),
+    });
+  }
+
+  // Tell the document owner a signer declined, and why
+  async sendSignatureDeclined(
+    recipientEmail: string,
+    documentTitle: string,
+    signerName: string,
+    reason: string,
+    documentUrl: string
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping decline notice to', recipientEmail);
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `${signerName} declined to sign ${documentTitle}`,
+      html: this.layout('Signature Declined', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0; line-height: 1.6;">
+              <strong>${signerName}</strong> declined to sign <strong>${documentTitle}</strong>:
+            </p>
+
+            <blockquote style="margin: 20px 0; padding: 16px 20px; background: #f3f4f6; border-left: 4px solid #2563eb; border-radius: 4px; font-size: 15px; color: #1f2937; line-height: 1.6;">
+              ${reason}
+            </blockquote>
+
+            <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
+              The document is back in drafting and the other signing links no longer work. Revise it, then validate and send it again.
+            </p>
+
+            <div style="text-align: center; margin: 30px 0 0;">
+              <a href="${documentUrl}" style="background: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
+                Review Document
+              </a>
+            </div>
+      `),
+    });
+  }
+
+  // Tell the company owner which signing links are about to lapse
+  async sendExpiringLinksWarning(
+    recipientEmail: string,
+    companyName: string,
+    links: ExpiringLink[],
+    baseUrl: string
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping expiring links warning to', recipientEmail);
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    const rows = links
+      .map(link => `<li style="margin-bottom: 8px;"><strong>${link.documentTitle}</strong> — ${link.signerEmail}, expires ${formatDate(link.expiresAt)}</li>`)
+      .join('');
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `${links.length} signing link${links.length === 1 ? '' : 's'} for ${companyName} expire soon`,
+      html: this.layout('Signing Links Expiring', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0; line-height: 1.6;">
+              These signature requests for <strong>${companyName}</strong> have not been completed and their links expire soon:
+            </p>
+
+            <ul style="font-size: 15px; color: #1f2937; line-height: 1.6; padding-left: 20px;">${rows}</ul>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              Resend a request from the <a href="${baseUrl}/contracts" style="color: #2563eb;">document page</a> to give the signer a fresh link.
+            </p>
+      `),
+    });
+  }
+
+  // Weekly summary of everything still open for a company
+  async sendWeeklyDigest(
+    recipientEmail: string,
+    companyName: string,
+    digest: WeeklyDigest,
+    baseUrl: string
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping weekly digest to', recipientEmail);
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    const section = (title: string, items: string[]) => items.length === 0 ? '' : `
+            <h2 style="font-size: 16px; color: #1f2937; margin: 24px 0 8px;">${title}</h2>
+            <ul style="font-size: 15px; color: #1f2937; line-height: 1.6; padding-left: 20px; margin: 0;">
+              ${items.map(item => `<li>${item}</li>`).join('')}
+            </ul>`;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `Your week at ${companyName}: pending items`,
+      html: this.layout('Weekly Digest', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0; line-height: 1.6;">
+              Here is what is still open for <strong>${companyName}</strong>.
+            </p>
+            ${section('Awaiting signature', digest.awaitingSignature.map(s =>
+              `<strong>${s.documentTitle}</strong> — ${s.signerEmail}${s.sentAt ? `, sent ${formatDate(s.sentAt)}` : ''}`))}
+            ${section('Documents in progress', digest.inProgress.map(d => `<strong>${d.documentTitle}</strong> (${d.status})`))}
+            ${section('Pending tasks', digest.pendingTasks.map(t =>
+              `${t.description}${t.dueDate ? ` — due ${formatDate(t.dueDate)}` : ''}`))}
+
+            <div style="text-align: center; margin: 30px 0 0;">
+              <a href="${baseUrl}/" style="background: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
+                Open Dashboard
+              </a>
+            </div>
+      `),
+    });
+  }
+
+  // Countdown to a founder's 83(b) filing deadline
+  async sendElection83bReminder(
+    recipientEmails: string[],
+    founderName: string,
+    companyName: string,
+    deadline: Date,
+    daysLeft: number,
+    baseUrl: string
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping 83(b) reminder to', recipientEmails.join(', '));
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    const when = daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmails,
+      subject: `${founderName}'s 83(b) election for ${companyName} is due ${when}`,
+      html: this.layout('83(b) Election Deadline', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0; line-height: 1.6;">
+              The 83(b) election for <strong>${founderName}</strong>'s shares in <strong>${companyName}</strong> must be postmarked by <strong>${formatDate(deadline)}</strong>, ${when}.
+            </p>
+
+            <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
+              Print the election, fill in the address and taxpayer identification number, sign it and send it to the IRS by certified mail with return receipt. Keep a copy for the company.
+            </p>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              The IRS does not accept late elections. Once it is in the mail, mark it as mailed on the <a href="${baseUrl}/founders" style="color: #2563eb;">founders page</a> and attach the certified mail receipt.
+            </p>
+      `),
+    });
+  }
+
+  async sendIdentityRequest(
+    recipientEmail: string,
+    recipientName: string,
+    companyName: string,
+    uploadUrl: string,
+    expiresAt: Date,
+    previousNote?: string | null
+  ): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn('Email service unavailable - skipping ID request to', recipientEmail);
+      return;
+    }
+
+    const client = getResend();
+    if (!client) return;
+
+    await client.emails.send({
+      from: this.fromEmail,
+      to: recipientEmail,
+      subject: `Verify your identity for ${companyName}`,
+      html: this.layout('Identity Verification', `
+            <p style="font-size: 16px; color: #1f2937; margin-top: 0;">Hi ${recipientName},</p>
+
+            <p style="font-size: 16px; color: #1f2937; line-height: 1.6;">
+              <strong>${companyName}</strong> needs a copy of a government-issued ID for each founder. Upload a passport, national ID card or driver's license as a PDF, PNG or JPEG.
+            </p>
+            ${previousNote ? `
+            <p style="font-size: 15px; color: #1f2937; line-height: 1.6; padding: 12px 16px; background: #fef2f2; border-radius: 6px;">
+              Your last upload was not accepted: ${previousNote}
+            </p>` : ''}
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${uploadUrl}" style="background: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
+                Upload Your ID
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #6b7280; line-height: 1.6;">
+              This link expires on ${formatDate(expiresAt)}. Your ID is stored encrypted and deleted once it has been reviewed.
+            </p>
+      `),
+    });
+  }
+
+  // Shared header, card and footer around an email body
+  private layout(title: string, body: string): string {
+    return `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">${title}</h1>
           </div>
-          
+
+          <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+            ${body}
+          </div>
+
           <div style="text-align: center; margin-top: 20px;">
             <p style="font-size: 12px; color: #9ca3af;">
               Powered by <strong style="color: #2563eb;">corporation.run</strong>
             </p>
           </div>
         </div>
-      `,
-    });
+      `;
   }
 
   // Generate magic token
@@ -0,0 +1,332 @@
+import { storage } from "../storage";
+import { jobScheduler } from "./jobs";
+import { today } from "./vesting";
+import type {
+  CapTable,
+  CapTableHolding,
+  EquityEvent,
+  EquityEventInput,
+  EquityHolder,
+  InsertShareClass,
+  ShareClass,
+  ShareClassKind,
+  ShareClassSummary,
+} from "@shared/schema";
+
+// Authorized common stock when a company's first class is created for it
+const DEFAULT_COMMON_AUTHORIZED = 10_000_000;
+
+const CERTIFICATE_PREFIXES: Record<ShareClassKind, string> = {
+  common: 'CS',
+  preferred: 'PS',
+  options: 'OG',
+};
+
+export class EquityLedgerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'EquityLedgerError';
+  }
+}
+
+interface ResolvedHolder {
+  holderType: string;
+  holderId: string | null;
+  holderName: string;
+}
+
+interface Position extends ResolvedHolder {
+  shareClassId: string;
+  shares: number;
+}
+
+interface Replayed {
+  positions: Position[];
+  issued: Map<string, number>;
+}
+
+// Other holders have no record of their own, so they are keyed by name
+function holderKey(shareClassId: string, holder: ResolvedHolder): string {
+  return `${shareClassId}:${holder.holderType}:${holder.holderId || holder.holderName.trim().toLowerCase()}`;
+}
+
+export function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round(part / whole * 10000) / 100 : 0;
+}
+
+// Replay events in order, refusing any that overdraws a holder or issues past the authorized shares
+export function replay(shareClasses: ShareClass[], events: EquityEvent[]): Replayed {
+  const positions = new Map<string, Position>();
+  const issued = new Map<string, number>();
+
+  const adjust = (event: EquityEvent, holder: ResolvedHolder, delta: number) => {
+    const key = holderKey(event.shareClassId, holder);
+    const position = positions.get(key) || { ...holder, shareClassId: event.shareClassId, shares: 0 };
+    if (position.shares + delta < 0) {
+      throw new EquityLedgerError(
+        `${holder.holderName} holds only ${position.shares.toLocaleString()} shares of this class on ${event.effectiveDate}`
+      );
+    }
+    positions.set(key, { ...position, shares: position.shares + delta });
+  };
+
+  for (const event of events) {
+    const shareClass = shareClasses.find(c => c.id === event.shareClassId);
+    if (!shareClass) {
+      throw new EquityLedgerError("Share class not found", 404);
+    }
+    const holder = { holderType: event.holderType, holderId: event.holderId, holderName: event.holderName };
+
+    switch (event.type) {
+      case 'issuance': {
+        const total = (issued.get(shareClass.id) || 0) + event.shares;
+        if (total > shareClass.authorizedShares) {
+          throw new EquityLedgerError(
+            `${shareClass.name} has ${shareClass.authorizedShares.toLocaleString()} shares authorized; this would bring issued shares to ${total.toLocaleString()}`
+          );
+        }
+        issued.set(shareClass.id, total);
+        adjust(event, holder, event.shares);
+        break;
+      }
+      case 'transfer':
+        adjust(event, holder, -event.shares);
+        adjust(event, {
+          holderType: event.toHolderType || 'other',
+          holderId: event.toHolderId,
+          holderName: event.toHolderName || 'Unknown holder',
+        }, event.shares);
+        break;
+      case 'cancellation':
+      case 'repurchase':
+        // Retired stock and cancelled options can be issued again, up to the authorized shares
+        adjust(event, holder, -event.shares);
+        issued.set(shareClass.id, (issued.get(shareClass.id) || 0) - event.shares);
+        break;
+    }
+  }
+
+  return { positions: Array.from(positions.values()), issued };
+}
+
+// Derive holdings and fully diluted percentages; unissued options count as the pool
+export function project(shareClasses: ShareClass[], events: EquityEvent[]): CapTable {
+  const { positions, issued } = replay(shareClasses, events);
+
+  const summaries: ShareClassSummary[] = shareClasses.map(shareClass => {
+    const issuedShares = issued.get(shareClass.id) || 0;
+    return { ...shareClass, issuedShares, availableShares: shareClass.authorizedShares - issuedShares };
+  });
+
+  const pool: Position[] = summaries
+    .filter(c => c.kind === 'options' && c.availableShares > 0)
+    .map(c => ({
+      holderType: 'option_pool',
+      holderId: null,
+      holderName: `${c.name} (unallocated)`,
+      shareClassId: c.id,
+      shares: c.availableShares,
+    }));
+  const held = [...positions.filter(p => p.shares > 0), ...pool];
+
+  const outstandingShares = summaries
+    .filter(c => c.kind !== 'options')
+    .reduce((total, c) => total + c.issuedShares, 0);
+  const fullyDilutedShares = held.reduce((total, p) => total + p.shares, 0);
+
+  const holdings: CapTableHolding[] = held.map(position => {
+    const shareClass = summaries.find(c => c.id === position.shareClassId)!;
+    return {
+      ...position,
+      shareClassName: shareClass.name,
+      kind: shareClass.kind,
+      percentage: percent(position.shares, fullyDilutedShares),
+    };
+  });
+
+  return { shareClasses: summaries, holdings, outstandingShares, fullyDilutedShares };
+}
+
+export class EquityLedgerService {
+  async capTable(companyId: string): Promise<CapTable> {
+    const { shareClasses, events } = await this.load(companyId);
+    return project(shareClasses, events);
+  }
+
+  // Newest first, for display
+  async history(companyId: string): Promise<EquityEvent[]> {
+    const { events } = await this.load(companyId);
+    return [...events].reverse();
+  }
+
+  async createShareClass(companyId: string, data: Omit<InsertShareClass, 'companyId'>): Promise<ShareClass> {
+    const { shareClasses } = await this.load(companyId);
+    if (shareClasses.some(c => c.name.toLowerCase() === data.name.toLowerCase())) {
+      throw new EquityLedgerError(`A share class named ${data.name} already exists`, 409);
+    }
+    return await storage.createShareClass({ ...data, companyId });
+  }
+
+  async setAuthorizedShares(shareClass: ShareClass, authorizedShares: number): Promise<ShareClass> {
+    const { shareClasses, events } = await this.load(shareClass.companyId);
+    // The new authorization has to cover the most ever issued, not just what is issued today
+    replay(shareClasses.map(c => c.id === shareClass.id ? { ...c, authorizedShares } : c), events);
+    return await storage.updateShareClass(shareClass.id, { authorizedShares });
+  }
+
+  // The company's common stock, created with the default authorization if it has none yet
+  async commonClass(companyId: string): Promise<ShareClass> {
+    const { shareClasses } = await this.load(companyId);
+    const common = shareClasses.find(c => c.kind === 'common');
+    if (common) return common;
+
+    return await storage.createShareClass({
+      companyId,
+      name: 'Common Stock',
+      kind: 'common',
+      authorizedShares: DEFAULT_COMMON_AUTHORIZED,
+    });
+  }
+
+  // Validate an event against the whole ledger, then append it
+  async record(companyId: string, input: EquityEventInput, createdBy: string | null): Promise<EquityEvent> {
+    const { shareClasses, events } = await this.load(companyId);
+
+    const shareClass = shareClasses.find(c => c.id === input.shareClassId);
+    if (!shareClass) {
+      throw new EquityLedgerError("Share class not found", 404);
+    }
+    if (isNaN(Date.parse(input.effectiveDate))) {
+      throw new EquityLedgerError("Effective date is not a valid date");
+    }
+    if (input.effectiveDate > today()) {
+      throw new EquityLedgerError("Effective date cannot be in the future");
+    }
+    if (input.documentId) {
+      const document = await storage.getDocumentById(input.documentId);
+      if (!document || document.companyId !== companyId) {
+        throw new EquityLedgerError("Document not found", 404);
+      }
+    }
+
+    const holder = await this.resolveHolder(companyId, input.holder);
+    const toHolder = input.type === 'transfer' && input.toHolder
+      ? await this.resolveHolder(companyId, input.toHolder)
+      : null;
+    if (toHolder && holderKey(shareClass.id, holder) === holderKey(shareClass.id, toHolder)) {
+      throw new EquityLedgerError("A holder cannot transfer shares to themselves");
+    }
+
+    const certifies = input.type === 'issuance' || input.type === 'transfer';
+    let certificateNumber = input.certificateNumber || null;
+    if (certifies && certificateNumber && events.some(e => e.certificateNumber === certificateNumber && (e.type === 'issuance' || e.type === 'transfer'))) {
+      throw new EquityLedgerError(`Certificate ${certificateNumber} has already been issued`, 409);
+    }
+    if (certifies && !certificateNumber) {
+      const count = events.filter(e => e.shareClassId === shareClass.id && (e.type === 'issuance' || e.type === 'transfer')).length;
+      certificateNumber = `${CERTIFICATE_PREFIXES[shareClass.kind]}-${String(count + 1).padStart(3, '0')}`;
+    }
+
+    const candidate = {
+      companyId,
+      shareClassId: shareClass.id,
+      type: input.type,
+      ...holder,
+      toHolderType: toHolder?.holderType ?? null,
+      toHolderId: toHolder?.holderId ?? null,
+      toHolderName: toHolder?.holderName ?? null,
+      shares: input.shares,
+      pricePerShare: input.pricePerShare ?? null,
+      certificateNumber,
+      effectiveDate: input.effectiveDate,
+      documentId: input.documentId ?? null,
+      note: input.note ?? null,
+      createdBy,
+    };
+
+    // A back-dated event must leave every later point in the ledger valid, not just today's balances
+    const ordered = [...events, { ...candidate, id: 'pending', createdAt: new Date() }]
+      .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+    replay(shareClasses, ordered);
+
+    const event = await storage.createEquityEvent(candidate);
+    // A founder issuance may start the 30-day 83(b) clock; the job decides whether it applies
+    if (event.type === 'issuance' && event.holderType === 'founder') {
+      await jobScheduler.enqueue('prepare_83b_election', { equityEventId: event.id }, {
+        uniqueKey: `prepare_83b_election:${event.id}`,
+      });
+    }
+    return event;
+  }
+
+  private async resolveHolder(companyId: string, holder: EquityHolder): Promise<ResolvedHolder> {
+    if (holder.holderType === 'founder') {
+      const founder = (await storage.getFoundersByCompanyId(companyId)).find(f => f.id === holder.holderId);
+      if (!founder) {
+        throw new EquityLedgerError("Founder not found", 404);
+      }
+      const name = `${founder.firstName || ''} ${founder.lastName || ''}`.trim() || founder.email;
+      return { holderType: 'founder', holderId: founder.id, holderName: name };
+    }
+
+    if (holder.holderType === 'investor') {
+      const investor = (await storage.getInvestorsByCompanyId(companyId)).find(i => i.id === holder.holderId);
+      if (!investor) {
+        throw new EquityLedgerError("Investor not found", 404);
+      }
+      return { holderType: 'investor', holderId: investor.id, holderName: investor.name };
+    }
+
+    return { holderType: 'other', holderId: null, holderName: holder.holderName || '' };
+  }
+
+  private async load(companyId: string): Promise<{ shareClasses: ShareClass[]; events: EquityEvent[] }> {
+    let shareClasses = await storage.getShareClassesByCompanyId(companyId);
+    if (shareClasses.length === 0 && await this.importLegacy(companyId)) {
+      shareClasses = await storage.getShareClassesByCompanyId(companyId);
+    }
+    const events = await storage.getEquityEventsByCompanyId(companyId);
+    return { shareClasses, events };
+  }
+
+  // One-time move of hand-entered cap table rows into the ledger as dated issuances. Pages load the
+  // cap table and its events side by side, so concurrent first loads can race; storage imports once.
+  private async importLegacy(companyId: string): Promise<boolean> {
+    const entries = await storage.getLegacyCapTableByCompanyId(companyId);
+    if (entries.length === 0) return false;
+
+    const pool = entries.filter(e => e.holderType === 'option_pool');
+    const stock = entries.filter(e => e.holderType !== 'option_pool');
+    const poolShares = pool.reduce((total, e) => total + e.shares, 0);
+    const stockShares = stock.reduce((total, e) => total + e.shares, 0);
+
+    await storage.importLegacyCapTable({
+      common: {
+        companyId,
+        name: 'Common Stock',
+        kind: 'common',
+        authorizedShares: Math.max(DEFAULT_COMMON_AUTHORIZED, stockShares),
+      },
+      pool: poolShares > 0
+        ? { companyId, name: 'Equity Incentive Plan', kind: 'options', authorizedShares: poolShares }
+        : null,
+      issuances: stock.map((entry, index) => {
+        const known = entry.holderType === 'founder' || entry.holderType === 'investor';
+        return {
+          companyId,
+          type: 'issuance' as const,
+          holderType: known ? entry.holderType : 'other',
+          holderId: known ? entry.holderId : null,
+          holderName: entry.holderName,
+          shares: entry.shares,
+          certificateNumber: `${CERTIFICATE_PREFIXES.common}-${String(index + 1).padStart(3, '0')}`,
+          effectiveDate: (entry.createdAt || new Date()).toISOString().slice(0, 10),
+          note: 'Imported from the hand-entered cap table',
+        };
+      }),
+    });
+    return true;
+  }
+}
+
+export const equityLedger = new EquityLedgerService();
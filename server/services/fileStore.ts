@@ -0,0 +1,100 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where encrypted uploads live until a real object store replaces the local disk
+const STORAGE_DIR = process.env.FILE_STORAGE_DIR || path.join(process.cwd(), '.data', 'files');
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class FileStoreError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'FileStoreError';
+  }
+}
+
+// Anything that can keep sensitive uploads; callers only ever see plaintext
+export interface IFileStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Lazy so the server still boots without a key; only storing a file needs one
+let encryptionKey: Buffer | null = null;
+
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    const configured = process.env.FILE_ENCRYPTION_KEY;
+    if (configured) {
+      encryptionKey = /^[0-9a-f]{64}$/i.test(configured)
+        ? Buffer.from(configured, 'hex')
+        : Buffer.from(configured, 'base64');
+      if (encryptionKey.length !== 32) {
+        throw new FileStoreError('FILE_ENCRYPTION_KEY must be 32 bytes, as 64 hex characters or base64');
+      }
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new FileStoreError('File storage not configured - FILE_ENCRYPTION_KEY missing');
+    } else {
+      console.warn('FILE_ENCRYPTION_KEY missing - deriving a development key from SESSION_SECRET');
+      encryptionKey = createHash('sha256').update(`file-store:${process.env.SESSION_SECRET || 'incorporate-secret-key'}`).digest();
+    }
+  }
+  return encryptionKey;
+}
+
+// AES-256-GCM on the local disk; each file is its IV, auth tag and ciphertext
+export class EncryptedDiskFileStore implements IFileStore {
+  constructor(private root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+    // Write then rename so a crash never leaves a half-written file under the real key
+    const partial = `${file}.${randomBytes(4).toString('hex')}.partial`;
+    await fs.writeFile(partial, Buffer.concat([iv, cipher.getAuthTag(), ciphertext]), { mode: 0o600 });
+    await fs.rename(partial, file);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    let stored: Buffer;
+    try {
+      stored = await fs.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new FileStoreError('File not found', 404);
+      throw error;
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), stored.subarray(0, IV_BYTES));
+    decipher.setAuthTag(stored.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    try {
+      return Buffer.concat([decipher.update(stored.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    } catch {
+      throw new FileStoreError('File could not be decrypted - it was altered or the key changed');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Keys are generated by the server, but never let one escape the storage directory
+  private pathFor(key: string): string {
+    if (!/^[\w-]+(\/[\w-]+)*$/.test(key)) {
+      throw new FileStoreError(`Invalid file key: ${key}`);
+    }
+    return path.join(this.root, `${key}.enc`);
+  }
+}
+
+export const fileStore: IFileStore = new EncryptedDiskFileStore(STORAGE_DIR);
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import { FinancingModelError, modelRound, type ModeledSafe } from "./financingModel";
+import type { CapTableHolding, Investor, SafeTerms } from "@shared/schema";
+
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("./jobs", () => ({ jobScheduler: {} }));
+
+function holding(holderName: string, shares: number, holderType = 'founder'): CapTableHolding {
+  return {
+    holderType,
+    holderId: holderType === 'option_pool' ? null : holderName,
+    holderName,
+    shareClassId: 'common',
+    shareClassName: 'Common Stock',
+    kind: holderType === 'option_pool' ? 'options' : 'common',
+    shares,
+    percentage: 0,
+  };
+}
+
+function safe(name: string, amount: number, terms: Partial<SafeTerms>, createdAt = '2024-01-01'): ModeledSafe {
+  return {
+    investor: {
+      id: name,
+      companyId: 'company-1',
+      email: `${name}@example.com`,
+      name,
+      amount,
+      safeDocumentId: null,
+      status: 'signed',
+      createdAt: new Date(createdAt),
+      updatedAt: null,
+    } as Investor,
+    terms: {
+      id: `${name}-terms`,
+      investorId: name,
+      safeType: 'post_money',
+      valuationCap: null,
+      discountRate: null,
+      mfn: false,
+      proRata: false,
+      createdAt: null,
+      updatedAt: null,
+      ...terms,
+    },
+  };
+}
+
+const founders = [holding('Ada', 6_000_000), holding('Grace', 4_000_000)];
+
+describe("modelRound", () => {
+  it("prices a round with no SAFEs or pool", () => {
+    const result = modelRound(founders, [], { preMoneyValuation: 10_000_000, newMoney: 2_500_000, optionPoolPercent: 0 });
+
+    expect(result.pricePerShare).toBe(1);
+    expect(result.newMoneyShares).toBe(2_500_000);
+    expect(result.fullyDilutedShares).toBe(12_500_000);
+    expect(result.postMoneyValuation).toBe(12_500_000);
+    expect(result.capTable.find(h => h.holderType === 'new_money')?.ownershipAfter).toBe(20);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("tops up the option pool to its post-money target", () => {
+    const result = modelRound(founders, [], { preMoneyValuation: 10_000_000, newMoney: 2_500_000, optionPoolPercent: 10 });
+    const pool = result.poolTopUpShares;
+
+    expect(pool).toBeGreaterThan(0);
+    // Within a share of rounding, the pool is 10% of the fully diluted count
+    expect(Math.abs(pool - result.fullyDilutedShares * 0.1)).toBeLessThanOrEqual(1);
+    expect(result.fullyDilutedShares).toBe(10_000_000 + pool + result.newMoneyShares);
+  });
+
+  it("counts an existing pool towards the target", () => {
+    const withPool = [...founders, holding('Option pool', 2_000_000, 'option_pool')];
+    const result = modelRound(withPool, [], { preMoneyValuation: 12_000_000, newMoney: 1_000_000, optionPoolPercent: 10 });
+
+    expect(result.poolTopUpShares).toBe(0);
+  });
+
+  it("converts a SAFE at the cap when it beats the round price", () => {
+    const result = modelRound(founders, [safe('Angel', 500_000, { valuationCap: 5_000_000 })], {
+      preMoneyValuation: 20_000_000,
+      newMoney: 2_000_000,
+      optionPoolPercent: 0,
+    });
+    const [converted] = result.safes;
+
+    expect(converted.basis).toBe('valuation_cap');
+    expect(converted.conversionPrice).toBeLessThan(result.pricePerShare);
+    // A post-money cap gives the holder amount / cap of the company before new money
+    expect(converted.shares / (10_000_000 + converted.shares)).toBeCloseTo(0.1, 3);
+  });
+
+  it("converts at the discount when there is no cap", () => {
+    const result = modelRound(founders, [safe('Angel', 200_000, { discountRate: 20 })], {
+      preMoneyValuation: 10_000_000,
+      newMoney: 1_000_000,
+      optionPoolPercent: 0,
+    });
+    const [converted] = result.safes;
+
+    expect(converted.basis).toBe('discount');
+    expect(converted.conversionPrice).toBeCloseTo(result.pricePerShare * 0.8, 10);
+  });
+
+  it("converts an uncapped, undiscounted SAFE at the round price", () => {
+    const result = modelRound(founders, [safe('Angel', 100_000, {})], {
+      preMoneyValuation: 10_000_000,
+      newMoney: 1_000_000,
+      optionPoolPercent: 0,
+    });
+
+    expect(result.safes[0].basis).toBe('round_price');
+  });
+
+  it("gives an MFN SAFE the best terms of later SAFEs", () => {
+    const result = modelRound(founders, [
+      safe('Early', 100_000, { mfn: true }, '2024-01-01'),
+      safe('Later', 100_000, { valuationCap: 6_000_000, discountRate: 15 }, '2024-06-01'),
+    ], { preMoneyValuation: 20_000_000, newMoney: 2_000_000, optionPoolPercent: 0 });
+    const [early, later] = result.safes;
+
+    expect(early.valuationCap).toBe(6_000_000);
+    expect(early.discountRate).toBe(15);
+    expect(early.shares).toBe(later.shares);
+  });
+
+  it("refuses to model a company with no shares booked", () => {
+    expect(() => modelRound([], [], { preMoneyValuation: 1_000_000, newMoney: 100_000, optionPoolPercent: 0 }))
+      .toThrow(FinancingModelError);
+  });
+});
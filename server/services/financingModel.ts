@@ -0,0 +1,203 @@
+import { storage } from "../storage";
+import { equityLedger, percent } from "./equityLedger";
+import type {
+  CapTableHolding,
+  ConvertedSafe,
+  Investor,
+  ModeledHolding,
+  RoundModelInput,
+  RoundModelResult,
+  RoundScenario,
+  SafeConversionBasis,
+  SafeTerms,
+} from "@shared/schema";
+
+// SAFE shares, the pool top-up and the round price depend on each other, so they are solved by iteration
+const MAX_ITERATIONS = 100;
+
+export class FinancingModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FinancingModelError';
+  }
+}
+
+export interface ModeledSafe {
+  investor: Investor;
+  terms: SafeTerms;
+}
+
+// As in the standard post-money SAFE, withSafes leaves out the pool top-up made for the new round
+interface Capitalization {
+  withSafes: number;
+  withoutSafes: number;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+// An MFN SAFE without economics of its own takes the best cap and discount of any SAFE issued after it
+function effectiveTerms(safe: ModeledSafe, safes: ModeledSafe[]): SafeTerms {
+  const { terms } = safe;
+  if (!terms.mfn || terms.valuationCap || terms.discountRate) return terms;
+
+  const issuedAt = safe.investor.createdAt ? new Date(safe.investor.createdAt).getTime() : 0;
+  const later = safes
+    .filter(other => other !== safe && (other.investor.createdAt ? new Date(other.investor.createdAt).getTime() : 0) > issuedAt)
+    .map(other => other.terms);
+  const caps = later.map(t => t.valuationCap).filter((cap): cap is number => !!cap);
+  const discounts = later.map(t => t.discountRate).filter((rate): rate is number => !!rate);
+
+  return {
+    ...terms,
+    valuationCap: caps.length > 0 ? Math.min(...caps) : null,
+    discountRate: discounts.length > 0 ? Math.max(...discounts) : null,
+  };
+}
+
+// The lowest of the round price, the cap price and the discounted price
+function conversionPrice(
+  terms: SafeTerms,
+  roundPrice: number,
+  capitalization: Capitalization
+): { price: number; basis: SafeConversionBasis } {
+  const candidates: { price: number; basis: SafeConversionBasis }[] = [{ price: roundPrice, basis: 'round_price' }];
+
+  if (terms.valuationCap) {
+    // Post-money caps divide by a capitalization that includes every converting SAFE; pre-money caps exclude them
+    const shares = terms.safeType === 'post_money' ? capitalization.withSafes : capitalization.withoutSafes;
+    candidates.push({ price: terms.valuationCap / shares, basis: 'valuation_cap' });
+  }
+  if (terms.discountRate) {
+    candidates.push({ price: roundPrice * (1 - terms.discountRate / 100), basis: 'discount' });
+  }
+
+  return candidates.reduce((best, candidate) => candidate.price < best.price ? candidate : best);
+}
+
+// Model a priced round: convert every SAFE, top up the option pool and issue shares for the new money.
+// The pre-money share count includes the converted SAFEs and the pool top-up, as is standard for priced rounds.
+export function modelRound(capTable: CapTableHolding[], safes: ModeledSafe[], inputs: RoundModelInput): RoundModelResult {
+  const warnings: string[] = [];
+  const existingShares = sum(capTable.map(e => e.shares));
+  const existingPool = sum(capTable.filter(e => e.holderType === 'option_pool').map(e => e.shares));
+  if (existingShares <= 0) {
+    throw new FinancingModelError("Book founder shares on the cap table before modeling a round");
+  }
+
+  const terms = safes.map(safe => effectiveTerms(safe, safes));
+  let poolTopUpShares = 0;
+  let safeShares = safes.map(() => 0);
+  let conversions = safes.map(() => ({ price: 0, basis: 'round_price' as SafeConversionBasis }));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const preMoneyShares = existingShares + poolTopUpShares + sum(safeShares);
+    const pricePerShare = inputs.preMoneyValuation / preMoneyShares;
+    const fullyDiluted = preMoneyShares + Math.floor(inputs.newMoney / pricePerShare);
+
+    const nextPoolTopUp = Math.max(0, Math.ceil(fullyDiluted * inputs.optionPoolPercent / 100) - existingPool);
+    const capitalization: Capitalization = {
+      withSafes: existingShares + sum(safeShares),
+      withoutSafes: existingShares + nextPoolTopUp,
+    };
+    conversions = terms.map(t => conversionPrice(t, pricePerShare, capitalization));
+    const nextSafeShares = safes.map((safe, index) => Math.floor((safe.investor.amount || 0) / conversions[index].price));
+
+    const settled = nextPoolTopUp === poolTopUpShares && nextSafeShares.every((shares, index) => shares === safeShares[index]);
+    poolTopUpShares = nextPoolTopUp;
+    safeShares = nextSafeShares;
+    if (settled) break;
+    if (iteration === MAX_ITERATIONS - 1) {
+      warnings.push("Share counts did not fully settle; figures may be off by a few shares");
+    }
+  }
+
+  const totalSafeShares = sum(safeShares);
+  const preMoneyShares = existingShares + poolTopUpShares + totalSafeShares;
+  const pricePerShare = inputs.preMoneyValuation / preMoneyShares;
+  const newMoneyShares = Math.floor(inputs.newMoney / pricePerShare);
+  const fullyDilutedShares = preMoneyShares + newMoneyShares;
+
+  const converted: ConvertedSafe[] = safes.map(({ investor, terms: recorded }, index) => ({
+    investorId: investor.id,
+    investorName: investor.name,
+    amount: investor.amount || 0,
+    safeType: recorded.safeType,
+    valuationCap: terms[index].valuationCap,
+    discountRate: terms[index].discountRate,
+    conversionPrice: conversions[index].price,
+    basis: conversions[index].basis,
+    shares: safeShares[index],
+  }));
+
+  const holding = (holderName: string, holderType: string, sharesBefore: number, sharesAfter: number): ModeledHolding => ({
+    holderName,
+    holderType,
+    sharesBefore,
+    sharesAfter,
+    ownershipBefore: percent(sharesBefore, existingShares),
+    ownershipAfter: percent(sharesAfter, fullyDilutedShares),
+  });
+
+  const capTableAfter: ModeledHolding[] = [
+    ...capTable.map(e => holding(e.holderName, e.holderType, e.shares, e.shares)),
+    ...(poolTopUpShares > 0 ? [holding('Option pool top-up', 'option_pool', 0, poolTopUpShares)] : []),
+    ...converted.map(safe => holding(safe.investorName, 'safe', 0, safe.shares)),
+    holding('New investors', 'new_money', 0, newMoneyShares),
+  ];
+
+  return {
+    inputs,
+    pricePerShare,
+    postMoneyValuation: inputs.preMoneyValuation + inputs.newMoney,
+    existingShares,
+    poolTopUpShares,
+    safeShares: totalSafeShares,
+    newMoneyShares,
+    fullyDilutedShares,
+    safes: converted,
+    capTable: capTableAfter,
+    warnings,
+  };
+}
+
+export class FinancingModelService {
+  // Run the model against the company's current cap table and outstanding SAFEs
+  async model(companyId: string, inputs: RoundModelInput): Promise<RoundModelResult> {
+    const [{ holdings: capTable }, investors, safeTerms] = await Promise.all([
+      equityLedger.capTable(companyId),
+      storage.getInvestorsByCompanyId(companyId),
+      storage.getSafeTermsByCompanyId(companyId),
+    ]);
+
+    const warnings: string[] = [];
+    const safes: ModeledSafe[] = [];
+    // Oldest first, so MFN holders can look at the SAFEs issued after them
+    for (const investor of [...investors].reverse()) {
+      // Investors already on the cap table have converted
+      if (capTable.some(e => e.holderType === 'investor' && e.holderId === investor.id)) continue;
+      if (!investor.amount) continue;
+
+      const terms = safeTerms.find(t => t.investorId === investor.id);
+      if (!terms) {
+        warnings.push(`${investor.name} has no SAFE terms recorded and is left out of the model`);
+        continue;
+      }
+      if (investor.status !== 'signed') {
+        warnings.push(`${investor.name}'s SAFE is not signed yet but is included`);
+      }
+      safes.push({ investor, terms });
+    }
+
+    const result = modelRound(capTable, safes, inputs);
+    return { ...result, warnings: [...warnings, ...result.warnings] };
+  }
+
+  async saveScenario(companyId: string, name: string, inputs: RoundModelInput): Promise<RoundScenario> {
+    const result = await this.model(companyId, inputs);
+    return await storage.createRoundScenario({ companyId, name, inputs, result });
+  }
+}
+
+export const financingModel = new FinancingModelService();
@@ -0,0 +1,205 @@
+import { storage } from "../storage";
+import { documentVersions } from "./documentVersions";
+import { equityLedger } from "./equityLedger";
+import { findPresident, formatIsoDate, founderName, templateService } from "./templates";
+import { today, vestingStatus } from "./vesting";
+import type {
+  Company,
+  DepartureReason,
+  Document,
+  DocumentType,
+  Founder,
+  FounderDeparture,
+  FounderDepartureInput,
+  InsertDocument,
+} from "@shared/schema";
+
+const REASON_TEXT: Record<DepartureReason, string> = {
+  resignation: 'the Founder\'s resignation',
+  termination_without_cause: 'termination by the Company without cause',
+  termination_for_cause: 'termination by the Company for cause',
+};
+
+export class FounderDepartureError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'FounderDepartureError';
+  }
+}
+
+function formatPrice(pricePerShare: string | null, shares: number, company: Company): string {
+  if (pricePerShare === null) {
+    return 'the original purchase price paid by the Founder for the Unvested Shares';
+  }
+  const format = (amount: number) => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: company.jurisdiction === 'france' ? 'EUR' : 'USD',
+    maximumFractionDigits: 6,
+  }).format(amount);
+  return `${format(Number(pricePerShare) * shares)} (${format(Number(pricePerShare))} per share)`;
+}
+
+export class FounderDepartureService {
+  async list(companyId: string): Promise<FounderDeparture[]> {
+    return await storage.getFounderDeparturesByCompanyId(companyId);
+  }
+
+  // Work out what vested by the departure date and draft the repurchase notice and separation agreement
+  async start(
+    company: Company,
+    founder: Founder,
+    input: FounderDepartureInput,
+    createdBy: string
+  ): Promise<{ departure: FounderDeparture; documents: Document[] }> {
+    if (founder.status === 'departed' || await storage.getFounderDepartureByFounderId(founder.id)) {
+      throw new FounderDepartureError("This founder's departure has already been started", 409);
+    }
+    if (input.departureDate > today()) {
+      throw new FounderDepartureError("Departure date cannot be in the future");
+    }
+
+    const founders = await storage.getFoundersByCompanyId(company.id);
+    const remaining = founders.filter(f => f.id !== founder.id && f.status !== 'departed');
+    if (input.reassignToFounderId && !remaining.some(f => f.id === input.reassignToFounderId)) {
+      throw new FounderDepartureError("Tasks can only be reassigned to a founder who is staying");
+    }
+    const president = findPresident(remaining);
+    if (!president) {
+      throw new FounderDepartureError("A remaining founder must sign for the company");
+    }
+
+    // Vesting stops on the departure date; without a schedule every share the founder holds is vested
+    const grant = await storage.getVestingGrantByFounderId(founder.id);
+    const status = grant && vestingStatus(grant, { asOf: input.departureDate, terminationDate: input.departureDate });
+
+    const [capTable, events] = await Promise.all([
+      equityLedger.capTable(company.id),
+      equityLedger.history(company.id),
+    ]);
+    const holding = capTable.holdings
+      .filter(h => h.holderType === 'founder' && h.holderId === founder.id && h.kind === 'common')
+      .sort((a, b) => b.shares - a.shares)[0];
+    const unvestedShares = status ? status.unvestedShares : 0;
+    const repurchaseShares = Math.min(unvestedShares, holding?.shares || 0);
+
+    // The repurchase right is at the original price unless the company agrees another one
+    const originalIssuance = events
+      .filter(e => e.type === 'issuance' && e.holderType === 'founder' && e.holderId === founder.id && e.shareClassId === holding?.shareClassId)
+      .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))[0];
+    const pricePerShare = input.pricePerShare ?? originalIssuance?.pricePerShare ?? null;
+
+    const values: Record<string, string> = {
+      'departing.name': founderName(founder),
+      'departure.date': formatIsoDate(input.departureDate),
+      'departure.reason': REASON_TEXT[input.reason],
+      'departure.vested_shares': String(status ? status.vestedShares : holding?.shares || 0),
+      'departure.repurchase_shares': String(repurchaseShares),
+      'departure.repurchase_price': formatPrice(pricePerShare, repurchaseShares, company),
+      'president.name': founderName(president),
+    };
+    // Both drafts are rendered before anything is saved, so a failed draft leaves nothing behind
+    const { departure, notice, agreement } = await storage.createFounderDepartureWithDocuments({
+      notice: await this.draft(company, 'repurchase_notice', `Repurchase Notice - ${founderName(founder)}`, values),
+      agreement: await this.draft(company, 'separation_agreement', `Separation Agreement - ${founderName(founder)}`, values),
+      departure: {
+        companyId: company.id,
+        founderId: founder.id,
+        departureDate: input.departureDate,
+        reason: input.reason,
+        vestedShares: status ? status.vestedShares : holding?.shares || 0,
+        unvestedShares,
+        repurchaseShares,
+        shareClassId: holding?.shareClassId ?? null,
+        pricePerShare,
+        reassignToFounderId: input.reassignToFounderId ?? null,
+        status: 'in_progress',
+        createdBy,
+      },
+    });
+    await documentVersions.record(notice, 'ai_draft', createdBy);
+    await documentVersions.record(agreement, 'ai_draft', createdBy);
+
+    return { departure, documents: [notice, agreement] };
+  }
+
+  // Activation hook: once both documents are active, buy back the unvested shares and offboard the founder
+  async complete(document: Document): Promise<string> {
+    const departure = await storage.getFounderDepartureByDocumentId(document.id);
+    if (!departure) return 'No founder departure linked to this document';
+    if (departure.status === 'completed') return 'Founder departure already completed';
+
+    const otherId = document.id === departure.noticeDocumentId ? departure.agreementDocumentId : departure.noticeDocumentId;
+    const other = otherId ? await storage.getDocumentById(otherId) : undefined;
+    if (other && other.status !== 'active') {
+      return `Waiting for ${other.title} to be activated`;
+    }
+
+    const founders = await storage.getFoundersByCompanyId(departure.companyId);
+    const founder = founders.find(f => f.id === departure.founderId);
+    if (!founder) return 'Founder no longer exists';
+
+    // Both documents' hooks can get here at once; only the one that moves the status on repurchases
+    const claimed = await storage.updateFounderDepartureIfStatus(departure.id, 'in_progress', {
+      status: 'completed',
+      completedAt: new Date(),
+    });
+    if (!claimed) return 'Founder departure already completed';
+
+    try {
+      return await this.offboard(departure, founder, founders);
+    } catch (error) {
+      // Reopen it so a re-run of the hook can try again
+      await storage.updateFounderDeparture(departure.id, { status: 'in_progress', completedAt: null });
+      throw error;
+    }
+  }
+
+  private async offboard(departure: FounderDeparture, founder: Founder, founders: Founder[]): Promise<string> {
+    // Saved as soon as it is booked, so a retry after a later failure never repurchases twice
+    if (departure.repurchaseShares > 0 && departure.shareClassId && !departure.repurchaseEventId) {
+      const event = await equityLedger.record(departure.companyId, {
+        shareClassId: departure.shareClassId,
+        type: 'repurchase',
+        holder: { holderType: 'founder', holderId: founder.id },
+        shares: departure.repurchaseShares,
+        pricePerShare: departure.pricePerShare ?? undefined,
+        effectiveDate: today(),
+        documentId: departure.noticeDocumentId ?? undefined,
+        note: `Unvested shares repurchased on ${founderName(founder)}'s departure`,
+      }, departure.createdBy);
+      await storage.updateFounderDeparture(departure.id, { repurchaseEventId: event.id });
+    }
+
+    await storage.updateFounder(founder.id, { status: 'departed' });
+
+    // Open tasks go to the chosen founder, else whoever now leads the company, else nobody
+    const remaining = founders.filter(f => f.id !== founder.id && f.status !== 'departed');
+    const assigneeId = departure.reassignToFounderId || findPresident(remaining)?.id || null;
+    const tasks = (await storage.getTasksByCompanyId(departure.companyId))
+      .filter(task => task.assigneeId === founder.id && task.status !== 'completed');
+    for (const task of tasks) {
+      await storage.updateTask(task.id, { assigneeId });
+    }
+
+    return `${founderName(founder)} departed, ${departure.repurchaseShares} unvested share(s) repurchased, ${tasks.length} task(s) reassigned`;
+  }
+
+  private async draft(company: Company, type: DocumentType, title: string, values: Record<string, string>): Promise<InsertDocument> {
+    const draft = await templateService.draft(company, type, { values });
+    if (!draft.content) {
+      throw new FounderDepartureError(`Missing details: ${draft.missingVariables.map(v => v.label).join(', ')}`, 422);
+    }
+
+    return {
+      companyId: company.id,
+      type,
+      title,
+      content: draft.content,
+      status: 'drafting',
+      templateId: draft.template.id,
+      templateVersion: draft.template.version,
+    };
+  }
+}
+
+export const founderDepartures = new FounderDepartureService();
@@ -0,0 +1,180 @@
+import { storage } from "../storage";
+import { emailService } from "./email";
+import { identityVerification } from "./identityVerification";
+import { signingTokens } from "./signingTokens";
+import { founderName } from "./templates";
+import type {
+  Company,
+  DocumentSignature,
+  Founder,
+  FounderPortalLink,
+  FounderPortalSignature,
+  FounderPortalView,
+  FounderProfileInput,
+  FounderTermsResponseInput,
+  IdentityUploadInput,
+} from "@shared/schema";
+
+export class FounderPortalError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'FounderPortalError';
+  }
+}
+
+function via(signature: DocumentSignature): FounderPortalSignature['via'] {
+  if (signature.packetId) return 'packet';
+  if (signature.hostSessionId) return 'in_person';
+  return 'email';
+}
+
+export class FounderPortalService {
+  // Email the founder a fresh link to their portal; any earlier link stops working
+  async invite(company: Company, founder: Founder, inviterName: string, baseUrl: string): Promise<void> {
+    if (founder.status === 'departed') {
+      throw new FounderPortalError("This founder has left the company");
+    }
+
+    const { token, tokenHash, tokenExpiresAt } = signingTokens.issue();
+    await storage.upsertFounderPortalLink({ founderId: founder.id, tokenHash, tokenExpiresAt });
+    await emailService.sendFounderInvitation(
+      founder.email,
+      founder.firstName || founder.email,
+      company.name,
+      inviterName,
+      `${baseUrl}/portal/${token}`,
+      tokenExpiresAt
+    );
+  }
+
+  async view(token: string): Promise<FounderPortalView> {
+    const { link, founder } = await this.resolve(token);
+    await storage.touchFounderPortalLink(link.id);
+
+    const [company, verifications, signatures] = await Promise.all([
+      storage.getCompanyById(founder.companyId),
+      storage.getIdentityVerificationsByCompanyId(founder.companyId),
+      this.signatures(founder),
+    ]);
+    const identity = verifications.find(v => v.founderId === founder.id);
+
+    return {
+      companyName: company?.name || 'the company',
+      founder: {
+        email: founder.email,
+        firstName: founder.firstName,
+        lastName: founder.lastName,
+        address: founder.address,
+        taxResidency: founder.taxResidency,
+        role: founder.role,
+        equityPercentage: founder.equityPercentage,
+        status: founder.status,
+        idUploaded: founder.idUploaded,
+        profileCompletedAt: founder.profileCompletedAt,
+        termsResponse: founder.termsResponse,
+        termsDisputeNote: founder.termsDisputeNote,
+      },
+      identity: identity ? { status: identity.status, reviewNote: identity.reviewNote } : null,
+      signatures,
+      expiresAt: link.tokenExpiresAt.toISOString(),
+    };
+  }
+
+  // A complete profile is what moves an invited founder on to signing
+  async updateProfile(token: string, input: FounderProfileInput): Promise<FounderPortalView> {
+    const { founder } = await this.resolve(token);
+    await storage.updateFounder(founder.id, {
+      ...input,
+      profileCompletedAt: founder.profileCompletedAt || new Date(),
+      status: founder.status === 'invited' ? 'pending_signature' : founder.status,
+    });
+    return await this.view(token);
+  }
+
+  // Accept the equity and role the owner entered, or dispute them with a note the owner is tasked with
+  async respondToTerms(token: string, input: FounderTermsResponseInput): Promise<FounderPortalView> {
+    const { founder } = await this.resolve(token);
+    const disputed = input.response === 'disputed';
+
+    await storage.updateFounder(founder.id, {
+      termsResponse: input.response,
+      termsDisputeNote: disputed ? input.note! : null,
+      termsRespondedAt: new Date(),
+    });
+    if (disputed) {
+      await storage.createTask({
+        companyId: founder.companyId,
+        description: `${founderName(founder)} disputes their equity or role: "${input.note}"`,
+        category: 'Founders',
+        status: 'pending',
+      });
+    }
+    return await this.view(token);
+  }
+
+  async uploadId(token: string, input: IdentityUploadInput): Promise<FounderPortalView> {
+    const { founder } = await this.resolve(token);
+    await identityVerification.submitForFounder(founder, input);
+    return await this.view(token);
+  }
+
+  // A fresh signing link for a request that is the founder's turn. It replaces the
+  // emailed link but keeps its deadline, so opening from the portal never extends it.
+  async openSignature(token: string, signatureId: string): Promise<{ url: string }> {
+    const { founder } = await this.resolve(token);
+    const listed = (await this.signatures(founder)).find(s => s.id === signatureId);
+    const signature = listed && await storage.getSignatureById(listed.id);
+    if (!listed || !signature) {
+      throw new FounderPortalError("This document is not waiting for your signature", 404);
+    }
+    if (!listed.canOpen) {
+      throw new FounderPortalError(
+        listed.via === 'email' ? "Earlier signers have not finished yet" : "Sign this document through the link or session it was sent with",
+        409
+      );
+    }
+
+    const { token: signingToken } = await signingTokens.reissue(signature, { keepExpiry: true });
+    return { url: `/sign/${signingToken.token}` };
+  }
+
+  // Every live request for the founder on a document that is out for signature
+  private async signatures(founder: Founder): Promise<FounderPortalSignature[]> {
+    const open = (await storage.getSignaturesBySignerId(founder.id))
+      .filter(s => s.signerType === 'founder' && !s.voidedAt && !s.revokedAt && (s.status === 'pending' || s.status === 'sent'));
+
+    const result: FounderPortalSignature[] = [];
+    for (const signature of open) {
+      const document = await storage.getDocumentById(signature.documentId);
+      if (!document || document.status !== 'signing') continue;
+      const expired = !!signature.tokenExpiresAt && signature.tokenExpiresAt.getTime() < Date.now();
+      result.push({
+        id: signature.id,
+        documentId: document.id,
+        documentTitle: document.title,
+        status: signature.status as FounderPortalSignature['status'],
+        via: via(signature),
+        canOpen: signature.status === 'sent' && via(signature) === 'email' && !expired,
+      });
+    }
+    return result;
+  }
+
+  private async resolve(token: string): Promise<{ link: FounderPortalLink; founder: Founder }> {
+    const link = await storage.getFounderPortalLinkByTokenHash(signingTokens.hash(token));
+    if (!link) {
+      throw new FounderPortalError("This portal link is not valid. It may have been replaced by a newer one.", 404);
+    }
+    if (link.tokenExpiresAt.getTime() < Date.now()) {
+      throw new FounderPortalError("This portal link has expired. Ask the company to send a new one.", 410);
+    }
+
+    const founder = await storage.getFounderById(link.founderId);
+    if (!founder || founder.status === 'departed') {
+      throw new FounderPortalError("This portal is no longer available", 410);
+    }
+    return { link, founder };
+  }
+}
+
+export const founderPortal = new FounderPortalService();
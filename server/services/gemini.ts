@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import pRetry, { AbortError } from "p-retry";
+import type { ValidationFinding } from "@shared/schema";
 
 // Referenced from Gemini AI Integrations blueprint
 // This is using Replit's AI Integrations service, which provides Gemini-compatible API access without requiring your own Gemini API key.
@@ -123,7 +124,7 @@ Document Type: ${type}
 
 Additional parameters: ${JSON.stringify(params)}
 
-Draft a complete, professional ${type} document tailored to this jurisdiction. Include all necessary clauses and legal language.`;
+Draft a complete, professional ${type} document tailored to this jurisdiction. Include all necessary clauses and legal language. Where a name, amount, date or other detail is not given above, write a [bracketed placeholder] instead of inventing one.`;
 
       return await pRetry(
         async () => {
@@ -153,13 +154,193 @@ Draft a complete, professional ${type} document tailored to this jurisdiction. I
     }
   }
 
+  // Draft a single optional clause for a template; null means the caller should use its fallback
+  async draftClause(
+    documentType: string,
+    company: any,
+    clause: { title: string; instructions: string },
+    variables: Record<string, string> = {}
+  ): Promise<string | null> {
+    await this.ensureInitialized();
+    if (!this.ai) {
+      return null;
+    }
+
+    try {
+      const prompt = `You are an elite startup lawyer completing a ${documentType} from a fixed template.
+
+Company: ${company.name}
+Jurisdiction: ${company.jurisdiction === 'delaware' ? 'Delaware C-Corp' : 'France SAS'}
+Known details: ${JSON.stringify(variables)}
+
+Draft only the body of the "${clause.title}" clause: ${clause.instructions}
+
+Return the clause text only, as one or two paragraphs, with no heading, numbering or commentary. Do not invent names, amounts or dates that are not in the known details.`;
+
+      return await pRetry(
+        async () => {
+          try {
+            const response = await this.ai!.models.generateContent({
+              model: "gemini-2.5-flash",
+              contents: prompt,
+            });
+            return response.text?.trim() || null;
+          } catch (error: any) {
+            if (this.isRateLimitError(error)) {
+              throw error;
+            }
+            throw new AbortError(error);
+          }
+        },
+        {
+          retries: 7,
+          minTimeout: 2000,
+          maxTimeout: 128000,
+          factor: 2,
+        }
+      );
+    } catch (error) {
+      console.error("Gemini draftClause error:", error);
+      return null;
+    }
+  }
+
+  // Map a free-form (often spoken) reply onto the open drafting questions
+  async extractAnswers(
+    transcript: string,
+    questions: Array<{ key: string; question: string; type: string }>
+  ): Promise<Record<string, string> | null> {
+    await this.ensureInitialized();
+    if (!this.ai) {
+      return null;
+    }
+
+    try {
+      const prompt = `A founder is answering questions needed to draft a legal document.
+
+Open questions:
+${questions.map(q => `- ${q.key} (${q.type}): ${q.question}`).join('\n')}
+
+Founder's reply:
+${transcript}
+
+Extract an answer for each question the reply actually answers. Use plain numbers for currency, number and percentage answers. Leave out any question the reply does not answer - never guess.`;
+
+      const response = await pRetry(
+        async () => {
+          try {
+            const result = await this.ai!.models.generateContent({
+              model: "gemini-2.5-flash",
+              contents: prompt,
+              config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                  type: Type.OBJECT,
+                  properties: {
+                    answers: {
+                      type: Type.ARRAY,
+                      items: {
+                        type: Type.OBJECT,
+                        properties: {
+                          key: {
+                            type: Type.STRING,
+                            enum: questions.map(q => q.key)
+                          },
+                          value: { type: Type.STRING }
+                        },
+                        required: ["key", "value"]
+                      }
+                    }
+                  },
+                  required: ["answers"]
+                }
+              }
+            });
+            return JSON.parse(result.text || '{"answers": []}');
+          } catch (error: any) {
+            if (this.isRateLimitError(error)) {
+              throw error;
+            }
+            throw new AbortError(error);
+          }
+        },
+        {
+          retries: 7,
+          minTimeout: 2000,
+          maxTimeout: 128000,
+          factor: 2,
+        }
+      );
+
+      const answers: Record<string, string> = {};
+      for (const answer of response.answers || []) {
+        if (answer.value?.trim()) answers[answer.key] = answer.value.trim();
+      }
+      return answers;
+    } catch (error) {
+      console.error("Gemini extractAnswers error:", error);
+      return null;
+    }
+  }
+
+  async explainClause(
+    documentType: string,
+    clause: string,
+    companyContext: string
+  ): Promise<string> {
+    await this.ensureInitialized();
+    if (!this.ai) {
+      return "Clause explanations are not available. Please contact support.";
+    }
+
+    try {
+      const prompt = `You are an elite startup lawyer explaining a clause from a ${documentType} to a founder with no legal training.
+
+${companyContext}
+
+Clause:
+${clause}
+
+Explain in plain language what this clause means, why it is there, and anything the founder should watch out for. Keep it under 150 words.`;
+
+      return await pRetry(
+        async () => {
+          try {
+            const response = await this.ai!.models.generateContent({
+              model: "gemini-2.5-flash",
+              contents: prompt,
+            });
+            return response.text || "I couldn't explain this clause.";
+          } catch (error: any) {
+            if (this.isRateLimitError(error)) {
+              throw error;
+            }
+            throw new AbortError(error);
+          }
+        },
+        {
+          retries: 7,
+          minTimeout: 2000,
+          maxTimeout: 128000,
+          factor: 2,
+        }
+      );
+    } catch (error) {
+      console.error("Gemini explainClause error:", error);
+      return "I encountered an error explaining this clause. Please try again.";
+    }
+  }
+
   async validateDocument(
     type: string,
     content: string
-  ): Promise<{ valid: boolean; issues: string[] }> {
+  ): Promise<{ valid: boolean; findings: ValidationFinding[] }> {
     await this.ensureInitialized();
     if (!this.ai) {
-      return { valid: false, issues: ["Validation service not available"] };
+      return {
+        valid: true,
+        findings: [{ severity: 'warning', category: 'best_practice', message: "AI review not available - only rule-based checks were run", source: 'ai' }],
+      };
     }
 
     try {
@@ -169,18 +350,23 @@ Document content:
 ${content}
 
 Analyze this document for:
-1. Missing required clauses
-2. Legal inconsistencies
-3. Jurisdiction-specific compliance issues
-4. Best practice recommendations
+1. Missing required clauses (category "missing_clause")
+2. Legal inconsistencies (category "inconsistency")
+3. Jurisdiction-specific compliance issues (category "jurisdiction_compliance")
+4. Best practice recommendations (category "best_practice")
+
+For each finding give:
+- severity: "blocker" if the document must not be signed as-is, "warning" for real risks, "suggestion" for improvements
+- message: what is wrong
+- quote: the exact span of document text the finding refers to (empty if the problem is something missing)
+- suggestedFix: replacement or additional text that resolves it
 
 Respond in JSON format with:
 {
-  "valid": boolean,
-  "issues": string[]
+  "findings": [{ "severity", "category", "message", "quote", "suggestedFix" }]
 }`;
 
-      const response = await pRetry(
+      const findings: ValidationFinding[] = await pRetry(
         async () => {
           try {
             const result = await this.ai!.models.generateContent({
@@ -191,17 +377,33 @@ Respond in JSON format with:
                 responseSchema: {
                   type: Type.OBJECT,
                   properties: {
-                    valid: { type: Type.BOOLEAN },
-                    issues: {
+                    findings: {
                       type: Type.ARRAY,
-                      items: { type: Type.STRING }
+                      items: {
+                        type: Type.OBJECT,
+                        properties: {
+                          severity: {
+                            type: Type.STRING,
+                            enum: ['blocker', 'warning', 'suggestion']
+                          },
+                          category: {
+                            type: Type.STRING,
+                            enum: ['missing_clause', 'inconsistency', 'jurisdiction_compliance', 'best_practice']
+                          },
+                          message: { type: Type.STRING },
+                          quote: { type: Type.STRING },
+                          suggestedFix: { type: Type.STRING }
+                        },
+                        required: ["severity", "category", "message"]
+                      }
                     }
                   },
-                  required: ["valid", "issues"]
+                  required: ["findings"]
                 }
               }
             });
-            return JSON.parse(result.text || '{"valid": false, "issues": ["Validation failed"]}');
+            const parsed: ValidationFinding[] = JSON.parse(result.text || '{"findings": []}').findings || [];
+            return parsed.map(finding => ({ ...finding, source: 'ai' as const }));
           } catch (error: any) {
             if (this.isRateLimitError(error)) {
               throw error;
@@ -217,10 +419,84 @@ Respond in JSON format with:
         }
       );
 
-      return response;
+      return {
+        valid: !findings.some(finding => finding.severity === 'blocker'),
+        findings,
+      };
     } catch (error) {
       console.error("Gemini validateDocument error:", error);
-      return { valid: false, issues: ["Validation error occurred"] };
+      return {
+        valid: false,
+        findings: [{ severity: 'blocker', category: 'best_practice', message: "Validation error occurred", source: 'ai' }],
+      };
+    }
+  }
+
+  // Revise a document to address reviewer feedback; null means no revision could be drafted
+  async reviseDocument(
+    documentType: string,
+    content: string,
+    feedback: string
+  ): Promise<{ content: string; summary: string } | null> {
+    await this.ensureInitialized();
+    if (!this.ai) {
+      return null;
+    }
+
+    try {
+      const prompt = `You are an elite startup lawyer revising a ${documentType} after a signer declined to sign it.
+
+Their feedback:
+${feedback}
+
+Current document:
+${content}
+
+Revise the document so it addresses the feedback. Change only what the feedback requires, keep every other clause word for word, and keep the same headings and numbering. Do not invent names, amounts or dates; use a [bracketed placeholder] where a detail is unknown.
+
+Respond in JSON format with:
+{
+  "content": the full revised document,
+  "summary": one or two sentences describing what changed
+}`;
+
+      return await pRetry(
+        async () => {
+          try {
+            const result = await this.ai!.models.generateContent({
+              model: "gemini-2.5-flash",
+              contents: prompt,
+              config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                  type: Type.OBJECT,
+                  properties: {
+                    content: { type: Type.STRING },
+                    summary: { type: Type.STRING }
+                  },
+                  required: ["content", "summary"]
+                }
+              }
+            });
+            const parsed = JSON.parse(result.text || 'null');
+            return parsed?.content ? { content: parsed.content, summary: parsed.summary || '' } : null;
+          } catch (error: any) {
+            if (this.isRateLimitError(error)) {
+              throw error;
+            }
+            throw new AbortError(error);
+          }
+        },
+        {
+          retries: 7,
+          minTimeout: 2000,
+          maxTimeout: 128000,
+          factor: 2,
+        }
+      );
+    } catch (error) {
+      console.error("Gemini reviseDocument error:", error);
+      return null;
     }
   }
 
@@ -0,0 +1,271 @@
+import { randomInt } from "crypto";
+import { storage } from "../storage";
+import { documentLifecycle } from "./documentLifecycle";
+import { documentRework } from "./documentRework";
+import { emailService } from "./email";
+import { pdfService } from "./pdf";
+import { signerRouting } from "./signerRouting";
+import { signingTokens } from "./signingTokens";
+import { signatureAudit, type RequestContext } from "./signatureAudit";
+import type {
+  Document,
+  DocumentSignature,
+  HostSigningSession,
+  HostSigningTurn,
+  HostSigningView,
+  PacketItemState,
+  SignatureSubmission,
+} from "@shared/schema";
+
+// How long an emailed code can be entered, and how many wrong guesses it tolerates
+const CODE_TTL_MINUTES = parseInt(process.env.HOST_SIGNING_CODE_TTL_MINUTES || '10', 10);
+const MAX_CODE_ATTEMPTS = 5;
+// Stops a double click (or an impatient founder) from flooding their inbox
+const CODE_RESEND_SECONDS = 30;
+
+export class HostSigningError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'HostSigningError';
+  }
+}
+
+function turnState(signature: DocumentSignature, document: Document): PacketItemState {
+  if (signature.status === 'signed') return 'signed';
+  if (signature.status === 'declined') return 'declined';
+  if (document.status !== 'signing') return 'closed';
+  return signature.status === 'sent' ? 'ready' : 'waiting';
+}
+
+export class HostSigningService {
+  // Open (or resume) a session in which the company's founders sign on the host's device
+  async start(document: Document, hostUserId: string, baseUrl: string, context: RequestContext): Promise<HostSigningSession> {
+    const existing = await storage.getActiveHostSessionByDocumentId(document.id);
+    if (existing) return existing;
+
+    const founderIds = (await storage.getFoundersByCompanyId(document.companyId)).map(f => f.id);
+
+    if (document.status === 'signing') {
+      // Take over founder requests still open from an emailed round; their links keep working too
+      const open = (await storage.getSignaturesByDocumentId(document.id)).filter(s =>
+        founderIds.includes(s.signerId) && !s.packetId && (s.status === 'pending' || s.status === 'sent')
+      );
+      if (open.length === 0) {
+        throw new HostSigningError("No founder signatures are left to collect on this document");
+      }
+
+      const session = await storage.createHostSession({ documentId: document.id, hostUserId, status: 'active' });
+      for (const signature of open) {
+        await storage.updateSignature(signature.id, { hostSessionId: session.id });
+      }
+      return session;
+    }
+
+    // Reject before anything is created if the document is not ready
+    documentLifecycle.assertTransition(document, 'signing');
+
+    const planned = await signerRouting.plan(document);
+    if (!planned.some(s => founderIds.includes(s.signerId))) {
+      throw new HostSigningError("No founders sign this document, so there is nothing to sign in person");
+    }
+
+    const session = await storage.createHostSession({ documentId: document.id, hostUserId, status: 'active' });
+    await signerRouting.start(document, planned, baseUrl, context, { hostSessionId: session.id, hostSignerIds: founderIds });
+    await documentLifecycle.transition(document, 'signing');
+
+    return session;
+  }
+
+  // Sessions are only reachable from the company that owns the document
+  async resolve(sessionId: string, companyId: string): Promise<{ session: HostSigningSession; document: Document }> {
+    const session = await storage.getHostSessionById(sessionId);
+    const document = session && await storage.getDocumentById(session.documentId);
+    if (!session || !document || document.companyId !== companyId) {
+      throw new HostSigningError("Signing session not found", 404);
+    }
+    return { session, document };
+  }
+
+  async view(session: HostSigningSession, document: Document): Promise<HostSigningView> {
+    const turns = await this.turns(session, document);
+    return { session: await this.settle(session, document, turns), document, turns };
+  }
+
+  // Email the founder whose turn it is a one-time code to type in on the host's device
+  async sendCode(session: HostSigningSession, document: Document, signatureId: string, context: RequestContext): Promise<void> {
+    const turn = await this.readyTurn(session, document, signatureId);
+
+    const latest = await storage.getLatestSigningCode(session.id, signatureId);
+    if (latest?.createdAt && Date.now() - new Date(latest.createdAt).getTime() < CODE_RESEND_SECONDS * 1000) {
+      throw new HostSigningError("A code was just sent. Wait a few seconds before requesting another.");
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    await storage.createSigningCode({
+      sessionId: session.id,
+      signatureId,
+      codeHash: signingTokens.hash(code),
+      expiresAt: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000),
+    });
+
+    await emailService.sendSigningCode(turn.email, turn.name, document.title, code, CODE_TTL_MINUTES);
+    await signatureAudit.record(turn.signature, 'code_sent', context, `Code emailed to ${turn.email} for in-person signing`);
+  }
+
+  async verifyCode(
+    session: HostSigningSession,
+    document: Document,
+    signatureId: string,
+    code: string,
+    context: RequestContext
+  ): Promise<void> {
+    const turn = await this.readyTurn(session, document, signatureId);
+
+    const latest = await storage.getLatestSigningCode(session.id, signatureId);
+    if (!latest || latest.usedAt) {
+      throw new HostSigningError("Request a code first");
+    }
+    if (latest.verifiedAt) return;
+    if (latest.expiresAt.getTime() < Date.now()) {
+      throw new HostSigningError("This code has expired. Request a new one.");
+    }
+    if (latest.attempts >= MAX_CODE_ATTEMPTS) {
+      throw new HostSigningError("Too many incorrect attempts. Request a new code.");
+    }
+
+    if (signingTokens.hash(code) !== latest.codeHash) {
+      await storage.updateSigningCode(latest.id, { attempts: latest.attempts + 1 });
+      throw new HostSigningError("That code is not correct");
+    }
+
+    await storage.updateSigningCode(latest.id, { verifiedAt: new Date() });
+    await signatureAudit.record(turn.signature, 'verified', context, `${turn.email} confirmed their identity with an emailed code`);
+  }
+
+  async sign(
+    session: HostSigningSession,
+    document: Document,
+    signatureId: string,
+    submission: SignatureSubmission,
+    hostName: string,
+    baseUrl: string,
+    context: RequestContext
+  ): Promise<DocumentSignature> {
+    const { signature } = await this.withVerifiedTurn(session, document, signatureId, turn => signerRouting.sign(
+      document,
+      turn.signature,
+      submission,
+      baseUrl,
+      context,
+      `Signed in person on a device hosted by ${hostName}`
+    ));
+
+    const updated = await storage.getDocumentById(document.id);
+    if (updated) {
+      await this.settle(session, updated, await this.turns(session, updated));
+    }
+    return signature;
+  }
+
+  // A decline in the room works like one by email: the document goes back to drafting
+  async decline(
+    session: HostSigningSession,
+    document: Document,
+    signatureId: string,
+    reason: string,
+    baseUrl: string,
+    context: RequestContext
+  ): Promise<DocumentSignature> {
+    const { signature } = await this.withVerifiedTurn(session, document, signatureId, turn =>
+      documentRework.decline(document, turn.signature, reason, baseUrl, context)
+    );
+    await storage.updateHostSession(session.id, { status: 'cancelled', endedAt: new Date() });
+
+    return signature;
+  }
+
+  // Ending early hands the remaining founders over to email
+  async cancel(session: HostSigningSession, document: Document, baseUrl: string, context: RequestContext): Promise<HostSigningSession> {
+    if (session.status !== 'active') return session;
+
+    for (const signature of await storage.getSignaturesByHostSessionId(session.id)) {
+      if (signature.status !== 'pending' && signature.status !== 'sent') continue;
+
+      const released = await storage.updateSignature(signature.id, { hostSessionId: null });
+      if (released.status === 'sent' && document.status === 'signing') {
+        await signerRouting.send(document, released, baseUrl, context, `Sent to ${released.signerEmail} after the in-person session ended`);
+      }
+    }
+
+    return await storage.updateHostSession(session.id, { status: 'cancelled', endedAt: new Date() });
+  }
+
+  private async turns(session: HostSigningSession, document: Document): Promise<HostSigningTurn[]> {
+    const [signatures, signers] = await Promise.all([
+      storage.getSignaturesByHostSessionId(session.id),
+      pdfService.signersFor(document),
+    ]);
+
+    return await Promise.all(signatures.map(async (signature) => {
+      const code = await storage.getLatestSigningCode(session.id, signature.id);
+      return {
+        signature,
+        name: signers.find(s => s.signature.id === signature.id)?.name || signature.signerEmail,
+        email: signature.signerEmail,
+        state: turnState(signature, document),
+        verified: !!code?.verifiedAt && !code.usedAt,
+      };
+    }));
+  }
+
+  private async readyTurn(session: HostSigningSession, document: Document, signatureId: string): Promise<HostSigningTurn> {
+    if (session.status !== 'active') {
+      throw new HostSigningError(`This signing session is ${session.status}`);
+    }
+
+    const turn = (await this.turns(session, document)).find(t => t.signature.id === signatureId);
+    if (!turn) {
+      throw new HostSigningError("This signer is not part of the session");
+    }
+    if (turn.state === 'waiting') {
+      throw new HostSigningError("Earlier signers must sign before this founder can");
+    }
+    if (turn.state !== 'ready') {
+      throw new HostSigningError(`This signature request is already ${turn.state}`);
+    }
+    return turn;
+  }
+
+  // The code is spent by the signature or decline it unlocked, so each action needs its own
+  // confirmation. It is only spent once the action succeeds; a failed attempt can be retried.
+  private async withVerifiedTurn<T>(
+    session: HostSigningSession,
+    document: Document,
+    signatureId: string,
+    action: (turn: HostSigningTurn) => Promise<T>
+  ): Promise<T> {
+    const turn = await this.readyTurn(session, document, signatureId);
+    const code = await storage.getLatestSigningCode(session.id, signatureId);
+    if (!turn.verified || !code) {
+      throw new HostSigningError("Confirm your identity with the emailed code first");
+    }
+
+    const result = await action(turn);
+    await storage.updateSigningCode(code.id, { usedAt: new Date() });
+    return result;
+  }
+
+  // End the session once no founder in it has anything left to sign
+  private async settle(session: HostSigningSession, document: Document, turns: HostSigningTurn[]): Promise<HostSigningSession> {
+    if (session.status !== 'active') return session;
+    if (document.status === 'signing' && turns.some(t => t.state === 'ready' || t.state === 'waiting')) return session;
+
+    const signedAll = turns.length > 0 && turns.every(t => t.state === 'signed');
+    return await storage.updateHostSession(session.id, {
+      status: signedAll ? 'completed' : 'cancelled',
+      endedAt: new Date(),
+    });
+  }
+}
+
+export const hostSigning = new HostSigningService();
@@ -0,0 +1,47 @@
+import type { Founder, IdentityCheckResult, IdentityDocumentKind } from "@shared/schema";
+
+export interface IdentityDocument {
+  kind: IdentityDocumentKind;
+  mimeType: string;
+  data: Buffer;
+}
+
+// A KYC vendor that checks an ID document against the founder on record
+export interface IdentityVerificationProvider {
+  readonly name: string;
+  verify(founder: Founder, document: IdentityDocument): Promise<IdentityCheckResult>;
+}
+
+// Stands in for a real vendor in development: it never reads the document itself,
+// it only checks what it can without one, so the owner's review is what counts
+export class LocalStubProvider implements IdentityVerificationProvider {
+  readonly name = 'local_stub';
+
+  async verify(founder: Founder, document: IdentityDocument): Promise<IdentityCheckResult> {
+    const checks = [
+      {
+        name: 'document_received',
+        passed: document.data.length > 0,
+      },
+      {
+        name: 'legal_name_on_record',
+        passed: !!(founder.firstName && founder.lastName),
+        detail: founder.firstName && founder.lastName ? undefined : 'Add the founder\'s first and last name to compare against the ID',
+      },
+      {
+        name: 'document_authenticity',
+        passed: true,
+        detail: 'Not checked by the local provider',
+      },
+    ];
+
+    return {
+      provider: this.name,
+      outcome: checks.every(check => check.passed) ? 'clear' : 'consider',
+      checks,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+}
+
+export const identityProvider: IdentityVerificationProvider = new LocalStubProvider();
@@ -0,0 +1,238 @@
+import { storage } from "../storage";
+import { emailService } from "./email";
+import { fileStore } from "./fileStore";
+import { identityProvider } from "./identityProvider";
+import { signingTokens } from "./signingTokens";
+import { founderName } from "./templates";
+import { scanDataUrl } from "./uploadScanner";
+import type {
+  Company,
+  Founder,
+  IdentityReviewInput,
+  IdentityUploadInput,
+  IdentityUploadRequest,
+  IdentityVerification,
+  IdentityVerificationSummary,
+} from "@shared/schema";
+
+// How long a founder has to use an ID upload link
+const LINK_LIFETIME_DAYS = parseInt(process.env.ID_UPLOAD_LINK_TTL_DAYS || '7', 10);
+// Days an ID file is kept after the owner's decision, in case it needs a second look
+const RETENTION_DAYS = parseInt(process.env.ID_RETENTION_DAYS || '7', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class IdentityVerificationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'IdentityVerificationError';
+  }
+}
+
+function summarize({ tokenHash: _token, ...verification }: IdentityVerification): IdentityVerificationSummary {
+  return verification;
+}
+
+export class IdentityVerificationService {
+  async list(companyId: string): Promise<IdentityVerificationSummary[]> {
+    return (await storage.getIdentityVerificationsByCompanyId(companyId)).map(summarize);
+  }
+
+  // Email the founder a link to upload their ID, reusing the open request if there is one
+  async request(company: Company, founder: Founder, requestedBy: string, baseUrl: string): Promise<IdentityVerificationSummary> {
+    if (founder.status === 'departed') {
+      throw new IdentityVerificationError("This founder has left the company");
+    }
+
+    const history = (await storage.getIdentityVerificationsByCompanyId(company.id)).filter(v => v.founderId === founder.id);
+    if (history.some(v => v.status === 'submitted')) {
+      throw new IdentityVerificationError("This founder's ID is waiting for your review", 409);
+    }
+    if (founder.idUploaded && history.some(v => v.status === 'approved')) {
+      throw new IdentityVerificationError("This founder's ID is already verified", 409);
+    }
+
+    // A new link replaces the old one, so only the latest email works
+    const { token, tokenHash } = signingTokens.issue();
+    const tokenExpiresAt = new Date(Date.now() + LINK_LIFETIME_DAYS * DAY_MS);
+    const open = history.find(v => v.status === 'requested');
+    const verification = open
+      ? await storage.updateIdentityVerification(open.id, { tokenHash, tokenExpiresAt, requestedBy })
+      : await storage.createIdentityVerification({
+          companyId: company.id,
+          founderId: founder.id,
+          status: 'requested',
+          tokenHash,
+          tokenExpiresAt,
+          requestedBy,
+        });
+
+    // Tell the founder why a previous upload was turned down
+    const rejected = history.find(v => v.status === 'rejected');
+    await emailService.sendIdentityRequest(
+      founder.email,
+      founderName(founder),
+      company.name,
+      `${baseUrl}/verify-id/${token}`,
+      tokenExpiresAt,
+      rejected?.reviewNote
+    );
+
+    return summarize(verification);
+  }
+
+  // What the public upload page shows for a link
+  async view(token: string): Promise<IdentityUploadRequest> {
+    const verification = await this.resolve(token);
+    const [company, founder] = await Promise.all([
+      storage.getCompanyById(verification.companyId),
+      this.founder(verification),
+    ]);
+
+    return {
+      founderName: founderName(founder),
+      companyName: company?.name || 'the company',
+      status: verification.status,
+      reviewNote: verification.reviewNote,
+      expiresAt: verification.tokenExpiresAt ? verification.tokenExpiresAt.toISOString() : null,
+    };
+  }
+
+  // Upload through the link emailed by request()
+  async submit(token: string, input: IdentityUploadInput): Promise<IdentityUploadRequest> {
+    const verification = await this.resolve(token);
+    if (verification.status !== 'requested') {
+      throw new IdentityVerificationError("An ID has already been uploaded with this link", 409);
+    }
+    if (verification.tokenExpiresAt && verification.tokenExpiresAt.getTime() < Date.now()) {
+      throw new IdentityVerificationError("This upload link has expired. Ask the company to send a new one.", 410);
+    }
+
+    await this.store(verification, await this.founder(verification), input);
+    return await this.view(token);
+  }
+
+  // Upload from the founder portal, whose own link already proves who the founder is
+  async submitForFounder(founder: Founder, input: IdentityUploadInput): Promise<IdentityVerificationSummary> {
+    const history = (await storage.getIdentityVerificationsByCompanyId(founder.companyId)).filter(v => v.founderId === founder.id);
+    if (history.some(v => v.status === 'submitted')) {
+      throw new IdentityVerificationError("Your ID is already waiting for review", 409);
+    }
+    if (founder.idUploaded && history.some(v => v.status === 'approved')) {
+      throw new IdentityVerificationError("Your ID is already verified", 409);
+    }
+
+    const verification = history.find(v => v.status === 'requested') || await storage.createIdentityVerification({
+      companyId: founder.companyId,
+      founderId: founder.id,
+      status: 'requested',
+    });
+    return summarize(await this.store(verification, founder, input));
+  }
+
+  // The decrypted ID, for the owner reviewing it
+  async file(companyId: string, id: string): Promise<{ fileName: string; mimeType: string; data: Buffer }> {
+    const verification = await this.find(companyId, id);
+    if (!verification.fileKey) {
+      throw new IdentityVerificationError(
+        verification.fileDeletedAt ? "The ID file was deleted under the retention policy" : "No ID has been uploaded yet",
+        404
+      );
+    }
+    return {
+      fileName: verification.fileName || 'identity-document',
+      mimeType: verification.mimeType || 'application/octet-stream',
+      data: await fileStore.get(verification.fileKey),
+    };
+  }
+
+  async review(companyId: string, id: string, input: IdentityReviewInput, reviewedBy: string): Promise<IdentityVerificationSummary> {
+    const verification = await this.find(companyId, id);
+    if (verification.status !== 'submitted') {
+      throw new IdentityVerificationError("Only an uploaded ID can be reviewed", 409);
+    }
+
+    const approved = input.decision === 'approve';
+    const updated = await storage.updateIdentityVerification(verification.id, {
+      status: approved ? 'approved' : 'rejected',
+      reviewNote: input.note || null,
+      reviewedBy,
+      reviewedAt: new Date(),
+    });
+    await storage.updateFounder(verification.founderId, { idUploaded: approved });
+
+    if (RETENTION_DAYS <= 0) {
+      return summarize(await this.purge(updated));
+    }
+    return summarize(updated);
+  }
+
+  // Job handler: delete ID files once they have been kept long enough after review
+  async purgeReviewedFiles(): Promise<string> {
+    const cutoff = new Date(Date.now() - Math.max(RETENTION_DAYS, 0) * DAY_MS);
+    const due = await storage.getIdentityFilesReviewedBefore(cutoff);
+    for (const verification of due) {
+      await this.purge(verification);
+    }
+    return `Deleted ${due.length} reviewed ID file(s)`;
+  }
+
+  // Scan, encrypt and store the founder's ID, then run it past the verification provider
+  private async store(verification: IdentityVerification, founder: Founder, input: IdentityUploadInput): Promise<IdentityVerification> {
+    const upload = scanDataUrl(input.dataUrl);
+    const fileKey = `identity/${verification.id}`;
+    await fileStore.put(fileKey, upload.data);
+
+    const providerResult = await identityProvider.verify(founder, {
+      kind: input.documentKind,
+      mimeType: upload.mimeType,
+      data: upload.data,
+    });
+
+    return await storage.updateIdentityVerification(verification.id, {
+      status: 'submitted',
+      documentKind: input.documentKind,
+      fileKey,
+      fileName: input.fileName,
+      mimeType: upload.mimeType,
+      sizeBytes: upload.sizeBytes,
+      sha256: upload.sha256,
+      providerResult,
+      submittedAt: new Date(),
+    });
+  }
+
+  private async purge(verification: IdentityVerification): Promise<IdentityVerification> {
+    if (verification.fileKey) {
+      await fileStore.delete(verification.fileKey);
+    }
+    return await storage.updateIdentityVerification(verification.id, { fileKey: null, fileDeletedAt: new Date() });
+  }
+
+  private async resolve(token: string): Promise<IdentityVerification> {
+    const verification = await storage.getIdentityVerificationByTokenHash(signingTokens.hash(token));
+    if (!verification) {
+      throw new IdentityVerificationError("This upload link is not valid. It may have been replaced by a newer one.", 404);
+    }
+    return verification;
+  }
+
+  private async find(companyId: string, id: string): Promise<IdentityVerification> {
+    const verification = await storage.getIdentityVerificationById(id);
+    if (!verification || verification.companyId !== companyId) {
+      throw new IdentityVerificationError("Identity verification not found", 404);
+    }
+    return verification;
+  }
+
+  private async founder(verification: IdentityVerification): Promise<Founder> {
+    const founders = await storage.getFoundersByCompanyId(verification.companyId);
+    const founder = founders.find(f => f.id === verification.founderId);
+    if (!founder) {
+      throw new IdentityVerificationError("Founder not found", 404);
+    }
+    return founder;
+  }
+}
+
+export const identityVerification = new IdentityVerificationService();
@@ -0,0 +1,187 @@
+import { storage } from "../storage";
+import { reminderService } from "./reminders";
+import { identityVerification } from "./identityVerification";
+import { section83b } from "./section83b";
+import type { InsertJob, Job, JobSchedulerStatus } from "@shared/schema";
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '60000', 10);
+// A running job whose lock is older than this belonged to a process that died
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// A handler returns a short summary of what it did, kept on the job row
+export type JobHandler = (job: Job) => Promise<string>;
+
+interface Schedule {
+  name: string;
+  intervalMs: number;
+  offsetMs: number;
+}
+
+export class JobScheduler {
+  private handlers = new Map<string, JobHandler>();
+  private schedules: Schedule[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  register(name: string, handler: JobHandler): void {
+    if (this.handlers.has(name)) {
+      throw new Error(`Job ${name} is already registered`);
+    }
+    this.handlers.set(name, handler);
+  }
+
+  // Run a registered job once per interval; slots are aligned to the Unix epoch plus offsetMs
+  every(name: string, intervalMs: number, offsetMs = 0): void {
+    if (!this.handlers.has(name)) {
+      throw new Error(`Job ${name} must be registered before it is scheduled`);
+    }
+    this.schedules.push({ name, intervalMs, offsetMs });
+  }
+
+  async enqueue(
+    name: string,
+    payload: Record<string, unknown> = {},
+    options: Pick<InsertJob, 'runAt' | 'uniqueKey' | 'maxAttempts'> = {}
+  ): Promise<Job | undefined> {
+    return await storage.enqueueJob({ name, payload, ...options });
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    void this.tick();
+    console.log(`Job scheduler started with ${this.schedules.length} schedule(s)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // One polling pass: recover stale locks, enqueue due slots, then drain the queue
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const released = await storage.releaseStaleJobs(new Date(Date.now() - STALE_LOCK_MS));
+      if (released > 0) {
+        console.warn(`Released ${released} stale job(s)`);
+      }
+
+      for (const schedule of this.schedules) {
+        const slot = this.currentSlot(schedule).toISOString();
+        await this.enqueue(schedule.name, { slot }, { runAt: new Date(slot), uniqueKey: `${schedule.name}@${slot}` });
+      }
+
+      let job: Job | undefined;
+      while ((job = await storage.claimNextJob())) {
+        await this.execute(job);
+      }
+    } catch (error) {
+      console.error("Job scheduler tick failed:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Put a failed job back in the queue with a fresh set of attempts
+  async retry(id: string): Promise<Job> {
+    return await storage.updateJob(id, { status: 'pending', attempts: 0, runAt: new Date(), lockedAt: null });
+  }
+
+  async status(): Promise<JobSchedulerStatus> {
+    const [counts, recent, failed] = await Promise.all([
+      storage.getJobCounts(),
+      storage.getRecentJobs(25),
+      storage.getRecentJobs(25, 'failed'),
+    ]);
+
+    return {
+      running: this.timer !== null,
+      schedules: this.schedules.map(schedule => ({
+        name: schedule.name,
+        intervalMs: schedule.intervalMs,
+        nextRunAt: new Date(this.currentSlot(schedule).getTime() + schedule.intervalMs).toISOString(),
+      })),
+      counts,
+      recent,
+      failed,
+    };
+  }
+
+  private currentSlot({ intervalMs, offsetMs }: Schedule): Date {
+    return new Date(Math.floor((Date.now() - offsetMs) / intervalMs) * intervalMs + offsetMs);
+  }
+
+  // Retries back off exponentially: 2, 4, 8... minutes after each failed attempt
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.name);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job ${job.name}`);
+      }
+      const result = await handler(job);
+      console.log(`Job ${job.name} (${job.id}) completed: ${result}`);
+      await storage.updateJob(job.id, {
+        status: 'completed',
+        result,
+        lastError: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+    } catch (error: any) {
+      const exhausted = !handler || job.attempts >= job.maxAttempts;
+      console.error(`Job ${job.name} (${job.id}) failed on attempt ${job.attempts}:`, error);
+      await storage.updateJob(job.id, {
+        status: exhausted ? 'failed' : 'pending',
+        lastError: error?.message || String(error),
+        lockedAt: null,
+        runAt: exhausted ? job.runAt : new Date(Date.now() + Math.pow(2, job.attempts) * 60 * 1000),
+      });
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
+
+// ============================================================================
+// Built-in jobs
+// ============================================================================
+
+// The epoch fell on a Thursday, so Monday is four days into each week
+const NINE_AM_UTC = 9 * HOUR_MS;
+const MONDAY_NINE_AM_UTC = 4 * DAY_MS + NINE_AM_UTC;
+
+jobScheduler.register('signature_reminders', () => reminderService.remindSigners());
+jobScheduler.every('signature_reminders', DAY_MS, NINE_AM_UTC);
+
+jobScheduler.register('expiring_link_warnings', () => reminderService.warnExpiringLinks());
+jobScheduler.every('expiring_link_warnings', DAY_MS, NINE_AM_UTC);
+
+// Fans out to one job per company so a failing mailbox only retries its own digest
+jobScheduler.register('weekly_digest', async (job) => {
+  const companies = await storage.getAllCompanies();
+  for (const company of companies) {
+    await jobScheduler.enqueue('company_digest', { companyId: company.id }, {
+      uniqueKey: `company_digest:${company.id}@${job.payload?.slot || job.id}`,
+    });
+  }
+  return `Queued digests for ${companies.length} compan${companies.length === 1 ? 'y' : 'ies'}`;
+});
+jobScheduler.every('weekly_digest', WEEK_MS, MONDAY_NINE_AM_UTC);
+
+jobScheduler.register('company_digest', (job) => reminderService.sendWeeklyDigest(String(job.payload?.companyId)));
+
+jobScheduler.register('prepare_83b_election', (job) => section83b.prepare(String(job.payload?.equityEventId)));
+
+jobScheduler.register('election_83b_reminders', () => reminderService.remind83bElections());
+jobScheduler.every('election_83b_reminders', DAY_MS, NINE_AM_UTC);
+
+jobScheduler.register('identity_file_retention', () => identityVerification.purgeReviewedFiles());
+jobScheduler.every('identity_file_retention', DAY_MS);
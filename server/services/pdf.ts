@@ -0,0 +1,273 @@
+import PDFDocument from "pdfkit";
+import { ZipArchive } from "archiver";
+import { storage } from "../storage";
+import { splitClauses } from "@shared/clauses";
+import type { Company, Document, DocumentCertificate, DocumentSignature } from "@shared/schema";
+
+export interface SignerDetails {
+  name: string;
+  email: string;
+  role: string;
+  signature: DocumentSignature;
+}
+
+type PdfDoc = InstanceType<typeof PDFDocument>;
+
+const MARGIN = 72;
+const ACCENT = '#1e3a5f';
+const MUTED = '#555555';
+const BODY_FONT = 'Times-Roman';
+const BODY_BOLD = 'Times-Bold';
+
+function formatTimestamp(date: Date | string | null | undefined): string {
+  if (!date) return 'Not recorded';
+  return `${new Date(date).toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+}
+
+// Drop the markdown emphasis AI drafts sometimes include
+function plainText(text: string): string {
+  return text.replace(/\*\*|__/g, '').replace(/^#+\s*/gm, '');
+}
+
+function isHeading(paragraph: string): boolean {
+  if (/^#+\s/.test(paragraph)) return true;
+  const line = paragraph.trim();
+  return !line.includes('\n') && line.length <= 80 && /[A-Z]/.test(line) && line === line.toUpperCase();
+}
+
+// Stable, filesystem-safe name for a document's PDF
+export function documentFileName(document: Document): string {
+  const slug = document.title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+  return `${slug || document.type}-${document.id.slice(0, 8)}.pdf`;
+}
+
+export class PdfService {
+  async render(document: Document, company?: Company): Promise<Buffer> {
+    const owner = company || await storage.getCompanyById(document.companyId);
+    if (!owner) {
+      throw new Error("Company not found");
+    }
+    const [signers, certificate] = await Promise.all([
+      this.signersFor(document),
+      storage.getCertificateByDocumentId(document.id),
+    ]);
+    return await this.build(document, owner, signers, certificate);
+  }
+
+  // Zip every active document into a single data room archive; null when there is nothing to export
+  async dataRoom(company: Company): Promise<ZipArchive | null> {
+    const documents = (await storage.getDocumentsByCompanyId(company.id))
+      .filter(d => d.status === 'active');
+    if (documents.length === 0) return null;
+
+    const archive = new ZipArchive({ zlib: { level: 9 } });
+    for (const document of documents) {
+      const pdf = await this.render(document, company);
+      archive.append(pdf, { name: `${document.type}/${documentFileName(document)}`, date: document.activatedAt || undefined });
+    }
+
+    archive.finalize().catch(error => console.error('Data room export failed:', error));
+    return archive;
+  }
+
+  async signersFor(document: Document): Promise<SignerDetails[]> {
+    const [signatures, founders, investors] = await Promise.all([
+      storage.getSignaturesByDocumentId(document.id),
+      storage.getFoundersByCompanyId(document.companyId),
+      storage.getInvestorsByCompanyId(document.companyId),
+    ]);
+
+    return signatures.map(signature => {
+      if (signature.signerType === 'founder') {
+        const founder = founders.find(f => f.id === signature.signerId);
+        const name = founder ? `${founder.firstName || ''} ${founder.lastName || ''}`.trim() : '';
+        return { name: name || signature.signerEmail, email: signature.signerEmail, role: founder?.role || 'Founder', signature };
+      }
+      const investor = investors.find(i => i.id === signature.signerId);
+      return { name: investor?.name || signature.signerEmail, email: signature.signerEmail, role: 'Investor', signature };
+    });
+  }
+
+  private build(document: Document, company: Company, signers: SignerDetails[], certificate?: DocumentCertificate): Promise<Buffer> {
+    const pdf = new PDFDocument({
+      size: company.jurisdiction === 'france' ? 'A4' : 'LETTER',
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: document.title, Author: company.name, Subject: document.type },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+    });
+
+    this.letterhead(pdf, company);
+    pdf.font(BODY_BOLD).fontSize(15).fillColor('black').text(document.title, { align: 'center' });
+    pdf.moveDown(1.5);
+    this.body(pdf, document.content || '');
+    this.signatureBlock(pdf, signers);
+
+    if (document.status === 'active') {
+      this.certificate(pdf, document, signers, certificate);
+    }
+
+    this.pageFooters(pdf, company);
+    pdf.end();
+    return done;
+  }
+
+  private letterhead(pdf: PdfDoc, company: Company) {
+    const entity = company.jurisdiction === 'delaware'
+      ? 'A Delaware corporation'
+      : 'Société par actions simplifiée de droit français';
+
+    pdf.font('Helvetica-Bold').fontSize(18).fillColor(ACCENT).text(company.name);
+    pdf.font('Helvetica').fontSize(9).fillColor(MUTED).text(entity);
+    const y = pdf.y + 8;
+    pdf.moveTo(MARGIN, y).lineTo(pdf.page.width - MARGIN, y).lineWidth(1).strokeColor(ACCENT).stroke();
+    pdf.y = y + 24;
+  }
+
+  private body(pdf: PdfDoc, content: string) {
+    const clauses = splitClauses(content);
+    pdf.fontSize(11).fillColor('black');
+
+    // Content already split into numbered clauses keeps its own numbering
+    if (clauses.length > 1) {
+      for (const clause of clauses) {
+        const text = plainText(clause.text);
+        if (clause.id !== 'clause-0' && text.startsWith(clause.title)) {
+          pdf.font(BODY_BOLD).text(clause.title, { continued: true });
+          pdf.font(BODY_FONT).text(text.slice(clause.title.length), { align: 'justify', paragraphGap: 8 });
+        } else {
+          this.paragraphs(pdf, text, false);
+        }
+        pdf.moveDown(0.5);
+      }
+      return;
+    }
+
+    this.paragraphs(pdf, content, true);
+  }
+
+  private paragraphs(pdf: PdfDoc, text: string, numbered: boolean) {
+    let clauseNumber = 0;
+    for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+      if (isHeading(paragraph)) {
+        pdf.moveDown(0.5).font(BODY_BOLD).text(plainText(paragraph), { paragraphGap: 6 });
+        continue;
+      }
+
+      const body = plainText(paragraph);
+      if (numbered && !/^_{3,}/.test(body)) {
+        clauseNumber += 1;
+        pdf.font(BODY_BOLD).text(`${clauseNumber}. `, { continued: true });
+      }
+      pdf.font(BODY_FONT).text(body, { align: 'justify', paragraphGap: 8 });
+    }
+  }
+
+  private signatureBlock(pdf: PdfDoc, signers: SignerDetails[]) {
+    if (signers.length === 0) return;
+
+    this.ensureSpace(pdf, 120);
+    pdf.moveDown(1.5).font(BODY_BOLD).fontSize(12).fillColor('black').text('SIGNATURES');
+    pdf.moveDown(0.5);
+
+    for (const signer of signers) {
+      this.ensureSpace(pdf, 90);
+      const signed = signer.signature.status === 'signed';
+
+      pdf.moveDown(1.5);
+      const lineY = pdf.y;
+      pdf.moveTo(MARGIN, lineY).lineTo(MARGIN + 240, lineY).lineWidth(0.5).strokeColor('black').stroke();
+      if (signed) {
+        this.signatureMark(pdf, signer, lineY);
+      }
+
+      pdf.y = lineY + 4;
+      pdf.font(BODY_BOLD).fontSize(11).fillColor('black').text(signer.name, MARGIN);
+      pdf.font(BODY_FONT).fontSize(10).fillColor(MUTED).text(`${signer.role} · ${signer.email}`);
+      pdf.text(signed ? `Date: ${formatTimestamp(signer.signature.signedAt)}` : 'Date: ____________________');
+    }
+  }
+
+  // Draw the captured signature just above the signature line
+  private signatureMark(pdf: PdfDoc, signer: SignerDetails, lineY: number) {
+    const { signatureMethod, signatureData } = signer.signature;
+
+    if (signatureMethod === 'drawn' && signatureData?.startsWith('data:image/png;base64,')) {
+      try {
+        const image = Buffer.from(signatureData.slice('data:image/png;base64,'.length), 'base64');
+        pdf.image(image, MARGIN, lineY - 44, { fit: [200, 40] });
+        return;
+      } catch {
+        // Fall through to the text mark if the stored image is unreadable
+      }
+    }
+
+    const mark = signatureMethod === 'typed' && signatureData ? signatureData : `Signed electronically by ${signer.name}`;
+    pdf.font('Times-Italic').fontSize(signatureMethod === 'typed' ? 16 : 9).fillColor(ACCENT)
+      .text(mark, MARGIN, lineY - (signatureMethod === 'typed' ? 20 : 12), { lineBreak: false });
+  }
+
+  // Final page listing who signed, when, and from where
+  private certificate(pdf: PdfDoc, document: Document, signers: SignerDetails[], certificate?: DocumentCertificate) {
+    pdf.addPage();
+    pdf.font('Helvetica-Bold').fontSize(16).fillColor(ACCENT).text('Signature Certificate');
+    pdf.moveDown(0.5);
+    pdf.font('Helvetica').fontSize(10).fillColor('black');
+    pdf.text(`Document: ${document.title}`);
+    pdf.text(`Document ID: ${document.id}`);
+    pdf.text(`Completed: ${formatTimestamp(document.activatedAt)}`);
+    if (certificate) {
+      pdf.text(`Certificate ID: ${certificate.id}`);
+      pdf.font('Courier').fontSize(8).text(`Content SHA-256: ${certificate.contentHash}`);
+    }
+    pdf.moveDown(1);
+
+    for (const signer of signers) {
+      this.ensureSpace(pdf, 80);
+      pdf.font('Helvetica-Bold').fontSize(11).fillColor('black').text(signer.name);
+      pdf.font('Helvetica').fontSize(9).fillColor(MUTED);
+      pdf.text(`Email: ${signer.email}`);
+      pdf.text(`Role: ${signer.role}`);
+      pdf.text(`Signed at: ${formatTimestamp(signer.signature.signedAt)}`);
+      pdf.text(`IP address: ${signer.signature.ipAddress || 'Not recorded'}`);
+      pdf.moveDown(0.8);
+    }
+  }
+
+  private pageFooters(pdf: PdfDoc, company: Company) {
+    const range = pdf.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      pdf.switchToPage(i);
+      // Writing inside the bottom margin would otherwise push text onto a new page
+      const bottom = pdf.page.margins.bottom;
+      pdf.page.margins.bottom = 0;
+
+      const width = pdf.page.width - MARGIN * 2;
+      const y = pdf.page.height - MARGIN / 2;
+      pdf.font('Helvetica').fontSize(8).fillColor(MUTED);
+      pdf.text(company.name, MARGIN, y, { width, align: 'left', lineBreak: false });
+      pdf.text(`Page ${i - range.start + 1} of ${range.count}`, MARGIN, y, { width, align: 'right', lineBreak: false });
+
+      pdf.page.margins.bottom = bottom;
+    }
+  }
+
+  private ensureSpace(pdf: PdfDoc, height: number) {
+    if (pdf.y + height > pdf.page.height - MARGIN) {
+      pdf.addPage();
+    }
+  }
+}
+
+export const pdfService = new PdfService();
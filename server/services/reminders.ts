@@ -0,0 +1,193 @@
+import { storage } from "../storage";
+import { emailService, type ExpiringLink, type WeeklyDigest } from "./email";
+import { pdfService } from "./pdf";
+import { signingTokens } from "./signingTokens";
+import { signatureAudit } from "./signatureAudit";
+import { daysBetween } from "./section83b";
+import { founderName } from "./templates";
+import { today } from "./vesting";
+import type { Company, DocumentSignature } from "@shared/schema";
+
+// Days a signer can sit on a request before being nudged, and again between nudges
+const REMINDER_AFTER_DAYS = parseInt(process.env.SIGNATURE_REMINDER_DAYS || '3', 10);
+// How far ahead of expiry the sender is warned about an unsigned link
+const EXPIRY_WARNING_DAYS = parseInt(process.env.SIGNATURE_EXPIRY_WARNING_DAYS || '2', 10);
+
+// Days before an 83(b) deadline on which the founder and owner hear about it again
+const ELECTION_83B_REMINDER_DAYS = [21, 14, 7, 3, 1, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Links in emails sent outside a request have no Host header to copy
+export function appBaseUrl(): string {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/$/, '');
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  if (domain) return `https://${domain}`;
+  return `http://localhost:${process.env.PORT || '5000'}`;
+}
+
+export class ReminderService {
+  // Re-send the link to signers who have not acted since the last email
+  async remindSigners(): Promise<string> {
+    const now = Date.now();
+    const byDocument = this.groupByDocument(await storage.getOpenSignatures());
+    let reminded = 0;
+
+    for (const [documentId, signatures] of Array.from(byDocument)) {
+      const document = await storage.getDocumentById(documentId);
+      if (!document || document.status !== 'signing') continue;
+
+      const events = await storage.getSignatureEventsByDocumentId(documentId);
+      const signers = await pdfService.signersFor(document);
+
+      for (const signature of signatures) {
+        // Packet signers share one link per packet; a per-document reminder would hand out a second one
+        if (signature.packetId) continue;
+        // Founders in an in-person session sign with a one-time code; they get email only once the session ends
+        if (signature.hostSessionId) continue;
+        if (signature.tokenExpiresAt && signature.tokenExpiresAt.getTime() < now) continue;
+
+        const lastContact = events
+          .filter(e => e.signatureId === signature.id && (e.type === 'sent' || e.type === 'reminded'))
+          .reduce((latest, e) => Math.max(latest, e.createdAt ? new Date(e.createdAt).getTime() : 0), 0)
+          || (signature.createdAt ? new Date(signature.createdAt).getTime() : now);
+        if (now - lastContact < REMINDER_AFTER_DAYS * DAY_MS) continue;
+
+        // Only the token hash is stored, so a reminder carries a new link with the same deadline
+        const { signature: updated, token } = await signingTokens.reissue(signature, { keepExpiry: true });
+        const name = signers.find(s => s.signature.id === signature.id)?.name || updated.signerEmail;
+        await emailService.sendSignatureReminder(
+          updated.signerEmail,
+          name,
+          document.title,
+          token.token,
+          appBaseUrl(),
+          token.tokenExpiresAt
+        );
+        await signatureAudit.record(updated, 'reminded', {}, `Reminder sent to ${updated.signerEmail}`);
+        reminded++;
+      }
+    }
+
+    return `Reminded ${reminded} signer(s)`;
+  }
+
+  // Warn each company owner once about links expiring in the next day or so
+  async warnExpiringLinks(): Promise<string> {
+    const windowEnd = Date.now() + EXPIRY_WARNING_DAYS * DAY_MS;
+    const windowStart = windowEnd - DAY_MS; // the job runs daily, so each link lands in exactly one window
+    const expiring = (await storage.getOpenSignatures()).filter(s => {
+      const expiresAt = s.tokenExpiresAt?.getTime();
+      return expiresAt !== undefined && expiresAt > windowStart && expiresAt <= windowEnd;
+    });
+
+    const byCompany = new Map<string, ExpiringLink[]>();
+    for (const [documentId, signatures] of Array.from(this.groupByDocument(expiring))) {
+      const document = await storage.getDocumentById(documentId);
+      if (!document || document.status !== 'signing') continue;
+
+      const links = byCompany.get(document.companyId) || [];
+      for (const signature of signatures) {
+        links.push({ documentTitle: document.title, signerEmail: signature.signerEmail, expiresAt: signature.tokenExpiresAt! });
+      }
+      byCompany.set(document.companyId, links);
+    }
+
+    let warned = 0;
+    for (const [companyId, links] of Array.from(byCompany)) {
+      const company = await storage.getCompanyById(companyId);
+      const ownerEmail = company && await this.ownerEmail(company);
+      if (!company || !ownerEmail) continue;
+
+      await emailService.sendExpiringLinksWarning(ownerEmail, company.name, links, appBaseUrl());
+      warned++;
+    }
+
+    return `Warned ${warned} compan${warned === 1 ? 'y' : 'ies'} about ${expiring.length} expiring link(s)`;
+  }
+
+  // Email the owner a summary of open signatures, unfinished documents and tasks
+  async sendWeeklyDigest(companyId: string): Promise<string> {
+    const company = await storage.getCompanyById(companyId);
+    if (!company) return `Company ${companyId} no longer exists`;
+
+    const ownerEmail = await this.ownerEmail(company);
+    if (!ownerEmail) return `No owner email for ${company.name}`;
+
+    const [documents, tasks] = await Promise.all([
+      storage.getDocumentsByCompanyId(companyId),
+      storage.getTasksByCompanyId(companyId),
+    ]);
+
+    const digest: WeeklyDigest = { awaitingSignature: [], inProgress: [], pendingTasks: [] };
+    for (const document of documents) {
+      if (document.status === 'drafting' || document.status === 'validating') {
+        digest.inProgress.push({ documentTitle: document.title, status: document.status });
+      }
+      if (document.status !== 'signing') continue;
+
+      const signatures = await storage.getSignaturesByDocumentId(document.id);
+      for (const signature of signatures.filter(s => s.status === 'sent')) {
+        digest.awaitingSignature.push({
+          documentTitle: document.title,
+          signerEmail: signature.signerEmail,
+          sentAt: signature.createdAt,
+        });
+      }
+    }
+    for (const task of tasks.filter(t => t.status !== 'completed')) {
+      digest.pendingTasks.push({ description: task.description, dueDate: task.dueDate });
+    }
+
+    const total = digest.awaitingSignature.length + digest.inProgress.length + digest.pendingTasks.length;
+    if (total === 0) return `Nothing pending for ${company.name}`;
+
+    await emailService.sendWeeklyDigest(ownerEmail, company.name, digest, appBaseUrl());
+    return `Sent digest with ${total} item(s) to ${ownerEmail}`;
+  }
+
+  // Count down to each unmailed 83(b) deadline; the IRS does not accept late elections
+  async remind83bElections(): Promise<string> {
+    const elections = await storage.getPendingElections83b();
+    let reminded = 0;
+
+    for (const election of elections) {
+      const daysLeft = daysBetween(today(), election.deadline);
+      if (!ELECTION_83B_REMINDER_DAYS.includes(daysLeft)) continue;
+
+      const company = await storage.getCompanyById(election.companyId);
+      if (!company) continue;
+      const founder = (await storage.getFoundersByCompanyId(company.id)).find(f => f.id === election.founderId);
+      if (!founder) continue;
+
+      const ownerEmail = await this.ownerEmail(company);
+      const recipients = Array.from(new Set([founder.email, ...(ownerEmail ? [ownerEmail] : [])]));
+      await emailService.sendElection83bReminder(
+        recipients,
+        founderName(founder),
+        company.name,
+        new Date(`${election.deadline}T12:00:00Z`),
+        daysLeft,
+        appBaseUrl()
+      );
+      reminded++;
+    }
+
+    return `Reminded ${reminded} of ${elections.length} pending 83(b) election(s)`;
+  }
+
+  private groupByDocument(signatures: DocumentSignature[]): Map<string, DocumentSignature[]> {
+    const grouped = new Map<string, DocumentSignature[]>();
+    for (const signature of signatures) {
+      grouped.set(signature.documentId, [...(grouped.get(signature.documentId) || []), signature]);
+    }
+    return grouped;
+  }
+
+  private async ownerEmail(company: Company): Promise<string | null> {
+    const owner = await storage.getUser(company.userId);
+    return owner?.email || null;
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -0,0 +1,221 @@
+import { storage } from "../storage";
+import { documentVersions } from "./documentVersions";
+import { fileStore } from "./fileStore";
+import { formatIsoDate, founderName, templateService } from "./templates";
+import { scanDataUrl } from "./uploadScanner";
+import { addMonths, today } from "./vesting";
+import type {
+  Company,
+  Election83b,
+  Election83bMailedInput,
+  Election83bSummary,
+  EquityEvent,
+  VestingGrant,
+} from "@shared/schema";
+
+// Days after the transfer that the IRS will accept an election; there is no late filing
+export const ELECTION_83B_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class Section83bError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'Section83bError';
+  }
+}
+
+// Whole days from one YYYY-MM-DD date to another; negative once `to` has passed
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Founder stock is often bought at par, so prices keep every significant decimal
+function formatUsd(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 10 }).format(amount);
+}
+
+function summarize({ proofFileKey: _proofFileKey, ...election }: Election83b): Election83bSummary {
+  return election;
+}
+
+// The repurchase right that lapses as the shares vest is what makes the stock restricted
+function restrictions(grant: VestingGrant, company: Company): string {
+  const cliff = grant.cliffMonths > 0
+    ? ` with a ${grant.cliffMonths}-month cliff on ${formatIsoDate(addMonths(grant.startDate, grant.cliffMonths))}`
+    : '';
+  return `The shares are subject to a right of ${company.name} to repurchase unvested shares at their original purchase price if the taxpayer stops providing services. The repurchase right lapses as the shares vest over ${grant.durationMonths} months from ${formatIsoDate(grant.startDate)}${cliff}, in ${grant.cadence} installments.`;
+}
+
+export class Section83bService {
+  // Job handler: draft the election and a dated task for a founder's restricted stock issuance
+  async prepare(equityEventId: string): Promise<string> {
+    const event = await storage.getEquityEventById(equityEventId);
+    if (!event) return `Equity event ${equityEventId} no longer exists`;
+    if (event.type !== 'issuance' || event.holderType !== 'founder' || !event.holderId) {
+      return `Equity event ${event.id} is not an issuance to a founder`;
+    }
+    if (await storage.getElection83bByEquityEventId(event.id)) {
+      return `83(b) election for equity event ${event.id} already prepared`;
+    }
+
+    const company = await storage.getCompanyById(event.companyId);
+    if (!company || company.jurisdiction !== 'delaware') {
+      return `No 83(b) election outside the US`;
+    }
+
+    const [shareClass, founders, grant] = await Promise.all([
+      storage.getShareClassById(event.shareClassId),
+      storage.getFoundersByCompanyId(company.id),
+      storage.getVestingGrantByFounderId(event.holderId),
+    ]);
+    const founder = founders.find(f => f.id === event.holderId);
+    if (!founder || !shareClass) return `Founder or share class for equity event ${event.id} no longer exists`;
+    // Options are not property until exercised, and fully vested stock has nothing to elect on
+    if (shareClass.kind === 'options') return `Options for ${founderName(founder)} need no 83(b) election`;
+    if (!grant) return `${founderName(founder)}'s shares are not subject to vesting`;
+
+    // A back-dated issuance can arrive after its window closed; drafting an election then would only mislead
+    const deadline = addDays(event.effectiveDate, ELECTION_83B_WINDOW_DAYS);
+    if (deadline < today()) {
+      const task = await storage.createTask({
+        companyId: company.id,
+        description: `83(b) window missed: ${founderName(founder)}'s shares were issued ${formatIsoDate(event.effectiveDate)} and the 30-day window closed ${formatIsoDate(deadline)}. The IRS does not accept late elections. If it was mailed in time, record the mailing; otherwise talk to a tax advisor about tax on the shares as they vest`,
+        category: 'Tax',
+        assigneeId: founder.id,
+        status: 'pending',
+      });
+      await storage.createElection83b({
+        companyId: company.id,
+        founderId: founder.id,
+        equityEventId: event.id,
+        taskId: task.id,
+        shares: event.shares,
+        transferDate: event.effectiveDate,
+        deadline,
+        status: 'missed',
+      });
+      return `83(b) window for ${founderName(founder)} closed ${deadline}; flagged as missed`;
+    }
+
+    const draft = await templateService.draft(company, 'election_83b', {
+      values: this.values(event, grant, company, founderName(founder), shareClass.name),
+      allowMissing: true, // Address and SSN are never stored; they stay as blanks for the founder to fill in
+    });
+    const document = await storage.createDocument({
+      companyId: company.id,
+      type: 'election_83b',
+      title: `83(b) Election - ${founderName(founder)}`,
+      content: draft.content,
+      status: 'drafting',
+      templateId: draft.template.id,
+      templateVersion: draft.template.version,
+    });
+    await documentVersions.record(document, 'ai_draft', null);
+
+    const task = await storage.createTask({
+      companyId: company.id,
+      description: `Sign and mail ${founderName(founder)}'s 83(b) election to the IRS by ${formatIsoDate(deadline)}`,
+      category: 'Tax',
+      assigneeId: founder.id,
+      documentId: document.id,
+      status: 'pending',
+      dueDate: new Date(`${deadline}T12:00:00Z`), // Midday so the date reads the same in every US time zone
+    });
+
+    await storage.createElection83b({
+      companyId: company.id,
+      founderId: founder.id,
+      equityEventId: event.id,
+      documentId: document.id,
+      taskId: task.id,
+      shares: event.shares,
+      transferDate: event.effectiveDate,
+      deadline,
+      status: 'pending',
+    });
+
+    return `Prepared 83(b) election for ${founderName(founder)}, due ${deadline}`;
+  }
+
+  async list(companyId: string): Promise<Election83bSummary[]> {
+    return (await storage.getElections83bByCompanyId(companyId)).map(summarize);
+  }
+
+  async markMailed(companyId: string, id: string, input: Election83bMailedInput): Promise<Election83bSummary> {
+    const election = await this.find(companyId, id);
+    if (input.mailedOn > today()) {
+      throw new Section83bError("Mailing date cannot be in the future");
+    }
+    if (input.mailedOn < election.transferDate) {
+      throw new Section83bError("An 83(b) election cannot be mailed before the shares are issued");
+    }
+    // Only a mailing made before the window closed can clear a missed election
+    if (election.status === 'missed' && input.mailedOn > election.deadline) {
+      throw new Section83bError(`The 83(b) window closed on ${formatIsoDate(election.deadline)}; a later mailing is not a valid election`);
+    }
+
+    // The receipt goes through the same scan and encrypted store as founder IDs
+    const upload = scanDataUrl(input.proof.dataUrl);
+    const proofFileKey = `83b-proof/${election.id}`;
+    await fileStore.put(proofFileKey, upload.data);
+
+    const updated = await storage.updateElection83b(election.id, {
+      status: 'mailed',
+      mailedOn: input.mailedOn,
+      trackingNumber: input.trackingNumber || null,
+      proofFileName: input.proof.fileName,
+      proofFileKey,
+      proofMimeType: upload.mimeType,
+    });
+    if (election.taskId) {
+      await storage.updateTask(election.taskId, { status: 'completed' });
+    }
+    return summarize(updated);
+  }
+
+  async proof(companyId: string, id: string): Promise<{ fileName: string; mimeType: string; data: Buffer }> {
+    const election = await this.find(companyId, id);
+    if (!election.proofFileKey || !election.proofFileName) {
+      throw new Section83bError("No proof of mailing has been attached", 404);
+    }
+    return {
+      fileName: election.proofFileName,
+      mimeType: election.proofMimeType || 'application/octet-stream',
+      data: await fileStore.get(election.proofFileKey),
+    };
+  }
+
+  private async find(companyId: string, id: string): Promise<Election83b> {
+    const election = await storage.getElection83bById(id);
+    if (!election || election.companyId !== companyId) {
+      throw new Section83bError("83(b) election not found", 404);
+    }
+    return election;
+  }
+
+  private values(event: EquityEvent, grant: VestingGrant, company: Company, name: string, className: string): Record<string, string> {
+    const values: Record<string, string> = {
+      'taxpayer.name': name,
+      'election.property': `${event.shares.toLocaleString('en-US')} shares of ${className} of ${company.name}, a Delaware corporation`,
+      'election.transfer_date': formatIsoDate(event.effectiveDate),
+      'election.tax_year': event.effectiveDate.slice(0, 4),
+      'election.restrictions': restrictions(grant, company),
+    };
+
+    // Founders buy at fair market value, so the two are equal and nothing is taxed today
+    if (event.pricePerShare !== null) {
+      const price = Number(event.pricePerShare);
+      const total = `${formatUsd(price * event.shares)} (${formatUsd(price)} per share)`;
+      values['election.fair_market_value'] = total;
+      values['election.amount_paid'] = total;
+    }
+    return values;
+  }
+}
+
+export const section83b = new Section83bService();
@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { pdfService } from "./pdf";
+import type {
+  CertificateVerification,
+  Document,
+  DocumentCertificate,
+  DocumentSignature,
+  PublicCertificateVerification,
+  SignatureEvent,
+  SignatureEventType,
+} from "@shared/schema";
+
+// Where a signer action came from, captured from the incoming request
+export interface RequestContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// SHA-256 of the exact text a signer was shown
+export function hashContent(content: string | null): string {
+  return createHash('sha256').update(content || '', 'utf8').digest('hex');
+}
+
+export class SignatureAuditService {
+  async record(
+    signature: DocumentSignature,
+    type: SignatureEventType,
+    context: RequestContext = {},
+    details?: string
+  ): Promise<SignatureEvent> {
+    return await storage.createSignatureEvent({
+      signatureId: signature.id,
+      documentId: signature.documentId,
+      type,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+      details: details || null,
+    });
+  }
+
+  async events(documentId: string): Promise<SignatureEvent[]> {
+    return await storage.getSignatureEventsByDocumentId(documentId);
+  }
+
+  // Freeze the content hash and signer evidence once the last signature lands
+  async issueCertificate(document: Document): Promise<DocumentCertificate> {
+    const signers = await pdfService.signersFor(document);
+
+    return await storage.createCertificate({
+      documentId: document.id,
+      contentHash: hashContent(document.content),
+      signers: signers.map(({ name, email, role, signature }) => ({
+        name,
+        email,
+        role,
+        signedAt: signature.signedAt ? new Date(signature.signedAt).toISOString() : null,
+        ipAddress: signature.ipAddress,
+        contentHash: signature.contentHash,
+      })),
+    });
+  }
+
+  // Recompute the stored document's hash and compare it with what was certified
+  async verify(certificateId: string): Promise<CertificateVerification | null> {
+    const certificate = await storage.getCertificateById(certificateId);
+    if (!certificate) return null;
+
+    const document = await storage.getDocumentById(certificate.documentId);
+    const currentHash = document ? hashContent(document.content) : null;
+
+    return {
+      certificate,
+      documentTitle: document?.title || 'Deleted document',
+      currentHash,
+      intact: currentHash === certificate.contentHash,
+      signaturesMatch: certificate.signers.every(s => s.contentHash === certificate.contentHash),
+    };
+  }
+
+  // The unauthenticated view of a certificate check
+  async verifyPublic(certificateId: string): Promise<PublicCertificateVerification | null> {
+    const verification = await this.verify(certificateId);
+    if (!verification) return null;
+
+    const { certificate } = verification;
+    return {
+      documentTitle: verification.documentTitle,
+      contentHash: certificate.contentHash,
+      issuedAt: certificate.issuedAt,
+      intact: verification.intact,
+      signaturesMatch: verification.signaturesMatch,
+      signers: certificate.signers.map(({ name, signedAt }) => ({ name, signedAt })),
+    };
+  }
+}
+
+export const signatureAudit = new SignatureAuditService();
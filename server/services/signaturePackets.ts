@@ -0,0 +1,300 @@
+import { storage } from "../storage";
+import { documentLifecycle } from "./documentLifecycle";
+import { documentRework } from "./documentRework";
+import { emailService } from "./email";
+import { signerRouting } from "./signerRouting";
+import { signingTokens, SigningTokenError } from "./signingTokens";
+import { signatureAudit, type RequestContext } from "./signatureAudit";
+import type {
+  Company,
+  Document,
+  DocumentSignature,
+  PacketItemState,
+  PacketSigner,
+  PacketSigningItem,
+  PacketSigningRequest,
+  PlannedSigner,
+  SignaturePacket,
+  SignaturePacketSummary,
+  SignatureSubmission,
+} from "@shared/schema";
+
+export class SignaturePacketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignaturePacketError';
+  }
+}
+
+// The same person across every document in a packet
+function signerKey(signer: { signerType: string; signerId: string }): string {
+  return `${signer.signerType}:${signer.signerId}`;
+}
+
+function itemState(signature: DocumentSignature, document: Document): PacketItemState {
+  if (signature.status === 'signed') return 'signed';
+  if (signature.status === 'declined') return 'declined';
+  if (signature.voidedAt || document.status !== 'signing') return 'closed';
+  return signature.status === 'sent' ? 'ready' : 'waiting';
+}
+
+export class SignaturePacketService {
+  // Routed signers for each document, keyed by document id
+  async plan(documents: Document[]): Promise<Map<string, PlannedSigner[]>> {
+    const plans = new Map<string, PlannedSigner[]>();
+    for (const document of documents) {
+      plans.set(document.id, await signerRouting.plan(document));
+    }
+    return plans;
+  }
+
+  // Put every document out for signature under one packet and email each signer a single link
+  async send(
+    company: Company,
+    documents: Document[],
+    title: string,
+    plans: Map<string, PlannedSigner[]>,
+    baseUrl: string,
+    context: RequestContext
+  ): Promise<SignaturePacket> {
+    // Reject before anything is created if any document is not ready
+    for (const document of documents) {
+      documentLifecycle.assertTransition(document, 'signing');
+    }
+
+    const packet = await storage.createPacket({ companyId: company.id, title, status: 'signing' });
+
+    const people = new Map<string, PlannedSigner>();
+    for (const signers of Array.from(plans.values())) {
+      for (const signer of signers) {
+        if (!people.has(signerKey(signer))) people.set(signerKey(signer), signer);
+      }
+    }
+    for (const person of Array.from(people.values())) {
+      await storage.createPacketSigner({
+        packetId: packet.id,
+        signerId: person.signerId,
+        signerType: person.signerType,
+        signerEmail: person.email,
+        signerName: person.name,
+      });
+    }
+
+    const released: DocumentSignature[] = [];
+    for (const document of documents) {
+      released.push(...await signerRouting.start(document, plans.get(document.id) || [], baseUrl, context, { packetId: packet.id }));
+      await documentLifecycle.transition(document, 'signing');
+    }
+    await this.notify(packet, released, baseUrl, context);
+
+    return packet;
+  }
+
+  // Same rules as a single signing link: finished packets stay viewable, only open ones can be acted on
+  async resolve(token: string, options: { forAction?: boolean } = {}): Promise<{ packet: SignaturePacket; signer: PacketSigner }> {
+    const signer = await storage.getPacketSignerByTokenHash(signingTokens.hash(token));
+    const packet = signer && await storage.getPacketById(signer.packetId);
+    if (!signer || !packet) {
+      throw new SigningTokenError('not_found', "This signing link is not valid");
+    }
+
+    if (packet.status !== 'signing' && !options.forAction) {
+      return { packet, signer };
+    }
+    if (signer.revokedAt) {
+      throw new SigningTokenError('revoked', "This signing link was revoked by the sender");
+    }
+    if (packet.status !== 'signing') {
+      throw new SigningTokenError('used', `This signature packet was already ${packet.status}`);
+    }
+    if (signer.tokenExpiresAt && signer.tokenExpiresAt.getTime() < Date.now()) {
+      throw new SigningTokenError('expired', "This signing link has expired. Ask the sender to resend it.");
+    }
+
+    return { packet, signer };
+  }
+
+  async view(token: string, context: RequestContext): Promise<PacketSigningRequest> {
+    const { packet, signer } = await this.resolve(token);
+    const items = await this.items(packet, signer);
+
+    for (const item of items.filter(i => i.state === 'ready')) {
+      await signatureAudit.record(item.signature, 'viewed', context, `Viewed in ${packet.title}`);
+    }
+
+    return {
+      packet,
+      signer: { name: signer.signerName || signer.signerEmail, email: signer.signerEmail },
+      items,
+    };
+  }
+
+  async sign(
+    token: string,
+    signatureId: string,
+    submission: SignatureSubmission,
+    baseUrl: string,
+    context: RequestContext
+  ): Promise<DocumentSignature> {
+    const { packet, signer } = await this.resolve(token, { forAction: true });
+    const item = await this.readyItem(packet, signer, signatureId);
+
+    const { signature, released } = await signerRouting.sign(item.document, item.signature, submission, baseUrl, context);
+    await this.notify(packet, released, baseUrl, context, signer.id);
+    await this.completeIfDone(packet);
+
+    return signature;
+  }
+
+  // The pack is signed together or not at all: one decline sends every unfinished document back to drafting
+  async decline(
+    token: string,
+    signatureId: string,
+    reason: string,
+    baseUrl: string,
+    context: RequestContext
+  ): Promise<DocumentSignature> {
+    const { packet, signer } = await this.resolve(token, { forAction: true });
+    const item = await this.readyItem(packet, signer, signatureId);
+
+    const { signature } = await documentRework.decline(item.document, item.signature, reason, baseUrl, context);
+
+    for (const documentId of await this.documentIds(packet)) {
+      const document = await storage.getDocumentById(documentId);
+      if (document?.status === 'signing') {
+        await documentRework.recall(document, context, `Voided after ${signer.signerEmail} declined ${packet.title}`);
+      }
+    }
+    for (const packetSigner of await storage.getPacketSigners(packet.id)) {
+      await storage.updatePacketSigner(packetSigner.id, { revokedAt: new Date() });
+    }
+    await storage.updatePacket(packet.id, { status: 'declined' });
+
+    return signature;
+  }
+
+  async summaries(companyId: string): Promise<SignaturePacketSummary[]> {
+    const packets = await storage.getPacketsByCompanyId(companyId);
+
+    return await Promise.all(packets.map(async (packet) => {
+      const [signers, signatures] = await Promise.all([
+        storage.getPacketSigners(packet.id),
+        storage.getSignaturesByPacketId(packet.id),
+      ]);
+      const documents = await this.documents(Array.from(new Set(signatures.map(s => s.documentId))));
+
+      return {
+        packet,
+        documents: documents.map(d => ({ id: d.id, title: d.title, status: d.status || 'drafting' })),
+        signers: signers.map(signer => {
+          const own = signatures.filter(s => signerKey(s) === signerKey(signer));
+          return {
+            name: signer.signerName || signer.signerEmail,
+            email: signer.signerEmail,
+            signed: own.filter(s => s.status === 'signed').length,
+            total: own.length,
+          };
+        }),
+      };
+    }));
+  }
+
+  // This signer's signatures across the packet, in the order the documents were added
+  private async items(packet: SignaturePacket, signer: PacketSigner): Promise<PacketSigningItem[]> {
+    const signatures = (await storage.getSignaturesByPacketId(packet.id)).filter(s => signerKey(s) === signerKey(signer));
+    const documents = await this.documents(Array.from(new Set(signatures.map(s => s.documentId))));
+
+    return signatures.flatMap(signature => {
+      const document = documents.find(d => d.id === signature.documentId);
+      return document ? [{ signature, document, state: itemState(signature, document) }] : [];
+    });
+  }
+
+  private async readyItem(packet: SignaturePacket, signer: PacketSigner, signatureId: string): Promise<PacketSigningItem> {
+    const item = (await this.items(packet, signer)).find(i => i.signature.id === signatureId);
+    if (!item) {
+      throw new SignaturePacketError("This document is not part of your signature packet");
+    }
+    if (item.state === 'waiting') {
+      throw new SignaturePacketError("Earlier signers must sign this document before you can");
+    }
+    if (item.state !== 'ready') {
+      throw new SignaturePacketError(`This signature request is already ${item.state}`);
+    }
+    return item;
+  }
+
+  // Email each signer whose documents were just released; the signer acting now already has the packet open
+  private async notify(
+    packet: SignaturePacket,
+    released: DocumentSignature[],
+    baseUrl: string,
+    context: RequestContext,
+    actorId?: string
+  ): Promise<void> {
+    if (released.length === 0) return;
+
+    for (const signer of await storage.getPacketSigners(packet.id)) {
+      const due = released.filter(s => signerKey(s) === signerKey(signer));
+      if (due.length === 0) continue;
+
+      for (const signature of due) {
+        await signatureAudit.record(signature, 'sent', context, `Sent to ${signature.signerEmail} in ${packet.title}`);
+      }
+      if (signer.id === actorId) continue;
+
+      // Only the hash is stored, so every email carries a new link; later emails keep the first deadline
+      const token = signingTokens.issue();
+      const tokenExpiresAt = signer.tokenExpiresAt && signer.tokenExpiresAt.getTime() > Date.now()
+        ? signer.tokenExpiresAt
+        : token.tokenExpiresAt;
+      await storage.updatePacketSigner(signer.id, {
+        tokenHash: token.tokenHash,
+        tokenExpiresAt,
+        revokedAt: null,
+        notifiedAt: new Date(),
+      });
+
+      const documents = await this.documents(Array.from(new Set(due.map(s => s.documentId))));
+      await emailService.sendPacketRequest(
+        signer.signerEmail,
+        signer.signerName || signer.signerEmail,
+        packet.title,
+        documents.map(d => d.title),
+        token.token,
+        baseUrl,
+        tokenExpiresAt
+      );
+    }
+  }
+
+  // One completion notice for the whole packet once its last document is active
+  private async completeIfDone(packet: SignaturePacket): Promise<void> {
+    const documents = await this.documents(await this.documentIds(packet));
+    if (documents.some(d => d.status !== 'active')) return;
+
+    const completed = await storage.completePacket(packet.id);
+    if (!completed) return;
+
+    const company = await storage.getCompanyById(packet.companyId);
+    const owner = company && await storage.getUser(company.userId);
+    const recipients = new Set((await storage.getPacketSigners(packet.id)).map(s => s.signerEmail));
+    if (owner?.email) recipients.add(owner.email);
+
+    for (const email of Array.from(recipients)) {
+      await emailService.sendPacketCompleted(email, packet.title, documents.map(d => d.title));
+    }
+  }
+
+  private async documentIds(packet: SignaturePacket): Promise<string[]> {
+    const signatures = await storage.getSignaturesByPacketId(packet.id);
+    return Array.from(new Set(signatures.map(s => s.documentId)));
+  }
+
+  private async documents(ids: string[]): Promise<Document[]> {
+    const documents = await Promise.all(ids.map(id => storage.getDocumentById(id)));
+    return documents.filter((d): d is Document => !!d);
+  }
+}
+
+export const signaturePackets = new SignaturePacketService();
@@ -0,0 +1,231 @@
+import { storage } from "../storage";
+import { documentLifecycle, DocumentLifecycleError } from "./documentLifecycle";
+import { emailService } from "./email";
+import { pdfService } from "./pdf";
+import { signingTokens, SigningTokenError } from "./signingTokens";
+import { signatureAudit, hashContent, type RequestContext } from "./signatureAudit";
+import { findPresident, founderName } from "./templates";
+import type {
+  Document,
+  DocumentSignature,
+  DocumentType,
+  Founder,
+  Investor,
+  PlannedSigner,
+  SignatureSubmission,
+  SignerRole,
+} from "@shared/schema";
+
+// How released requests reach their signers when they don't get their own emailed link
+export interface DeliveryOptions {
+  packetId?: string | null;
+  hostSessionId?: string | null;
+  hostSignerIds?: string[]; // only these signers sign in the host session; everyone else is emailed
+}
+
+interface RoutingContext {
+  founders: Founder[]; // in the order they joined
+  president?: Founder;
+  investor?: Investor;
+  departing?: Founder; // the founder a repurchase notice or separation agreement is addressed to
+}
+
+type RoutingRule = (context: RoutingContext) => PlannedSigner[];
+
+function founderSigner(founder: Founder, role: SignerRole, signingOrder: number): PlannedSigner {
+  return {
+    email: founder.email,
+    name: founderName(founder),
+    signerId: founder.id,
+    signerType: 'founder',
+    role,
+    signingOrder,
+  };
+}
+
+function investorSigner(investor: Investor, signingOrder: number): PlannedSigner {
+  return {
+    email: investor.email,
+    name: investor.name,
+    signerId: investor.id,
+    signerType: 'investor',
+    role: 'investor',
+    signingOrder,
+  };
+}
+
+// The company signs through its president / CEO
+const officerSigns: RoutingRule = ({ president }) =>
+  president ? [founderSigner(president, 'officer', 1)] : [];
+
+// Directors act first, then an officer countersigns
+const boardThenOfficer: RoutingRule = ({ founders, president }) => [
+  ...founders.map(f => founderSigner(f, 'director', 1)),
+  ...(president ? [founderSigner(president, 'officer', 2)] : []),
+];
+
+const ROUTING: Record<DocumentType, RoutingRule> = {
+  pre_founder_agreement: ({ founders }) => founders.map(f => founderSigner(f, 'founder', 1)),
+  ip_assignment: ({ founders, president }) => [
+    ...founders.map(f => founderSigner(f, 'assignor', 1)),
+    ...(president ? [founderSigner(president, 'officer', 2)] : []),
+  ],
+  safe: ({ investor, president }) => [
+    ...(investor ? [investorSigner(investor, 1)] : []),
+    ...(president ? [founderSigner(president, 'officer', 2)] : []),
+  ],
+  certificate_incorporation: ({ president }) => president ? [founderSigner(president, 'incorporator', 1)] : [],
+  bylaws: boardThenOfficer,
+  board_consent: boardThenOfficer,
+  nda: officerSigns,
+  advisor_agreement: officerSigns,
+  contractor_agreement: officerSigns,
+  // Published policies are accepted by users, not signed
+  terms_conditions: () => [],
+  privacy_policy: () => [],
+  // Signed in ink by the founder and mailed to the IRS
+  election_83b: () => [],
+  // The company gives notice, and the founder acknowledges it
+  repurchase_notice: ({ departing, president }) => [
+    ...(president ? [founderSigner(president, 'officer', 1)] : []),
+    ...(departing ? [founderSigner(departing, 'founder', 2)] : []),
+  ],
+  separation_agreement: ({ departing, president }) => [
+    ...(departing ? [founderSigner(departing, 'founder', 1)] : []),
+    ...(president ? [founderSigner(president, 'officer', 2)] : []),
+  ],
+};
+
+export class SignerRoutingService {
+  // Build the signer list for a document from founder and investor records
+  async plan(document: Document): Promise<PlannedSigner[]> {
+    const [founders, investor, departure] = await Promise.all([
+      storage.getFoundersByCompanyId(document.companyId),
+      storage.getInvestorBySafeDocumentId(document.id),
+      storage.getFounderDepartureByDocumentId(document.id),
+    ]);
+
+    // Departed founders no longer sign for the company, and a departing one cannot sign on both sides
+    const departing = departure && founders.find(f => f.id === departure.founderId);
+    const signing = founders.filter(f => f.status !== 'departed' && f.id !== departing?.id);
+
+    return ROUTING[document.type]({
+      founders: [...signing].reverse(),
+      president: findPresident(signing),
+      investor,
+      departing,
+    });
+  }
+
+  // Create every signature request up front, then release the first group
+  async start(
+    document: Document,
+    signers: PlannedSigner[],
+    baseUrl: string,
+    context: RequestContext,
+    delivery: DeliveryOptions = {}
+  ): Promise<DocumentSignature[]> {
+    for (const signer of signers) {
+      const inPerson = !!delivery.hostSessionId && (delivery.hostSignerIds || []).includes(signer.signerId);
+      await storage.createSignature({
+        documentId: document.id,
+        signerId: signer.signerId,
+        signerType: signer.signerType,
+        signerEmail: signer.email,
+        role: signer.role,
+        signingOrder: signer.signingOrder,
+        status: 'pending',
+        packetId: delivery.packetId || null,
+        hostSessionId: inPerson ? delivery.hostSessionId : null,
+      });
+    }
+
+    return await this.advance(document, baseUrl, context);
+  }
+
+  // Release the next group once everyone before it has signed; returns the requests just released.
+  // Packet and in-person signatures are only marked sent here: the packet emails one link per
+  // signer, and in-person signers confirm a one-time code on the host's device instead.
+  async advance(document: Document, baseUrl: string, context: RequestContext = {}): Promise<DocumentSignature[]> {
+    const open = (await storage.getSignaturesByDocumentId(document.id)).filter(s => s.status !== 'signed');
+    if (open.length === 0 || open.some(s => s.status === 'declined')) return [];
+
+    const nextOrder = Math.min(...open.map(s => s.signingOrder));
+    const due = open.filter(s => s.signingOrder === nextOrder && s.status === 'pending');
+
+    const sent: DocumentSignature[] = [];
+    for (const signature of due) {
+      sent.push(signature.packetId || signature.hostSessionId
+        ? await storage.updateSignature(signature.id, { status: 'sent' })
+        : await this.send(document, signature, baseUrl, context));
+    }
+    return sent;
+  }
+
+  // Record a signature against the exact content shown, then activate the document
+  // if it was the last one or release the next signing group
+  async sign(
+    document: Document,
+    signature: DocumentSignature,
+    submission: SignatureSubmission,
+    baseUrl: string,
+    context: RequestContext = {},
+    details?: string
+  ): Promise<{ signature: DocumentSignature; released: DocumentSignature[] }> {
+    // Only documents out for signature can collect signatures
+    documentLifecycle.assertTransition(document, 'active');
+
+    const updated = await storage.updateSignatureIfSent(signature.id, {
+      status: 'signed',
+      signedAt: new Date(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      contentHash: hashContent(document.content),
+      signatureMethod: submission.method,
+      signatureData: submission.signature,
+    });
+    if (!updated) {
+      throw new SigningTokenError('used', "This signature request has already been completed or withdrawn");
+    }
+    await signatureAudit.record(updated, 'signed', context, details);
+
+    const signatures = await storage.getSignaturesByDocumentId(document.id);
+    if (signatures.every(s => s.status === 'signed')) {
+      try {
+        await documentLifecycle.transition(document, 'active');
+      } catch (error) {
+        // Another signer finished at the same moment and activated the document
+        if (!(error instanceof DocumentLifecycleError && error.code === 'conflict')) throw error;
+      }
+      return { signature: updated, released: [] };
+    }
+
+    return { signature: updated, released: await this.advance(document, baseUrl, context) };
+  }
+
+  // Issue a fresh link for one signer and email it; any earlier link stops working
+  async send(
+    document: Document,
+    signature: DocumentSignature,
+    baseUrl: string,
+    context: RequestContext = {},
+    details?: string
+  ): Promise<DocumentSignature> {
+    const signer = (await pdfService.signersFor(document)).find(s => s.signature.id === signature.id);
+    const { signature: updated, token } = await signingTokens.reissue(signature);
+
+    await emailService.sendSignatureRequest(
+      updated.signerEmail,
+      signer?.name || updated.signerEmail,
+      document.title,
+      token.token,
+      baseUrl,
+      token.tokenExpiresAt
+    );
+    await signatureAudit.record(updated, 'sent', context, details || `Sent to ${updated.signerEmail}`);
+
+    return updated;
+  }
+}
+
+export const signerRouting = new SignerRoutingService();
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { signingTokens, SigningTokenError } from "./signingTokens";
+import { storage } from "../storage";
+import type { DocumentSignature } from "@shared/schema";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getSignatureByTokenHash: vi.fn(),
+  },
+}));
+vi.mock("./email", () => ({
+  emailService: { generateMagicToken: () => 'magic-token' },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function signature(overrides: Partial<DocumentSignature> = {}): DocumentSignature {
+  return {
+    id: 'sig-1',
+    documentId: 'doc-1',
+    signerEmail: 'ada@acme.test',
+    status: 'sent',
+    tokenHash: signingTokens.hash('magic-token'),
+    tokenExpiresAt: new Date(Date.now() + DAY_MS),
+    revokedAt: null,
+    ...overrides,
+  } as DocumentSignature;
+}
+
+async function resolveError(token: string, forAction = true): Promise<SigningTokenError> {
+  const error = await signingTokens.resolve(token, { forAction }).catch(e => e);
+  expect(error).toBeInstanceOf(SigningTokenError);
+  return error;
+}
+
+describe("signingTokens.hash", () => {
+  it("is a stable SHA-256 hex digest", () => {
+    expect(signingTokens.hash('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe("signingTokens.issue", () => {
+  it("persists only the hash, with a 30-day expiry by default", () => {
+    const before = Date.now();
+    const issued = signingTokens.issue();
+
+    expect(issued.token).toBe('magic-token');
+    expect(issued.tokenHash).toBe(signingTokens.hash('magic-token'));
+    expect(issued.tokenHash).not.toContain(issued.token);
+    expect(issued.tokenExpiresAt.getTime() - before).toBeGreaterThanOrEqual(30 * DAY_MS - 1000);
+    expect(issued.tokenExpiresAt.getTime() - before).toBeLessThanOrEqual(30 * DAY_MS + 1000);
+  });
+});
+
+describe("signingTokens.resolve", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("looks a token up by its hash", async () => {
+    vi.mocked(storage.getSignatureByTokenHash).mockResolvedValue(signature());
+
+    await expect(signingTokens.resolve('magic-token', { forAction: true })).resolves.toMatchObject({ id: 'sig-1' });
+    expect(storage.getSignatureByTokenHash).toHaveBeenCalledWith(signingTokens.hash('magic-token'));
+  });
+
+  it("rejects an unknown token with a 404", async () => {
+    vi.mocked(storage.getSignatureByTokenHash).mockResolvedValue(undefined);
+    const error = await resolveError('nope');
+
+    expect(error.code).toBe('not_found');
+    expect(error.status).toBe(404);
+  });
+
+  it("rejects an expired token with a 410", async () => {
+    vi.mocked(storage.getSignatureByTokenHash).mockResolvedValue(signature({ tokenExpiresAt: new Date(Date.now() - 1000) }));
+    const error = await resolveError('magic-token');
+
+    expect(error.code).toBe('expired');
+    expect(error.status).toBe(410);
+  });
+
+  it("rejects a revoked token even if it has also expired", async () => {
+    vi.mocked(storage.getSignatureByTokenHash).mockResolvedValue(signature({
+      revokedAt: new Date(),
+      tokenExpiresAt: new Date(Date.now() - 1000),
+    }));
+
+    expect((await resolveError('magic-token')).code).toBe('revoked');
+  });
+
+  it("lets a completed request be viewed but not acted on again", async () => {
+    vi.mocked(storage.getSignatureByTokenHash).mockResolvedValue(signature({ status: 'signed' }));
+
+    await expect(signingTokens.resolve('magic-token')).resolves.toMatchObject({ status: 'signed' });
+    const error = await resolveError('magic-token');
+    expect(error.code).toBe('used');
+    expect(error.status).toBe(409);
+    expect(error.toResponse()).toEqual({ message: error.message, code: 'used' });
+  });
+});
@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { emailService } from "./email";
+import type {
+  DocumentSignature,
+  SigningTokenErrorCode,
+  SigningTokenErrorResponse,
+} from "@shared/schema";
+
+// How long an emailed signing link stays valid
+const TOKEN_LIFETIME_DAYS = parseInt(process.env.SIGNATURE_TOKEN_TTL_DAYS || '30', 10);
+
+const ERROR_STATUS: Record<SigningTokenErrorCode, number> = {
+  not_found: 404,
+  expired: 410,
+  revoked: 410,
+  used: 409,
+};
+
+export class SigningTokenError extends Error {
+  constructor(public code: SigningTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'SigningTokenError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toResponse(): SigningTokenErrorResponse {
+    return { message: this.message, code: this.code };
+  }
+}
+
+export interface IssuedToken {
+  token: string;
+  tokenHash: string;
+  tokenExpiresAt: Date;
+}
+
+export class SigningTokenService {
+  hash(token: string): string {
+    return createHash('sha256').update(token, 'utf8').digest('hex');
+  }
+
+  // A fresh token for the email; only its hash and expiry are persisted
+  issue(): IssuedToken {
+    const token = emailService.generateMagicToken();
+    return {
+      token,
+      tokenHash: this.hash(token),
+      tokenExpiresAt: new Date(Date.now() + TOKEN_LIFETIME_DAYS * 24 * 60 * 60 * 1000),
+    };
+  }
+
+  // Look up the signature behind a magic link. Completed requests stay viewable,
+  // but only an open, unexpired, unrevoked token can sign or decline.
+  async resolve(token: string, options: { forAction?: boolean } = {}): Promise<DocumentSignature> {
+    const signature = await storage.getSignatureByTokenHash(this.hash(token));
+    if (!signature) {
+      throw new SigningTokenError('not_found', "This signing link is not valid");
+    }
+
+    const completed = signature.status === 'signed' || signature.status === 'declined';
+    if (completed && !options.forAction) {
+      return signature;
+    }
+    if (signature.revokedAt) {
+      throw new SigningTokenError('revoked', "This signing link was revoked by the sender");
+    }
+    if (completed) {
+      throw new SigningTokenError('used', `This signature request was already ${signature.status}`);
+    }
+    if (signature.tokenExpiresAt && signature.tokenExpiresAt.getTime() < Date.now()) {
+      throw new SigningTokenError('expired', "This signing link has expired. Ask the sender to resend it.");
+    }
+
+    return signature;
+  }
+
+  async revoke(signature: DocumentSignature): Promise<DocumentSignature> {
+    return await storage.updateSignature(signature.id, { revokedAt: new Date() });
+  }
+
+  // Replace the token, which invalidates any link sent before. Reminders keep
+  // the original deadline so nudging a signer never extends it.
+  async reissue(
+    signature: DocumentSignature,
+    options: { keepExpiry?: boolean } = {}
+  ): Promise<{ signature: DocumentSignature; token: IssuedToken }> {
+    const token = this.issue();
+    if (options.keepExpiry && signature.tokenExpiresAt) {
+      token.tokenExpiresAt = signature.tokenExpiresAt;
+    }
+    const updated = await storage.updateSignature(signature.id, {
+      tokenHash: token.tokenHash,
+      tokenExpiresAt: token.tokenExpiresAt,
+      revokedAt: null,
+      status: 'sent',
+    });
+    return { signature: updated, token };
+  }
+}
+
+export const signingTokens = new SigningTokenService();
@@ -0,0 +1,799 @@
+import type { DocumentType, TemplateVariable } from "@shared/schema";
+
+type Jurisdiction = 'delaware' | 'france';
+
+// A clause the AI drafts on top of the fixed template text
+export interface OptionalClause {
+  key: string;
+  title: string;
+  instructions: string;
+  fallback: string;
+}
+
+export interface DocumentTemplate {
+  id: string;
+  type: DocumentType;
+  jurisdiction: Jurisdiction;
+  version: number;
+  title: string;
+  variables: TemplateVariable[];
+  optionalClauses: OptionalClause[];
+  body: string;
+}
+
+// ============================================
+// VARIABLE CATALOG
+// ============================================
+
+const VARIABLES: Record<string, Omit<TemplateVariable, 'required'>> = {
+  'company.name': { key: 'company.name', label: 'Company name', type: 'text' },
+  'company.entity': { key: 'company.entity', label: 'Entity type', type: 'text' },
+  'company.description': { key: 'company.description', label: 'Business description', type: 'text' },
+  'company.address': { key: 'company.address', label: 'Registered office address', type: 'text' },
+  'company.authorized_shares': { key: 'company.authorized_shares', label: 'Authorized shares', type: 'number', defaultValue: '10000000' },
+  'company.par_value': { key: 'company.par_value', label: 'Par value per share ($)', type: 'text', defaultValue: '0.00001' },
+  'company.share_capital': { key: 'company.share_capital', label: 'Share capital (€)', type: 'currency' },
+  'company.contact_email': { key: 'company.contact_email', label: 'Contact email', type: 'text' },
+  'company.website': { key: 'company.website', label: 'Website URL', type: 'text' },
+  'governing_law': { key: 'governing_law', label: 'Governing law', type: 'text' },
+  'effective_date': { key: 'effective_date', label: 'Effective date', type: 'date' },
+  'founders.list': { key: 'founders.list', label: 'Founders and equity split', type: 'text' },
+  'founders.signatures': { key: 'founders.signatures', label: 'Founder signature blocks', type: 'text' },
+  'founders.directors': { key: 'founders.directors', label: 'Initial directors', type: 'text' },
+  'founders.vesting': { key: 'founders.vesting', label: 'Founder vesting schedules (shares, cliff, duration, acceleration)', type: 'text' },
+  'president.name': { key: 'president.name', label: 'President / CEO name', type: 'text' },
+  'incorporator.name': { key: 'incorporator.name', label: 'Incorporator name', type: 'text' },
+  'registered_agent.name': { key: 'registered_agent.name', label: 'Registered agent name', type: 'text' },
+  'registered_agent.address': { key: 'registered_agent.address', label: 'Registered agent address', type: 'text' },
+  'investor.name': { key: 'investor.name', label: 'Investor name', type: 'text' },
+  'investor.email': { key: 'investor.email', label: 'Investor email', type: 'text' },
+  'investor.amount': { key: 'investor.amount', label: 'Investment amount', type: 'currency' },
+  'safe.economics': { key: 'safe.economics', label: 'SAFE economic terms (valuation cap, discount, MFN, pro rata)', type: 'text' },
+  'counterparty.name': { key: 'counterparty.name', label: 'Other party name', type: 'text' },
+  'advisor.name': { key: 'advisor.name', label: 'Advisor name', type: 'text' },
+  'advisor.equity': { key: 'advisor.equity', label: 'Advisor equity (%)', type: 'percentage' },
+  'advisor.term_months': { key: 'advisor.term_months', label: 'Advisory term (months)', type: 'number', defaultValue: '24' },
+  'contractor.name': { key: 'contractor.name', label: 'Contractor name', type: 'text' },
+  'contractor.services': { key: 'contractor.services', label: 'Services to be performed', type: 'text' },
+  'contractor.rate': { key: 'contractor.rate', label: 'Contractor fee', type: 'currency' },
+  'assignor.name': { key: 'assignor.name', label: 'Person assigning IP', type: 'text' },
+  'taxpayer.name': { key: 'taxpayer.name', label: 'Taxpayer name', type: 'text' },
+  'taxpayer.address': { key: 'taxpayer.address', label: 'Taxpayer address', type: 'text' },
+  'taxpayer.tin': { key: 'taxpayer.tin', label: 'Taxpayer identification number (SSN or ITIN)', type: 'text' },
+  'election.property': { key: 'election.property', label: 'Shares covered by the election', type: 'text' },
+  'election.transfer_date': { key: 'election.transfer_date', label: 'Date the shares were issued', type: 'text' },
+  'election.tax_year': { key: 'election.tax_year', label: 'Taxable year', type: 'text' },
+  'election.restrictions': { key: 'election.restrictions', label: 'Restrictions on the shares', type: 'text' },
+  'election.fair_market_value': { key: 'election.fair_market_value', label: 'Fair market value at issuance', type: 'text' },
+  'election.amount_paid': { key: 'election.amount_paid', label: 'Amount paid for the shares', type: 'text' },
+  'departing.name': { key: 'departing.name', label: 'Departing founder name', type: 'text' },
+  'departure.date': { key: 'departure.date', label: 'Departure date', type: 'text' },
+  'departure.reason': { key: 'departure.reason', label: 'Reason for departure', type: 'text' },
+  'departure.vested_shares': { key: 'departure.vested_shares', label: 'Shares vested at departure', type: 'number' },
+  'departure.repurchase_shares': { key: 'departure.repurchase_shares', label: 'Unvested shares repurchased', type: 'number' },
+  'departure.repurchase_price': { key: 'departure.repurchase_price', label: 'Repurchase price', type: 'text' },
+};
+
+function required(...keys: string[]): TemplateVariable[] {
+  return keys.map(key => ({ ...VARIABLES[key], required: true }));
+}
+
+function optional(...keys: string[]): TemplateVariable[] {
+  return keys.map(key => ({ ...VARIABLES[key], required: false }));
+}
+
+function template(data: Omit<DocumentTemplate, 'id'>): DocumentTemplate {
+  return { ...data, id: `${data.type}/${data.jurisdiction}@${data.version}` };
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+const nda = (jurisdiction: Jurisdiction) => template({
+  type: 'nda',
+  jurisdiction,
+  version: 1,
+  title: 'Mutual Non-Disclosure Agreement',
+  variables: required('company.name', 'company.entity', 'counterparty.name', 'governing_law', 'effective_date'),
+  optionalClauses: [{
+    key: 'non_solicitation',
+    title: 'Non-Solicitation',
+    instructions: 'A mutual 12-month non-solicitation of employees that is enforceable under the governing law.',
+    fallback: 'During the term of this Agreement and for twelve (12) months thereafter, neither party shall solicit for employment any employee of the other party with whom it had contact in connection with the Purpose.',
+  }],
+  body: `MUTUAL NON-DISCLOSURE AGREEMENT
+
+This Mutual Non-Disclosure Agreement (the "Agreement") is entered into as of {{effective_date}} between {{company.name}}, a {{company.entity}} (the "Company"), and {{counterparty.name}} (the "Counterparty").
+
+1. Purpose. The parties wish to evaluate a potential business relationship (the "Purpose") and may disclose Confidential Information to each other for that Purpose.
+
+2. Confidential Information. "Confidential Information" means any non-public business, technical or financial information disclosed by one party to the other, in any form, that is marked confidential or would reasonably be understood to be confidential.
+
+3. Obligations. The receiving party shall use Confidential Information only for the Purpose, protect it with at least reasonable care, and disclose it only to its employees and advisors who need to know it and are bound by confidentiality obligations at least as protective as these.
+
+4. Exclusions. These obligations do not apply to information that is or becomes public through no fault of the receiving party, was known to the receiving party before disclosure, is independently developed, or is lawfully received from a third party without restriction.
+
+5. Term. This Agreement lasts two (2) years from the date above; confidentiality obligations survive for three (3) years after it ends.
+
+6. Non-Solicitation. {{clause:non_solicitation}}
+
+7. Governing Law. This Agreement is governed by the laws of {{governing_law}}.
+
+{{company.name}}
+By: ______________________
+
+{{counterparty.name}}
+By: ______________________`,
+});
+
+const preFounderAgreement = (jurisdiction: Jurisdiction) => template({
+  type: 'pre_founder_agreement',
+  jurisdiction,
+  version: 2,
+  title: 'Pre-Founder Agreement',
+  variables: [
+    ...required('company.name', 'company.entity', 'founders.list', 'founders.vesting', 'founders.signatures', 'governing_law', 'effective_date'),
+    ...optional('company.description'),
+  ],
+  optionalClauses: [{
+    key: 'dispute_resolution',
+    title: 'Dispute Resolution',
+    instructions: 'Good-faith negotiation followed by mediation, then the courts of the governing law.',
+    fallback: 'The Founders shall first attempt to resolve any dispute by good-faith negotiation for thirty (30) days, then by mediation, before bringing any claim before the competent courts.',
+  }],
+  body: `PRE-FOUNDER AGREEMENT
+
+This Pre-Founder Agreement is made as of {{effective_date}} by the founders of {{company.name}}, a {{company.entity}} (the "Company"), listed below (each a "Founder").
+
+1. Business. The Founders intend to build the following business through the Company: {{company.description}}
+
+2. Equity Split. The Founders agree that the founder shares of the Company shall be allocated as follows:
+{{founders.list}}
+
+3. Vesting. {{founders.vesting}}
+
+4. Intellectual Property. Each Founder assigns to the Company all intellectual property he or she has created or creates relating to the business, and shall sign any further document needed to perfect that assignment.
+
+5. Time Commitment. Each Founder shall devote the time reasonably required to the business and shall disclose any conflicting activity to the other Founders.
+
+6. Departure. A Founder who leaves before the end of vesting keeps only vested equity; unvested equity is subject to the Company's repurchase right.
+
+7. Dispute Resolution. {{clause:dispute_resolution}}
+
+8. Governing Law. This Agreement is governed by the laws of {{governing_law}}.
+
+{{founders.signatures}}`,
+});
+
+const ipAssignment = (jurisdiction: Jurisdiction) => template({
+  type: 'ip_assignment',
+  jurisdiction,
+  version: 1,
+  title: 'Intellectual Property Assignment Agreement',
+  variables: required('company.name', 'company.entity', 'assignor.name', 'governing_law', 'effective_date'),
+  optionalClauses: [],
+  body: `INTELLECTUAL PROPERTY ASSIGNMENT AGREEMENT
+
+This Intellectual Property Assignment Agreement is made as of {{effective_date}} between {{assignor.name}} (the "Assignor") and {{company.name}}, a {{company.entity}} (the "Company").
+
+1. Assignment. The Assignor irrevocably assigns to the Company all right, title and interest in any inventions, works of authorship, software, designs, trademarks, know-how and other intellectual property created by the Assignor, alone or with others, that relate to the Company's current or planned business (the "Assigned IP").
+
+2. Moral Rights. To the extent permitted by law, the Assignor waives any moral rights in the Assigned IP.
+
+3. Further Assurances. The Assignor shall sign any document and take any action reasonably requested by the Company to register, perfect or enforce its rights in the Assigned IP.
+
+4. Prior Inventions. Any intellectual property the Assignor excludes from this assignment must be listed in writing and attached to this Agreement; if none is attached, there are none.
+
+5. Consideration. The Assignor acknowledges receipt of adequate consideration for this assignment.
+
+6. Governing Law. This Agreement is governed by the laws of {{governing_law}}.
+
+{{company.name}}
+By: ______________________
+
+{{assignor.name}}
+Signature: ______________________`,
+});
+
+const advisorAgreement = (jurisdiction: Jurisdiction) => template({
+  type: 'advisor_agreement',
+  jurisdiction,
+  version: 1,
+  title: 'Advisor Agreement',
+  variables: [
+    ...required('company.name', 'company.entity', 'advisor.name', 'advisor.equity', 'governing_law', 'effective_date'),
+    ...optional('advisor.term_months'),
+  ],
+  optionalClauses: [{
+    key: 'advisor_services',
+    title: 'Services',
+    instructions: 'Describe typical startup advisor services tailored to the company description.',
+    fallback: 'The Advisor shall provide strategic advice, introductions and feedback as reasonably requested by the Company, and attend up to one meeting per month.',
+  }],
+  body: `ADVISOR AGREEMENT
+
+This Advisor Agreement is made as of {{effective_date}} between {{company.name}}, a {{company.entity}} (the "Company"), and {{advisor.name}} (the "Advisor").
+
+1. Services. {{clause:advisor_services}}
+
+2. Compensation. The Company shall grant the Advisor equity equal to {{advisor.equity}} of the Company's fully diluted capital, vesting monthly over {{advisor.term_months}} months, subject to board approval and the Company's equity plan.
+
+3. Term. This Agreement lasts {{advisor.term_months}} months and may be terminated by either party on fourteen (14) days' written notice; unvested equity lapses on termination.
+
+4. Confidentiality and IP. The Advisor shall keep Company information confidential and assigns to the Company any intellectual property created in performing the services.
+
+5. Independent Advisor. The Advisor is not an employee and has no authority to bind the Company.
+
+6. Governing Law. This Agreement is governed by the laws of {{governing_law}}.
+
+{{company.name}}
+By: ______________________
+
+{{advisor.name}}
+Signature: ______________________`,
+});
+
+const termsConditions = (jurisdiction: Jurisdiction) => template({
+  type: 'terms_conditions',
+  jurisdiction,
+  version: 1,
+  title: 'Terms & Conditions',
+  variables: [
+    ...required('company.name', 'company.entity', 'company.website', 'company.contact_email', 'governing_law', 'effective_date'),
+    ...optional('company.description'),
+  ],
+  optionalClauses: [{
+    key: 'service_description',
+    title: 'The Service',
+    instructions: 'A plain-language description of the service based on the company description.',
+    fallback: 'The Company provides the products and services made available through the Website (the "Service").',
+  }],
+  body: `TERMS AND CONDITIONS
+
+Last updated: {{effective_date}}
+
+These Terms and Conditions govern your use of {{company.website}} (the "Website") operated by {{company.name}}, a {{company.entity}} (the "Company"). By using the Website you agree to these Terms.
+
+1. The Service. {{clause:service_description}}
+
+2. Accounts. You are responsible for keeping your account credentials secure and for all activity under your account.
+
+3. Acceptable Use. You may not misuse the Service, interfere with its operation, or use it for any unlawful purpose.
+
+4. Intellectual Property. The Service and its content are owned by the Company and protected by law. You receive a limited, revocable licence to use the Service for its intended purpose.
+
+5. Disclaimers. The Service is provided "as is" without warranties of any kind, to the extent permitted by law.
+
+6. Limitation of Liability. To the extent permitted by law, the Company is not liable for indirect or consequential damages arising from your use of the Service.
+
+7. Changes. We may update these Terms; continued use after changes are posted means you accept them.
+
+8. Governing Law. These Terms are governed by the laws of {{governing_law}}.
+
+9. Contact. Questions about these Terms can be sent to {{company.contact_email}}.`,
+});
+
+const privacyPolicy = (jurisdiction: Jurisdiction) => template({
+  type: 'privacy_policy',
+  jurisdiction,
+  version: 1,
+  title: 'Privacy Policy',
+  variables: required('company.name', 'company.entity', 'company.website', 'company.contact_email', 'governing_law', 'effective_date'),
+  optionalClauses: [{
+    key: 'data_collected',
+    title: 'Information We Collect',
+    instructions: jurisdiction === 'france'
+      ? 'List typical personal data collected and the GDPR lawful basis for each category.'
+      : 'List typical personal data collected, covering CCPA categories where relevant.',
+    fallback: 'We collect information you provide (such as your name, email address and account details), information collected automatically (such as device, log and usage data), and information from cookies and similar technologies.',
+  }],
+  body: `PRIVACY POLICY
+
+Last updated: {{effective_date}}
+
+{{company.name}}, a {{company.entity}} ("we", "us"), operates {{company.website}}. This Privacy Policy explains how we collect, use and protect your personal data.
+
+1. Information We Collect. {{clause:data_collected}}
+
+2. How We Use Information. We use personal data to provide and improve the Service, communicate with you, ensure security, and comply with legal obligations.
+
+3. Sharing. We share personal data only with service providers acting on our behalf, when required by law, or with your consent. We do not sell personal data.
+
+4. Retention. We keep personal data only as long as necessary for the purposes above or as required by law.
+
+5. Your Rights. Depending on where you live, you may have the right to access, correct, delete, or port your data and to object to or restrict its processing. ${jurisdiction === 'france'
+    ? 'You may also lodge a complaint with the Commission Nationale de l\'Informatique et des Libertés (CNIL).'
+    : 'California residents have the rights described in the California Consumer Privacy Act.'}
+
+6. Security. We use reasonable technical and organisational measures to protect personal data.
+
+7. Governing Law. This Policy is governed by the laws of {{governing_law}}.
+
+8. Contact. Contact us at {{company.contact_email}} with any privacy question.`,
+});
+
+const contractorAgreement = (jurisdiction: Jurisdiction) => template({
+  type: 'contractor_agreement',
+  jurisdiction,
+  version: 1,
+  title: 'Independent Contractor Agreement',
+  variables: required('company.name', 'company.entity', 'contractor.name', 'contractor.services', 'contractor.rate', 'governing_law', 'effective_date'),
+  optionalClauses: [{
+    key: 'payment_terms',
+    title: 'Payment Terms',
+    instructions: 'Invoicing and payment terms appropriate for a freelancer under the governing law.',
+    fallback: 'The Contractor shall invoice the Company monthly and the Company shall pay undisputed invoices within thirty (30) days of receipt.',
+  }],
+  body: `INDEPENDENT CONTRACTOR AGREEMENT
+
+This Independent Contractor Agreement is made as of {{effective_date}} between {{company.name}}, a {{company.entity}} (the "Company"), and {{contractor.name}} (the "Contractor").
+
+1. Services. The Contractor shall perform the following services: {{contractor.services}}
+
+2. Fees. The Company shall pay the Contractor {{contractor.rate}} for the services.
+
+3. Payment Terms. {{clause:payment_terms}}
+
+4. Independent Contractor. The Contractor is an independent contractor, not an employee, and is responsible for its own taxes, insurance and equipment.
+
+5. Intellectual Property. All work product created for the Company under this Agreement is assigned to the Company upon creation.
+
+6. Confidentiality. The Contractor shall keep the Company's confidential information secret during and after this Agreement.
+
+7. Termination. Either party may terminate this Agreement on fifteen (15) days' written notice; the Company shall pay for services performed up to termination.
+
+8. Governing Law. This Agreement is governed by the laws of {{governing_law}}.
+
+{{company.name}}
+By: ______________________
+
+{{contractor.name}}
+Signature: ______________________`,
+});
+
+const safe = template({
+  type: 'safe',
+  jurisdiction: 'delaware',
+  version: 2,
+  title: 'SAFE (Simple Agreement for Future Equity)',
+  variables: required('company.name', 'investor.name', 'investor.amount', 'safe.economics', 'president.name', 'effective_date'),
+  optionalClauses: [],
+  body: `SAFE
+(Simple Agreement for Future Equity)
+
+THIS INSTRUMENT AND ANY SECURITIES ISSUABLE PURSUANT HERETO HAVE NOT BEEN REGISTERED UNDER THE SECURITIES ACT OF 1933, AS AMENDED.
+
+{{company.name}}, a Delaware corporation (the "Company"), certifies that in exchange for the payment by {{investor.name}} (the "Investor") of {{investor.amount}} (the "Purchase Amount") on or about {{effective_date}}, the Company issues to the Investor the right to certain shares of the Company's capital stock, subject to the terms below.
+
+1. Economic Terms.
+{{safe.economics}}
+
+2. Events.
+(a) Equity Financing. If there is an Equity Financing before this SAFE terminates, this SAFE will automatically convert into the number of shares of preferred stock equal to the Purchase Amount divided by the Conversion Price, being the lower of the price per share implied by the Valuation Cap (if any) and the price per share in the Equity Financing multiplied by the Discount Rate (if any).
+(b) Liquidity Event. If there is a Liquidity Event before this SAFE terminates, the Investor will receive the greater of the Purchase Amount or the amount payable on the number of shares of common stock equal to the Purchase Amount divided by the Liquidity Price.
+(c) Dissolution Event. If there is a Dissolution Event, the Investor will receive the Purchase Amount before any distribution to holders of common stock.
+
+3. Company Representations. The Company is duly organized and in good standing under the laws of the State of Delaware, and the execution of this SAFE is within its corporate power.
+
+4. Investor Representations. The Investor is an accredited investor and is acquiring this SAFE for its own account.
+
+5. Miscellaneous. This SAFE is governed by the laws of the State of Delaware. Any amendment requires the written consent of the Company and the Investor.
+
+{{company.name}}
+By: ______________________
+Name: {{president.name}}
+
+INVESTOR: {{investor.name}}
+By: ______________________`,
+});
+
+const bsaAir = template({
+  type: 'safe',
+  jurisdiction: 'france',
+  version: 2,
+  title: 'BSA AIR (Bon de Souscription d\'Actions - Accord d\'Investissement Rapide)',
+  variables: required('company.name', 'company.share_capital', 'company.address', 'investor.name', 'investor.amount', 'safe.economics', 'president.name', 'effective_date'),
+  optionalClauses: [],
+  body: `BSA AIR
+(Bon de Souscription d'Actions – Accord d'Investissement Rapide)
+
+Between {{company.name}}, a société par actions simplifiée with share capital of {{company.share_capital}}, having its registered office at {{company.address}} (the "Company"), represented by its Président, {{president.name}},
+
+and {{investor.name}} (the "Investor").
+
+1. Subscription. On {{effective_date}} the Investor subscribes to share warrants (BSA AIR) issued by the Company for a total subscription price of {{investor.amount}} (the "Investment Amount").
+
+2. Economic Terms.
+{{safe.economics}}
+
+3. Conversion. The BSA AIR will be exercised into ordinary or preferred shares of the Company at the next qualifying equity financing (the "Equity Financing"), at the lower of the price per share implied by the Valuation Cap (if any) and the price per share applicable to that financing multiplied by the Discount Rate (if any).
+
+4. Liquidity Event. If a change of control or sale occurs before conversion, the Investor may exercise the BSA AIR into ordinary shares at a price per share based on the transaction value.
+
+5. Term. If no conversion event has occurred within five (5) years, the BSA AIR will be exercised into ordinary shares on the terms set by the collective decision of the shareholders authorising their issue.
+
+6. Governing Law. This agreement is governed by French law and subject to the jurisdiction of the courts of the Company's registered office.
+
+For the Company – the Président, {{president.name}}
+Signature: ______________________
+
+The Investor – {{investor.name}}
+Signature: ______________________`,
+});
+
+const delawareCertificate = template({
+  type: 'certificate_incorporation',
+  jurisdiction: 'delaware',
+  version: 1,
+  title: 'Certificate of Incorporation',
+  variables: [
+    ...required('company.name', 'registered_agent.name', 'registered_agent.address', 'incorporator.name'),
+    ...optional('company.authorized_shares', 'company.par_value'),
+  ],
+  optionalClauses: [],
+  body: `CERTIFICATE OF INCORPORATION
+OF
+{{company.name}}
+
+FIRST: The name of the corporation is {{company.name}} (the "Corporation").
+
+SECOND: The address of the Corporation's registered office in the State of Delaware is {{registered_agent.address}}. The name of its registered agent at such address is {{registered_agent.name}}.
+
+THIRD: The purpose of the Corporation is to engage in any lawful act or activity for which corporations may be organized under the General Corporation Law of the State of Delaware.
+
+FOURTH: The total number of shares of stock which the Corporation is authorized to issue is {{company.authorized_shares}} shares of Common Stock, with a par value of \${{company.par_value}} per share.
+
+FIFTH: The Board of Directors is expressly authorized to adopt, amend or repeal the Bylaws of the Corporation.
+
+SIXTH: To the fullest extent permitted by the General Corporation Law of the State of Delaware, a director of the Corporation shall not be personally liable to the Corporation or its stockholders for monetary damages for breach of fiduciary duty as a director.
+
+SEVENTH: The name and mailing address of the incorporator is {{incorporator.name}}, c/o {{registered_agent.address}}.
+
+I, the undersigned incorporator, make this Certificate and affirm that the facts stated herein are true.
+
+______________________
+{{incorporator.name}}, Incorporator`,
+});
+
+const franceStatuts = template({
+  type: 'certificate_incorporation',
+  jurisdiction: 'france',
+  version: 1,
+  title: 'Statuts (Articles of Association)',
+  variables: [
+    ...required('company.name', 'company.address', 'company.share_capital', 'president.name', 'founders.list', 'founders.signatures', 'effective_date'),
+    ...optional('company.description'),
+  ],
+  optionalClauses: [{
+    key: 'share_transfers',
+    title: 'Transfer of Shares',
+    instructions: 'A standard SAS share transfer approval (agrément) clause.',
+    fallback: 'Any transfer of shares to a third party is subject to prior approval by a collective decision of the shareholders taken by a majority of two thirds of the votes.',
+  }],
+  body: `STATUTS
+{{company.name}}
+Société par actions simplifiée
+
+Article 1 – Form. The company is a société par actions simplifiée (SAS) governed by the French Commercial Code and these articles.
+
+Article 2 – Name. The company's name is {{company.name}}.
+
+Article 3 – Purpose. The company's purpose is: {{company.description}}
+
+Article 4 – Registered Office. The registered office is located at {{company.address}}.
+
+Article 5 – Duration. The company is formed for ninety-nine (99) years from its registration with the Registre du Commerce et des Sociétés.
+
+Article 6 – Share Capital. The share capital is set at {{company.share_capital}}, held by the founding shareholders as follows:
+{{founders.list}}
+
+Article 7 – Transfer of Shares. {{clause:share_transfers}}
+
+Article 8 – Président. The company is managed and represented towards third parties by a Président. The first Président of the company is {{president.name}}, appointed for an unlimited term.
+
+Article 9 – Collective Decisions. Decisions relating to the share capital, mergers, dissolution and the approval of the annual accounts are taken collectively by the shareholders.
+
+Article 10 – Financial Year. Each financial year runs from 1 January to 31 December.
+
+Signed on {{effective_date}} by the founding shareholders:
+
+{{founders.signatures}}`,
+});
+
+const delawareBylaws = template({
+  type: 'bylaws',
+  jurisdiction: 'delaware',
+  version: 1,
+  title: 'Bylaws',
+  variables: required('company.name', 'effective_date'),
+  optionalClauses: [],
+  body: `BYLAWS
+OF
+{{company.name}}
+(a Delaware corporation)
+
+ARTICLE I – OFFICES
+The registered office of the Corporation in the State of Delaware shall be as stated in the Certificate of Incorporation.
+
+ARTICLE II – STOCKHOLDERS
+Section 1. Annual Meeting. An annual meeting of stockholders shall be held to elect directors and transact other proper business.
+Section 2. Quorum. A majority of the outstanding shares entitled to vote constitutes a quorum.
+Section 3. Action Without Meeting. Any action may be taken without a meeting by written consent of stockholders holding at least the minimum votes required.
+
+ARTICLE III – DIRECTORS
+Section 1. Powers. The business of the Corporation shall be managed by or under the direction of the Board of Directors.
+Section 2. Number. The number of directors shall be fixed by resolution of the Board.
+Section 3. Action Without Meeting. Any action of the Board may be taken without a meeting by unanimous written consent.
+
+ARTICLE IV – OFFICERS
+The officers of the Corporation shall include a President, a Secretary and a Treasurer, each appointed by the Board.
+
+ARTICLE V – STOCK
+Shares may be certificated or uncertificated as determined by the Board.
+
+ARTICLE VI – INDEMNIFICATION
+The Corporation shall indemnify its directors and officers to the fullest extent permitted by the General Corporation Law of the State of Delaware.
+
+Adopted on {{effective_date}}.`,
+});
+
+const franceReglement = template({
+  type: 'bylaws',
+  jurisdiction: 'france',
+  version: 1,
+  title: 'Règlement Intérieur',
+  variables: required('company.name', 'president.name', 'effective_date'),
+  optionalClauses: [],
+  body: `RÈGLEMENT INTÉRIEUR
+{{company.name}}
+Société par actions simplifiée
+
+Article 1 – Purpose. These internal regulations supplement the statuts of the company and set out how it is run day to day. In case of conflict, the statuts prevail.
+
+Article 2 – Président. The Président, currently {{president.name}}, manages the company and represents it towards third parties within the limits of the company's purpose.
+
+Article 3 – Decisions Requiring Prior Approval. The Président shall obtain a prior collective decision of the shareholders before any borrowing, guarantee, acquisition or disposal of assets outside the ordinary course of business.
+
+Article 4 – Information of Shareholders. The Président shall report quarterly to the shareholders on the company's activity and cash position.
+
+Article 5 – Confidentiality. Shareholders shall keep the company's information confidential.
+
+Article 6 – Amendment. These regulations may be amended by a collective decision of the shareholders.
+
+Adopted on {{effective_date}}.`,
+});
+
+const delawareBoardConsent = template({
+  type: 'board_consent',
+  jurisdiction: 'delaware',
+  version: 1,
+  title: 'Action by Unanimous Written Consent of the Board of Directors',
+  variables: required('company.name', 'founders.directors', 'president.name', 'founders.list', 'founders.signatures', 'effective_date'),
+  optionalClauses: [],
+  body: `ACTION BY UNANIMOUS WRITTEN CONSENT
+OF THE BOARD OF DIRECTORS OF
+{{company.name}}
+(a Delaware corporation)
+
+Effective {{effective_date}}, the undersigned, being all of the directors of the Corporation ({{founders.directors}}), adopt the following resolutions by written consent under Section 141(f) of the General Corporation Law of the State of Delaware:
+
+1. Bylaws. RESOLVED, that the Bylaws in the form presented to the Board are adopted as the Bylaws of the Corporation.
+
+2. Officers. RESOLVED, that {{president.name}} is appointed President and Chief Executive Officer of the Corporation.
+
+3. Issuance of Founder Stock. RESOLVED, that the Corporation issue shares of Common Stock to the founders as follows, subject to the execution of stock purchase agreements:
+{{founders.list}}
+
+4. Fiscal Year. RESOLVED, that the fiscal year of the Corporation ends on December 31.
+
+5. Bank Accounts. RESOLVED, that the officers are authorized to open bank accounts in the name of the Corporation.
+
+6. General Authority. RESOLVED, that the officers are authorized to take all actions necessary to carry out these resolutions.
+
+{{founders.signatures}}`,
+});
+
+const franceDecision = template({
+  type: 'board_consent',
+  jurisdiction: 'france',
+  version: 1,
+  title: 'Décision du Président',
+  variables: required('company.name', 'company.address', 'company.share_capital', 'president.name', 'effective_date'),
+  optionalClauses: [],
+  body: `DÉCISION DU PRÉSIDENT
+{{company.name}}
+SAS with share capital of {{company.share_capital}}
+Registered office: {{company.address}}
+
+On {{effective_date}}, {{president.name}}, acting as Président of the company, takes the following decisions:
+
+1. Bank Account. To open the company's bank account and deposit the share capital.
+
+2. Registration. To carry out all formalities for registration of the company with the Registre du Commerce et des Sociétés, including publication of the legal notice.
+
+3. Pre-Incorporation Acts. To take over on behalf of the company the commitments made for it before its registration.
+
+4. Powers. To grant all powers to the bearer of a copy of these decisions to carry out the required formalities.
+
+The Président
+{{president.name}}
+Signature: ______________________`,
+});
+
+// Filed on paper: the taxpayer signs and mails it to the IRS, so it never goes out for e-signature
+const election83b = template({
+  type: 'election_83b',
+  jurisdiction: 'delaware',
+  version: 1,
+  title: 'Section 83(b) Election',
+  variables: required(
+    'company.name',
+    'taxpayer.name',
+    'taxpayer.address',
+    'taxpayer.tin',
+    'election.property',
+    'election.transfer_date',
+    'election.tax_year',
+    'election.restrictions',
+    'election.fair_market_value',
+    'election.amount_paid',
+  ),
+  optionalClauses: [],
+  body: `ELECTION UNDER SECTION 83(b) OF THE INTERNAL REVENUE CODE OF 1986
+
+The undersigned taxpayer hereby elects, under Section 83(b) of the Internal Revenue Code of 1986, as amended, to include in gross income for the current taxable year the amount of any compensation taxable in connection with the taxpayer's receipt of the property described below.
+
+1. Taxpayer. The name, address and taxpayer identification number of the undersigned are:
+Name: {{taxpayer.name}}
+Address: {{taxpayer.address}}
+Taxpayer identification number: {{taxpayer.tin}}
+
+2. Property. The property with respect to which the election is made is {{election.property}}.
+
+3. Date of Transfer. The property was transferred to the undersigned on {{election.transfer_date}}, and this election is made for the taxable year {{election.tax_year}}.
+
+4. Restrictions. {{election.restrictions}}
+
+5. Fair Market Value. The fair market value of the property at the time of transfer, determined without regard to any restriction other than a restriction which by its terms will never lapse, is {{election.fair_market_value}}.
+
+6. Amount Paid. The amount paid by the taxpayer for the property is {{election.amount_paid}}.
+
+7. Amount Included in Gross Income. The amount to include in gross income is the fair market value in paragraph 5 less the amount paid in paragraph 6.
+
+8. Copies. A copy of this statement has been furnished to {{company.name}}, for whom the taxpayer performs services. The undersigned will retain a copy of this statement for their records.
+
+This election must be filed with the Internal Revenue Service office where the taxpayer files their federal income tax return no later than 30 days after the date of transfer.
+
+Dated: ______________________
+
+______________________
+{{taxpayer.name}}, Taxpayer
+
+The undersigned spouse of the taxpayer, if any, joins in this election.
+
+______________________
+Spouse of Taxpayer`,
+});
+
+const repurchaseNotice = (jurisdiction: Jurisdiction) => template({
+  type: 'repurchase_notice',
+  jurisdiction,
+  version: 1,
+  title: 'Notice of Exercise of Repurchase Option',
+  variables: required(
+    'company.name',
+    'company.entity',
+    'departing.name',
+    'departure.date',
+    'departure.vested_shares',
+    'departure.repurchase_shares',
+    'departure.repurchase_price',
+    'president.name',
+    'governing_law',
+    'effective_date',
+  ),
+  optionalClauses: [],
+  body: `NOTICE OF EXERCISE OF REPURCHASE OPTION
+
+Date: {{effective_date}}
+
+To: {{departing.name}} (the "Founder")
+From: {{company.name}}, a {{company.entity}} (the "Company")
+
+1. Termination of Service. The Founder's service to the Company ended on {{departure.date}} (the "Departure Date").
+
+2. Vesting. As of the Departure Date, {{departure.vested_shares}} of the Founder's shares had vested under the Founder's vesting schedule. Those shares remain the Founder's.
+
+3. Exercise. The Company hereby exercises its option to repurchase the {{departure.repurchase_shares}} shares that had not vested as of the Departure Date (the "Unvested Shares"), in accordance with the Founder's stock purchase and vesting arrangements${jurisdiction === 'france' ? ' and the undertaking to sell (promesse de vente) granted by the Founder' : ''}.
+
+4. Price. The aggregate repurchase price is {{departure.repurchase_price}}, payable to the Founder within thirty (30) days of this notice, against which the Founder shall deliver the Unvested Shares free of any lien or encumbrance.
+
+5. Transfer. ${jurisdiction === 'france' ? 'The Company shall record the transfer of the Unvested Shares in its share transfer register (registre des mouvements de titres).' : 'The Company shall cancel the certificate representing the Unvested Shares and, if any vested shares remain, issue a new certificate for them.'}
+
+6. Governing Law. This notice is governed by the laws of {{governing_law}}.
+
+{{company.name}}
+By: ______________________
+{{president.name}}
+
+Acknowledged by the Founder:
+______________________
+{{departing.name}}`,
+});
+
+const separationAgreement = (jurisdiction: Jurisdiction) => template({
+  type: 'separation_agreement',
+  jurisdiction,
+  version: 1,
+  title: 'Separation and Release Agreement',
+  variables: required(
+    'company.name',
+    'company.entity',
+    'departing.name',
+    'departure.date',
+    'departure.reason',
+    'departure.vested_shares',
+    'departure.repurchase_shares',
+    'president.name',
+    'governing_law',
+    'effective_date',
+  ),
+  optionalClauses: [],
+  body: `SEPARATION AND RELEASE AGREEMENT
+
+This Separation and Release Agreement is made as of {{effective_date}} between {{company.name}}, a {{company.entity}} (the "Company"), and {{departing.name}} (the "Founder").
+
+1. Separation. The Founder's service to the Company, including any office or directorship, ended on {{departure.date}} by {{departure.reason}}. The Founder shall sign any document reasonably needed to record the resignation from each position held.
+
+2. Equity. The Founder retains {{departure.vested_shares}} vested shares. The {{departure.repurchase_shares}} unvested shares are repurchased by the Company under the notice of exercise of repurchase option delivered with this Agreement, and the Founder has no further right to acquire shares or options of the Company.
+
+3. Return of Property. The Founder has returned or shall promptly return all Company property, documents, credentials and confidential information.
+
+4. Continuing Obligations. The Founder's obligations of confidentiality and assignment of intellectual property to the Company survive the separation.
+
+5. Release. Except for the rights under this Agreement and to the vested shares, the Founder releases the Company and its officers, directors and shareholders from all claims arising from the Founder's service or its termination, to the fullest extent permitted by law${jurisdiction === 'delaware' ? ', including claims under the Age Discrimination in Employment Act. The Founder has twenty-one (21) days to consider this Agreement and may revoke it within seven (7) days after signing' : ''}.
+
+6. Mutual Non-Disparagement. Neither party shall make statements that disparage the other.
+
+7. Governing Law. This Agreement is governed by the laws of {{governing_law}}.
+
+{{company.name}}
+By: ______________________
+{{president.name}}
+
+{{departing.name}}
+Signature: ______________________`,
+});
+
+const ALL_TEMPLATES: DocumentTemplate[] = [
+  nda('delaware'),
+  nda('france'),
+  preFounderAgreement('delaware'),
+  preFounderAgreement('france'),
+  ipAssignment('delaware'),
+  ipAssignment('france'),
+  advisorAgreement('delaware'),
+  advisorAgreement('france'),
+  termsConditions('delaware'),
+  termsConditions('france'),
+  privacyPolicy('delaware'),
+  privacyPolicy('france'),
+  contractorAgreement('delaware'),
+  contractorAgreement('france'),
+  repurchaseNotice('delaware'),
+  repurchaseNotice('france'),
+  separationAgreement('delaware'),
+  separationAgreement('france'),
+  safe,
+  bsaAir,
+  delawareCertificate,
+  franceStatuts,
+  delawareBylaws,
+  franceReglement,
+  delawareBoardConsent,
+  franceDecision,
+  election83b,
+];
+
+export const templateLibrary: readonly DocumentTemplate[] = ALL_TEMPLATES;
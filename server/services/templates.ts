@@ -0,0 +1,241 @@
+import { storage } from "../storage";
+import { geminiService } from "./gemini";
+import { templateLibrary, type DocumentTemplate } from "./templateLibrary";
+import { DOUBLE_TRIGGER_WINDOW_MONTHS, addMonths } from "./vesting";
+import type { Company, DocumentType, Founder, SafeTerms, TemplateVariable, VestingGrant } from "@shared/schema";
+
+export interface TemplateParams {
+  investorId?: string;
+  values?: Record<string, string>;
+  // Render even if required variables are missing, leaving visible placeholders
+  allowMissing?: boolean;
+}
+
+export interface TemplateDraft {
+  template: DocumentTemplate;
+  content: string | null;
+  values: Record<string, string>;
+  missingVariables: TemplateVariable[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{([\w.]+)\}\}/g;
+const CLAUSE_PATTERN = /\{\{clause:(\w+)\}\}/g;
+
+export function founderName(founder: Founder): string {
+  return `${founder.firstName || ''} ${founder.lastName || ''}`.trim() || founder.email;
+}
+
+// The founder who acts for the company: whoever holds the CEO / President role, else the earliest founder
+export function findPresident(founders: Founder[]): Founder | undefined {
+  // Founders are returned newest first
+  const ordered = [...founders].reverse();
+  return ordered.find(f => /\b(ceo|president|président)\b/i.test(f.role || '')) || ordered[0];
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+export function formatCurrency(amount: number, company: Company): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: company.jurisdiction === 'france' ? 'EUR' : 'USD',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+// The SAFE's economic terms as contract text; each term is worded so validation can find it again
+export function safeEconomics(terms: SafeTerms, company: Company): string {
+  const type = terms.safeType === 'post_money' ? 'Post-Money' : 'Pre-Money';
+  const clauses = [
+    terms.valuationCap
+      ? `Valuation Cap. The ${type} Valuation Cap is ${formatCurrency(terms.valuationCap, company)}.`
+      : `Valuation Cap. This is an uncapped ${type} instrument with no Valuation Cap.`,
+    terms.discountRate
+      ? `Discount. The Discount is ${terms.discountRate}%, so the Discount Rate is ${100 - terms.discountRate}% of the price per share paid by new investors in the Equity Financing.`
+      : 'Discount. This instrument has no Discount.',
+  ];
+  if (terms.mfn) {
+    clauses.push('Most Favored Nation. If the Company issues convertible securities on terms more favorable to their holders before this instrument converts or terminates, the Company will promptly notify the Investor, and at the Investor\'s election this instrument will be amended to include those terms.');
+  }
+  if (terms.proRata) {
+    clauses.push('Pro Rata Rights. Under a side letter of even date, the Investor may purchase its pro rata share of the securities sold in the Equity Financing.');
+  }
+
+  return clauses.map((clause, index) => `(${String.fromCharCode(97 + index)}) ${clause}`).join('\n');
+}
+
+export function formatIsoDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Each founder's vesting schedule as contract text, in the order founders are listed
+export function foundersVesting(founders: Founder[], grants: VestingGrant[]): string {
+  const clauses = founders.map(founder => {
+    const grant = grants.find(g => g.founderId === founder.id);
+    if (!grant) {
+      return `${founderName(founder)}: no vesting schedule applies; the Founder's shares are fully vested.`;
+    }
+
+    const installments = grant.cadence === 'monthly' ? 'monthly' : 'quarterly';
+    const schedule = grant.cliffMonths > 0
+      ? `with a ${grant.cliffMonths}-month cliff on ${formatIsoDate(addMonths(grant.startDate, grant.cliffMonths))}, on which ${Math.round(grant.cliffMonths / grant.durationMonths * 100)}% vests, and the remainder vesting in equal ${installments} installments`
+      : `in equal ${installments} installments with no cliff`;
+    const parts = [
+      `${founderName(founder)}: ${grant.totalShares.toLocaleString('en-US')} shares vesting over ${grant.durationMonths} months from ${formatIsoDate(grant.startDate)}, ${schedule}, fully vested on ${formatIsoDate(addMonths(grant.startDate, grant.durationMonths))}.`,
+    ];
+    if (grant.acceleration === 'single_trigger') {
+      parts.push(`Single-trigger acceleration: ${grant.accelerationPercent}% of the unvested shares vest on a Change of Control.`);
+    }
+    if (grant.acceleration === 'double_trigger') {
+      parts.push(`Double-trigger acceleration: ${grant.accelerationPercent}% of the unvested shares vest if the Founder's service is terminated without cause, or the Founder resigns for good reason, within ${DOUBLE_TRIGGER_WINDOW_MONTHS} months after a Change of Control.`);
+    }
+    return parts.join(' ');
+  });
+
+  return [
+    'Each Founder\'s shares vest as set out below. The Company may repurchase unvested shares at their original purchase price if a Founder stops providing services.',
+    ...clauses.map((clause, index) => `(${String.fromCharCode(97 + index)}) ${clause}`),
+  ].join('\n');
+}
+
+// Format a raw value according to its variable type
+function formatValue(variable: TemplateVariable, raw: string, company: Company): string {
+  const numeric = /^-?\d+(\.\d+)?$/.test(raw.trim()) ? Number(raw) : null;
+  if (numeric === null) return raw;
+
+  switch (variable.type) {
+    case 'currency':
+      return formatCurrency(numeric, company);
+    case 'percentage':
+      return `${numeric}%`;
+    case 'number':
+      return numeric.toLocaleString('en-US');
+    default:
+      return raw;
+  }
+}
+
+export class TemplateService {
+  // Latest version of the template for a document type and jurisdiction
+  getTemplate(type: DocumentType, jurisdiction: Company['jurisdiction']): DocumentTemplate | undefined {
+    return templateLibrary
+      .filter(t => t.type === type && t.jurisdiction === jurisdiction)
+      .sort((a, b) => b.version - a.version)[0];
+  }
+
+  listTemplates(jurisdiction: Company['jurisdiction']): DocumentTemplate[] {
+    const types = Array.from(new Set(templateLibrary.map(t => t.type)));
+    return types
+      .map(type => this.getTemplate(type, jurisdiction))
+      .filter((t): t is DocumentTemplate => !!t);
+  }
+
+  // Fill every variable we can from company, founder and investor rows, then apply explicit values
+  async resolveVariables(company: Company, params: TemplateParams = {}): Promise<Record<string, string>> {
+    const isDelaware = company.jurisdiction === 'delaware';
+    const [allFounders, owner, grants] = await Promise.all([
+      storage.getFoundersByCompanyId(company.id),
+      storage.getUser(company.userId),
+      storage.getVestingGrantsByCompanyId(company.id),
+    ]);
+
+    // Departed founders are no longer party to new company documents
+    const founders = allFounders.filter(f => f.status !== 'departed');
+
+    const values: Record<string, string> = {
+      'company.name': company.name,
+      'company.entity': isDelaware ? 'Delaware corporation' : 'French société par actions simplifiée',
+      'governing_law': isDelaware ? 'the State of Delaware' : 'France',
+      'effective_date': formatDate(new Date()),
+    };
+
+    if (company.description) values['company.description'] = company.description;
+    if (owner?.email) values['company.contact_email'] = owner.email;
+
+    if (founders.length > 0) {
+      // Founders are returned newest first; templates list them in the order they joined
+      const ordered = [...founders].reverse();
+      const president = findPresident(founders)!;
+
+      values['founders.list'] = ordered
+        .map(f => `- ${founderName(f)}${f.role ? ` (${f.role})` : ''}: ${f.equityPercentage || 0}%`)
+        .join('\n');
+      values['founders.signatures'] = ordered
+        .map(f => `______________________\n${founderName(f)}${f.role ? `, ${f.role}` : ''}`)
+        .join('\n\n');
+      values['founders.directors'] = ordered.map(founderName).join(', ');
+      if (grants.length > 0) {
+        values['founders.vesting'] = foundersVesting(ordered, grants);
+      }
+      values['president.name'] = founderName(president);
+      values['incorporator.name'] = founderName(president);
+    }
+
+    if (params.investorId) {
+      const investors = await storage.getInvestorsByCompanyId(company.id);
+      const investor = investors.find(i => i.id === params.investorId);
+      if (!investor) {
+        throw new Error("Investor not found");
+      }
+      values['investor.name'] = investor.name;
+      values['investor.email'] = investor.email;
+      if (investor.amount) values['investor.amount'] = String(investor.amount);
+
+      const terms = await storage.getSafeTermsByInvestorId(investor.id);
+      if (terms) {
+        values['safe.economics'] = safeEconomics(terms, company);
+      }
+    }
+
+    for (const [key, value] of Object.entries(params.values || {})) {
+      if (typeof value === 'string' && value.trim()) {
+        values[key] = value.trim();
+      }
+    }
+
+    return values;
+  }
+
+  missingVariables(template: DocumentTemplate, values: Record<string, string>): TemplateVariable[] {
+    return template.variables.filter(v => v.required && !values[v.key] && !v.defaultValue);
+  }
+
+  // Substitute placeholders and have the AI draft the optional clauses
+  async render(template: DocumentTemplate, company: Company, values: Record<string, string>): Promise<string> {
+    const variables = new Map(template.variables.map(v => [v.key, v]));
+
+    const clauses: Record<string, string> = {};
+    for (const clause of template.optionalClauses) {
+      const drafted = await geminiService.draftClause(template.title, company, clause, values);
+      clauses[clause.key] = drafted || clause.fallback;
+    }
+
+    return template.body
+      .replace(CLAUSE_PATTERN, (_match, key: string) => clauses[key] || '')
+      .replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+        const variable = variables.get(key);
+        if (!variable) return match;
+        const raw = values[key] || variable.defaultValue;
+        return raw ? formatValue(variable, raw, company) : `[${variable.label}]`;
+      });
+  }
+
+  async draft(company: Company, type: DocumentType, params: TemplateParams = {}): Promise<TemplateDraft> {
+    const template = this.getTemplate(type, company.jurisdiction);
+    if (!template) {
+      throw new Error(`No template for ${type} in ${company.jurisdiction}`);
+    }
+
+    const values = await this.resolveVariables(company, params);
+    const missingVariables = this.missingVariables(template, values);
+    if (missingVariables.length > 0 && !params.allowMissing) {
+      return { template, content: null, values, missingVariables };
+    }
+
+    const content = await this.render(template, company, values);
+    return { template, content, values, missingVariables };
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,82 @@
+import { createHash } from "crypto";
+
+// Decoded size limit; uploads arrive as base64 inside a JSON body capped at 10mb
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+export type UploadMimeType = 'application/pdf' | 'image/png' | 'image/jpeg';
+
+const MAGIC_BYTES: { mimeType: UploadMimeType; bytes: number[] }[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+];
+
+// Known-bad content: the antivirus test file, Windows executables hidden in an
+// image or PDF, script payloads in polyglot images, and PDF actions that run code
+const MALWARE_SIGNATURES: { name: string; pattern: RegExp; only?: UploadMimeType }[] = [
+  { name: 'EICAR test file', pattern: /X5O!P%@AP\[4\\PZX54\(P\^\)7CC\)7\}\$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!/ },
+  { name: 'embedded Windows executable', pattern: /This program cannot be run in DOS mode/ },
+  { name: 'embedded script', pattern: /<script[\s>]|<\?php/i },
+  { name: 'PDF JavaScript', pattern: /\/(JavaScript|JS)\b/, only: 'application/pdf' },
+  { name: 'PDF launch action', pattern: /\/Launch\b/, only: 'application/pdf' },
+  { name: 'PDF embedded file', pattern: /\/EmbeddedFiles?\b/, only: 'application/pdf' },
+];
+
+export class UploadRejectedError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+export interface ScannedUpload {
+  data: Buffer;
+  mimeType: UploadMimeType;
+  sizeBytes: number;
+  sha256: string;
+}
+
+function sniff(data: Buffer): UploadMimeType | null {
+  const match = MAGIC_BYTES.find(({ bytes }) => bytes.every((byte, i) => data[i] === byte));
+  return match ? match.mimeType : null;
+}
+
+// Decode a data URL and refuse anything that is too big, is not what it claims to be,
+// or carries a known malware signature. This is a first line of defence, not an antivirus.
+export function scanDataUrl(dataUrl: string): ScannedUpload {
+  const match = /^data:([\w/+.-]+);base64,([\s\S]*)$/.exec(dataUrl);
+  if (!match) {
+    throw new UploadRejectedError("The upload is not a base64 data URL", 400);
+  }
+
+  const data = Buffer.from(match[2], 'base64');
+  if (data.length === 0) {
+    throw new UploadRejectedError("The file is empty");
+  }
+  if (data.length > MAX_UPLOAD_BYTES) {
+    throw new UploadRejectedError(`The file must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`, 413);
+  }
+
+  const mimeType = sniff(data);
+  if (!mimeType) {
+    throw new UploadRejectedError("Only PDF, PNG and JPEG files are accepted");
+  }
+  if (mimeType !== match[1]) {
+    throw new UploadRejectedError("The file's contents do not match its type");
+  }
+
+  // latin1 maps every byte to one character, so signatures match anywhere in binary data
+  const text = data.toString('latin1');
+  const found = MALWARE_SIGNATURES.find(s => (!s.only || s.only === mimeType) && s.pattern.test(text));
+  if (found) {
+    console.warn(`Upload rejected by scanner: ${found.name}`);
+    throw new UploadRejectedError("The file was rejected by the security scan");
+  }
+
+  return {
+    data,
+    mimeType,
+    sizeBytes: data.length,
+    sha256: createHash('sha256').update(data).digest('hex'),
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from "vitest";
+import { addMonths, vestingSchedule, vestingStatus } from "./vesting";
+import type { VestingGrant } from "@shared/schema";
+
+vi.mock("../storage", () => ({ storage: {} }));
+
+function grant(overrides: Partial<VestingGrant> = {}): VestingGrant {
+  return {
+    id: 'grant-1',
+    founderId: 'founder-1',
+    totalShares: 4800,
+    startDate: '2024-01-15',
+    cliffMonths: 12,
+    durationMonths: 48,
+    cadence: 'monthly',
+    acceleration: 'none',
+    accelerationPercent: 100,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+describe("addMonths", () => {
+  it("keeps the day of the month", () => {
+    expect(addMonths('2024-01-15', 1)).toBe('2024-02-15');
+    expect(addMonths('2024-11-15', 3)).toBe('2025-02-15');
+  });
+
+  it("falls back to the last day of shorter months", () => {
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2023-01-31', 1)).toBe('2023-02-28');
+    expect(addMonths('2024-03-31', 1)).toBe('2024-04-30');
+  });
+});
+
+describe("vestingSchedule", () => {
+  it("vests the cliff in one tranche, then monthly", () => {
+    const schedule = vestingSchedule(grant());
+
+    expect(schedule).toHaveLength(37);
+    expect(schedule[0]).toEqual({ date: '2025-01-15', shares: 1200, cumulativeShares: 1200 });
+    expect(schedule[1]).toEqual({ date: '2025-02-15', shares: 100, cumulativeShares: 1300 });
+    expect(schedule[schedule.length - 1]).toEqual({ date: '2028-01-15', shares: 100, cumulativeShares: 4800 });
+  });
+
+  it("vests quarterly with no cliff", () => {
+    const schedule = vestingSchedule(grant({ cliffMonths: 0, cadence: 'quarterly' }));
+
+    expect(schedule).toHaveLength(16);
+    expect(schedule[0]).toEqual({ date: '2024-04-15', shares: 300, cumulativeShares: 300 });
+  });
+
+  it("ends on exactly the total when shares don't divide evenly", () => {
+    const schedule = vestingSchedule(grant({ totalShares: 1000 }));
+
+    expect(schedule.reduce((sum, tranche) => sum + tranche.shares, 0)).toBe(1000);
+    expect(schedule[schedule.length - 1].cumulativeShares).toBe(1000);
+  });
+});
+
+describe("vestingStatus", () => {
+  it("has nothing vested before the cliff", () => {
+    const status = vestingStatus(grant(), { asOf: '2025-01-14' });
+
+    expect(status.vestedShares).toBe(0);
+    expect(status.unvestedShares).toBe(4800);
+    expect(status.cliffDate).toBe('2025-01-15');
+    expect(status.nextTranche?.date).toBe('2025-01-15');
+  });
+
+  it("counts every tranche reached by the date", () => {
+    const status = vestingStatus(grant(), { asOf: '2025-06-15' });
+
+    expect(status.vestedShares).toBe(1700);
+    expect(status.fullyVestedDate).toBe('2028-01-15');
+  });
+
+  it("stops vesting at termination", () => {
+    const status = vestingStatus(grant(), { asOf: '2026-01-15', terminationDate: '2025-03-20' });
+
+    expect(status.vestedShares).toBe(1400);
+    expect(status.nextTranche).toBeNull();
+  });
+
+  it("accelerates a single trigger on the change of control", () => {
+    const status = vestingStatus(grant({ acceleration: 'single_trigger', accelerationPercent: 50 }), {
+      asOf: '2025-01-15',
+      changeOfControlDate: '2025-01-15',
+    });
+
+    expect(status.acceleratedShares).toBe(1800);
+    expect(status.vestedShares).toBe(3000);
+  });
+
+  it("accelerates a double trigger only on termination within the window", () => {
+    const doubleTrigger = grant({ acceleration: 'double_trigger' });
+
+    const inWindow = vestingStatus(doubleTrigger, {
+      asOf: '2026-01-15',
+      changeOfControlDate: '2025-01-15',
+      terminationDate: '2025-06-15',
+    });
+    expect(inWindow.vestedShares).toBe(4800);
+
+    const afterWindow = vestingStatus(doubleTrigger, {
+      asOf: '2026-06-15',
+      changeOfControlDate: '2025-01-15',
+      terminationDate: '2026-02-15',
+    });
+    expect(afterWindow.acceleratedShares).toBe(0);
+    expect(afterWindow.vestedShares).toBe(2500);
+
+    const notTerminated = vestingStatus(doubleTrigger, { asOf: '2025-06-15', changeOfControlDate: '2025-01-15' });
+    expect(notTerminated.acceleratedShares).toBe(0);
+  });
+
+  it("ignores a change of control after the founder left", () => {
+    const status = vestingStatus(grant({ acceleration: 'single_trigger' }), {
+      asOf: '2026-01-15',
+      changeOfControlDate: '2025-06-15',
+      terminationDate: '2025-03-20',
+    });
+
+    expect(status.acceleratedShares).toBe(0);
+    expect(status.vestedShares).toBe(1400);
+  });
+});
@@ -0,0 +1,120 @@
+import { storage } from "../storage";
+import type {
+  Founder,
+  VestingCadence,
+  VestingGrant,
+  VestingGrantInput,
+  VestingQuery,
+  VestingStatus,
+  VestingTranche,
+} from "@shared/schema";
+
+// A double trigger only accelerates if the founder's service ends within this window after the change of control
+export const DOUBLE_TRIGGER_WINDOW_MONTHS = 12;
+
+const CADENCE_MONTHS: Record<VestingCadence, number> = {
+  monthly: 1,
+  quarterly: 3,
+};
+
+export class VestingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'VestingError';
+  }
+}
+
+// Dates are YYYY-MM-DD strings in UTC; a schedule starting on the 31st vests on the last day of shorter months
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// The regular schedule: everything up to the cliff vests at the cliff, then one tranche per cadence period
+export function vestingSchedule(grant: VestingGrant): VestingTranche[] {
+  const step = CADENCE_MONTHS[grant.cadence];
+  const months = new Set<number>([grant.durationMonths]);
+  if (grant.cliffMonths > 0) months.add(grant.cliffMonths);
+  for (let month = step; month < grant.durationMonths; month += step) {
+    if (month > grant.cliffMonths) months.add(month);
+  }
+
+  let previous = 0;
+  return Array.from(months).sort((a, b) => a - b).map(month => {
+    const cumulativeShares = Math.floor(grant.totalShares * month / grant.durationMonths);
+    const tranche = { date: addMonths(grant.startDate, month), shares: cumulativeShares - previous, cumulativeShares };
+    previous = cumulativeShares;
+    return tranche;
+  });
+}
+
+function vestedBy(schedule: VestingTranche[], date: string): number {
+  const reached = schedule.filter(tranche => tranche.date <= date);
+  return reached.length > 0 ? reached[reached.length - 1].cumulativeShares : 0;
+}
+
+// Vested and unvested shares on a date, applying acceleration when its trigger dates are given
+export function vestingStatus(grant: VestingGrant, query: VestingQuery & { asOf: string }): VestingStatus {
+  const { asOf, changeOfControlDate, terminationDate } = query;
+  const schedule = vestingSchedule(grant);
+
+  // Vesting stops when the founder stops providing services
+  const terminated = !!terminationDate && terminationDate <= asOf;
+  const serviceEnd = terminated ? terminationDate! : asOf;
+
+  // The change of control has to happen while the founder is still providing services
+  let trigger: string | null = null;
+  if (changeOfControlDate && changeOfControlDate <= asOf && (!terminationDate || changeOfControlDate <= terminationDate)) {
+    if (grant.acceleration === 'single_trigger') {
+      trigger = changeOfControlDate;
+    } else if (
+      grant.acceleration === 'double_trigger' &&
+      terminated &&
+      terminationDate! <= addMonths(changeOfControlDate, DOUBLE_TRIGGER_WINDOW_MONTHS)
+    ) {
+      trigger = terminationDate!;
+    }
+  }
+
+  const acceleratedShares = trigger
+    ? Math.floor((grant.totalShares - vestedBy(schedule, trigger)) * grant.accelerationPercent / 100)
+    : 0;
+  const vestedShares = Math.min(grant.totalShares, vestedBy(schedule, serviceEnd) + acceleratedShares);
+
+  return {
+    grant,
+    asOf,
+    vestedShares,
+    unvestedShares: grant.totalShares - vestedShares,
+    acceleratedShares,
+    cliffDate: addMonths(grant.startDate, grant.cliffMonths),
+    fullyVestedDate: addMonths(grant.startDate, grant.durationMonths),
+    nextTranche: terminated || vestedShares >= grant.totalShares
+      ? null
+      : schedule.find(tranche => tranche.date > asOf) || null,
+    schedule,
+  };
+}
+
+export class VestingService {
+  async setGrant(founder: Founder, input: VestingGrantInput): Promise<VestingGrant> {
+    return await storage.upsertVestingGrant({ ...input, founderId: founder.id });
+  }
+
+  async status(founder: Founder, query: VestingQuery): Promise<VestingStatus> {
+    const grant = await storage.getVestingGrantByFounderId(founder.id);
+    if (!grant) {
+      throw new VestingError("No vesting schedule is recorded for this founder", 404);
+    }
+    return vestingStatus(grant, { ...query, asOf: query.asOf || today() });
+  }
+}
+
+export const vesting = new VestingService();
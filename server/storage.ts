@@ -1,16 +1,36 @@
 // From javascript_database and javascript_log_in_with_replit blueprints
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, desc, sql, isNull, isNotNull, lt } from "drizzle-orm";
 import {
   users,
   companies,
   founders,
+  vestingGrants,
+  founderPortalLinks,
+  founderDepartures,
+  identityVerifications,
   investors,
+  safeTerms,
   documents,
+  documentVersions,
+  draftingSessions,
+  activationHookRuns,
   documentSignatures,
+  signatureEvents,
+  documentCertificates,
+  documentComments,
+  signaturePackets,
+  packetSigners,
+  hostSigningSessions,
+  signingCodes,
   tasks,
   capTableEntries,
+  shareClasses,
+  equityEvents,
+  elections83b,
+  roundScenarios,
   chatMessages,
+  jobs,
   type User,
   type UpsertUser,
   type Company,
@@ -19,16 +39,58 @@ import {
   type InsertFounder,
   type Investor,
   type InsertInvestor,
+  type SafeTerms,
+  type InsertSafeTerms,
+  type VestingGrant,
+  type InsertVestingGrant,
+  type FounderPortalLink,
+  type InsertFounderPortalLink,
+  type FounderDeparture,
+  type FounderDepartureStatus,
+  type InsertFounderDeparture,
+  type IdentityVerification,
+  type InsertIdentityVerification,
   type Document,
+  type DocumentStatus,
   type InsertDocument,
+  type DocumentVersion,
+  type InsertDocumentVersion,
+  type DraftingSession,
+  type InsertDraftingSession,
+  type ActivationHookRun,
+  type InsertActivationHookRun,
   type DocumentSignature,
   type InsertDocumentSignature,
+  type SignatureEvent,
+  type InsertSignatureEvent,
+  type DocumentCertificate,
+  type InsertDocumentCertificate,
+  type DocumentComment,
+  type SignaturePacket,
+  type InsertSignaturePacket,
+  type PacketSigner,
+  type InsertPacketSigner,
+  type HostSigningSession,
+  type InsertHostSigningSession,
+  type SigningCode,
+  type InsertSigningCode,
+  type InsertDocumentComment,
   type Task,
   type InsertTask,
   type CapTableEntry,
-  type InsertCapTableEntry,
+  type ShareClass,
+  type InsertShareClass,
+  type EquityEvent,
+  type InsertEquityEvent,
+  type Election83b,
+  type InsertElection83b,
+  type RoundScenario,
+  type InsertRoundScenario,
   type ChatMessage,
   type InsertChatMessage,
+  type Job,
+  type InsertJob,
+  type JobStatus,
 } from "@shared/schema";
 
 export interface IStorage {
@@ -38,6 +100,8 @@ export interface IStorage {
 
   // Company operations
   getCompanyByUserId(userId: string): Promise<Company | undefined>;
+  getCompanyById(id: string): Promise<Company | undefined>;
+  getAllCompanies(): Promise<Company[]>;
   createCompany(company: InsertCompany): Promise<Company>;
   updateCompany(id: string, data: Partial<InsertCompany>): Promise<Company>;
   createCompanyWithRelations(data: {
@@ -52,25 +116,116 @@ export interface IStorage {
 
   // Founder operations
   getFoundersByCompanyId(companyId: string): Promise<Founder[]>;
+  getFounderById(id: string): Promise<Founder | undefined>;
   createFounder(founder: InsertFounder): Promise<Founder>;
   updateFounder(id: string, data: Partial<InsertFounder>): Promise<Founder>;
+  getVestingGrantsByCompanyId(companyId: string): Promise<VestingGrant[]>;
+  getVestingGrantByFounderId(founderId: string): Promise<VestingGrant | undefined>;
+  upsertVestingGrant(grant: InsertVestingGrant): Promise<VestingGrant>;
+
+  // Founder portal link operations
+  getFounderPortalLinkByTokenHash(tokenHash: string): Promise<FounderPortalLink | undefined>;
+  upsertFounderPortalLink(link: InsertFounderPortalLink): Promise<FounderPortalLink>;
+  touchFounderPortalLink(id: string): Promise<void>;
+
+  // Founder departure operations
+  getFounderDeparturesByCompanyId(companyId: string): Promise<FounderDeparture[]>;
+  getFounderDepartureByFounderId(founderId: string): Promise<FounderDeparture | undefined>;
+  getFounderDepartureByDocumentId(documentId: string): Promise<FounderDeparture | undefined>;
+  createFounderDepartureWithDocuments(data: {
+    departure: Omit<InsertFounderDeparture, 'noticeDocumentId' | 'agreementDocumentId'>;
+    notice: InsertDocument;
+    agreement: InsertDocument;
+  }): Promise<{ departure: FounderDeparture; notice: Document; agreement: Document }>;
+  updateFounderDeparture(id: string, data: Partial<InsertFounderDeparture>): Promise<FounderDeparture>;
+  updateFounderDepartureIfStatus(id: string, status: FounderDepartureStatus, data: Partial<InsertFounderDeparture>): Promise<FounderDeparture | undefined>;
+
+  // Identity verification operations
+  getIdentityVerificationsByCompanyId(companyId: string): Promise<IdentityVerification[]>;
+  getIdentityVerificationById(id: string): Promise<IdentityVerification | undefined>;
+  getIdentityVerificationByTokenHash(tokenHash: string): Promise<IdentityVerification | undefined>;
+  getIdentityFilesReviewedBefore(cutoff: Date): Promise<IdentityVerification[]>;
+  createIdentityVerification(verification: InsertIdentityVerification): Promise<IdentityVerification>;
+  updateIdentityVerification(id: string, data: Partial<InsertIdentityVerification>): Promise<IdentityVerification>;
 
   // Investor operations
   getInvestorsByCompanyId(companyId: string): Promise<Investor[]>;
+  getInvestorBySafeDocumentId(documentId: string): Promise<Investor | undefined>;
   createInvestor(investor: InsertInvestor): Promise<Investor>;
   updateInvestor(id: string, data: Partial<InsertInvestor>): Promise<Investor>;
+  getSafeTermsByCompanyId(companyId: string): Promise<SafeTerms[]>;
+  getSafeTermsByInvestorId(investorId: string): Promise<SafeTerms | undefined>;
+  createSafeTerms(terms: InsertSafeTerms): Promise<SafeTerms>;
 
   // Document operations
   getDocumentsByCompanyId(companyId: string): Promise<Document[]>;
   getDocumentById(id: string): Promise<Document | undefined>;
   createDocument(document: InsertDocument): Promise<Document>;
-  updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document>;
+  updateDocument(id: string, data: Partial<InsertDocument> & { activatedAt?: Date | null }): Promise<Document>;
+  updateDocumentIfStatus(id: string, status: DocumentStatus, data: Partial<InsertDocument> & { activatedAt?: Date | null }): Promise<Document | undefined>;
+
+  // Document version operations
+  getVersionsByDocumentId(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersionById(id: string): Promise<DocumentVersion | undefined>;
+  getLatestDocumentVersion(documentId: string): Promise<DocumentVersion | undefined>;
+  createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
+
+  // Drafting session operations
+  getDraftingSessionsByCompanyId(companyId: string): Promise<DraftingSession[]>;
+  getDraftingSessionById(id: string): Promise<DraftingSession | undefined>;
+  createDraftingSession(session: InsertDraftingSession): Promise<DraftingSession>;
+  updateDraftingSession(id: string, data: Partial<InsertDraftingSession>): Promise<DraftingSession>;
+
+  // Activation hook operations
+  getActivationHookRuns(documentId: string): Promise<ActivationHookRun[]>;
+  claimActivationHookRun(documentId: string, hookName: string, staleBefore: Date): Promise<ActivationHookRun | undefined>;
+  updateActivationHookRun(id: string, data: Partial<InsertActivationHookRun>): Promise<ActivationHookRun>;
 
   // Document signature operations
   getSignaturesByDocumentId(documentId: string): Promise<DocumentSignature[]>;
-  getSignatureByToken(token: string): Promise<DocumentSignature | undefined>;
+  getSignatureById(id: string): Promise<DocumentSignature | undefined>;
+  getSignatureByTokenHash(tokenHash: string): Promise<DocumentSignature | undefined>;
+  getOpenSignatures(): Promise<DocumentSignature[]>;
+  getSignaturesBySignerId(signerId: string): Promise<DocumentSignature[]>;
   createSignature(signature: InsertDocumentSignature): Promise<DocumentSignature>;
-  updateSignature(id: string, data: Partial<InsertDocumentSignature>): Promise<DocumentSignature>;
+  updateSignature(id: string, data: Partial<InsertDocumentSignature> & { signedAt?: Date | null; declinedAt?: Date | null }): Promise<DocumentSignature>;
+  updateSignatureIfSent(id: string, data: Partial<InsertDocumentSignature> & { signedAt?: Date | null; declinedAt?: Date | null }): Promise<DocumentSignature | undefined>;
+  voidSignaturesByDocumentId(documentId: string): Promise<DocumentSignature[]>;
+  getSignaturesByPacketId(packetId: string): Promise<DocumentSignature[]>;
+  getSignaturesByHostSessionId(sessionId: string): Promise<DocumentSignature[]>;
+
+  // Signature audit operations (events are append-only)
+  getSignatureEventsByDocumentId(documentId: string): Promise<SignatureEvent[]>;
+  createSignatureEvent(event: InsertSignatureEvent): Promise<SignatureEvent>;
+  getCertificateById(id: string): Promise<DocumentCertificate | undefined>;
+  getCertificateByDocumentId(documentId: string): Promise<DocumentCertificate | undefined>;
+  createCertificate(certificate: InsertDocumentCertificate): Promise<DocumentCertificate>;
+
+  // Signature packet operations
+  getPacketsByCompanyId(companyId: string): Promise<SignaturePacket[]>;
+  getPacketById(id: string): Promise<SignaturePacket | undefined>;
+  createPacket(packet: InsertSignaturePacket): Promise<SignaturePacket>;
+  updatePacket(id: string, data: Partial<InsertSignaturePacket> & { completedAt?: Date | null }): Promise<SignaturePacket>;
+  completePacket(id: string): Promise<SignaturePacket | undefined>;
+  getPacketSigners(packetId: string): Promise<PacketSigner[]>;
+  getPacketSignerByTokenHash(tokenHash: string): Promise<PacketSigner | undefined>;
+  createPacketSigner(signer: InsertPacketSigner): Promise<PacketSigner>;
+  updatePacketSigner(id: string, data: Partial<InsertPacketSigner>): Promise<PacketSigner>;
+
+  // In-person signing operations
+  getHostSessionById(id: string): Promise<HostSigningSession | undefined>;
+  getActiveHostSessionByDocumentId(documentId: string): Promise<HostSigningSession | undefined>;
+  createHostSession(session: InsertHostSigningSession): Promise<HostSigningSession>;
+  updateHostSession(id: string, data: Partial<InsertHostSigningSession> & { endedAt?: Date | null }): Promise<HostSigningSession>;
+  getLatestSigningCode(sessionId: string, signatureId: string): Promise<SigningCode | undefined>;
+  createSigningCode(code: InsertSigningCode): Promise<SigningCode>;
+  updateSigningCode(id: string, data: Partial<InsertSigningCode> & { verifiedAt?: Date | null; usedAt?: Date | null }): Promise<SigningCode>;
+
+  // Document comment operations
+  getCommentsByDocumentId(documentId: string): Promise<DocumentComment[]>;
+  getCommentById(id: string): Promise<DocumentComment | undefined>;
+  createComment(comment: InsertDocumentComment): Promise<DocumentComment>;
+  resolveComment(id: string): Promise<DocumentComment>;
 
   // Task operations
   getTasksByCompanyId(companyId: string): Promise<Task[]>;
@@ -78,12 +233,44 @@ export interface IStorage {
   updateTask(id: string, data: Partial<InsertTask>): Promise<Task>;
 
   // Cap table operations
-  getCapTableByCompanyId(companyId: string): Promise<CapTableEntry[]>;
-  createCapTableEntry(entry: InsertCapTableEntry): Promise<CapTableEntry>;
+  getLegacyCapTableByCompanyId(companyId: string): Promise<CapTableEntry[]>;
+  getShareClassesByCompanyId(companyId: string): Promise<ShareClass[]>;
+  getShareClassById(id: string): Promise<ShareClass | undefined>;
+  createShareClass(shareClass: InsertShareClass): Promise<ShareClass>;
+  updateShareClass(id: string, data: Partial<InsertShareClass>): Promise<ShareClass>;
+  getEquityEventsByCompanyId(companyId: string): Promise<EquityEvent[]>;
+  getEquityEventById(id: string): Promise<EquityEvent | undefined>;
+  createEquityEvent(event: InsertEquityEvent): Promise<EquityEvent>;
+  importLegacyCapTable(data: {
+    common: InsertShareClass;
+    pool: InsertShareClass | null;
+    issuances: Omit<InsertEquityEvent, 'shareClassId'>[];
+  }): Promise<boolean>;
+
+  // 83(b) election operations
+  getElections83bByCompanyId(companyId: string): Promise<Election83b[]>;
+  getElection83bById(id: string): Promise<Election83b | undefined>;
+  getElection83bByEquityEventId(equityEventId: string): Promise<Election83b | undefined>;
+  getPendingElections83b(): Promise<Election83b[]>;
+  createElection83b(election: InsertElection83b): Promise<Election83b>;
+  updateElection83b(id: string, data: Partial<InsertElection83b>): Promise<Election83b>;
+
+  // Round scenario operations
+  getRoundScenariosByCompanyId(companyId: string): Promise<RoundScenario[]>;
+  createRoundScenario(scenario: InsertRoundScenario): Promise<RoundScenario>;
 
   // Chat operations
   getChatMessagesByCompanyId(companyId: string): Promise<ChatMessage[]>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+
+  // Job operations
+  enqueueJob(job: InsertJob): Promise<Job | undefined>;
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: string, data: Partial<InsertJob> & { lockedAt?: Date | null; completedAt?: Date | null }): Promise<Job>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
+  getJobById(id: string): Promise<Job | undefined>;
+  getRecentJobs(limit: number, status?: JobStatus): Promise<Job[]>;
+  getJobCounts(): Promise<Record<JobStatus, number>>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -118,6 +305,15 @@ export class DatabaseStorage implements IStorage {
     return company;
   }
 
+  async getCompanyById(id: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.id, id));
+    return company;
+  }
+
+  async getAllCompanies(): Promise<Company[]> {
+    return await db.select().from(companies).orderBy(companies.createdAt);
+  }
+
   async createCompany(companyData: InsertCompany): Promise<Company> {
     const [company] = await db.insert(companies).values(companyData).returning();
     return company;
@@ -179,6 +375,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(founders.createdAt));
   }
 
+  async getFounderById(id: string): Promise<Founder | undefined> {
+    const [founder] = await db.select().from(founders).where(eq(founders.id, id));
+    return founder;
+  }
+
   async createFounder(founderData: InsertFounder): Promise<Founder> {
     const [founder] = await db.insert(founders).values(founderData).returning();
     return founder;
@@ -193,6 +394,163 @@ export class DatabaseStorage implements IStorage {
     return founder;
   }
 
+  async getVestingGrantsByCompanyId(companyId: string): Promise<VestingGrant[]> {
+    const rows = await db
+      .select({ grant: vestingGrants })
+      .from(vestingGrants)
+      .innerJoin(founders, eq(vestingGrants.founderId, founders.id))
+      .where(eq(founders.companyId, companyId));
+    return rows.map(row => row.grant);
+  }
+
+  async getVestingGrantByFounderId(founderId: string): Promise<VestingGrant | undefined> {
+    const [grant] = await db.select().from(vestingGrants).where(eq(vestingGrants.founderId, founderId));
+    return grant;
+  }
+
+  // Replaces the founder's schedule if one is already recorded
+  async upsertVestingGrant(grantData: InsertVestingGrant): Promise<VestingGrant> {
+    const { founderId, ...schedule } = grantData;
+    const [grant] = await db
+      .insert(vestingGrants)
+      .values(grantData)
+      .onConflictDoUpdate({
+        target: vestingGrants.founderId,
+        set: { ...schedule, updatedAt: new Date() },
+      })
+      .returning();
+    return grant;
+  }
+
+  // Founder portal link operations
+  async getFounderPortalLinkByTokenHash(tokenHash: string): Promise<FounderPortalLink | undefined> {
+    const [link] = await db.select().from(founderPortalLinks).where(eq(founderPortalLinks.tokenHash, tokenHash));
+    return link;
+  }
+
+  // A new link replaces the founder's previous one
+  async upsertFounderPortalLink(linkData: InsertFounderPortalLink): Promise<FounderPortalLink> {
+    const { founderId, ...token } = linkData;
+    const [link] = await db
+      .insert(founderPortalLinks)
+      .values(linkData)
+      .onConflictDoUpdate({
+        target: founderPortalLinks.founderId,
+        set: { ...token, lastUsedAt: null },
+      })
+      .returning();
+    return link;
+  }
+
+  async touchFounderPortalLink(id: string): Promise<void> {
+    await db.update(founderPortalLinks).set({ lastUsedAt: new Date() }).where(eq(founderPortalLinks.id, id));
+  }
+
+  // Founder departure operations
+  async getFounderDeparturesByCompanyId(companyId: string): Promise<FounderDeparture[]> {
+    return await db
+      .select()
+      .from(founderDepartures)
+      .where(eq(founderDepartures.companyId, companyId))
+      .orderBy(desc(founderDepartures.createdAt));
+  }
+
+  async getFounderDepartureByFounderId(founderId: string): Promise<FounderDeparture | undefined> {
+    const [departure] = await db.select().from(founderDepartures).where(eq(founderDepartures.founderId, founderId));
+    return departure;
+  }
+
+  // Either of the two documents drafted for the departure
+  async getFounderDepartureByDocumentId(documentId: string): Promise<FounderDeparture | undefined> {
+    const [departure] = await db
+      .select()
+      .from(founderDepartures)
+      .where(or(eq(founderDepartures.noticeDocumentId, documentId), eq(founderDepartures.agreementDocumentId, documentId)));
+    return departure;
+  }
+
+  // The departure and both of its documents are created together or not at all
+  async createFounderDepartureWithDocuments(data: {
+    departure: Omit<InsertFounderDeparture, 'noticeDocumentId' | 'agreementDocumentId'>;
+    notice: InsertDocument;
+    agreement: InsertDocument;
+  }): Promise<{ departure: FounderDeparture; notice: Document; agreement: Document }> {
+    return await db.transaction(async (tx) => {
+      const [notice] = await tx.insert(documents).values(data.notice).returning();
+      const [agreement] = await tx.insert(documents).values(data.agreement).returning();
+      const [departure] = await tx.insert(founderDepartures).values({
+        ...data.departure,
+        noticeDocumentId: notice.id,
+        agreementDocumentId: agreement.id,
+      }).returning();
+      return { departure, notice, agreement };
+    });
+  }
+
+  async updateFounderDeparture(id: string, data: Partial<InsertFounderDeparture>): Promise<FounderDeparture> {
+    const [departure] = await db
+      .update(founderDepartures)
+      .set(data)
+      .where(eq(founderDepartures.id, id))
+      .returning();
+    return departure;
+  }
+
+  // Compare-and-set on status; undefined if another caller already moved the departure on
+  async updateFounderDepartureIfStatus(id: string, status: FounderDepartureStatus, data: Partial<InsertFounderDeparture>): Promise<FounderDeparture | undefined> {
+    const [departure] = await db
+      .update(founderDepartures)
+      .set(data)
+      .where(and(eq(founderDepartures.id, id), eq(founderDepartures.status, status)))
+      .returning();
+    return departure;
+  }
+
+  // Identity verification operations
+  async getIdentityVerificationsByCompanyId(companyId: string): Promise<IdentityVerification[]> {
+    return await db
+      .select()
+      .from(identityVerifications)
+      .where(eq(identityVerifications.companyId, companyId))
+      .orderBy(desc(identityVerifications.createdAt));
+  }
+
+  async getIdentityVerificationById(id: string): Promise<IdentityVerification | undefined> {
+    const [verification] = await db.select().from(identityVerifications).where(eq(identityVerifications.id, id));
+    return verification;
+  }
+
+  async getIdentityVerificationByTokenHash(tokenHash: string): Promise<IdentityVerification | undefined> {
+    const [verification] = await db.select().from(identityVerifications).where(eq(identityVerifications.tokenHash, tokenHash));
+    return verification;
+  }
+
+  // Decided verifications whose ID file is still on disk
+  async getIdentityFilesReviewedBefore(cutoff: Date): Promise<IdentityVerification[]> {
+    return await db
+      .select()
+      .from(identityVerifications)
+      .where(and(
+        isNotNull(identityVerifications.fileKey),
+        isNotNull(identityVerifications.reviewedAt),
+        lt(identityVerifications.reviewedAt, cutoff)
+      ));
+  }
+
+  async createIdentityVerification(verificationData: InsertIdentityVerification): Promise<IdentityVerification> {
+    const [verification] = await db.insert(identityVerifications).values(verificationData).returning();
+    return verification;
+  }
+
+  async updateIdentityVerification(id: string, data: Partial<InsertIdentityVerification>): Promise<IdentityVerification> {
+    const [verification] = await db
+      .update(identityVerifications)
+      .set(data)
+      .where(eq(identityVerifications.id, id))
+      .returning();
+    return verification;
+  }
+
   // Investor operations
   async getInvestorsByCompanyId(companyId: string): Promise<Investor[]> {
     return await db
@@ -202,6 +560,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(investors.createdAt));
   }
 
+  async getInvestorBySafeDocumentId(documentId: string): Promise<Investor | undefined> {
+    const [investor] = await db
+      .select()
+      .from(investors)
+      .where(eq(investors.safeDocumentId, documentId));
+    return investor;
+  }
+
   async createInvestor(investorData: InsertInvestor): Promise<Investor> {
     const [investor] = await db.insert(investors).values(investorData).returning();
     return investor;
@@ -216,6 +582,25 @@ export class DatabaseStorage implements IStorage {
     return investor;
   }
 
+  async getSafeTermsByCompanyId(companyId: string): Promise<SafeTerms[]> {
+    const rows = await db
+      .select({ terms: safeTerms })
+      .from(safeTerms)
+      .innerJoin(investors, eq(safeTerms.investorId, investors.id))
+      .where(eq(investors.companyId, companyId));
+    return rows.map(row => row.terms);
+  }
+
+  async getSafeTermsByInvestorId(investorId: string): Promise<SafeTerms | undefined> {
+    const [terms] = await db.select().from(safeTerms).where(eq(safeTerms.investorId, investorId));
+    return terms;
+  }
+
+  async createSafeTerms(termsData: InsertSafeTerms): Promise<SafeTerms> {
+    const [terms] = await db.insert(safeTerms).values(termsData).returning();
+    return terms;
+  }
+
   // Document operations
   async getDocumentsByCompanyId(companyId: string): Promise<Document[]> {
     return await db
@@ -235,7 +620,7 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
-  async updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document> {
+  async updateDocument(id: string, data: Partial<InsertDocument> & { activatedAt?: Date | null }): Promise<Document> {
     const [document] = await db
       .update(documents)
       .set({ ...data, updatedAt: new Date() })
@@ -244,29 +629,166 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
+  // Compare-and-set on status, so only one of several concurrent callers makes a given move
+  async updateDocumentIfStatus(id: string, status: DocumentStatus, data: Partial<InsertDocument> & { activatedAt?: Date | null }): Promise<Document | undefined> {
+    const current = status === 'drafting'
+      ? or(eq(documents.status, status), isNull(documents.status))
+      : eq(documents.status, status);
+    const [document] = await db
+      .update(documents)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(documents.id, id), current))
+      .returning();
+    return document;
+  }
+
+  // Document version operations
+  async getVersionsByDocumentId(documentId: string): Promise<DocumentVersion[]> {
+    return await db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.versionNumber));
+  }
+
+  async getDocumentVersionById(id: string): Promise<DocumentVersion | undefined> {
+    const [version] = await db.select().from(documentVersions).where(eq(documentVersions.id, id));
+    return version;
+  }
+
+  async getLatestDocumentVersion(documentId: string): Promise<DocumentVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.versionNumber))
+      .limit(1);
+    return version;
+  }
+
+  async createDocumentVersion(versionData: InsertDocumentVersion): Promise<DocumentVersion> {
+    const [version] = await db.insert(documentVersions).values(versionData).returning();
+    return version;
+  }
+
+  // Drafting session operations
+  async getDraftingSessionsByCompanyId(companyId: string): Promise<DraftingSession[]> {
+    return await db
+      .select()
+      .from(draftingSessions)
+      .where(eq(draftingSessions.companyId, companyId))
+      .orderBy(desc(draftingSessions.updatedAt));
+  }
+
+  async getDraftingSessionById(id: string): Promise<DraftingSession | undefined> {
+    const [session] = await db.select().from(draftingSessions).where(eq(draftingSessions.id, id));
+    return session;
+  }
+
+  async createDraftingSession(sessionData: InsertDraftingSession): Promise<DraftingSession> {
+    const [session] = await db.insert(draftingSessions).values(sessionData).returning();
+    return session;
+  }
+
+  async updateDraftingSession(id: string, data: Partial<InsertDraftingSession>): Promise<DraftingSession> {
+    const [session] = await db
+      .update(draftingSessions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(draftingSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // Activation hook operations
+  async getActivationHookRuns(documentId: string): Promise<ActivationHookRun[]> {
+    return await db
+      .select()
+      .from(activationHookRuns)
+      .where(eq(activationHookRuns.documentId, documentId))
+      .orderBy(activationHookRuns.createdAt);
+  }
+
+  // Atomically take the (document, hook) run: a new row, a failed run being retried, or a run
+  // whose worker went quiet before staleBefore. Undefined means it completed or is running elsewhere.
+  async claimActivationHookRun(documentId: string, hookName: string, staleBefore: Date): Promise<ActivationHookRun | undefined> {
+    const [run] = await db
+      .insert(activationHookRuns)
+      .values({ documentId, hookName, status: 'running' })
+      .onConflictDoUpdate({
+        target: [activationHookRuns.documentId, activationHookRuns.hookName],
+        set: {
+          status: 'running',
+          error: null,
+          attempts: sql`${activationHookRuns.attempts} + 1`,
+          updatedAt: new Date(),
+        },
+        setWhere: or(
+          eq(activationHookRuns.status, 'failed'),
+          and(eq(activationHookRuns.status, 'running'), lt(activationHookRuns.updatedAt, staleBefore))
+        ),
+      })
+      .returning();
+    return run;
+  }
+
+  async updateActivationHookRun(id: string, data: Partial<InsertActivationHookRun>): Promise<ActivationHookRun> {
+    const [run] = await db
+      .update(activationHookRuns)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(activationHookRuns.id, id))
+      .returning();
+    return run;
+  }
+
   // Document signature operations
+  // Only the current signing round; voided rows from earlier rounds are left out
   async getSignaturesByDocumentId(documentId: string): Promise<DocumentSignature[]> {
     return await db
       .select()
       .from(documentSignatures)
-      .where(eq(documentSignatures.documentId, documentId))
+      .where(and(eq(documentSignatures.documentId, documentId), isNull(documentSignatures.voidedAt)))
       .orderBy(desc(documentSignatures.createdAt));
   }
 
-  async getSignatureByToken(token: string): Promise<DocumentSignature | undefined> {
+  async getSignatureById(id: string): Promise<DocumentSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(documentSignatures)
+      .where(eq(documentSignatures.id, id));
+    return signature;
+  }
+
+  async getSignatureByTokenHash(tokenHash: string): Promise<DocumentSignature | undefined> {
     const [signature] = await db
       .select()
       .from(documentSignatures)
-      .where(eq(documentSignatures.magicToken, token));
+      .where(eq(documentSignatures.tokenHash, tokenHash));
     return signature;
   }
 
+  // Requests that were emailed and are still waiting on the signer
+  async getOpenSignatures(): Promise<DocumentSignature[]> {
+    return await db
+      .select()
+      .from(documentSignatures)
+      .where(and(eq(documentSignatures.status, 'sent'), isNull(documentSignatures.revokedAt)))
+      .orderBy(documentSignatures.createdAt);
+  }
+
+  async getSignaturesBySignerId(signerId: string): Promise<DocumentSignature[]> {
+    return await db
+      .select()
+      .from(documentSignatures)
+      .where(eq(documentSignatures.signerId, signerId))
+      .orderBy(documentSignatures.createdAt);
+  }
+
   async createSignature(signatureData: InsertDocumentSignature): Promise<DocumentSignature> {
     const [signature] = await db.insert(documentSignatures).values(signatureData).returning();
     return signature;
   }
 
-  async updateSignature(id: string, data: Partial<InsertDocumentSignature>): Promise<DocumentSignature> {
+  async updateSignature(id: string, data: Partial<InsertDocumentSignature> & { signedAt?: Date | null; declinedAt?: Date | null }): Promise<DocumentSignature> {
     const [signature] = await db
       .update(documentSignatures)
       .set(data)
@@ -275,6 +797,232 @@ export class DatabaseStorage implements IStorage {
     return signature;
   }
 
+  // Only a live request that is out for signature can be acted on; undefined if another request got there first
+  async updateSignatureIfSent(id: string, data: Partial<InsertDocumentSignature> & { signedAt?: Date | null; declinedAt?: Date | null }): Promise<DocumentSignature | undefined> {
+    const [signature] = await db
+      .update(documentSignatures)
+      .set(data)
+      .where(and(
+        eq(documentSignatures.id, id),
+        eq(documentSignatures.status, 'sent'),
+        isNull(documentSignatures.voidedAt)
+      ))
+      .returning();
+    return signature;
+  }
+
+  async voidSignaturesByDocumentId(documentId: string): Promise<DocumentSignature[]> {
+    return await db
+      .update(documentSignatures)
+      .set({ voidedAt: new Date() })
+      .where(and(eq(documentSignatures.documentId, documentId), isNull(documentSignatures.voidedAt)))
+      .returning();
+  }
+
+  // Includes voided rows so a declined packet still lists the documents it covered
+  async getSignaturesByPacketId(packetId: string): Promise<DocumentSignature[]> {
+    return await db
+      .select()
+      .from(documentSignatures)
+      .where(eq(documentSignatures.packetId, packetId))
+      .orderBy(documentSignatures.createdAt);
+  }
+
+  async getSignaturesByHostSessionId(sessionId: string): Promise<DocumentSignature[]> {
+    return await db
+      .select()
+      .from(documentSignatures)
+      .where(and(eq(documentSignatures.hostSessionId, sessionId), isNull(documentSignatures.voidedAt)))
+      .orderBy(documentSignatures.signingOrder, documentSignatures.createdAt);
+  }
+
+  // Signature audit operations
+  async getSignatureEventsByDocumentId(documentId: string): Promise<SignatureEvent[]> {
+    return await db
+      .select()
+      .from(signatureEvents)
+      .where(eq(signatureEvents.documentId, documentId))
+      .orderBy(signatureEvents.createdAt);
+  }
+
+  async createSignatureEvent(event: InsertSignatureEvent): Promise<SignatureEvent> {
+    const [created] = await db.insert(signatureEvents).values(event).returning();
+    return created;
+  }
+
+  async getCertificateById(id: string): Promise<DocumentCertificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(documentCertificates)
+      .where(eq(documentCertificates.id, id));
+    return certificate;
+  }
+
+  async getCertificateByDocumentId(documentId: string): Promise<DocumentCertificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(documentCertificates)
+      .where(eq(documentCertificates.documentId, documentId));
+    return certificate;
+  }
+
+  // A document only ever gets one certificate; re-issuing returns the original
+  async createCertificate(certificate: InsertDocumentCertificate): Promise<DocumentCertificate> {
+    const [created] = await db
+      .insert(documentCertificates)
+      .values(certificate)
+      .onConflictDoNothing({ target: documentCertificates.documentId })
+      .returning();
+    return created || (await this.getCertificateByDocumentId(certificate.documentId))!;
+  }
+
+  // Signature packet operations
+  async getPacketsByCompanyId(companyId: string): Promise<SignaturePacket[]> {
+    return await db
+      .select()
+      .from(signaturePackets)
+      .where(eq(signaturePackets.companyId, companyId))
+      .orderBy(desc(signaturePackets.createdAt));
+  }
+
+  async getPacketById(id: string): Promise<SignaturePacket | undefined> {
+    const [packet] = await db.select().from(signaturePackets).where(eq(signaturePackets.id, id));
+    return packet;
+  }
+
+  async createPacket(packetData: InsertSignaturePacket): Promise<SignaturePacket> {
+    const [packet] = await db.insert(signaturePackets).values(packetData).returning();
+    return packet;
+  }
+
+  async updatePacket(id: string, data: Partial<InsertSignaturePacket> & { completedAt?: Date | null }): Promise<SignaturePacket> {
+    const [packet] = await db
+      .update(signaturePackets)
+      .set(data)
+      .where(eq(signaturePackets.id, id))
+      .returning();
+    return packet;
+  }
+
+  // Only the first caller to finish an open packet gets it back, so completion happens once
+  async completePacket(id: string): Promise<SignaturePacket | undefined> {
+    const [packet] = await db
+      .update(signaturePackets)
+      .set({ status: 'completed', completedAt: new Date() })
+      .where(and(eq(signaturePackets.id, id), eq(signaturePackets.status, 'signing')))
+      .returning();
+    return packet;
+  }
+
+  async getPacketSigners(packetId: string): Promise<PacketSigner[]> {
+    return await db
+      .select()
+      .from(packetSigners)
+      .where(eq(packetSigners.packetId, packetId))
+      .orderBy(packetSigners.createdAt);
+  }
+
+  async getPacketSignerByTokenHash(tokenHash: string): Promise<PacketSigner | undefined> {
+    const [signer] = await db.select().from(packetSigners).where(eq(packetSigners.tokenHash, tokenHash));
+    return signer;
+  }
+
+  async createPacketSigner(signerData: InsertPacketSigner): Promise<PacketSigner> {
+    const [signer] = await db.insert(packetSigners).values(signerData).returning();
+    return signer;
+  }
+
+  async updatePacketSigner(id: string, data: Partial<InsertPacketSigner>): Promise<PacketSigner> {
+    const [signer] = await db
+      .update(packetSigners)
+      .set(data)
+      .where(eq(packetSigners.id, id))
+      .returning();
+    return signer;
+  }
+
+  // In-person signing operations
+  async getHostSessionById(id: string): Promise<HostSigningSession | undefined> {
+    const [session] = await db.select().from(hostSigningSessions).where(eq(hostSigningSessions.id, id));
+    return session;
+  }
+
+  async getActiveHostSessionByDocumentId(documentId: string): Promise<HostSigningSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(hostSigningSessions)
+      .where(and(eq(hostSigningSessions.documentId, documentId), eq(hostSigningSessions.status, 'active')))
+      .orderBy(desc(hostSigningSessions.createdAt))
+      .limit(1);
+    return session;
+  }
+
+  async createHostSession(sessionData: InsertHostSigningSession): Promise<HostSigningSession> {
+    const [session] = await db.insert(hostSigningSessions).values(sessionData).returning();
+    return session;
+  }
+
+  async updateHostSession(id: string, data: Partial<InsertHostSigningSession> & { endedAt?: Date | null }): Promise<HostSigningSession> {
+    const [session] = await db
+      .update(hostSigningSessions)
+      .set(data)
+      .where(eq(hostSigningSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async getLatestSigningCode(sessionId: string, signatureId: string): Promise<SigningCode | undefined> {
+    const [code] = await db
+      .select()
+      .from(signingCodes)
+      .where(and(eq(signingCodes.sessionId, sessionId), eq(signingCodes.signatureId, signatureId)))
+      .orderBy(desc(signingCodes.createdAt))
+      .limit(1);
+    return code;
+  }
+
+  async createSigningCode(codeData: InsertSigningCode): Promise<SigningCode> {
+    const [code] = await db.insert(signingCodes).values(codeData).returning();
+    return code;
+  }
+
+  async updateSigningCode(id: string, data: Partial<InsertSigningCode> & { verifiedAt?: Date | null; usedAt?: Date | null }): Promise<SigningCode> {
+    const [code] = await db
+      .update(signingCodes)
+      .set(data)
+      .where(eq(signingCodes.id, id))
+      .returning();
+    return code;
+  }
+
+  // Document comment operations
+  async getCommentsByDocumentId(documentId: string): Promise<DocumentComment[]> {
+    return await db
+      .select()
+      .from(documentComments)
+      .where(eq(documentComments.documentId, documentId))
+      .orderBy(desc(documentComments.createdAt));
+  }
+
+  async getCommentById(id: string): Promise<DocumentComment | undefined> {
+    const [comment] = await db.select().from(documentComments).where(eq(documentComments.id, id));
+    return comment;
+  }
+
+  async createComment(commentData: InsertDocumentComment): Promise<DocumentComment> {
+    const [comment] = await db.insert(documentComments).values(commentData).returning();
+    return comment;
+  }
+
+  async resolveComment(id: string): Promise<DocumentComment> {
+    const [comment] = await db
+      .update(documentComments)
+      .set({ resolvedAt: new Date() })
+      .where(eq(documentComments.id, id))
+      .returning();
+    return comment;
+  }
+
   // Task operations
   async getTasksByCompanyId(companyId: string): Promise<Task[]> {
     return await db
@@ -299,17 +1047,137 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Cap table operations
-  async getCapTableByCompanyId(companyId: string): Promise<CapTableEntry[]> {
+  async getLegacyCapTableByCompanyId(companyId: string): Promise<CapTableEntry[]> {
     return await db
       .select()
       .from(capTableEntries)
       .where(eq(capTableEntries.companyId, companyId))
-      .orderBy(desc(capTableEntries.createdAt));
+      .orderBy(capTableEntries.createdAt);
+  }
+
+  async getShareClassesByCompanyId(companyId: string): Promise<ShareClass[]> {
+    return await db
+      .select()
+      .from(shareClasses)
+      .where(eq(shareClasses.companyId, companyId))
+      .orderBy(shareClasses.createdAt);
+  }
+
+  async getShareClassById(id: string): Promise<ShareClass | undefined> {
+    const [shareClass] = await db.select().from(shareClasses).where(eq(shareClasses.id, id));
+    return shareClass;
+  }
+
+  async createShareClass(shareClassData: InsertShareClass): Promise<ShareClass> {
+    const [shareClass] = await db.insert(shareClasses).values(shareClassData).returning();
+    return shareClass;
+  }
+
+  async updateShareClass(id: string, data: Partial<InsertShareClass>): Promise<ShareClass> {
+    const [shareClass] = await db
+      .update(shareClasses)
+      .set(data)
+      .where(eq(shareClasses.id, id))
+      .returning();
+    return shareClass;
+  }
+
+  // Replay order: effective date, then the order events were recorded
+  async getEquityEventsByCompanyId(companyId: string): Promise<EquityEvent[]> {
+    return await db
+      .select()
+      .from(equityEvents)
+      .where(eq(equityEvents.companyId, companyId))
+      .orderBy(equityEvents.effectiveDate, equityEvents.createdAt);
+  }
+
+  async getEquityEventById(id: string): Promise<EquityEvent | undefined> {
+    const [event] = await db.select().from(equityEvents).where(eq(equityEvents.id, id));
+    return event;
+  }
+
+  async createEquityEvent(eventData: InsertEquityEvent): Promise<EquityEvent> {
+    const [event] = await db.insert(equityEvents).values(eventData).returning();
+    return event;
+  }
+
+  // All or nothing, and a no-op returning false if another request already imported the company
+  async importLegacyCapTable(data: {
+    common: InsertShareClass;
+    pool: InsertShareClass | null;
+    issuances: Omit<InsertEquityEvent, 'shareClassId'>[];
+  }): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [common] = await tx
+        .insert(shareClasses)
+        .values(data.common)
+        .onConflictDoNothing({ target: [shareClasses.companyId, shareClasses.name] })
+        .returning();
+      if (!common) return false;
+
+      if (data.pool) {
+        await tx.insert(shareClasses).values(data.pool).onConflictDoNothing({ target: [shareClasses.companyId, shareClasses.name] });
+      }
+      if (data.issuances.length > 0) {
+        await tx.insert(equityEvents).values(data.issuances.map(issuance => ({ ...issuance, shareClassId: common.id })));
+      }
+      return true;
+    });
+  }
+
+  // 83(b) election operations
+  async getElections83bByCompanyId(companyId: string): Promise<Election83b[]> {
+    return await db
+      .select()
+      .from(elections83b)
+      .where(eq(elections83b.companyId, companyId))
+      .orderBy(desc(elections83b.createdAt));
   }
 
-  async createCapTableEntry(entryData: InsertCapTableEntry): Promise<CapTableEntry> {
-    const [entry] = await db.insert(capTableEntries).values(entryData).returning();
-    return entry;
+  async getElection83bById(id: string): Promise<Election83b | undefined> {
+    const [election] = await db.select().from(elections83b).where(eq(elections83b.id, id));
+    return election;
+  }
+
+  async getElection83bByEquityEventId(equityEventId: string): Promise<Election83b | undefined> {
+    const [election] = await db.select().from(elections83b).where(eq(elections83b.equityEventId, equityEventId));
+    return election;
+  }
+
+  async getPendingElections83b(): Promise<Election83b[]> {
+    return await db
+      .select()
+      .from(elections83b)
+      .where(eq(elections83b.status, 'pending'))
+      .orderBy(elections83b.deadline);
+  }
+
+  async createElection83b(electionData: InsertElection83b): Promise<Election83b> {
+    const [election] = await db.insert(elections83b).values(electionData).returning();
+    return election;
+  }
+
+  async updateElection83b(id: string, data: Partial<InsertElection83b>): Promise<Election83b> {
+    const [election] = await db
+      .update(elections83b)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(elections83b.id, id))
+      .returning();
+    return election;
+  }
+
+  // Round scenario operations
+  async getRoundScenariosByCompanyId(companyId: string): Promise<RoundScenario[]> {
+    return await db
+      .select()
+      .from(roundScenarios)
+      .where(eq(roundScenarios.companyId, companyId))
+      .orderBy(desc(roundScenarios.createdAt));
+  }
+
+  async createRoundScenario(scenarioData: InsertRoundScenario): Promise<RoundScenario> {
+    const [scenario] = await db.insert(roundScenarios).values(scenarioData).returning();
+    return scenario;
   }
 
   // Chat operations
@@ -325,6 +1193,84 @@ export class DatabaseStorage implements IStorage {
     const [message] = await db.insert(chatMessages).values(messageData).returning();
     return message;
   }
+
+  // Job operations
+  // A job with a uniqueKey is only enqueued once; returns undefined when it already exists
+  async enqueueJob(jobData: InsertJob): Promise<Job | undefined> {
+    const [job] = await db
+      .insert(jobs)
+      .values(jobData)
+      .onConflictDoNothing({ target: jobs.uniqueKey })
+      .returning();
+    return job;
+  }
+
+  // Lock the oldest due job; SKIP LOCKED keeps two processes from taking the same row
+  async claimNextJob(): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, sql`(
+        select "id" from "jobs"
+        where "status" = 'pending' and "run_at" <= now()
+        order by "run_at"
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: string, data: Partial<InsertJob> & { lockedAt?: Date | null; completedAt?: Date | null }): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Jobs left running by a process that died go back in the queue
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    const released = await db
+      .update(jobs)
+      .set({ status: 'pending', lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return released.length;
+  }
+
+  async getJobById(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getRecentJobs(limit: number, status?: JobStatus): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(status ? eq(jobs.status, status) : undefined)
+      .orderBy(desc(jobs.updatedAt))
+      .limit(limit);
+  }
+
+  async getJobCounts(): Promise<Record<JobStatus, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)::int` })
+      .from(jobs)
+      .groupBy(jobs.status);
+
+    const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,35 @@
+// Clause splitting shared by the document viewer outline and the PDF renderer
+
+export interface DocumentClause {
+  id: string;
+  title: string;
+  text: string;
+}
+
+// Lines that start a new clause: "1. Purpose.", "Article 3 –", "ARTICLE II", "FIRST:", "Section 2."
+const CLAUSE_HEADING = /^(\d+\.\s|(article|section)\s+[\dIVX]+\b|(FIRST|SECOND|THIRD|FOURTH|FIFTH|SIXTH|SEVENTH|EIGHTH|NINTH|TENTH):)/i;
+
+function clauseTitle(line: string): string {
+  const numbered = /^(\d+\.\s+[^.]{1,60})\./.exec(line);
+  if (numbered) return numbered[1];
+  const labelled = /^((?:article|section)\s+[\dIVX]+\s*[–-]?\s*[^.]{0,50})/i.exec(line);
+  if (labelled) return labelled[1].trim();
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+// Split document content into clauses for the outline, keeping any preamble first
+export function splitClauses(content: string): DocumentClause[] {
+  const clauses: DocumentClause[] = [];
+  let current: DocumentClause = { id: "clause-0", title: "Preamble", text: "" };
+
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    if (CLAUSE_HEADING.test(line.trim())) {
+      if (current.text.trim()) clauses.push({ ...current, text: current.text.trim() });
+      current = { id: `clause-${clauses.length + 1}`, title: clauseTitle(line.trim()), text: "" };
+    }
+    current.text += `${line}\n`;
+  }
+  if (current.text.trim()) clauses.push({ ...current, text: current.text.trim() });
+
+  return clauses;
+}
@@ -10,6 +10,9 @@ import {
   varchar,
   boolean,
   pgEnum,
+  uniqueIndex,
+  date,
+  numeric,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -31,11 +34,33 @@ export const documentTypeEnum = pgEnum('document_type', [
   'certificate_incorporation',
   'bylaws',
   'board_consent',
+  'election_83b',
+  'repurchase_notice',
+  'separation_agreement',
 ]);
 export const documentStatusEnum = pgEnum('document_status', ['drafting', 'validating', 'signing', 'active']);
-export const signatureStatusEnum = pgEnum('signature_status', ['pending', 'sent', 'signed']);
-export const founderStatusEnum = pgEnum('founder_status', ['invited', 'pending_signature', 'active']);
+export const signatureStatusEnum = pgEnum('signature_status', ['pending', 'sent', 'signed', 'declined']);
+export const founderStatusEnum = pgEnum('founder_status', ['invited', 'pending_signature', 'active', 'departed']);
+export const documentVersionReasonEnum = pgEnum('document_version_reason', ['ai_draft', 'manual_edit', 'validation_fix', 'restore']);
+export const hookRunStatusEnum = pgEnum('hook_run_status', ['running', 'completed', 'failed']);
+export const draftingSessionStatusEnum = pgEnum('drafting_session_status', ['collecting', 'ready', 'drafted']);
+export const signatureEventTypeEnum = pgEnum('signature_event_type', ['sent', 'viewed', 'signed', 'declined', 'reminded', 'revoked', 'code_sent', 'verified']);
 export const taskStatusEnum = pgEnum('task_status', ['pending', 'in_progress', 'completed']);
+export const signaturePacketStatusEnum = pgEnum('signature_packet_status', ['signing', 'completed', 'declined']);
+export const hostSigningStatusEnum = pgEnum('host_signing_status', ['active', 'completed', 'cancelled']);
+export const documentCommentKindEnum = pgEnum('document_comment_kind', ['note', 'decline']);
+export const jobStatusEnum = pgEnum('job_status', ['pending', 'running', 'completed', 'failed']);
+export const safeTypeEnum = pgEnum('safe_type', ['post_money', 'pre_money']);
+export const shareClassKindEnum = pgEnum('share_class_kind', ['common', 'preferred', 'options']);
+export const equityEventTypeEnum = pgEnum('equity_event_type', ['issuance', 'transfer', 'cancellation', 'repurchase']);
+export const vestingCadenceEnum = pgEnum('vesting_cadence', ['monthly', 'quarterly']);
+export const vestingAccelerationEnum = pgEnum('vesting_acceleration', ['none', 'single_trigger', 'double_trigger']);
+export const election83bStatusEnum = pgEnum('election_83b_status', ['pending', 'mailed', 'missed']);
+export const departureReasonEnum = pgEnum('departure_reason', ['resignation', 'termination_without_cause', 'termination_for_cause']);
+export const departureStatusEnum = pgEnum('departure_status', ['in_progress', 'completed']);
+export const identityVerificationStatusEnum = pgEnum('identity_verification_status', ['requested', 'submitted', 'approved', 'rejected']);
+export const founderTermsResponseEnum = pgEnum('founder_terms_response', ['accepted', 'disputed']);
+export const identityDocumentKindEnum = pgEnum('identity_document_kind', ['passport', 'national_id', 'drivers_license']);
 
 // ============================================================================
 // AUTH TABLES (from Replit Auth blueprint)
@@ -91,6 +116,8 @@ export const companiesRelations = relations(companies, ({ one, many }) => ({
   documents: many(documents),
   tasks: many(tasks),
   capTableEntries: many(capTableEntries),
+  shareClasses: many(shareClasses),
+  equityEvents: many(equityEvents),
 }));
 
 export const insertCompanySchema = createInsertSchema(companies).omit({
@@ -116,6 +143,14 @@ export const founders = pgTable("founders", {
   equityPercentage: integer("equity_percentage"),
   status: founderStatusEnum("status").default('invited'),
   idUploaded: boolean("id_uploaded").default(false),
+  // Completed by the founder in the portal; firstName and lastName double as the legal name
+  address: text("address"),
+  taxResidency: varchar("tax_residency", { length: 100 }),
+  profileCompletedAt: timestamp("profile_completed_at"),
+  // The founder's answer to the equity percentage and role the owner entered
+  termsResponse: founderTermsResponseEnum("terms_response"),
+  termsDisputeNote: text("terms_dispute_note"),
+  termsRespondedAt: timestamp("terms_responded_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -127,6 +162,7 @@ export const foundersRelations = relations(founders, ({ one, many }) => ({
   }),
   signatures: many(documentSignatures),
   tasks: many(tasks),
+  vestingGrant: one(vestingGrants),
 }));
 
 export const insertFounderSchema = createInsertSchema(founders).omit({
@@ -137,6 +173,286 @@ export const insertFounderSchema = createInsertSchema(founders).omit({
 
 export type InsertFounder = z.infer<typeof insertFounderSchema>;
 export type Founder = typeof founders.$inferSelect;
+export type FounderTermsResponse = typeof founderTermsResponseEnum.enumValues[number];
+
+// The magic link that opens a founder's portal; one live link per founder, replaced on resend
+export const founderPortalLinks = pgTable("founder_portal_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  founderId: varchar("founder_id").notNull().unique().references(() => founders.id, { onDelete: 'cascade' }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the emailed token
+  tokenExpiresAt: timestamp("token_expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertFounderPortalLinkSchema = createInsertSchema(founderPortalLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What the founder fills in on the portal
+export const founderProfileSchema = z.object({
+  firstName: z.string().trim().min(1, "Enter your legal first name").max(255),
+  lastName: z.string().trim().min(1, "Enter your legal last name").max(255),
+  address: z.string().trim().min(1, "Enter your residential address").max(1000),
+  taxResidency: z.string().trim().min(1, "Enter the country where you pay tax").max(100),
+});
+
+export const founderTermsResponseSchema = z.object({
+  response: z.enum(founderTermsResponseEnum.enumValues),
+  note: z.string().trim().max(1000).optional(),
+}).refine(data => data.response === 'accepted' || !!data.note, {
+  message: "Tell the company what should change",
+  path: ["note"],
+});
+
+export type InsertFounderPortalLink = z.infer<typeof insertFounderPortalLinkSchema>;
+export type FounderPortalLink = typeof founderPortalLinks.$inferSelect;
+export type FounderProfileInput = z.infer<typeof founderProfileSchema>;
+export type FounderTermsResponseInput = z.infer<typeof founderTermsResponseSchema>;
+
+// A document waiting on the founder. Packet and in-person signatures are signed
+// through their own flow, so only emailed requests can be opened from the portal.
+export interface FounderPortalSignature {
+  id: string;
+  documentId: string;
+  documentTitle: string;
+  status: 'pending' | 'sent';
+  via: 'email' | 'packet' | 'in_person';
+  canOpen: boolean;
+}
+
+// Everything the portal shows; deliberately a subset of the founder record
+export interface FounderPortalView {
+  companyName: string;
+  founder: Pick<Founder,
+    'email' | 'firstName' | 'lastName' | 'address' | 'taxResidency' | 'role' | 'equityPercentage' |
+    'status' | 'idUploaded' | 'profileCompletedAt' | 'termsResponse' | 'termsDisputeNote'>;
+  identity: { status: IdentityVerificationStatus; reviewNote: string | null } | null;
+  signatures: FounderPortalSignature[];
+  expiresAt: string;
+}
+
+// A founder's restricted stock vesting schedule; one grant per founder
+export const vestingGrants = pgTable("vesting_grants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  founderId: varchar("founder_id").notNull().unique().references(() => founders.id, { onDelete: 'cascade' }),
+  totalShares: integer("total_shares").notNull(),
+  startDate: date("start_date").notNull(), // Vesting commencement date
+  cliffMonths: integer("cliff_months").notNull().default(12),
+  durationMonths: integer("duration_months").notNull().default(48),
+  cadence: vestingCadenceEnum("cadence").notNull().default('monthly'),
+  acceleration: vestingAccelerationEnum("acceleration").notNull().default('none'),
+  accelerationPercent: integer("acceleration_percent").notNull().default(100), // Share of unvested shares that accelerate
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const vestingGrantsRelations = relations(vestingGrants, ({ one }) => ({
+  founder: one(founders, {
+    fields: [vestingGrants.founderId],
+    references: [founders.id],
+  }),
+}));
+
+export const insertVestingGrantSchema = createInsertSchema(vestingGrants).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Round-tripping through Date rejects dates like 2024-02-30 that would otherwise roll over
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date")
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Use a real calendar date");
+
+// A schedule as entered on the Founders page
+export const vestingGrantInputSchema = z.object({
+  totalShares: z.number().int().positive("Total shares must be greater than 0"),
+  startDate: isoDate,
+  cliffMonths: z.number().int().min(0).max(60),
+  durationMonths: z.number().int().min(1, "Vesting must last at least a month").max(120),
+  cadence: z.enum(vestingCadenceEnum.enumValues),
+  acceleration: z.enum(vestingAccelerationEnum.enumValues),
+  accelerationPercent: z.number().int().min(1).max(100).default(100),
+}).refine(grant => grant.cliffMonths <= grant.durationMonths, {
+  message: "The cliff cannot be longer than the vesting period",
+  path: ['cliffMonths'],
+});
+
+// What-if dates for GET /api/founders/:id/vesting; acceleration only applies once its trigger dates are given
+export const vestingQuerySchema = z.object({
+  asOf: isoDate.optional(),
+  changeOfControlDate: isoDate.optional(),
+  terminationDate: isoDate.optional(),
+});
+
+export type InsertVestingGrant = z.infer<typeof insertVestingGrantSchema>;
+export type VestingGrant = typeof vestingGrants.$inferSelect;
+export type VestingGrantInput = z.infer<typeof vestingGrantInputSchema>;
+export type VestingQuery = z.infer<typeof vestingQuerySchema>;
+export type VestingCadence = typeof vestingCadenceEnum.enumValues[number];
+export type VestingAcceleration = typeof vestingAccelerationEnum.enumValues[number];
+
+export interface VestingTranche {
+  date: string;
+  shares: number;
+  cumulativeShares: number;
+}
+
+export interface VestingStatus {
+  grant: VestingGrant;
+  asOf: string;
+  vestedShares: number;
+  unvestedShares: number;
+  acceleratedShares: number;
+  cliffDate: string;
+  fullyVestedDate: string;
+  nextTranche: VestingTranche | null;
+  schedule: VestingTranche[]; // Every tranche on the regular schedule, ignoring acceleration
+}
+
+// A founder as listed on the Founders page
+export type FounderWithVesting = Founder & { vestingGrant: VestingGrant | null };
+
+// Offboarding a founder: unvested shares are bought back once the notice and separation agreement are active
+export const founderDepartures = pgTable("founder_departures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  founderId: varchar("founder_id").notNull().unique().references(() => founders.id, { onDelete: 'cascade' }),
+  departureDate: date("departure_date").notNull(),
+  reason: departureReasonEnum("reason").notNull(),
+  vestedShares: integer("vested_shares").notNull(),
+  unvestedShares: integer("unvested_shares").notNull(),
+  repurchaseShares: integer("repurchase_shares").notNull(), // Unvested shares the founder actually holds
+  shareClassId: varchar("share_class_id").references(() => shareClasses.id),
+  pricePerShare: numeric("price_per_share", { precision: 18, scale: 6 }),
+  reassignToFounderId: varchar("reassign_to_founder_id").references(() => founders.id, { onDelete: 'set null' }),
+  noticeDocumentId: varchar("notice_document_id").references(() => documents.id, { onDelete: 'set null' }),
+  agreementDocumentId: varchar("agreement_document_id").references(() => documents.id, { onDelete: 'set null' }),
+  repurchaseEventId: varchar("repurchase_event_id").references(() => equityEvents.id, { onDelete: 'set null' }),
+  status: departureStatusEnum("status").notNull().default('in_progress'),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const founderDeparturesRelations = relations(founderDepartures, ({ one }) => ({
+  company: one(companies, {
+    fields: [founderDepartures.companyId],
+    references: [companies.id],
+  }),
+  founder: one(founders, {
+    fields: [founderDepartures.founderId],
+    references: [founders.id],
+  }),
+}));
+
+export const insertFounderDepartureSchema = createInsertSchema(founderDepartures).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Started from the Founders page; the price defaults to what the founder originally paid
+export const founderDepartureInputSchema = z.object({
+  departureDate: isoDate,
+  reason: z.enum(departureReasonEnum.enumValues),
+  reassignToFounderId: z.string().optional(),
+  pricePerShare: z.string().regex(/^\d+(\.\d{1,6})?$/, "Enter a price like 0.0001").optional(),
+});
+
+export type DepartureReason = typeof departureReasonEnum.enumValues[number];
+export type FounderDepartureStatus = typeof departureStatusEnum.enumValues[number];
+export type InsertFounderDeparture = z.infer<typeof insertFounderDepartureSchema>;
+export type FounderDeparture = typeof founderDepartures.$inferSelect;
+export type FounderDepartureInput = z.infer<typeof founderDepartureInputSchema>;
+
+// A founder's government ID, uploaded through a magic link and approved by the owner.
+// The file itself lives encrypted in the file store and is deleted once the retention period ends.
+export const identityVerifications = pgTable("identity_verifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  founderId: varchar("founder_id").notNull().references(() => founders.id, { onDelete: 'cascade' }),
+  status: identityVerificationStatusEnum("status").notNull().default('requested'),
+  tokenHash: varchar("token_hash", { length: 64 }).unique(), // sha256 of the upload link's token
+  tokenExpiresAt: timestamp("token_expires_at"),
+  documentKind: identityDocumentKindEnum("document_kind"),
+  fileKey: varchar("file_key", { length: 255 }), // Null until uploaded and again once the file is purged
+  fileName: varchar("file_name", { length: 255 }),
+  mimeType: varchar("mime_type", { length: 100 }),
+  sizeBytes: integer("size_bytes"),
+  sha256: varchar("sha256", { length: 64 }),
+  providerResult: jsonb("provider_result").$type<IdentityCheckResult>(),
+  reviewNote: text("review_note"),
+  requestedBy: varchar("requested_by").references(() => users.id),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  submittedAt: timestamp("submitted_at"),
+  reviewedAt: timestamp("reviewed_at"),
+  fileDeletedAt: timestamp("file_deleted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_identity_verifications_company").on(table.companyId)]);
+
+export const identityVerificationsRelations = relations(identityVerifications, ({ one }) => ({
+  company: one(companies, {
+    fields: [identityVerifications.companyId],
+    references: [companies.id],
+  }),
+  founder: one(founders, {
+    fields: [identityVerifications.founderId],
+    references: [founders.id],
+  }),
+}));
+
+export const insertIdentityVerificationSchema = createInsertSchema(identityVerifications, {
+  providerResult: z.custom<IdentityCheckResult>().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Sent from the public upload page; the server checks the bytes, not just the declared type
+export const identityUploadSchema = z.object({
+  documentKind: z.enum(identityDocumentKindEnum.enumValues),
+  fileName: z.string().trim().min(1).max(255),
+  dataUrl: z.string().regex(/^data:(application\/pdf|image\/png|image\/jpeg);base64,/, "Upload a PDF, PNG or JPEG"),
+});
+
+export const identityReviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().trim().max(1000).optional(),
+}).refine(data => data.decision === 'approve' || !!data.note, {
+  message: "Tell the founder why the ID was rejected",
+  path: ["note"],
+});
+
+// What the verification provider concluded; the owner still makes the final call
+export interface IdentityCheckResult {
+  provider: string;
+  outcome: 'clear' | 'consider';
+  checks: { name: string; passed: boolean; detail?: string }[];
+  checkedAt: string;
+}
+
+export type IdentityVerificationStatus = typeof identityVerificationStatusEnum.enumValues[number];
+export type IdentityDocumentKind = typeof identityDocumentKindEnum.enumValues[number];
+export type InsertIdentityVerification = z.infer<typeof insertIdentityVerificationSchema>;
+export type IdentityVerification = typeof identityVerifications.$inferSelect;
+export type IdentityUploadInput = z.infer<typeof identityUploadSchema>;
+export type IdentityReviewInput = z.infer<typeof identityReviewSchema>;
+// Verifications as listed to the owner: the token hash never leaves the server
+export type IdentityVerificationSummary = Omit<IdentityVerification, 'tokenHash'>;
+
+// What the public upload page shows for a magic link
+export interface IdentityUploadRequest {
+  founderName: string;
+  companyName: string;
+  status: IdentityVerificationStatus;
+  reviewNote: string | null;
+  expiresAt: string | null;
+}
 
 // ============================================================================
 // INVESTOR TABLES
@@ -163,6 +479,7 @@ export const investorsRelations = relations(investors, ({ one, many }) => ({
     fields: [investors.safeDocumentId],
     references: [documents.id],
   }),
+  safeTerms: one(safeTerms),
   signatures: many(documentSignatures),
 }));
 
@@ -175,6 +492,49 @@ export const insertInvestorSchema = createInsertSchema(investors).omit({
 export type InsertInvestor = z.infer<typeof insertInvestorSchema>;
 export type Investor = typeof investors.$inferSelect;
 
+// Economic terms of an investor's SAFE (or BSA AIR); drafted into the document and checked on validation
+export const safeTerms = pgTable("safe_terms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  investorId: varchar("investor_id").notNull().unique().references(() => investors.id, { onDelete: 'cascade' }),
+  safeType: safeTypeEnum("safe_type").notNull().default('post_money'),
+  valuationCap: integer("valuation_cap"), // whole currency units; null means uncapped
+  discountRate: integer("discount_rate"), // percent off the round price, e.g. 20; null means no discount
+  mfn: boolean("mfn").notNull().default(false),
+  proRata: boolean("pro_rata").notNull().default(false), // pro-rata participation granted by side letter
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const safeTermsRelations = relations(safeTerms, ({ one }) => ({
+  investor: one(investors, {
+    fields: [safeTerms.investorId],
+    references: [investors.id],
+  }),
+}));
+
+export const insertSafeTermsSchema = createInsertSchema(safeTerms).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Terms as entered in the Add Investor dialog; a SAFE needs at least one economic term
+export const safeTermsInputSchema = insertSafeTermsSchema.omit({ investorId: true }).extend({
+  valuationCap: z.number().int().positive("Valuation cap must be greater than 0").nullable().optional(),
+  discountRate: z.number().int().min(1, "Discount must be at least 1%").max(99, "Discount must be below 100%").nullable().optional(),
+}).refine(terms => !!terms.valuationCap || !!terms.discountRate || !!terms.mfn, {
+  message: "Set a valuation cap, a discount or MFN",
+  path: ['valuationCap'],
+});
+
+export type InsertSafeTerms = z.infer<typeof insertSafeTermsSchema>;
+export type SafeTerms = typeof safeTerms.$inferSelect;
+export type SafeType = typeof safeTypeEnum.enumValues[number];
+export type SafeTermsInput = z.infer<typeof safeTermsInputSchema>;
+
+// An investor as listed on the Investors page
+export type InvestorWithTerms = Investor & { safeTerms: SafeTerms | null };
+
 // ============================================================================
 // DOCUMENT TABLES
 // ============================================================================
@@ -186,8 +546,10 @@ export const documents = pgTable("documents", {
   title: varchar("title", { length: 255 }).notNull(),
   status: documentStatusEnum("status").default('drafting'),
   content: text("content"),
-  validationErrors: jsonb("validation_errors"),
+  validationErrors: jsonb("validation_errors").$type<ValidationReport>(),
   qdrantPointId: varchar("qdrant_point_id"),
+  templateId: varchar("template_id", { length: 100 }),
+  templateVersion: integer("template_version"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   activatedAt: timestamp("activated_at"),
@@ -199,9 +561,34 @@ export const documentsRelations = relations(documents, ({ one, many }) => ({
     references: [companies.id],
   }),
   signatures: many(documentSignatures),
+  versions: many(documentVersions),
+  comments: many(documentComments),
 }));
 
-export const insertDocumentSchema = createInsertSchema(documents).omit({
+// Structured findings from document validation, stored in documents.validationErrors
+export const validationFindingSchema = z.object({
+  severity: z.enum(['blocker', 'warning', 'suggestion']),
+  category: z.enum(['missing_clause', 'inconsistency', 'jurisdiction_compliance', 'best_practice']),
+  message: z.string(),
+  quote: z.string().optional(),
+  suggestedFix: z.string().optional(),
+  source: z.enum(['ai', 'rules']).optional(),
+});
+
+export const validationReportSchema = z.object({
+  valid: z.boolean(),
+  findings: z.array(validationFindingSchema),
+  validatedAt: z.string(),
+});
+
+export type ValidationFinding = z.infer<typeof validationFindingSchema>;
+export type ValidationSeverity = ValidationFinding['severity'];
+export type ValidationCategory = ValidationFinding['category'];
+export type ValidationReport = z.infer<typeof validationReportSchema>;
+
+export const insertDocumentSchema = createInsertSchema(documents, {
+  validationErrors: validationReportSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -210,6 +597,149 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
 
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type DocumentType = typeof documentTypeEnum.enumValues[number];
+export type DocumentStatus = typeof documentStatusEnum.enumValues[number];
+
+// Error body returned when a document lifecycle rule rejects a change
+export type DocumentLifecycleErrorCode = 'invalid_transition' | 'content_locked' | 'validation_blocked' | 'conflict';
+
+export interface DocumentLifecycleErrorResponse {
+  message: string;
+  code: DocumentLifecycleErrorCode;
+  from: DocumentStatus;
+  to?: DocumentStatus;
+}
+
+// Typed placeholders used by the document template library
+export type TemplateVariableType = 'text' | 'currency' | 'percentage' | 'date' | 'number';
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+  required: boolean;
+  defaultValue?: string;
+}
+
+// Error body returned when a template cannot be filled from company data
+export interface MissingVariablesResponse {
+  message: string;
+  templateId: string;
+  missingVariables: TemplateVariable[];
+}
+
+// ============================================================================
+// DRAFTING SESSION TABLES
+// ============================================================================
+
+// Persisted state of an interactive drafting conversation, so it can be resumed later
+export const draftingSessions = pgTable("drafting_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  documentType: documentTypeEnum("document_type").notNull(),
+  investorId: varchar("investor_id").references(() => investors.id, { onDelete: 'set null' }),
+  status: draftingSessionStatusEnum("status").default('collecting'),
+  answers: jsonb("answers").$type<Record<string, string>>().default({}),
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const draftingSessionsRelations = relations(draftingSessions, ({ one }) => ({
+  company: one(companies, {
+    fields: [draftingSessions.companyId],
+    references: [companies.id],
+  }),
+  document: one(documents, {
+    fields: [draftingSessions.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const insertDraftingSessionSchema = createInsertSchema(draftingSessions, {
+  answers: z.record(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertDraftingSession = z.infer<typeof insertDraftingSessionSchema>;
+export type DraftingSession = typeof draftingSessions.$inferSelect;
+
+// An open question the drafting agent needs answered before it can draft
+export interface DraftingQuestion extends TemplateVariable {
+  question: string;
+  hint?: string;
+}
+
+// ============================================================================
+// DOCUMENT VERSION TABLES
+// ============================================================================
+
+export const documentVersions = pgTable("document_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  versionNumber: integer("version_number").notNull(),
+  content: text("content").notNull(),
+  reason: documentVersionReasonEnum("reason").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: 'set null' }),
+  restoredFromId: varchar("restored_from_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_document_versions_document").on(table.documentId, table.versionNumber)]);
+
+export const documentVersionsRelations = relations(documentVersions, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentVersions.documentId],
+    references: [documents.id],
+  }),
+  author: one(users, {
+    fields: [documentVersions.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type DocumentVersionReason = typeof documentVersionReasonEnum.enumValues[number];
+
+// One entry in a diff between two document versions
+export interface DocumentDiffEntry {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// ============================================================================
+// ACTIVATION HOOK TABLES
+// ============================================================================
+
+// One row per (document, hook) so re-running activation skips completed hooks
+export const activationHookRuns = pgTable("activation_hook_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  hookName: varchar("hook_name", { length: 100 }).notNull(),
+  status: hookRunStatusEnum("status").notNull(),
+  summary: text("summary"),
+  error: text("error"),
+  attempts: integer("attempts").default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_activation_hook_runs_document_hook").on(table.documentId, table.hookName)]);
+
+export const insertActivationHookRunSchema = createInsertSchema(activationHookRuns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertActivationHookRun = z.infer<typeof insertActivationHookRunSchema>;
+export type ActivationHookRun = typeof activationHookRuns.$inferSelect;
 
 // ============================================================================
 // DOCUMENT SIGNATURE TABLES
@@ -221,13 +751,27 @@ export const documentSignatures = pgTable("document_signatures", {
   signerId: varchar("signer_id").notNull(),
   signerEmail: varchar("signer_email", { length: 255 }).notNull(),
   signerType: varchar("signer_type", { length: 50 }).notNull(), // 'founder' | 'investor'
+  role: varchar("role", { length: 50 }).default('signer'), // SignerRole
+  signingOrder: integer("signing_order").notNull().default(1), // lower orders sign first; equal orders sign in parallel
+  packetId: varchar("packet_id").references(() => signaturePackets.id, { onDelete: 'set null' }), // signed through the packet's link instead of its own
+  hostSessionId: varchar("host_session_id").references(() => hostSigningSessions.id, { onDelete: 'set null' }), // signed in person on the host's device instead of by email
   status: signatureStatusEnum("status").default('pending'),
-  magicToken: varchar("magic_token", { length: 255 }),
+  tokenHash: varchar("token_hash", { length: 64 }).unique(), // SHA-256 of the emailed magic token; the token itself is never stored
+  tokenExpiresAt: timestamp("token_expires_at"),
+  revokedAt: timestamp("revoked_at"),
   signedAt: timestamp("signed_at"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the content the signer saw
+  signatureMethod: varchar("signature_method", { length: 20 }), // 'typed' | 'drawn'
+  signatureData: text("signature_data"), // typed name or PNG data URL of the drawn signature
+  declineReason: text("decline_reason"),
+  declinedAt: timestamp("declined_at"),
+  voidedAt: timestamp("voided_at"), // set when the document went back to drafting; kept for the audit trail only
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const documentSignaturesRelations = relations(documentSignatures, ({ one }) => ({
+export const documentSignaturesRelations = relations(documentSignatures, ({ one, many }) => ({
   document: one(documents, {
     fields: [documentSignatures.documentId],
     references: [documents.id],
@@ -240,17 +784,391 @@ export const documentSignaturesRelations = relations(documentSignatures, ({ one
     fields: [documentSignatures.signerId],
     references: [investors.id],
   }),
+  events: many(signatureEvents),
+  packet: one(signaturePackets, {
+    fields: [documentSignatures.packetId],
+    references: [signaturePackets.id],
+  }),
+  hostSession: one(hostSigningSessions, {
+    fields: [documentSignatures.hostSessionId],
+    references: [hostSigningSessions.id],
+  }),
 }));
 
 export const insertDocumentSignatureSchema = createInsertSchema(documentSignatures).omit({
   id: true,
   createdAt: true,
   signedAt: true,
+  declinedAt: true,
+  voidedAt: true,
 });
 
 export type InsertDocumentSignature = z.infer<typeof insertDocumentSignatureSchema>;
 export type DocumentSignature = typeof documentSignatures.$inferSelect;
 
+// The capacity a person signs in; drives routing order per document type
+export const signerRoles = ['investor', 'founder', 'assignor', 'director', 'incorporator', 'officer', 'signer'] as const;
+export type SignerRole = typeof signerRoles[number];
+
+export const plannedSignerSchema = z.object({
+  email: z.string().email(),
+  name: z.string(),
+  signerId: z.string(),
+  signerType: z.enum(['founder', 'investor']),
+  role: z.enum(signerRoles).default('signer'),
+  signingOrder: z.number().int().min(1).default(1),
+});
+
+// A signer as routed for a document, before any signature request exists
+export type PlannedSigner = z.infer<typeof plannedSignerSchema>;
+
+// What the public signing page submits
+export const signatureSubmissionSchema = z.object({
+  method: z.enum(['typed', 'drawn']),
+  // Typed full name, or a PNG data URL from the signature pad (kept under the JSON body limit)
+  signature: z.string().trim().min(1, "A signature is required").max(90000, "Signature image is too large"),
+  consent: z.literal(true, { errorMap: () => ({ message: "You must agree to sign electronically" }) }),
+}).refine(
+  (data) => data.method === 'typed' || data.signature.startsWith('data:image/png;base64,'),
+  { message: "Drawn signatures must be a PNG image", path: ['signature'] }
+);
+
+export const signatureDeclineSchema = z.object({
+  reason: z.string().trim().min(1, "Please tell the sender why you are declining").max(2000),
+});
+
+export type SignatureSubmission = z.infer<typeof signatureSubmissionSchema>;
+
+// Why a magic link can't be used, so the signing page can explain it
+export type SigningTokenErrorCode = 'not_found' | 'expired' | 'revoked' | 'used';
+
+export interface SigningTokenErrorResponse {
+  message: string;
+  code: SigningTokenErrorCode;
+}
+
+// Public view of a signature request, as returned to the signing page
+export interface SigningRequest {
+  signature: DocumentSignature;
+  document: Document | undefined;
+}
+
+// Append-only log of everything that happened to a signature request
+export const signatureEvents = pgTable("signature_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  signatureId: varchar("signature_id").notNull().references(() => documentSignatures.id, { onDelete: 'cascade' }),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  type: signatureEventTypeEnum("type").notNull(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_signature_events_document").on(table.documentId, table.createdAt)]);
+
+export const signatureEventsRelations = relations(signatureEvents, ({ one }) => ({
+  signature: one(documentSignatures, {
+    fields: [signatureEvents.signatureId],
+    references: [documentSignatures.id],
+  }),
+  document: one(documents, {
+    fields: [signatureEvents.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const insertSignatureEventSchema = createInsertSchema(signatureEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertSignatureEvent = z.infer<typeof insertSignatureEventSchema>;
+export type SignatureEvent = typeof signatureEvents.$inferSelect;
+export type SignatureEventType = typeof signatureEventTypeEnum.enumValues[number];
+
+// Signer snapshot frozen into a certificate of completion
+export interface CertificateSigner {
+  name: string;
+  email: string;
+  role: string;
+  signedAt: string | null;
+  ipAddress: string | null;
+  contentHash: string | null;
+}
+
+// Issued once per activated document; the hash lets anyone check the stored content is unchanged
+export const documentCertificates = pgTable("document_certificates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().unique().references(() => documents.id, { onDelete: 'cascade' }),
+  contentHash: varchar("content_hash", { length: 64 }).notNull(),
+  signers: jsonb("signers").$type<CertificateSigner[]>().notNull(),
+  issuedAt: timestamp("issued_at").defaultNow(),
+});
+
+export const insertDocumentCertificateSchema = createInsertSchema(documentCertificates, {
+  signers: z.array(z.object({
+    name: z.string(),
+    email: z.string(),
+    role: z.string(),
+    signedAt: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    contentHash: z.string().nullable(),
+  })),
+}).omit({
+  id: true,
+  issuedAt: true,
+});
+
+export type InsertDocumentCertificate = z.infer<typeof insertDocumentCertificateSchema>;
+export type DocumentCertificate = typeof documentCertificates.$inferSelect;
+
+// Result of checking a certificate against the stored document
+export interface CertificateVerification {
+  certificate: DocumentCertificate;
+  documentTitle: string;
+  currentHash: string | null;
+  intact: boolean;
+  signaturesMatch: boolean;
+}
+
+// What anyone holding a certificate link may see: the hash check, without signer emails or IPs
+export interface PublicCertificateVerification {
+  documentTitle: string;
+  contentHash: string;
+  issuedAt: Date | null;
+  intact: boolean;
+  signaturesMatch: boolean;
+  signers: Pick<CertificateSigner, 'name' | 'signedAt'>[];
+}
+
+// ============================================================================
+// SIGNATURE PACKET TABLES
+// ============================================================================
+
+// One envelope for several documents that are signed together, e.g. an incorporation pack
+export const signaturePackets = pgTable("signature_packets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  title: varchar("title", { length: 255 }).notNull(),
+  status: signaturePacketStatusEnum("status").notNull().default('signing'),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Each person in a packet gets one magic link covering every document they sign in it
+export const packetSigners = pgTable("packet_signers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  packetId: varchar("packet_id").notNull().references(() => signaturePackets.id, { onDelete: 'cascade' }),
+  signerId: varchar("signer_id").notNull(),
+  signerType: varchar("signer_type", { length: 50 }).notNull(), // 'founder' | 'investor'
+  signerEmail: varchar("signer_email", { length: 255 }).notNull(),
+  signerName: varchar("signer_name", { length: 255 }),
+  tokenHash: varchar("token_hash", { length: 64 }).unique(), // SHA-256 of the emailed packet token
+  tokenExpiresAt: timestamp("token_expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  notifiedAt: timestamp("notified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const signaturePacketsRelations = relations(signaturePackets, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [signaturePackets.companyId],
+    references: [companies.id],
+  }),
+  signers: many(packetSigners),
+  signatures: many(documentSignatures),
+}));
+
+export const packetSignersRelations = relations(packetSigners, ({ one }) => ({
+  packet: one(signaturePackets, {
+    fields: [packetSigners.packetId],
+    references: [signaturePackets.id],
+  }),
+}));
+
+export const insertSignaturePacketSchema = createInsertSchema(signaturePackets).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertPacketSignerSchema = createInsertSchema(packetSigners).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertSignaturePacket = z.infer<typeof insertSignaturePacketSchema>;
+export type SignaturePacket = typeof signaturePackets.$inferSelect;
+export type InsertPacketSigner = z.infer<typeof insertPacketSignerSchema>;
+export type PacketSigner = typeof packetSigners.$inferSelect;
+
+export const signaturePacketCreateSchema = z.object({
+  documentIds: z.array(z.string()).min(2, "A packet needs at least two documents"),
+  title: z.string().trim().min(1).max(255).optional(),
+});
+
+// Which signature in the packet a signer is acting on
+export const packetItemSchema = z.object({
+  signatureId: z.string(),
+});
+
+// Where one of a signer's packet documents stands from their point of view
+export type PacketItemState = 'ready' | 'waiting' | 'signed' | 'declined' | 'closed';
+
+export interface PacketSigningItem {
+  signature: DocumentSignature;
+  document: Document;
+  state: PacketItemState;
+}
+
+// Public view of a packet, as returned to the packet signing page
+export interface PacketSigningRequest {
+  packet: SignaturePacket;
+  signer: { name: string; email: string };
+  items: PacketSigningItem[];
+}
+
+export interface SignaturePacketSummary {
+  packet: SignaturePacket;
+  documents: { id: string; title: string; status: DocumentStatus }[];
+  signers: { name: string; email: string; signed: number; total: number }[];
+}
+
+// In-person signing: the company owner hosts a session and founders sign in turn on one device
+export const hostSigningSessions = pgTable("host_signing_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  hostUserId: varchar("host_user_id").notNull().references(() => users.id),
+  status: hostSigningStatusEnum("status").notNull().default('active'),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time codes emailed to a founder to confirm it is them at the host's device
+export const signingCodes = pgTable("signing_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => hostSigningSessions.id, { onDelete: 'cascade' }),
+  signatureId: varchar("signature_id").notNull().references(() => documentSignatures.id, { onDelete: 'cascade' }),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(), // SHA-256 of the code; the code itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  verifiedAt: timestamp("verified_at"),
+  usedAt: timestamp("used_at"), // consumed by the signature or decline it unlocked
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_signing_codes_signature").on(table.signatureId),
+]);
+
+export const hostSigningSessionsRelations = relations(hostSigningSessions, ({ one, many }) => ({
+  document: one(documents, {
+    fields: [hostSigningSessions.documentId],
+    references: [documents.id],
+  }),
+  host: one(users, {
+    fields: [hostSigningSessions.hostUserId],
+    references: [users.id],
+  }),
+  signatures: many(documentSignatures),
+  codes: many(signingCodes),
+}));
+
+export const signingCodesRelations = relations(signingCodes, ({ one }) => ({
+  session: one(hostSigningSessions, {
+    fields: [signingCodes.sessionId],
+    references: [hostSigningSessions.id],
+  }),
+  signature: one(documentSignatures, {
+    fields: [signingCodes.signatureId],
+    references: [documentSignatures.id],
+  }),
+}));
+
+export const insertHostSigningSessionSchema = createInsertSchema(hostSigningSessions).omit({
+  id: true,
+  createdAt: true,
+  endedAt: true,
+});
+
+export const insertSigningCodeSchema = createInsertSchema(signingCodes).omit({
+  id: true,
+  createdAt: true,
+  verifiedAt: true,
+  usedAt: true,
+});
+
+export type InsertHostSigningSession = z.infer<typeof insertHostSigningSessionSchema>;
+export type HostSigningSession = typeof hostSigningSessions.$inferSelect;
+export type HostSigningStatus = typeof hostSigningStatusEnum.enumValues[number];
+export type InsertSigningCode = z.infer<typeof insertSigningCodeSchema>;
+export type SigningCode = typeof signingCodes.$inferSelect;
+
+export const signingCodeVerifySchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+
+// One founder's turn in a host session
+export interface HostSigningTurn {
+  signature: DocumentSignature;
+  name: string;
+  email: string;
+  state: PacketItemState;
+  verified: boolean; // has an unused, confirmed code and may sign now
+}
+
+// The host device's view of a session, as returned to the in-person signing page
+export interface HostSigningView {
+  session: HostSigningSession;
+  document: Document;
+  turns: HostSigningTurn[];
+}
+
+// ============================================================================
+// DOCUMENT COMMENT TABLES
+// ============================================================================
+
+// Feedback on a document, such as a signer's reason for declining, that a revision should address
+export const documentComments = pgTable("document_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  signatureId: varchar("signature_id").references(() => documentSignatures.id, { onDelete: 'set null' }),
+  kind: documentCommentKindEnum("kind").notNull().default('note'),
+  authorName: varchar("author_name", { length: 255 }),
+  authorEmail: varchar("author_email", { length: 255 }),
+  body: text("body").notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_document_comments_document").on(table.documentId, table.createdAt)]);
+
+export const documentCommentsRelations = relations(documentComments, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentComments.documentId],
+    references: [documents.id],
+  }),
+  signature: one(documentSignatures, {
+    fields: [documentComments.signatureId],
+    references: [documentSignatures.id],
+  }),
+}));
+
+export const insertDocumentCommentSchema = createInsertSchema(documentComments).omit({
+  id: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+export type InsertDocumentComment = z.infer<typeof insertDocumentCommentSchema>;
+export type DocumentComment = typeof documentComments.$inferSelect;
+
+// An AI-drafted revision of the whole document that addresses one comment
+export interface DocumentRevisionProposal {
+  commentId: string;
+  content: string;
+  summary: string;
+}
+
+export const applyRevisionSchema = z.object({
+  content: z.string().min(1, "Revised content is required"),
+});
+
 // ============================================================================
 // TASK TABLES
 // ============================================================================
@@ -261,6 +1179,7 @@ export const tasks = pgTable("tasks", {
   description: text("description").notNull(),
   category: varchar("category", { length: 100 }),
   assigneeId: varchar("assignee_id"),
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: 'set null' }),
   status: taskStatusEnum("status").default('pending'),
   dueDate: timestamp("due_date"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -276,6 +1195,10 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
     fields: [tasks.assigneeId],
     references: [founders.id],
   }),
+  document: one(documents, {
+    fields: [tasks.documentId],
+    references: [documents.id],
+  }),
 }));
 
 export const insertTaskSchema = createInsertSchema(tasks).omit({
@@ -291,11 +1214,12 @@ export type Task = typeof tasks.$inferSelect;
 // CAP TABLE TABLES
 // ============================================================================
 
+// Legacy hand-entered rows; imported into the equity ledger once and no longer written
 export const capTableEntries = pgTable("cap_table_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
   holderId: varchar("holder_id").notNull(),
-  holderType: varchar("holder_type", { length: 50 }).notNull(), // 'founder' | 'investor'
+  holderType: varchar("holder_type", { length: 50 }).notNull(), // 'founder' | 'investor' | 'option_pool'
   holderName: varchar("holder_name", { length: 255 }).notNull(),
   shares: integer("shares").notNull(),
   percentage: integer("percentage").notNull(),
@@ -310,14 +1234,292 @@ export const capTableEntriesRelations = relations(capTableEntries, ({ one }) =>
   }),
 }));
 
-export const insertCapTableEntrySchema = createInsertSchema(capTableEntries).omit({
+export type CapTableEntry = typeof capTableEntries.$inferSelect;
+
+// Common stock, a preferred series, or an option plan; options classes reserve the pool
+export const shareClasses = pgTable("share_classes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(), // e.g. "Common Stock", "Series Seed Preferred", "2025 Equity Incentive Plan"
+  kind: shareClassKindEnum("kind").notNull(),
+  authorizedShares: integer("authorized_shares").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_share_classes_company_name").on(table.companyId, table.name)]);
+
+// Append-only equity ledger; holdings are derived by replaying it in effective date order
+export const equityEvents = pgTable("equity_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  shareClassId: varchar("share_class_id").notNull().references(() => shareClasses.id),
+  type: equityEventTypeEnum("type").notNull(),
+  // Receives the shares on issuance; gives them up on transfer, cancellation and repurchase
+  holderType: varchar("holder_type", { length: 50 }).notNull(), // 'founder' | 'investor' | 'other'
+  holderId: varchar("holder_id"), // Founder or investor id; null for other holders, who are keyed by name
+  holderName: varchar("holder_name", { length: 255 }).notNull(),
+  // Transfers only
+  toHolderType: varchar("to_holder_type", { length: 50 }),
+  toHolderId: varchar("to_holder_id"),
+  toHolderName: varchar("to_holder_name", { length: 255 }),
+  shares: integer("shares").notNull(),
+  pricePerShare: numeric("price_per_share", { precision: 18, scale: 6 }),
+  // New certificate for issuances and transfers; the certificate given up for cancellations and repurchases
+  certificateNumber: varchar("certificate_number", { length: 50 }),
+  effectiveDate: date("effective_date").notNull(),
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: 'set null' }),
+  note: text("note"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_equity_events_company").on(table.companyId, table.effectiveDate)]);
+
+export const shareClassesRelations = relations(shareClasses, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [shareClasses.companyId],
+    references: [companies.id],
+  }),
+  events: many(equityEvents),
+}));
+
+export const equityEventsRelations = relations(equityEvents, ({ one }) => ({
+  company: one(companies, {
+    fields: [equityEvents.companyId],
+    references: [companies.id],
+  }),
+  shareClass: one(shareClasses, {
+    fields: [equityEvents.shareClassId],
+    references: [shareClasses.id],
+  }),
+  document: one(documents, {
+    fields: [equityEvents.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const insertShareClassSchema = createInsertSchema(shareClasses, {
+  name: z.string().trim().min(1, "Name the share class").max(255),
+  authorizedShares: z.number().int().positive("Authorized shares must be greater than 0"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const shareClassUpdateSchema = insertShareClassSchema.pick({ authorizedShares: true });
+
+export const insertEquityEventSchema = createInsertSchema(equityEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const equityHolderSchema = z.object({
+  holderType: z.enum(['founder', 'investor', 'other']),
+  holderId: z.string().optional(), // Required for founders and investors
+  holderName: z.string().trim().max(255).optional(), // Required for other holders
+}).refine(holder => holder.holderType === 'other' ? !!holder.holderName : !!holder.holderId, {
+  message: "Pick a founder or investor, or name the holder",
+});
+
+export const equityEventInputSchema = z.object({
+  shareClassId: z.string().min(1, "Pick a share class"),
+  type: z.enum(equityEventTypeEnum.enumValues),
+  holder: equityHolderSchema,
+  toHolder: equityHolderSchema.optional(),
+  shares: z.number().int().positive("Shares must be greater than 0"),
+  pricePerShare: z.string().regex(/^\d+(\.\d{1,6})?$/, "Enter a price like 0.0001").optional(),
+  certificateNumber: z.string().trim().min(1).max(50).optional(), // Generated for issuances and transfers when left blank
+  effectiveDate: isoDate,
+  documentId: z.string().optional(),
+  note: z.string().trim().max(2000).optional(),
+}).refine(event => event.type !== 'transfer' || !!event.toHolder, {
+  message: "A transfer needs a recipient",
+  path: ["toHolder"],
+});
+
+export type ShareClassKind = typeof shareClassKindEnum.enumValues[number];
+export type EquityEventType = typeof equityEventTypeEnum.enumValues[number];
+export type InsertShareClass = z.infer<typeof insertShareClassSchema>;
+export type ShareClass = typeof shareClasses.$inferSelect;
+export type InsertEquityEvent = z.infer<typeof insertEquityEventSchema>;
+export type EquityEvent = typeof equityEvents.$inferSelect;
+export type EquityHolder = z.infer<typeof equityHolderSchema>;
+export type EquityEventInput = z.infer<typeof equityEventInputSchema>;
+
+// One holder's position in one class, as derived from the ledger
+export interface CapTableHolding {
+  holderType: string; // 'founder' | 'investor' | 'other', or 'option_pool' for unallocated options
+  holderId: string | null;
+  holderName: string;
+  shareClassId: string;
+  shareClassName: string;
+  kind: ShareClassKind;
+  shares: number;
+  percentage: number; // Fully diluted, two decimals
+}
+
+export interface ShareClassSummary extends ShareClass {
+  issuedShares: number; // Granted, for options classes
+  availableShares: number;
+}
+
+export interface CapTable {
+  shareClasses: ShareClassSummary[];
+  holdings: CapTableHolding[];
+  outstandingShares: number; // Issued common and preferred
+  fullyDilutedShares: number; // Outstanding plus granted options and the unallocated pool
+}
+
+// ============================================================================
+// 83(B) ELECTIONS
+// ============================================================================
+
+// A US founder's election to be taxed on restricted stock when it is issued rather than as it vests
+export const elections83b = pgTable("elections_83b", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  founderId: varchar("founder_id").notNull().references(() => founders.id, { onDelete: 'cascade' }),
+  equityEventId: varchar("equity_event_id").notNull().unique().references(() => equityEvents.id, { onDelete: 'cascade' }),
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: 'set null' }),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: 'set null' }),
+  shares: integer("shares").notNull(),
+  transferDate: date("transfer_date").notNull(),
+  deadline: date("deadline").notNull(), // The IRS must receive or postmark the election within 30 days of the transfer
+  status: election83bStatusEnum("status").notNull().default('pending'),
+  mailedOn: date("mailed_on"),
+  trackingNumber: varchar("tracking_number", { length: 100 }),
+  proofFileName: varchar("proof_file_name", { length: 255 }),
+  proofFileKey: varchar("proof_file_key", { length: 255 }), // Receipt or certified mail slip, encrypted in the file store
+  proofMimeType: varchar("proof_mime_type", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_elections_83b_company").on(table.companyId)]);
+
+export const elections83bRelations = relations(elections83b, ({ one }) => ({
+  company: one(companies, {
+    fields: [elections83b.companyId],
+    references: [companies.id],
+  }),
+  founder: one(founders, {
+    fields: [elections83b.founderId],
+    references: [founders.id],
+  }),
+  equityEvent: one(equityEvents, {
+    fields: [elections83b.equityEventId],
+    references: [equityEvents.id],
+  }),
+  document: one(documents, {
+    fields: [elections83b.documentId],
+    references: [documents.id],
+  }),
+  task: one(tasks, {
+    fields: [elections83b.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const insertElection83bSchema = createInsertSchema(elections83b).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export type InsertCapTableEntry = z.infer<typeof insertCapTableEntrySchema>;
-export type CapTableEntry = typeof capTableEntries.$inferSelect;
+// Proof of mailing is required: the IRS does not acknowledge receipt on its own
+export const election83bMailedSchema = z.object({
+  mailedOn: isoDate,
+  trackingNumber: z.string().trim().max(100).optional(),
+  proof: z.object({
+    fileName: z.string().trim().min(1).max(255),
+    dataUrl: z.string().regex(/^data:(application\/pdf|image\/png|image\/jpeg);base64,/, "Attach a PDF, PNG or JPEG"),
+  }),
+});
+
+export type Election83bStatus = typeof election83bStatusEnum.enumValues[number];
+export type InsertElection83b = z.infer<typeof insertElection83bSchema>;
+export type Election83b = typeof elections83b.$inferSelect;
+export type Election83bMailedInput = z.infer<typeof election83bMailedSchema>;
+// Elections as listed: where the proof file is stored stays on the server
+export type Election83bSummary = Omit<Election83b, 'proofFileKey'>;
+
+// ============================================================================
+// ROUND MODELING
+// ============================================================================
+
+// What-if inputs for a priced round; amounts are whole currency units
+export const roundModelInputSchema = z.object({
+  preMoneyValuation: z.number().positive("Pre-money valuation must be greater than 0"),
+  newMoney: z.number().positive("New money must be greater than 0"),
+  // Unallocated option pool after the round, as a percentage of the post-money fully diluted shares
+  optionPoolPercent: z.number().min(0).max(50, "Option pool cannot exceed 50%").default(0),
+});
+
+export type RoundModelInput = z.infer<typeof roundModelInputSchema>;
+
+// Which price a SAFE converted at: the lowest of these wins
+export type SafeConversionBasis = 'valuation_cap' | 'discount' | 'round_price';
+
+export interface ConvertedSafe {
+  investorId: string;
+  investorName: string;
+  amount: number;
+  safeType: SafeType;
+  valuationCap: number | null;
+  discountRate: number | null;
+  conversionPrice: number;
+  basis: SafeConversionBasis;
+  shares: number;
+}
+
+export interface ModeledHolding {
+  holderName: string;
+  holderType: string; // 'founder' | 'investor' | 'option_pool' | 'safe' | 'new_money'
+  sharesBefore: number;
+  sharesAfter: number;
+  ownershipBefore: number; // percent of fully diluted
+  ownershipAfter: number;
+}
+
+export interface RoundModelResult {
+  inputs: RoundModelInput;
+  pricePerShare: number;
+  postMoneyValuation: number;
+  existingShares: number;
+  poolTopUpShares: number;
+  safeShares: number;
+  newMoneyShares: number;
+  fullyDilutedShares: number;
+  safes: ConvertedSafe[];
+  capTable: ModeledHolding[];
+  warnings: string[];
+}
+
+// A saved what-if, kept with the result as computed when it was saved
+export const roundScenarios = pgTable("round_scenarios", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(),
+  inputs: jsonb("inputs").$type<RoundModelInput>().notNull(),
+  result: jsonb("result").$type<RoundModelResult>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const roundScenariosRelations = relations(roundScenarios, ({ one }) => ({
+  company: one(companies, {
+    fields: [roundScenarios.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const insertRoundScenarioSchema = createInsertSchema(roundScenarios, {
+  inputs: roundModelInputSchema,
+  result: z.custom<RoundModelResult>(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const roundScenarioCreateSchema = roundModelInputSchema.extend({
+  name: z.string().trim().min(1, "Name the scenario").max(255),
+});
+
+export type InsertRoundScenario = z.infer<typeof insertRoundScenarioSchema>;
+export type RoundScenario = typeof roundScenarios.$inferSelect;
 
 // ============================================================================
 // CHAT MESSAGE TABLES (for AI conversations)
@@ -346,3 +1548,46 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
 
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
+
+// ============================================================================
+// JOB TABLES (background scheduler)
+// ============================================================================
+
+// Durable queue for the in-process scheduler; rows outlive restarts
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().default({}),
+  status: jobStatusEnum("status").notNull().default('pending'),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  result: text("result"), // handler summary from the last successful run
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  uniqueKey: varchar("unique_key", { length: 200 }).unique(), // e.g. "signature_reminders@2026-01-05T09:00:00.000Z" so each slot runs once
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_jobs_status_run_at").on(table.status, table.runAt)]);
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  payload: z.record(z.unknown()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type JobStatus = Job['status'];
+
+// Snapshot served by the admin status endpoint
+export interface JobSchedulerStatus {
+  running: boolean;
+  schedules: { name: string; intervalMs: number; nextRunAt: string }[];
+  counts: Record<JobStatus, number>;
+  recent: Job[];
+  failed: Job[];
+}